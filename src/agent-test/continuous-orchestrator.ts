@@ -1,43 +1,70 @@
-import { readFile } from "fs/promises";
 import type {
   HarborBehavior,
   BehaviorContext,
+  BehaviorOverride,
   BehaviorRunner,
   VerificationSummary,
   ExampleResult,
-} from "../shared/types";
-import { parseHarborBehaviorsWithDependencies } from "../shared/index";
-import { VerificationContext } from "../shared/verification-context";
+  ScenarioContext,
+  SpecExample,
+  VerifyOptions,
+  RouteHistory,
+} from "../shared/types.js";
+import { loadBehaviors } from "../shared/index.js";
+import { VerificationContext } from "../shared/verification-context.js";
 import {
   CredentialTracker,
   processStepsWithCredentials,
-} from "../shared/credential-tracker";
-import { createVerificationSummary } from "../shared/summary";
+} from "../shared/credential-tracker.js";
+import { aggregateScenarioResults, createVerificationSummary, notRunResult, toScenarioRecord } from "../shared/summary.js";
 import {
   isAuthBehavior,
   withTimeout,
   DEFAULT_BEHAVIOR_TIMEOUT_MS,
   AUTH_ORDER,
-} from "../shared/auth-orchestrator";
-import { topologicalSort } from "../shared/topological-sort";
+} from "../shared/auth-orchestrator.js";
+import { topologicalSort, buildTransitiveDependentsMap } from "../shared/topological-sort.js";
+import { withRuleChecks } from "../shared/rule-coverage.js";
+import { selectBehaviors } from "../shared/selection.js";
+import { selectAffectedBehaviors } from "../shared/impact.js";
+import { behaviorTimeoutFor, retryFailedBehavior } from "../shared/behavior-overrides.js";
+import { emptyRouteHistory, recordRouteHistory, resolvePagePath } from "../shared/route-params.js";
+import { resolveReporters, writeVerificationReports } from "../shared/reporters.js";
+import { defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
 
 // ── MAIN ORCHESTRATOR ──────────────────────────────────────────────────
 
 /**
  * Verify all behaviors in a continuous single-session flow.
  *
- * Parses → topologically sorts → auth first → non-auth in order → cascade skips.
- * Exactly N runExample() calls for N behaviors (no re-execution).
+ * Loads (instruction.md or spec directory) → topologically sorts → auth first →
+ * non-auth in order → cascade skips.
+ * runExample() runs once per scenario, and again for each retry of a failing behavior;
+ * dependency chains are never re-run: each behavior continues from the session its
+ * dependencies left.
+ * Captured variables and visited URLs carry over through the session and fill
+ * parameterized page paths (`/tickets/:id`).
+ * `options.ruleChecks` appends rule Then clauses and `options.reporters` writes
+ * report files, `options.behaviorIds` / `options.tags` / `options.excludeTags` select behaviors,
+ * `options.changedBehaviorIds` limit the run to what a change affects and
+ * `options.behaviorOverrides` set per-behavior timeouts and retries, all as in
+ * verifyAllBehaviors. Progress goes to `options.events`
+ * (default: the runner's emitter). Once the runner's LLM budget runs out, the
+ * behaviors after the one it cut off are marked not_run.
  */
 export async function verifyAllBehaviorsContinuous(
   instructionPath: string,
   runner: BehaviorRunner,
-  behaviorTimeoutMs: number = DEFAULT_BEHAVIOR_TIMEOUT_MS
+  behaviorTimeoutMs: number = DEFAULT_BEHAVIOR_TIMEOUT_MS,
+  options: VerifyOptions = {}
 ): Promise<VerificationSummary> {
   const startTime = Date.now();
+  const events = options.events ?? runner.events ?? defaultRunEvents();
+  const reporters = resolveReporters(options.reporters ?? []);
 
-  const content = await readFile(instructionPath, "utf-8");
-  const allBehaviors = parseHarborBehaviorsWithDependencies(content);
+  const parsed = await loadBehaviors(instructionPath, events);
+  const selected = selectBehaviors(options.ruleChecks ? withRuleChecks(parsed) : parsed, options);
+  const { behaviors: allBehaviors, unaffected } = selectAffectedBehaviors(selected, options.changedBehaviorIds);
 
   const sorted = topologicalSort(allBehaviors);
   const { auth, nonAuth } = partitionBehaviors(sorted);
@@ -47,19 +74,25 @@ export async function verifyAllBehaviorsContinuous(
   const transitiveMap = buildTransitiveDependentsMap(allBehaviors);
   const skipSet = new Set<string>();
 
-  console.log(`\nTopological order: ${sorted.map((b) => b.id).join(" → ")}`);
-  console.log(`Auth behaviors: ${auth.map((b) => b.id).join(", ") || "(none)"}`);
-  console.log(`Non-auth behaviors: ${nonAuth.map((b) => b.id).join(", ") || "(none)"}\n`);
+  events.emit("runStart", { mode: "continuous", source: instructionPath, behaviorIds: sorted.map((b) => b.id) });
+  events.log("verifyAllBehaviorsContinuous", `Topological order: ${sorted.map((b) => b.id).join(" → ")}`);
+  events.log("verifyAllBehaviorsContinuous", `Auth behaviors: ${auth.map((b) => b.id).join(", ") || "(none)"}`);
+  events.log("verifyAllBehaviorsContinuous", `Non-auth behaviors: ${nonAuth.map((b) => b.id).join(", ") || "(none)"}`);
+  if (unaffected.length > 0) events.log("verifyAllBehaviorsContinuous", `Unaffected by the change: ${unaffected.join(", ")}`);
 
+  const overrides = options.behaviorOverrides ?? {};
   const authResults = await runAuthFlow(
-    auth, context, credentialTracker, runner, transitiveMap, skipSet, behaviorTimeoutMs,
+    auth, context, credentialTracker, runner, transitiveMap, skipSet, behaviorTimeoutMs, overrides, events,
   );
 
   const nonAuthResults = await runNonAuthBehaviors(
-    nonAuth, context, credentialTracker, runner, transitiveMap, skipSet, behaviorTimeoutMs,
+    nonAuth, context, credentialTracker, runner, transitiveMap, skipSet, behaviorTimeoutMs, overrides, emptyRouteHistory(), events,
   );
 
-  return createVerificationSummary([...authResults, ...nonAuthResults], Date.now() - startTime);
+  const summary = createVerificationSummary([...authResults, ...nonAuthResults], Date.now() - startTime, unaffected);
+  events.emit("runEnd", { success: summary.passed === summary.total, duration: summary.duration, summary });
+  writeVerificationReports(summary, reporters, options.reportDir, { specPath: instructionPath, behaviors: parsed }, events);
+  return summary;
 }
 
 // ── EXECUTION FLOWS ────────────────────────────────────────────────────
@@ -72,18 +105,22 @@ async function runAuthFlow(
   transitiveMap: Map<string, Set<string>>,
   skipSet: Set<string>,
   behaviorTimeoutMs: number,
+  overrides: Record<string, BehaviorOverride>,
+  events: RunEventEmitter,
 ): Promise<BehaviorContext[]> {
   if (authBehaviors.length === 0) return [];
 
-  console.log(`\n=== Auth Flow (continuous): ${authBehaviors.map((b) => b.title).join(" → ")} ===\n`);
+  events.log("runAuthFlow", `Auth Flow (continuous): ${authBehaviors.map((b) => b.title).join(" → ")}`);
 
   const results: BehaviorContext[] = [];
 
   for (let i = 0; i < authBehaviors.length; i++) {
     const behavior = authBehaviors[i];
+    const timeoutMs = behaviorTimeoutFor(behavior.id, behaviorTimeoutMs, overrides);
     const result = await runBehaviorWithCascade(
-      behavior, context, transitiveMap, skipSet,
-      () => runAuthBehaviorScenarios(behavior, i === 0, runner, credentialTracker, behaviorTimeoutMs),
+      behavior, context, runner, transitiveMap, skipSet,
+      () => runAuthBehaviorScenarios(behavior, i === 0, runner, credentialTracker, timeoutMs, events),
+      "auth", overrides, events,
     );
     results.push(result);
   }
@@ -99,8 +136,11 @@ async function runNonAuthBehaviors(
   transitiveMap: Map<string, Set<string>>,
   skipSet: Set<string>,
   behaviorTimeoutMs: number,
+  overrides: Record<string, BehaviorOverride>,
+  history: RouteHistory,
+  events: RunEventEmitter,
 ): Promise<BehaviorContext[]> {
-  console.log(`\n=== Non-Auth Behaviors (continuous): ${nonAuthBehaviors.length} behaviors ===\n`);
+  events.log("runNonAuthBehaviors", `Non-Auth Behaviors (continuous): ${nonAuthBehaviors.length} behaviors`);
 
   const results: BehaviorContext[] = [];
 
@@ -108,17 +148,20 @@ async function runNonAuthBehaviors(
     // Non-auth behaviors also check dependency context (handles edge cases beyond skipSet)
     const depIds = behavior.dependencies.map((d) => d.behaviorId);
     const depCheck = context.shouldSkip(depIds);
-    if (depCheck.skip) {
+    if (depCheck.skip && !budgetRanOut(context, runner)) {
       const result = skipResult(behavior, depCheck.reason ?? "unknown");
       context.markResult(behavior.id, result);
+      events.emit("behaviorEnd", { result });
       results.push(result);
       cascadeSkip(behavior.id, transitiveMap, skipSet);
       continue;
     }
 
+    const timeoutMs = behaviorTimeoutFor(behavior.id, behaviorTimeoutMs, overrides);
     const result = await runBehaviorWithCascade(
-      behavior, context, transitiveMap, skipSet,
-      () => runNonAuthBehavior(behavior, runner, credentialTracker, behaviorTimeoutMs),
+      behavior, context, runner, transitiveMap, skipSet,
+      () => runNonAuthBehavior(behavior, runner, credentialTracker, timeoutMs, history, events),
+      "non-auth", overrides, events,
     );
     results.push(result);
   }
@@ -129,41 +172,50 @@ async function runNonAuthBehaviors(
 // ── PER-BEHAVIOR EXECUTION ─────────────────────────────────────────────
 
 /**
- * Shared wrapper: check skip → check examples → run → mark result → cascade on failure.
- * The actual execution logic is passed as `runFn`.
+ * Shared wrapper: check budget → check skip → check examples → run (retrying failures
+ * per `overrides`) → mark result → cascade on failure.
+ * The actual execution logic is passed as `runFn`. Emits behaviorStart / behaviorEnd.
  */
 async function runBehaviorWithCascade(
   behavior: HarborBehavior,
   context: VerificationContext,
+  runner: BehaviorRunner,
   transitiveMap: Map<string, Set<string>>,
   skipSet: Set<string>,
   runFn: () => Promise<BehaviorContext>,
+  phase: "auth" | "non-auth",
+  overrides: Record<string, BehaviorOverride>,
+  events: RunEventEmitter,
 ): Promise<BehaviorContext> {
-  if (skipSet.has(behavior.id)) {
-    const result = skipResult(behavior, findFailedDependency(behavior, context));
+  const finish = (result: BehaviorContext, cascade: boolean): BehaviorContext => {
     context.markResult(behavior.id, result);
+    if (cascade) cascadeSkip(behavior.id, transitiveMap, skipSet);
+    events.emit("behaviorEnd", { result });
     return result;
+  };
+
+  if (budgetRanOut(context, runner)) {
+    return finish(notRunResult(behavior.id, behavior.title), false);
   }
 
-  if (behavior.examples.length === 0) {
-    const result = noExamplesResult(behavior);
-    context.markResult(behavior.id, result);
-    cascadeSkip(behavior.id, transitiveMap, skipSet);
-    return result;
+  if (skipSet.has(behavior.id)) {
+    return finish(skipResult(behavior, findFailedDependency(behavior, context)), false);
   }
 
-  const startTime = Date.now();
-  try {
-    const result = await runFn();
-    context.markResult(behavior.id, result);
-    if (result.status === "fail") cascadeSkip(behavior.id, transitiveMap, skipSet);
-    return result;
-  } catch (error) {
-    const result = errorResult(behavior, error, startTime);
-    context.markResult(behavior.id, result);
-    cascadeSkip(behavior.id, transitiveMap, skipSet);
-    return result;
+  if (behavior.examples.length === 0) {
+    return finish(noExamplesResult(behavior), true);
   }
+
+  events.emit("behaviorStart", { behaviorId: behavior.id, behaviorName: behavior.title, phase });
+  const result = await retryFailedBehavior(behavior, overrides, async () => {
+    const startTime = Date.now();
+    try {
+      return await runFn();
+    } catch (error) {
+      return errorResult(behavior, error, startTime);
+    }
+  }, events);
+  return finish(result, result.status === "fail");
 }
 
 /** Run all scenarios for an auth behavior (Sign Up clears session, Sign In reloads between scenarios). */
@@ -173,10 +225,9 @@ async function runAuthBehaviorScenarios(
   runner: BehaviorRunner,
   credentialTracker: CredentialTracker,
   behaviorTimeoutMs: number,
+  events: RunEventEmitter,
 ): Promise<BehaviorContext> {
-  let firstError: string | undefined;
-  let totalDuration = 0;
-  let failed = false;
+  const scenarios: ScenarioContext[] = [];
 
   for (let j = 0; j < behavior.examples.length; j++) {
     const example = behavior.examples[j];
@@ -186,7 +237,8 @@ async function runAuthBehaviorScenarios(
     const reloadPage = behavior.id === "sign-in" && j > 0;
     const creds = credentialTracker.getCredentials();
 
-    console.log(
+    events.log(
+      "runAuthBehaviorScenarios",
       `Auth [${behavior.id}] example ${j}: ${processedSteps.length} steps, clearSession=${clearSession}, reloadPage=${reloadPage}, email=${creds.email ?? "(none)"}`,
     );
 
@@ -203,57 +255,68 @@ async function runAuthBehaviorScenarios(
       }
     }
 
-    totalDuration += result.duration;
-    if (!result.success && !failed) {
-      failed = true;
-      firstError = result.failedAt?.context.error;
-    }
+    scenarios.push(scenarioResult(example, result));
   }
 
-  return {
-    behaviorId: behavior.id,
-    behaviorName: behavior.title,
-    status: failed ? "fail" : "pass",
-    error: firstError,
-    duration: totalDuration,
-  };
+  return aggregateScenarioResults(behavior.id, behavior.title, scenarios);
 }
 
-/** Run a single non-auth behavior (preserves session, navigates to page path). */
+/**
+ * Run every scenario of a non-auth behavior (preserves session, navigates to page path before each).
+ * `history` is shared across the session and updated in place after each scenario.
+ */
 async function runNonAuthBehavior(
   behavior: HarborBehavior,
   runner: BehaviorRunner,
   credentialTracker: CredentialTracker,
   behaviorTimeoutMs: number,
+  history: RouteHistory,
+  events: RunEventEmitter,
 ): Promise<BehaviorContext> {
-  const example = behavior.examples[0];
-  const processedSteps = processStepsWithCredentials(behavior, example.steps, credentialTracker, example.name);
-  const creds = credentialTracker.getCredentials();
+  const scenarios: ScenarioContext[] = [];
 
-  console.log(
-    `NonAuth [${behavior.id}]: ${processedSteps.length} steps, pagePath=${behavior.pagePath ?? "(none)"}, email=${creds.email ?? "(none)"}`,
-  );
+  for (let j = 0; j < behavior.examples.length; j++) {
+    const example = behavior.examples[j];
+    const processedSteps = processStepsWithCredentials(behavior, example.steps, credentialTracker, example.name);
+    const creds = credentialTracker.getCredentials();
 
-  const result = await withTimeout(
-    runner.runExample(
-      { ...example, steps: processedSteps },
-      { clearSession: false, navigateToPath: behavior.pagePath, credentials: creds },
-    ),
-    behaviorTimeoutMs,
-    `Behavior "${behavior.title}" timed out after ${behaviorTimeoutMs / 1000}s`,
-  );
+    events.log(
+      "runNonAuthBehavior",
+      `NonAuth [${behavior.id}] example ${j}: ${processedSteps.length} steps, pagePath=${behavior.pagePath ?? "(none)"}, email=${creds.email ?? "(none)"}`,
+    );
+
+    const navigateToPath = behavior.pagePath ? resolvePagePath(behavior.pagePath, history, events).path : undefined;
+
+    const result = await withTimeout(
+      runner.runExample(
+        { ...example, steps: processedSteps },
+        { clearSession: false, navigateToPath, credentials: creds, variables: history.variables },
+      ),
+      behaviorTimeoutMs,
+      `Behavior "${behavior.title}" timed out after ${behaviorTimeoutMs / 1000}s`,
+    );
+    Object.assign(history, recordRouteHistory(history, result));
 
+    scenarios.push(scenarioResult(example, result));
+  }
+
+  return aggregateScenarioResults(behavior.id, behavior.title, scenarios);
+}
+
+// ── RESULT BUILDERS ────────────────────────────────────────────────────
+
+function scenarioResult(example: SpecExample, result: ExampleResult): ScenarioContext {
   return {
-    behaviorId: behavior.id,
-    behaviorName: behavior.title,
-    status: result.success ? "pass" : "fail",
+    scenarioName: example.name,
+    status: result.success ? "pass" : result.budgetExceeded ? "budget_exceeded" : "fail",
     error: result.failedAt?.context.error,
+    failedStep: result.failedAt?.step,
+    result: toScenarioRecord(result),
+    usage: result.usage,
     duration: result.duration,
   };
 }
 
-// ── RESULT BUILDERS ────────────────────────────────────────────────────
-
 function skipResult(behavior: HarborBehavior, failedDep: string): BehaviorContext {
   return {
     behaviorId: behavior.id,
@@ -293,6 +356,11 @@ function findFailedDependency(behavior: HarborBehavior, context: VerificationCon
   return "unknown";
 }
 
+/** True once a behavior was cut off by the LLM budget or the runner has no budget left. */
+function budgetRanOut(context: VerificationContext, runner: BehaviorRunner): boolean {
+  return context.budgetExceeded() || (runner.isBudgetExhausted?.() ?? false);
+}
+
 function cascadeSkip(
   failedId: string,
   transitiveMap: Map<string, Set<string>>,
@@ -325,31 +393,3 @@ export function partitionBehaviors(sorted: HarborBehavior[]): {
 
   return { auth, nonAuth };
 }
-
-/** Build a map from each behavior ID to all behaviors that transitively depend on it. */
-export function buildTransitiveDependentsMap(
-  behaviors: Map<string, HarborBehavior>
-): Map<string, Set<string>> {
-  const directDependents = new Map<string, Set<string>>();
-  for (const [id, behavior] of behaviors) {
-    for (const dep of behavior.dependencies) {
-      const set = directDependents.get(dep.behaviorId) ?? new Set();
-      set.add(id);
-      directDependents.set(dep.behaviorId, set);
-    }
-  }
-
-  // Iterate in reverse topological order so each node's dependents are already computed
-  const sorted = topologicalSort(behaviors);
-  const transitiveMap = new Map<string, Set<string>>();
-
-  for (const behavior of sorted.reverse()) {
-    const allDeps = new Set(
-      [...(directDependents.get(behavior.id) ?? [])]
-        .flatMap(dep => [dep, ...(transitiveMap.get(dep) ?? [])])
-    );
-    transitiveMap.set(behavior.id, allDeps);
-  }
-
-  return transitiveMap;
-}
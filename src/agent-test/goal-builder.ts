@@ -1,4 +1,4 @@
-import type { SpecStep } from "../shared/types";
+import type { SpecStep } from "../shared/types.js";
 
 /**
  * Build a goal prompt for the Stagehand agent from a list of spec steps.
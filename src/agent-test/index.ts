@@ -3,25 +3,24 @@ export type {
   AgentTestConfig,
   AgentExecutionResult,
   CheckVerification,
-} from "./types";
-export { DEFAULT_MAX_STEPS, CLOSE_TIMEOUT_MS } from "./types";
+} from "./types.js";
+export { DEFAULT_MAX_STEPS, CLOSE_TIMEOUT_MS } from "./types.js";
 
 // --- Runner ---
-export { AgentTestRunner } from "./runner";
+export { AgentTestRunner } from "./runner.js";
 
 // --- Goal Builder ---
-export { buildGoalPrompt } from "./goal-builder";
+export { buildGoalPrompt } from "./goal-builder.js";
 
 // --- Verifier ---
-export { verifyOutcome } from "./verifier";
+export { verifyOutcome } from "./verifier.js";
 
 // --- Continuous Orchestrator ---
 export {
   verifyAllBehaviorsContinuous,
   partitionBehaviors,
-  buildTransitiveDependentsMap,
-} from "./continuous-orchestrator";
-export { topologicalSort } from "../shared/topological-sort";
+} from "./continuous-orchestrator.js";
+export { topologicalSort, buildTransitiveDependentsMap } from "../shared/topological-sort.js";
 
 // --- Re-exports from spec-test (orchestration layer) ---
-export { verifyAllBehaviors } from "../spec-test/orchestrator";
+export { verifyAllBehaviors } from "../spec-test/orchestrator.js";
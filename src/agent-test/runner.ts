@@ -9,13 +9,13 @@ import type {
   ExampleResult,
   StepResult,
   FailureContext,
-} from "../shared/types";
-import { BaseStagehandRunner } from "../shared/base-runner";
+} from "../shared/types.js";
+import { BaseStagehandRunner } from "../shared/base-runner.js";
 
-import type { AgentTestConfig, AgentExecutionResult } from "./types";
-import { DEFAULT_MAX_STEPS } from "./types";
-import { buildGoalPrompt } from "./goal-builder";
-import { verifyOutcome } from "./verifier";
+import type { AgentTestConfig, AgentExecutionResult } from "./types.js";
+import { DEFAULT_MAX_STEPS } from "./types.js";
+import { buildGoalPrompt } from "./goal-builder.js";
+import { verifyOutcome } from "./verifier.js";
 
 /**
  * Agent-based test runner that extends BaseStagehandRunner.
@@ -54,6 +54,8 @@ export class AgentTestRunner extends BaseStagehandRunner {
     }
   ): Promise<ExampleResult> {
     const startTime = Date.now();
+    const usageMark = this.usage.mark();
+    const refusalsBefore = this.budgetRefusals();
 
     try {
       const stagehand = await this.initializeStagehand();
@@ -67,19 +69,22 @@ export class AgentTestRunner extends BaseStagehandRunner {
 
       const { goal, successCriteria } = buildGoalPrompt(example.steps);
 
-      console.log(
-        `[AgentTestRunner] Executing agent goal (${example.steps.length} steps → ${successCriteria.length} checks):\n${goal.slice(0, 200)}...`
+      this.events.log(
+        "AgentTestRunner",
+        `Executing agent goal (${example.steps.length} steps → ${successCriteria.length} checks):\n${goal.slice(0, 200)}...`
       );
 
       const agentResult = await this.executeAgent(stagehand, goal);
       const agentStepResult = this.buildAgentStepResult(goal, agentResult);
+      agentStepResult.usage = this.usage.usageSince(usageMark);
 
       if (!agentResult.success) {
-        return {
+        return this.applyBudgetOutcome({
           example,
           success: false,
           steps: [agentStepResult],
           duration: Date.now() - startTime,
+          usage: this.usage.usageSince(usageMark),
           failedAt: {
             stepIndex: 0,
             step: { type: "Act", instruction: goal },
@@ -89,7 +94,7 @@ export class AgentTestRunner extends BaseStagehandRunner {
               agentResult
             ),
           },
-        };
+        }, refusalsBefore);
       }
 
       const { stepResults, failedAt } = await this.verifyAndBuildStepResults(
@@ -99,15 +104,17 @@ export class AgentTestRunner extends BaseStagehandRunner {
         page
       );
 
-      return {
+      return this.applyBudgetOutcome({
         example,
         success: !failedAt,
         steps: stepResults,
         duration: Date.now() - startTime,
+        usage: this.usage.usageSince(usageMark),
         failedAt,
-      };
+      }, refusalsBefore);
     } catch (error) {
-      return this.buildInitFailureResult(example, error, startTime);
+      const result = { ...this.buildInitFailureResult(example, error, startTime), usage: this.usage.usageSince(usageMark) };
+      return this.applyBudgetOutcome(result, refusalsBefore);
     }
   }
 
@@ -134,10 +141,14 @@ export class AgentTestRunner extends BaseStagehandRunner {
         maxSteps,
       };
 
+      // The agent reports usage only when it finishes, so the budget is checked up front
+      this.usage.budget?.assertAvailable();
+
       const result = await agent.execute(executeOptions);
 
-      console.log(
-        `[AgentTestRunner] Agent result: success=${result.success}, completed=${result.completed}, actions=${result.actions?.length ?? 0}`
+      this.events.log(
+        "AgentTestRunner",
+        `Agent result: success=${result.success}, completed=${result.completed}, actions=${result.actions?.length ?? 0}`
       );
 
       return {
@@ -149,7 +160,7 @@ export class AgentTestRunner extends BaseStagehandRunner {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-      console.log(`[AgentTestRunner] Agent execution error: ${errorMessage}`);
+      this.events.log("AgentTestRunner", `Agent execution error: ${errorMessage}`);
       return {
         success: false,
         message: `Agent error: ${errorMessage}`,
@@ -1,10 +1,7 @@
 import { describe, it, expect } from "vitest";
 import type { HarborBehavior } from "../../spec-test/types";
-import {
-  partitionBehaviors,
-  buildTransitiveDependentsMap,
-} from "../continuous-orchestrator";
-import { topologicalSort } from "../../shared/topological-sort";
+import { partitionBehaviors } from "../continuous-orchestrator";
+import { topologicalSort, buildTransitiveDependentsMap } from "../../shared/topological-sort";
 
 
 function makeBehavior(
@@ -1,4 +1,4 @@
-import type { SpecTestConfig } from "../spec-test/types";
+import type { SpecTestConfig } from "../spec-test/types.js";
 import type { AgentToolMode, AgentAction } from "@browserbasehq/stagehand";
 
 /** Default max steps per agent.execute() call */
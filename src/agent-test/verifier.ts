@@ -1,11 +1,11 @@
 import { z } from "zod";
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { CheckVerification } from "./types";
+import type { CheckVerification } from "./types.js";
 import {
   EXTRACT_EVALUATION_PROMPT,
   extractExpectedText,
-} from "../spec-test";
+} from "../spec-test/index.js";
 
 const verificationSchema = z.object({
   passed: z
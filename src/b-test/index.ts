@@ -1,2 +1,2 @@
-export { Tester, TesterError } from './tester.js';
-export type { Snapshot, DiffResult } from './tester.js';
+export { Tester, TesterError, DEFAULT_ASSERT_MODEL } from './tester.js';
+export type { Snapshot, DiffResult, AssertUsage } from './tester.js';
@@ -32,6 +32,16 @@ export interface DiffResult {
   summary: string;
 }
 
+export interface AssertUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+/** Model used by assert() when none is passed to the constructor. */
+export const DEFAULT_ASSERT_MODEL = "gpt-4o-mini";
+
 export class TesterError extends Error {
   constructor(message: string, public readonly code: string) {
     super(message);
@@ -49,10 +59,11 @@ export class Tester {
   private beforeSnapshot: Snapshot | null = null;
   private afterSnapshot: Snapshot | null = null;
   private snapshotCounter: number = 0;
+  private usageListener: ((usage: AssertUsage) => void) | null = null;
 
   constructor(
     private readonly page?: GenericPage,
-    private readonly aiModel = openai("gpt-4o-mini")
+    private readonly aiModel = openai(DEFAULT_ASSERT_MODEL)
   ) {}
 
   /**
@@ -120,6 +131,14 @@ export class Tester {
     }
   }
 
+  /**
+   * Registers a listener called with the token usage of every assert() LLM call.
+   * @param listener - Receives model, token counts and latency; replaces any previous listener
+   */
+  onUsage(listener: (usage: AssertUsage) => void): void {
+    this.usageListener = listener;
+  }
+
   /**
    * Uses diff between stored snapshot and current page state to assert a condition using LLM
    * @param condition - Natural language condition to check
@@ -131,6 +150,7 @@ export class Tester {
       const diffResult = await this.diff();
 
       // Send diff summary and changes to LLM for evaluation
+      const startedAt = Date.now();
       const response = await generateText({
         model: this.aiModel,
         messages: [
@@ -161,6 +181,13 @@ Based on these changes, is this condition met? (respond with true/false and expl
         temperature: 0,
       });
 
+      this.usageListener?.({
+        model: this.aiModel.modelId,
+        inputTokens: response.usage?.inputTokens ?? 0,
+        outputTokens: response.usage?.outputTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+      });
+
       const result = response.text;
       const isTrue = result.toLowerCase().startsWith("true");
 
@@ -300,6 +327,7 @@ Based on these changes, is this condition met? (respond with true/false and expl
     }
 
     while (Date.now() - startTime < timeout) {
+      let asserting = false;
       try {
         // Capture current HTML - support both Playwright and Stagehand pages
         const currentHtml = await this.getPageContent(this.page);
@@ -310,7 +338,9 @@ Based on these changes, is this condition met? (respond with true/false and expl
           await this.snapshot();
 
           // LLM checks condition on new snapshot (diff will compare old vs new)
+          asserting = true;
           const conditionMet = await this.assert(condition);
+          asserting = false;
 
           if (conditionMet) {
             return true;
@@ -323,8 +353,9 @@ Based on these changes, is this condition met? (respond with true/false and expl
         // Wait before next poll
         await new Promise((resolve) => setTimeout(resolve, pollInterval));
       } catch (error) {
-        // Continue polling on non-critical errors
-        if (error instanceof TesterError && error.code === "ASSERTION_FAILED") {
+        // Continue polling on non-critical errors (page reads). Errors from assert() end
+        // the wait: a failed LLM call, or one refused by an LLM budget wrapped around it
+        if (asserting) {
           throw error;
         }
       }
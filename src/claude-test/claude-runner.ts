@@ -9,10 +9,10 @@ import { readFileSync, writeFileSync, mkdirSync, existsSync, unlinkSync } from "
 import { execSync } from "child_process";
 import { tmpdir } from "os";
 import path from "path";
-import { parseHarborBehaviorsWithDependencies } from "../shared/index";
-import { buildPlanFromBehaviors } from "./plan-builder";
-import type { ClaudeVariantConfig, ClaudeVerifierOptions, VerificationSummary } from "./types";
-import type { BehaviorContext } from "../shared/types";
+import { parseHarborBehaviorsWithDependencies } from "../shared/index.js";
+import { buildPlanFromBehaviors } from "./plan-builder.js";
+import type { ClaudeVariantConfig, ClaudeVerifierOptions, VerificationSummary } from "./types.js";
+import type { BehaviorContext } from "../shared/types.js";
 
 const SYSTEM_PROMPT_PATH = "/tmp/system-prompt.md";
 const VERIFICATION_PLAN_PATH = "/tmp/verification-plan.md";
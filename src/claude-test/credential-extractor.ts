@@ -4,8 +4,8 @@
  * Ported from verifier-bench/verifiers/instruction_parser.py extract_credentials().
  */
 
-import type { HarborBehavior, SpecStep } from "../shared/types";
-import type { CredentialContext } from "./types";
+import type { HarborBehavior, SpecStep } from "../shared/types.js";
+import type { CredentialContext } from "./types.js";
 
 const EMAIL_PATTERN = /[Tt]ype\s+"([^"]+@[^"]+)"\s+into\s+(?:the\s+)?email/;
 const PASSWORD_PATTERN = /[Tt]ype\s+"([^"]+)"\s+into\s+(?:the\s+)?password/;
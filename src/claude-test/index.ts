@@ -1,14 +1,14 @@
 // --- Runner ---
-export { runClaudeVerifier } from "./claude-runner";
+export { runClaudeVerifier } from "./claude-runner.js";
 
 // --- Variant Configs ---
-export { mcp, agentBrowser, playwrightCli } from "./variants";
+export { mcp, agentBrowser, playwrightCli } from "./variants/index.js";
 
 // --- Plan Builder ---
-export { buildVerificationPlan, buildPlanFromBehaviors, topologicalSort } from "./plan-builder";
+export { buildVerificationPlan, buildPlanFromBehaviors, topologicalSort } from "./plan-builder.js";
 
 // --- Credential Extractor ---
-export { extractCredentials } from "./credential-extractor";
+export { extractCredentials } from "./credential-extractor.js";
 
 // --- Types ---
 export type {
@@ -16,4 +16,4 @@ export type {
   ClaudeVerifierOptions,
   CredentialContext,
   VerificationSummary,
-} from "./types";
+} from "./types.js";
@@ -7,10 +7,10 @@
  * Ported from verifier-bench/verifiers/instruction_parser.py.
  */
 
-import type { HarborBehavior } from "../shared/types";
-import type { CredentialContext } from "./types";
-import { extractCredentials } from "./credential-extractor";
-import { topologicalSort as sharedTopologicalSort } from "../shared/topological-sort";
+import type { HarborBehavior } from "../shared/types.js";
+import type { CredentialContext } from "./types.js";
+import { extractCredentials } from "./credential-extractor.js";
+import { topologicalSort as sharedTopologicalSort } from "../shared/topological-sort.js";
 
 /** Auth IDs in claude-test canonical order (sign-up → sign-in → sign-out). */
 const AUTH_IDS = ["sign-up", "sign-in", "sign-out"];
@@ -1,4 +1,4 @@
-import type { VerificationSummary } from "../shared/types";
+import type { VerificationSummary } from "../shared/types.js";
 
 /**
  * Configuration for a Claude browser tool variant.
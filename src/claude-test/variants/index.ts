@@ -1,3 +1,3 @@
-export { mcp } from "./mcp";
-export { agentBrowser } from "./agent-browser";
-export { playwrightCli } from "./playwright-cli";
+export { mcp } from "./mcp.js";
+export { agentBrowser } from "./agent-browser.js";
+export { playwrightCli } from "./playwright-cli.js";
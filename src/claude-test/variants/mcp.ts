@@ -1,4 +1,4 @@
-import type { ClaudeVariantConfig } from "../types";
+import type { ClaudeVariantConfig } from "../types.js";
 
 const MCP_CONFIG_PATH = "/tmp/mcp.json";
 
@@ -1,4 +1,4 @@
-import type { ClaudeVariantConfig } from "../types";
+import type { ClaudeVariantConfig } from "../types.js";
 
 export const playwrightCli: ClaudeVariantConfig = {
   name: "claude-playwright-cli",
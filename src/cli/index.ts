@@ -0,0 +1,424 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  SpecTestRunner,
+  lintSpec,
+  formatDiagnostics,
+  behaviorsChangedSince,
+  loadBehaviors,
+  verifyAllBehaviors,
+  summaryToReport,
+  writeReports,
+  DEFAULT_REPORT_DIR,
+  DEFAULT_BEHAVIOR_TIMEOUT_MS,
+} from "../spec-test/index.js";
+import { printVerificationResults } from "../shared/verify-utils.js";
+import type { BehaviorRunner, ReporterName, ReporterOption, VerificationSummary, VerifyOptions } from "../shared/types.js";
+import {
+  loadConfig,
+  toRunnerConfig,
+  toVerifyOptions,
+  type ClaudeVariantName,
+  type LoadedConfig,
+  type StrategyName,
+  type TesterName,
+} from "../shared/project-config.js";
+
+/** The project config with its profile applied. */
+type ProjectConfig = LoadedConfig["config"];
+
+const SUMMARY_FILE = "summary.json";
+
+const TESTERS: TesterName[] = ["spec", "agent", "claude"];
+const STRATEGIES: StrategyName[] = ["chain", "continuous"];
+const VARIANTS: ClaudeVariantName[] = ["mcp", "agent-browser", "playwright-cli"];
+const REPORTERS: ReporterName[] = ["junit", "tap", "ctrf", "html"];
+
+/** Exit codes: 0 passed (reward ≥ min-reward), 1 failed, 2 usage or config error. */
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: epic-test <command> [options]
+
+Commands:
+  run <spec.md|.feature>          Run one behavior spec with SpecTestRunner
+      --example <name>            only this example
+      --tag <tag>                 only examples tagged @<tag> (repeatable)
+      --exclude-tag <tag>         skip examples tagged @<tag> (repeatable)
+  verify [instruction.md|dir...]  Verify all behaviors and exit by reward (default: config specs)
+      --tester spec|agent|claude  verifier (default: spec)
+      --strategy chain|continuous orchestration (default: chain; continuous for agent)
+      --variant <name>            claude browser tool: mcp, agent-browser, playwright-cli
+      --behavior <id>             only this behavior and its dependencies (repeatable)
+      --tag <tag>                 only behaviors/scenarios tagged @<tag> and their dependencies (repeatable)
+      --exclude-tag <tag>         skip scenarios tagged @<tag> unless a selected behavior needs them (repeatable)
+      --changed <id>              only this changed behavior and its dependents (repeatable)
+      --changed-since <ref>       only behaviors whose spec differs from git <ref> (e.g. HEAD, origin/main)
+                                  and their dependents; the rest are reported as unaffected
+      --timeout <seconds>         per-behavior timeout
+      --min-reward <0..1>         lowest reward that exits 0 (default: 1)
+      --output <file>             summary JSON for a single spec (default: test-results/summary.json;
+                                  test-results/<spec>/summary.json per spec for several)
+  lint [spec...]                  Check specs for errors without running them (default: config specs)
+      --json                      print diagnostics as JSON
+  report [summary.json]           Print a saved verification summary and write reporters
+
+Options for run and verify:
+  --base-url <url>                application URL (default: http://localhost:3000)
+  --headed                        show the browser
+  --cache-dir <dir>               Stagehand action cache
+Options for run, verify and report:
+  --reporter <name>               junit, tap, ctrf or html (repeatable)
+  --report-dir <dir>              reporter output directory (default: ${DEFAULT_REPORT_DIR})
+Options for all commands:
+  --config <file>                 project config (default: epic-test.config.{ts,mts,js,mjs,json} in cwd)
+  --profile <name>                config profile (default: $EPIC_TEST_PROFILE, else ci under CI, else local)`;
+
+/** Flags for locating the project config, accepted by every command. */
+const CONFIG_OPTIONS = {
+  config: { type: "string" },
+  profile: { type: "string" },
+} as const;
+
+/** Flags shared by run, verify and report. */
+const COMMON_OPTIONS = {
+  ...CONFIG_OPTIONS,
+  "base-url": { type: "string" },
+  headed: { type: "boolean" },
+  "cache-dir": { type: "string" },
+  reporter: { type: "string", multiple: true },
+  "report-dir": { type: "string" },
+} as const;
+
+/** Flags that override the runner settings of the project config. */
+interface RunnerFlags {
+  "base-url"?: string;
+  headed?: boolean;
+  "cache-dir"?: string;
+}
+
+/** Raised for bad flags and arguments; printed with the usage text. */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Run the epic-test command line and return the process exit code:
+ * 0 on success, 1 when the command failed (errors found, reward below
+ * `--min-reward`), 2 on usage or config errors.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case "run":
+        return await runCommand(args);
+      case "verify":
+        return await verifyCommand(args);
+      case "lint":
+        return await lintCommand(args);
+      case "report":
+        return await reportCommand(args);
+      case undefined:
+      case "help":
+      case "--help":
+      case "-h":
+        console.log(USAGE);
+        return command === undefined ? EXIT_USAGE : EXIT_PASSED;
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (!(error instanceof UsageError) && !isParseArgsError(error)) throw error;
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+}
+
+/** 0 when the reward reaches minReward, 1 otherwise. */
+export function exitCodeForReward(reward: number, minReward: number = 1): number {
+  return reward >= minReward ? EXIT_PASSED : EXIT_FAILED;
+}
+
+// ── COMMANDS ───────────────────────────────────────────────────────────
+
+async function runCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...COMMON_OPTIONS,
+      example: { type: "string" },
+      tag: { type: "string", multiple: true },
+      "exclude-tag": { type: "string", multiple: true },
+    },
+  });
+  const specPath = singlePositional(positionals, "run: expected one spec file");
+  const config = await readConfig(values);
+
+  const runner = new SpecTestRunner({
+    ...runnerConfigOf(values, config),
+    reporters: reportersOf(values.reporter, config),
+    reportDir: reportDirOf(values["report-dir"], config),
+  });
+  try {
+    const tagFilter = { tags: tagsOf(values.tag), excludeTags: tagsOf(values["exclude-tag"]) };
+    const hasTags = tagFilter.tags.length > 0 || tagFilter.excludeTags.length > 0;
+    const result = await runner.runFromFile(specPath, values.example, hasTags ? tagFilter : undefined);
+    return result.success ? EXIT_PASSED : EXIT_FAILED;
+  } finally {
+    await runner.close();
+  }
+}
+
+async function verifyCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...COMMON_OPTIONS,
+      tester: { type: "string" },
+      strategy: { type: "string" },
+      variant: { type: "string" },
+      behavior: { type: "string", multiple: true },
+      tag: { type: "string", multiple: true },
+      "exclude-tag": { type: "string", multiple: true },
+      changed: { type: "string", multiple: true },
+      "changed-since": { type: "string" },
+      timeout: { type: "string" },
+      "min-reward": { type: "string" },
+      output: { type: "string" },
+    },
+  });
+  const config = await readConfig(values);
+  const specPaths = specPathsOf(positionals, config, "verify: expected an instruction.md or spec directory, or `specs` in the config");
+  if (specPaths.length > 1 && values.output) throw new UsageError("--output needs a single spec; summaries go to <report-dir>/<spec>/");
+
+  const tester = oneOf(values.tester ?? config.tester ?? "spec", TESTERS, "--tester");
+  const strategy = oneOf(values.strategy ?? config.strategy ?? (tester === "agent" ? "continuous" : "chain"), STRATEGIES, "--strategy");
+  const variant = oneOf(values.variant ?? config.variant ?? "mcp", VARIANTS, "--variant");
+  const minReward = values["min-reward"] !== undefined ? numberFlag(values["min-reward"], "--min-reward") : config.minReward ?? 1;
+  const timeoutMs = values.timeout !== undefined ? numberFlag(values.timeout, "--timeout") * 1000 : config.behaviorTimeoutMs;
+  const reportDir = reportDirOf(values["report-dir"], config);
+  const options: VerifyOptions = {
+    ...toVerifyOptions(config),
+    behaviorIds: splitList(values.behavior),
+    tags: tagsOf(values.tag),
+    excludeTags: tagsOf(values["exclude-tag"]),
+    reporters: reportersOf(values.reporter, config),
+  };
+  const changedIds = splitList(values.changed);
+  const changedSince = values["changed-since"];
+  const impactBased = changedIds.length > 0 || changedSince !== undefined;
+  if (tester === "claude" && (impactBased || [options.behaviorIds!, options.tags!, options.excludeTags!].some(list => list.length > 0))) {
+    throw new UsageError("--behavior, --tag, --exclude-tag, --changed and --changed-since are not supported with --tester claude");
+  }
+  if (changedIds.length > 0) await assertKnownBehaviors(specPaths, changedIds);
+
+  let exitCode = EXIT_PASSED;
+  for (const specPath of specPaths) {
+    const specReportDir = specPaths.length > 1 ? path.join(reportDir, specName(specPath)) : reportDir;
+    const specOptions: VerifyOptions = { ...options, reportDir: specReportDir };
+    if (impactBased) {
+      const changedInSpec = changedSince !== undefined ? await changedBehaviorsOf(specPath, changedSince) : [];
+      specOptions.changedBehaviorIds = [...new Set([...changedIds, ...changedInSpec])];
+    }
+
+    let summary: VerificationSummary;
+    if (tester === "claude") {
+      summary = await verifyWithClaude(specPath, variant, config);
+      writeReports(summaryToReport(summary, { file: specPath }), specOptions.reporters!, specReportDir);
+    } else {
+      const runner = await createRunner(tester, values, config);
+      try {
+        const verify = strategy === "continuous"
+          ? (await import("../agent-test/continuous-orchestrator.js")).verifyAllBehaviorsContinuous
+          : verifyAllBehaviors;
+        summary = await verify(specPath, runner, timeoutMs ?? DEFAULT_BEHAVIOR_TIMEOUT_MS, specOptions);
+      } finally {
+        await runner.close?.();
+      }
+    }
+
+    const outputPath = values.output ?? path.join(specReportDir, SUMMARY_FILE);
+    mkdirSync(path.dirname(outputPath), { recursive: true });
+    writeFileSync(outputPath, JSON.stringify(summary, null, 2), "utf-8");
+
+    printVerificationResults(summary, `${tester} × ${specPath}`);
+    console.log(`\n  Summary saved to: ${outputPath}`);
+    exitCode = Math.max(exitCode, exitCodeForReward(summary.reward, minReward));
+  }
+  return exitCode;
+}
+
+async function lintCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args, allowPositionals: true, options: { ...CONFIG_OPTIONS, json: { type: "boolean" } },
+  });
+  const specPaths = specPathsOf(positionals, await readConfig(values), "lint: expected at least one spec, or `specs` in the config");
+
+  const diagnostics = (await Promise.all(specPaths.map(lintSpec))).flat();
+  const errors = diagnostics.filter(d => d.severity === "error").length;
+
+  if (values.json) {
+    console.log(JSON.stringify(diagnostics, null, 2));
+  } else {
+    if (diagnostics.length > 0) console.log(formatDiagnostics(diagnostics));
+    console.log(`${errors} error(s), ${diagnostics.length - errors} warning(s)`);
+  }
+  return errors > 0 ? EXIT_FAILED : EXIT_PASSED;
+}
+
+async function reportCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({ args, allowPositionals: true, options: COMMON_OPTIONS });
+  const config = await readConfig(values);
+  const reportDir = reportDirOf(values["report-dir"], config);
+  const summaryPath = positionals[0] ?? path.join(reportDir, SUMMARY_FILE);
+
+  let summary: VerificationSummary;
+  try {
+    summary = JSON.parse(await readFile(summaryPath, "utf-8"));
+  } catch (error) {
+    throw new UsageError(`report: cannot read ${summaryPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  printVerificationResults(summary, summaryPath);
+  writeReports(summaryToReport(summary, { file: summaryPath }), reportersOf(values.reporter, config), reportDir);
+  return EXIT_PASSED;
+}
+
+// ── TESTERS ────────────────────────────────────────────────────────────
+
+async function createRunner(
+  tester: "spec" | "agent",
+  values: RunnerFlags,
+  config: ProjectConfig,
+): Promise<BehaviorRunner> {
+  // verify writes one report for the whole run, not one per behavior
+  const { reporters, reportDir, ...runnerConfig } = runnerConfigOf(values, config);
+  if (tester === "spec") return new SpecTestRunner(runnerConfig);
+
+  const { AgentTestRunner } = await import("../agent-test/runner.js");
+  return new AgentTestRunner(runnerConfig);
+}
+
+async function verifyWithClaude(
+  specPath: string, variantName: ClaudeVariantName, config: ProjectConfig,
+): Promise<VerificationSummary> {
+  const { runClaudeVerifier } = await import("../claude-test/claude-runner.js");
+  const { mcp, agentBrowser, playwrightCli } = await import("../claude-test/variants/index.js");
+  const variants = { mcp, "agent-browser": agentBrowser, "playwright-cli": playwrightCli };
+  return runClaudeVerifier(specPath, variants[variantName], { verbose: true, ...config.claude });
+}
+
+// ── ARGUMENTS ──────────────────────────────────────────────────────────
+
+async function readConfig(values: { config?: string; profile?: string }): Promise<ProjectConfig> {
+  try {
+    return (await loadConfig({ configPath: values.config, profile: values.profile })).config;
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Reject IDs that name no behavior in any of the specs. An impact-based run ignores
+ * unknown changed IDs (deleted behaviors), so a typo would otherwise pass as
+ * "nothing to verify".
+ */
+async function assertKnownBehaviors(specPaths: string[], ids: string[]): Promise<void> {
+  const known = new Set<string>();
+  for (const specPath of specPaths) {
+    try {
+      for (const id of (await loadBehaviors(specPath)).keys()) known.add(id);
+    } catch (error) {
+      throw new UsageError(`--changed: cannot load ${specPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  const unknown = ids.filter(id => !known.has(id));
+  if (unknown.length > 0) throw new UsageError(`--changed: no behavior ${unknown.map(id => `"${id}"`).join(", ")} in ${specPaths.join(", ")}`);
+}
+
+/** Behaviors of a spec changed since a git ref; git errors (bad ref, not a repository) are usage errors. */
+async function changedBehaviorsOf(specPath: string, ref: string): Promise<string[]> {
+  let changed: string[];
+  try {
+    changed = await behaviorsChangedSince(specPath, ref);
+  } catch (error) {
+    throw new UsageError(`--changed-since: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  console.log(`Changed since ${ref} in ${specPath}: ${changed.join(", ") || "(none)"}`);
+  return changed;
+}
+
+/** Spec paths from the command line, else the config's `specs`. */
+function specPathsOf(positionals: string[], config: ProjectConfig, message: string): string[] {
+  if (positionals.length > 0) return positionals;
+  const specs = typeof config.specs === "string" ? [config.specs] : config.specs ?? [];
+  if (specs.length === 0) throw new UsageError(message);
+  return specs;
+}
+
+/** Name of a spec's summary directory: the folder of an instruction.md, else the file or directory name. */
+function specName(specPath: string): string {
+  const base = path.basename(specPath, path.extname(specPath));
+  return base === "instruction" ? path.basename(path.dirname(specPath)) : base;
+}
+
+/** Runner config from the project config, with command-line flags applied. */
+function runnerConfigOf(values: RunnerFlags, config: ProjectConfig) {
+  const runnerConfig = toRunnerConfig(config);
+  return {
+    ...runnerConfig,
+    baseUrl: values["base-url"] ?? runnerConfig.baseUrl,
+    headless: values.headed ? false : runnerConfig.headless,
+    ...(values["cache-dir"] && { cacheDir: values["cache-dir"] }),
+  };
+}
+
+function singlePositional(positionals: string[], message: string): string {
+  if (positionals.length !== 1) throw new UsageError(message);
+  return positionals[0];
+}
+
+function oneOf<T extends string>(value: string, allowed: T[], flag: string): T {
+  if (!allowed.includes(value as T)) throw new UsageError(`${flag} must be one of ${allowed.join(", ")} (got "${value}")`);
+  return value as T;
+}
+
+function numberFlag(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed)) throw new UsageError(`${flag} must be a number (got "${value}")`);
+  return parsed;
+}
+
+/** Repeated and comma-separated flag values: `--tag a,b --tag c` → [a, b, c]. */
+function splitList(values: string[] | undefined): string[] {
+  return (values ?? []).flatMap(value => value.split(",")).map(value => value.trim()).filter(Boolean);
+}
+
+/** Tag flags without their `@`: `--tag @smoke,slow` → [smoke, slow]. */
+function tagsOf(values: string[] | undefined): string[] {
+  return splitList(values).map(tag => tag.replace(/^@/, ""));
+}
+
+function reportersOf(flags: string[] | undefined, config: ProjectConfig): ReporterOption[] {
+  const reporters = splitList(flags).map(name => oneOf(name, REPORTERS, "--reporter"));
+  return reporters.length > 0 ? reporters : config.reporters ?? [];
+}
+
+function reportDirOf(flag: string | undefined, config: ProjectConfig): string {
+  return flag ?? config.reportDir ?? DEFAULT_REPORT_DIR;
+}
+
+function isParseArgsError(error: unknown): error is Error {
+  const code = (error as { code?: unknown } | null)?.code;
+  return error instanceof Error && typeof code === "string" && code.startsWith("ERR_PARSE_ARGS");
+}
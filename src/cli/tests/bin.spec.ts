@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync, spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+
+const root = path.resolve(__dirname, "../../..");
+
+describe("epic-test bin", () => {
+  let outDir: string;
+
+  beforeAll(() => {
+    outDir = mkdtempSync(path.join(os.tmpdir(), "epic-bin-"));
+    execFileSync(process.execPath, [path.join(root, "node_modules/typescript/bin/tsc"), "--outDir", outDir], { cwd: root, stdio: "pipe" });
+    // The build resolves its dependencies the way an installed package does
+    symlinkSync(path.join(root, "node_modules"), path.join(outDir, "node_modules"), "dir");
+  }, 300_000);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("should run the built bin under plain node", () => {
+    const result = spawnSync(process.execPath, [path.join(outDir, "cli/bin.js"), "help"], { encoding: "utf-8", timeout: 60_000 });
+
+    expect(result.stderr).toBe("");
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("Usage: epic-test");
+  });
+
+  it("should load a TypeScript config under plain node", () => {
+    const project = mkdtempSync(path.join(os.tmpdir(), "epic-config-"));
+    try {
+      writeFileSync(path.join(project, "epic-test.config.ts"), 'const config: { specs: string[] } = { specs: ["instruction.md"] };\nexport default config;\n');
+      writeFileSync(path.join(project, "instruction.md"), "# App\n\n## Behaviors\n### Sign Up\n#### Steps\n* Act: Click Sign Up\n* Check: The dashboard is shown\n");
+      const result = spawnSync(process.execPath, [path.join(outDir, "cli/bin.js"), "lint"], { cwd: project, encoding: "utf-8", timeout: 60_000 });
+
+      // The config's specs were linted, and its transpiled copy cleaned up
+      expect(result.stderr).toBe("");
+      expect(result.stdout).toContain("0 error(s)");
+      expect(readdirSync(project).sort()).toEqual(["epic-test.config.ts", "instruction.md"]);
+    } finally {
+      rmSync(project, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import type { VerificationSummary } from "../../shared/types";
+
+const { verifyAllBehaviors } = vi.hoisted(() => ({ verifyAllBehaviors: vi.fn() }));
+
+vi.mock("../../spec-test/index.js", async importOriginal => ({
+  ...(await importOriginal<typeof import("../../spec-test/index")>()),
+  SpecTestRunner: class { close = vi.fn(); },
+  verifyAllBehaviors,
+}));
+
+const { runCli, exitCodeForReward } = await import("../index");
+
+const summary: VerificationSummary = {
+  passed: 1, failed: 1, dependency_failed: 0, total: 2, reward: 0.5, summary: "1/2 behaviors passed", duration: 1200,
+  behaviors: [
+    { behaviorId: "sign-up", behaviorName: "Sign Up", status: "pass", duration: 600 },
+    { behaviorId: "create-ticket", behaviorName: "Create Ticket", status: "fail", error: "Ticket not shown", duration: 600 },
+  ],
+};
+
+describe("runCli", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "epic-cli-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    verifyAllBehaviors.mockReset().mockResolvedValue(summary);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should verify with the selected behaviors and exit by reward", async () => {
+    const output = path.join(dir, "summary.json");
+    const args = [
+      "verify", "instruction.md", "--behavior", "create-ticket", "--tag", "@smoke,tickets", "--exclude-tag", "slow", "--output", output,
+    ];
+
+    expect(await runCli(args)).toBe(1);
+    expect(await runCli([...args, "--min-reward", "0.5"])).toBe(0);
+
+    const [specPath, , , options] = verifyAllBehaviors.mock.calls[0];
+    expect(specPath).toBe("instruction.md");
+    expect(options).toMatchObject({ behaviorIds: ["create-ticket"], tags: ["smoke", "tickets"], excludeTags: ["slow"] });
+    expect(JSON.parse(readFileSync(output, "utf-8")).reward).toBe(0.5);
+  });
+
+  it("should pass changed behaviors for an impact-based run", async () => {
+    const instructionPath = path.join(dir, "instruction.md");
+    writeFileSync(instructionPath, "# App\n\n## Behaviors\n### Sign Up\n#### Steps\n* Act: Click Sign Up\n\n### Create Ticket\n#### Steps\n* Act: Click New\n");
+
+    expect(await runCli(["verify", instructionPath, "--changed", "create-ticket,sign-up", "--output", path.join(dir, "s.json")])).toBe(1);
+    expect(verifyAllBehaviors.mock.calls[0][3].changedBehaviorIds).toEqual(["create-ticket", "sign-up"]);
+
+    expect(await runCli(["verify", instructionPath, "--changed", "sign-up", "--tester", "claude"])).toBe(2);
+    expect(await runCli(["verify", dir, "--changed-since", "HEAD"])).toBe(2);
+  });
+
+  it("should reject changed IDs that match no behavior", async () => {
+    const instructionPath = path.join(dir, "instruction.md");
+    writeFileSync(instructionPath, "# App\n\n## Behaviors\n### Sign Up\n#### Steps\n* Act: Click Sign Up\n");
+
+    expect(await runCli(["verify", instructionPath, "--changed", "sign-up,sigm-up"])).toBe(2);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('--changed: no behavior "sigm-up"'));
+    expect(verifyAllBehaviors).not.toHaveBeenCalled();
+  });
+
+  it("should pass without verifying anything on a clean tree", async () => {
+    const git = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: dir, stdio: "pipe" });
+    const instructionPath = path.join(dir, "instruction.md");
+    writeFileSync(instructionPath, "# App\n\n## Behaviors\n### Sign Up\n#### Steps\n* Act: Click Sign Up\n");
+    git("init", "-q");
+    git("add", "-A");
+    git("commit", "-q", "-m", "specs");
+    const actual = await vi.importActual<typeof import("../../spec-test/index")>("../../spec-test/index.js");
+    verifyAllBehaviors.mockImplementation(actual.verifyAllBehaviors);
+
+    const output = path.join(dir, "test-results/summary.json");
+    expect(await runCli(["verify", instructionPath, "--changed-since", "HEAD", "--output", output])).toBe(0);
+    expect(JSON.parse(readFileSync(output, "utf-8"))).toMatchObject({ total: 0, reward: 1, unaffected: ["sign-up"] });
+  });
+
+  it("should take defaults from a config file and its profile", async () => {
+    const configPath = path.join(dir, "epic-test.config.json");
+    writeFileSync(configPath, JSON.stringify({
+      minReward: 0.5, behaviorTimeoutMs: 5000, reportDir: dir,
+      profiles: { staging: { minReward: 1, behaviors: { "create-ticket": { retries: 1 } } } },
+    }));
+
+    expect(await runCli(["verify", "instruction.md", "--config", configPath])).toBe(0);
+    expect(verifyAllBehaviors.mock.calls[0][2]).toBe(5000);
+    expect(existsSync(path.join(dir, "summary.json"))).toBe(true);
+
+    expect(await runCli(["verify", "instruction.md", "--config", configPath, "--profile", "staging"])).toBe(1);
+    expect(verifyAllBehaviors.mock.calls[1][3].behaviorOverrides).toEqual({ "create-ticket": { retries: 1 } });
+    expect(await runCli(["verify", "instruction.md", "--config", configPath, "--profile", "prod"])).toBe(2);
+  });
+
+  it("should verify every spec matched by the config's specs", async () => {
+    for (const app of ["crm", "shop"]) {
+      mkdirSync(path.join(dir, "apps", app), { recursive: true });
+      writeFileSync(path.join(dir, "apps", app, "instruction.md"), "");
+    }
+    const configPath = path.join(dir, "epic-test.config.json");
+    writeFileSync(configPath, JSON.stringify({ specs: "apps/*/instruction.md", reportDir: "out", minReward: 0.5 }));
+
+    expect(await runCli(["verify", "--config", configPath])).toBe(0);
+    expect(verifyAllBehaviors.mock.calls.map(call => call[0])).toEqual([
+      path.join(dir, "apps/crm/instruction.md"),
+      path.join(dir, "apps/shop/instruction.md"),
+    ]);
+    expect(existsSync(path.join(dir, "out/crm/summary.json"))).toBe(true);
+    expect(existsSync(path.join(dir, "out/shop/summary.json"))).toBe(true);
+    expect(await runCli(["verify", "--config", configPath, "--output", "summary.json"])).toBe(2);
+  });
+
+  it("should write reporters from a saved summary", async () => {
+    const summaryPath = path.join(dir, "summary.json");
+    writeFileSync(summaryPath, JSON.stringify(summary));
+
+    expect(await runCli(["report", summaryPath, "--reporter", "junit", "--report-dir", dir])).toBe(0);
+    expect(readFileSync(path.join(dir, "results.junit.xml"), "utf-8")).toContain("Ticket not shown");
+  });
+
+  it("should exit 2 on usage errors", async () => {
+    expect(await runCli(["deploy"])).toBe(2);
+    expect(await runCli(["verify"])).toBe(2);
+    expect(await runCli(["verify", "instruction.md", "--tester", "selenium"])).toBe(2);
+    expect(await runCli(["verify", "instruction.md", "--unknown-flag"])).toBe(2);
+    expect(verifyAllBehaviors).not.toHaveBeenCalled();
+  });
+
+  it("should lint and exit 1 only when errors are found", async () => {
+    const specPath = path.join(dir, "instruction.md");
+    writeFileSync(specPath, "## Behaviors\n### Sign In\n#### Dependencies\n1. Sign Up\n");
+
+    expect(await runCli(["lint", path.resolve(__dirname, "../../../test-fixtures/help-desk-app")])).toBe(0);
+    expect(await runCli(["lint", specPath])).toBe(1);
+  });
+});
+
+describe("exitCodeForReward", () => {
+  it("should pass only at or above the minimum reward", () => {
+    expect(exitCodeForReward(1)).toBe(0);
+    expect(exitCodeForReward(0.8)).toBe(1);
+    expect(exitCodeForReward(0.8, 0.75)).toBe(0);
+  });
+});
@@ -11,6 +11,7 @@
 // Re-export spec-test
 export {
   SpecTestRunner,
+  DeterministicRunner,
   parseSpecFile,
   parseSteps,
   parseExamples,
@@ -22,6 +23,7 @@ export {
 
 export type {
   SpecTestConfig,
+  DeterministicRunnerConfig,
   TestableSpec,
   SpecExample,
   SpecStep,
@@ -34,6 +36,10 @@ export type {
   StepContext,
 } from "./spec-test/index.js";
 
+// Re-export project config
+export { defineConfig, loadConfig } from "./shared/project-config.js";
+export type { EpicTestConfig, LoadedConfig, ModelConfig, ProfileName } from "./shared/project-config.js";
+
 // Re-export b-test
 export { Tester, TesterError } from "./b-test/index.js";
 export type { Snapshot, DiffResult } from "./b-test/index.js";
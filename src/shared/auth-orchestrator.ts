@@ -1,6 +1,9 @@
-import type { HarborBehavior, BehaviorContext, BehaviorRunner, ExampleResult } from "./types";
-import { VerificationContext } from "./verification-context";
-import { CredentialTracker, processStepsWithCredentials } from "./credential-tracker";
+import type { HarborBehavior, BehaviorContext, BehaviorOverride, BehaviorRunner, ExampleResult, ScenarioContext, SpecExample } from "./types.js";
+import { VerificationContext } from "./verification-context.js";
+import { CredentialTracker, processStepsWithCredentials } from "./credential-tracker.js";
+import { aggregateScenarioResults, notRunResult, toScenarioRecord } from "./summary.js";
+import { defaultRunEvents, type RunEventEmitter } from "./events.js";
+import { behaviorTimeoutFor, retryFailedBehavior } from "./behavior-overrides.js";
 
 /** Known auth behavior ID patterns */
 const AUTH_PATTERNS = ['sign-up', 'signup', 'sign-in', 'signin', 'sign-out', 'signout'];
@@ -28,16 +31,21 @@ export function withTimeout<T>(promise: Promise<T>, ms: number, timeoutError: st
  * Run auth behaviors in sequence: Sign Up → Sign Out → Sign In.
  *
  * Only Sign Up clears browser state. All subsequent auth behaviors preserve
- * the session. If Sign Up fails, everything downstream is skipped.
+ * the session. If Sign Up fails, everything downstream is skipped. Once the
+ * LLM budget runs out, the remaining auth behaviors are marked not_run.
  *
  * Each behavior's scenarios run sequentially via `runAuthBehaviorScenarios`.
+ * `overrides` replace the timeout and add retries per behavior.
+ * Emits behaviorStart / behaviorEnd for each auth behavior on `events`.
  */
 export async function runAuthBehaviorsSequence(
   allBehaviors: Map<string, HarborBehavior>,
   context: VerificationContext,
   credentialTracker: CredentialTracker,
   runner: BehaviorRunner,
-  behaviorTimeoutMs: number
+  behaviorTimeoutMs: number,
+  events: RunEventEmitter = runner.events ?? defaultRunEvents(),
+  overrides: Record<string, BehaviorOverride> = {},
 ): Promise<BehaviorContext[]> {
   const authBehaviors = AUTH_ORDER
     .map(id => allBehaviors.get(id))
@@ -45,7 +53,7 @@ export async function runAuthBehaviorsSequence(
 
   if (authBehaviors.length === 0) return [];
 
-  console.log(`\n=== Auth Flow: ${authBehaviors.map(b => b.title).join(' → ')} ===\n`);
+  events.log("runAuthBehaviorsSequence", `Auth Flow: ${authBehaviors.map(b => b.title).join(' → ')}`);
 
   const results: BehaviorContext[] = [];
 
@@ -53,11 +61,22 @@ export async function runAuthBehaviorsSequence(
     const behavior = authBehaviors[i];
     const isFirst = i === 0;
 
-    const result = await runSingleAuthBehavior(
-      behavior, isFirst, context, credentialTracker, runner, behaviorTimeoutMs,
-    );
+    if (context.budgetExceeded() || runner.isBudgetExhausted?.()) {
+      const result = notRunResult(behavior.id, behavior.title);
+      context.markResult(behavior.id, result);
+      events.emit("behaviorEnd", { result });
+      results.push(result);
+      continue;
+    }
+
+    events.emit("behaviorStart", { behaviorId: behavior.id, behaviorName: behavior.title, phase: "auth" });
+    const timeoutMs = behaviorTimeoutFor(behavior.id, behaviorTimeoutMs, overrides);
+    const result = await retryFailedBehavior(behavior, overrides, () => runSingleAuthBehavior(
+      behavior, isFirst, context, credentialTracker, runner, timeoutMs, events,
+    ), events);
 
     context.markResult(behavior.id, result);
+    events.emit("behaviorEnd", { result });
     results.push(result);
   }
 
@@ -73,6 +92,7 @@ async function runSingleAuthBehavior(
   credentialTracker: CredentialTracker,
   runner: BehaviorRunner,
   behaviorTimeoutMs: number,
+  events: RunEventEmitter,
 ): Promise<BehaviorContext> {
   if (!isFirst) {
     const signUpResult = context.getResult('sign-up');
@@ -83,7 +103,7 @@ async function runSingleAuthBehavior(
 
   const startTime = Date.now();
   try {
-    return await runAuthBehaviorScenarios(behavior, isFirst, runner, credentialTracker, behaviorTimeoutMs);
+    return await runAuthBehaviorScenarios(behavior, isFirst, runner, credentialTracker, behaviorTimeoutMs, events);
   } catch (error) {
     return errorResult(behavior, error, startTime);
   }
@@ -102,10 +122,9 @@ async function runAuthBehaviorScenarios(
   runner: BehaviorRunner,
   credentialTracker: CredentialTracker,
   behaviorTimeoutMs: number,
+  events: RunEventEmitter,
 ): Promise<BehaviorContext> {
-  let firstError: string | undefined;
-  let totalDuration = 0;
-  let failed = false;
+  const scenarios: ScenarioContext[] = [];
 
   for (let j = 0; j < behavior.examples.length; j++) {
     const example = behavior.examples[j];
@@ -115,7 +134,7 @@ async function runAuthBehaviorScenarios(
     const reloadPage = behavior.id === 'sign-in' && j > 0;
     const creds = credentialTracker.getCredentials();
 
-    console.log(`Auth [${behavior.id}][${j}/${behavior.examples.length - 1}]: ${processedSteps.length} steps, clearSession=${clearSession}, reloadPage=${reloadPage}, email=${creds.email ?? '(none)'}`);
+    events.log("runAuthBehaviorScenarios", `Auth [${behavior.id}][${j}/${behavior.examples.length - 1}]: ${processedSteps.length} steps, clearSession=${clearSession}, reloadPage=${reloadPage}, email=${creds.email ?? '(none)'}`);
 
     const result: ExampleResult = await withTimeout(
       runner.runExample({ ...example, steps: processedSteps }, { clearSession, reloadPage }),
@@ -125,20 +144,10 @@ async function runAuthBehaviorScenarios(
 
     captureCredentialsAfterSignUp(behavior, j, processedSteps, credentialTracker);
 
-    totalDuration += result.duration;
-    if (!result.success && !failed) {
-      failed = true;
-      firstError = result.failedAt?.context.error;
-    }
+    scenarios.push(scenarioResult(example, result));
   }
 
-  return {
-    behaviorId: behavior.id,
-    behaviorName: behavior.title,
-    status: failed ? 'fail' : 'pass',
-    error: firstError,
-    duration: totalDuration,
-  };
+  return aggregateScenarioResults(behavior.id, behavior.title, scenarios);
 }
 
 
@@ -156,6 +165,18 @@ function captureCredentialsAfterSignUp(
   }
 }
 
+function scenarioResult(example: SpecExample, result: ExampleResult): ScenarioContext {
+  return {
+    scenarioName: example.name,
+    status: result.success ? 'pass' : result.budgetExceeded ? 'budget_exceeded' : 'fail',
+    error: result.failedAt?.context.error,
+    failedStep: result.failedAt?.step,
+    result: toScenarioRecord(result),
+    usage: result.usage,
+    duration: result.duration,
+  };
+}
+
 function skipResult(behavior: HarborBehavior): BehaviorContext {
   return {
     behaviorId: behavior.id,
@@ -1,13 +1,19 @@
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { SpecExample, ExampleResult, BehaviorRunner } from "./types";
+import type { SpecExample, ExampleResult, BehaviorRunner, StorageState, Verbosity, PriceTable, LlmBudget, CassetteOptions } from "./types.js";
+import { RunEventEmitter, createRunEvents, defaultRunEvents } from "./events.js";
+import { UsageTracker, instrumentStagehand } from "./usage.js";
+import { BudgetGuard, toBudgetGuard } from "./budget.js";
+import { Cassette, recordStagehandClient } from "./cassette.js";
 import {
   detectPort,
   resetSession,
   navigateToPagePath,
   clearFormFields,
   safeWaitForLoadState,
-} from "./session-management";
+  saveStorageState,
+  restoreStorageState,
+} from "./session-management.js";
 
 /** Timeout for browser close operations (ms) */
 const CLOSE_TIMEOUT_MS = 10_000;
@@ -22,6 +28,16 @@ export interface BaseRunnerConfig {
   browserbaseApiKey?: string;
   headless?: boolean;
   cacheDir?: string;
+  /** Event emitter for progress events (default: shared emitter printing to the console) */
+  events?: RunEventEmitter;
+  /** Console verbosity when no emitter is passed: "silent", "normal" (default) or "verbose" */
+  verbosity?: Verbosity;
+  /** Model prices for LLM cost estimates, merged over DEFAULT_PRICES */
+  prices?: PriceTable;
+  /** Hard LLM limits; pass one BudgetGuard to several runners to share a budget */
+  budget?: LlmBudget | BudgetGuard;
+  /** Record LLM responses to a cassette directory, or replay them offline */
+  cassette?: CassetteOptions;
 }
 
 /**
@@ -32,6 +48,9 @@ export interface BaseRunnerConfig {
  * - Port auto-detection
  * - Session management (clear/navigate/preserve)
  * - Graceful browser cleanup with timeout
+ * - Progress events (`this.events`), printed by a console subscriber by default
+ * - LLM usage accounting (`this.usage`) for every Stagehand inference, with an optional hard budget
+ * - Record/replay of Stagehand's model client through `this.cassette`
  *
  * Subclasses implement `runExample()` with their specific execution strategy.
  */
@@ -39,9 +58,20 @@ export abstract class BaseStagehandRunner implements BehaviorRunner {
   protected config: BaseRunnerConfig;
   protected stagehand: Stagehand | null = null;
   protected portDetected = false;
+  readonly events: RunEventEmitter;
+  readonly usage: UsageTracker;
+  protected readonly cassette: Cassette | null;
 
   constructor(config: BaseRunnerConfig) {
     this.config = config;
+    this.events = config.events ?? (config.verbosity ? createRunEvents(config.verbosity) : defaultRunEvents());
+    this.usage = new UsageTracker(config.prices, toBudgetGuard(config.budget));
+    this.cassette = config.cassette ? new Cassette(config.cassette) : null;
+  }
+
+  /** True once the configured LLM budget is used up (always false without a budget). */
+  isBudgetExhausted(): boolean {
+    return this.usage.budget?.exhausted ?? false;
   }
 
   /**
@@ -84,6 +114,8 @@ export abstract class BaseStagehandRunner implements BehaviorRunner {
       ...this.config.stagehandOptions,
     });
 
+    if (this.cassette) recordStagehandClient(this.stagehand, this.cassette);
+    instrumentStagehand(this.stagehand, this.usage);
     await this.stagehand.init();
 
     const page = this.stagehand.context.activePage();
@@ -114,38 +146,57 @@ export abstract class BaseStagehandRunner implements BehaviorRunner {
     const shouldClearSession = options?.clearSession !== false;
     const runnerName = this.constructor.name;
 
-    console.log(
-      `[${runnerName}] clearSession=${shouldClearSession}, navigateToPath=${options?.navigateToPath ?? "(none)"}, currentUrl=${page.url()}`
+    this.events.log(
+      runnerName,
+      `clearSession=${shouldClearSession}, navigateToPath=${options?.navigateToPath ?? "(none)"}, currentUrl=${page.url()}`,
+      "debug",
     );
 
     if (shouldClearSession) {
       if (!this.portDetected) {
-        this.config.baseUrl = await detectPort(page, this.config.baseUrl);
+        this.config.baseUrl = await detectPort(page, this.config.baseUrl, this.events);
         this.portDetected = true;
       }
-      await resetSession(page, this.config.baseUrl);
+      await resetSession(page, this.config.baseUrl, this.events);
     } else if (options?.navigateToPath) {
       await navigateToPagePath(
         page,
         options.navigateToPath,
         this.config.baseUrl,
         stagehand,
-        options?.credentials
+        options?.credentials,
+        this.events
       );
     } else {
-      console.log(
-        `[${runnerName}] Preserving session. Page URL: ${page.url()}`
-      );
+      this.events.log(runnerName, `Preserving session. Page URL: ${page.url()}`);
     }
 
     if (options?.reloadPage) {
-      console.log(`[${runnerName}] Reloading page to clean form state`);
       await page.reload();
       await safeWaitForLoadState(page);
-      await clearFormFields(page);
+      await clearFormFields(page, this.events);
+      this.events.emit("sessionReset", { scope: runnerName, kind: "reload", url: page.url(), detail: "Reloaded page to clean form state" });
     }
   }
 
+  /** Snapshot the browser's cookies and storage (see SessionCache). */
+  async saveSessionState(): Promise<StorageState> {
+    const stagehand = await this.initializeStagehand();
+    return saveStorageState(this.activePage(stagehand), stagehand);
+  }
+
+  /** Restore a snapshot from saveSessionState(); false when the session is stale. */
+  async restoreSessionState(state: StorageState): Promise<boolean> {
+    const stagehand = await this.initializeStagehand();
+    return restoreStorageState(this.activePage(stagehand), stagehand, state, this.events);
+  }
+
+  private activePage(stagehand: Stagehand): Page {
+    const page = stagehand.context.activePage();
+    if (!page) throw new Error("No active page available");
+    return page as unknown as Page;
+  }
+
   /** Each runner implements this with their specific execution strategy. */
   abstract runExample(
     example: SpecExample,
@@ -157,6 +208,23 @@ export abstract class BaseStagehandRunner implements BehaviorRunner {
     }
   ): Promise<ExampleResult>;
 
+  /** Refused LLM calls so far; compare before and after an example with applyBudgetOutcome(). */
+  protected budgetRefusals(): number {
+    return this.usage.budget?.refusals ?? 0;
+  }
+
+  /**
+   * Mark a failed example as cut off by the budget when a call was refused
+   * while it ran; its failure error becomes the budget reason.
+   */
+  protected applyBudgetOutcome(result: ExampleResult, refusalsBefore: number): ExampleResult {
+    if (result.success || this.budgetRefusals() === refusalsBefore) return result;
+
+    const error = this.usage.budget!.reason;
+    const failedAt = result.failedAt && { ...result.failedAt, context: { ...result.failedAt.context, error } };
+    return { ...result, budgetExceeded: true, failedAt };
+  }
+
   /** Close browser and clean up resources with timeout. */
   async close(): Promise<void> {
     if (this.stagehand) {
@@ -0,0 +1,33 @@
+import type { BehaviorContext, BehaviorOverride, HarborBehavior } from "./types.js";
+import type { RunEventEmitter } from "./events.js";
+
+/** Timeout for a behavior: its override, else the run-wide default. */
+export function behaviorTimeoutFor(
+  behaviorId: string, defaultMs: number, overrides: Record<string, BehaviorOverride> = {},
+): number {
+  return overrides[behaviorId]?.timeoutMs ?? defaultMs;
+}
+
+/**
+ * Run a behavior and re-run it while it fails, up to its `retries` override.
+ * Only "fail" is retried — passes, dependency skips and budget cut-offs are final.
+ * A retried result records the number of runs in `attempts`.
+ */
+export async function retryFailedBehavior(
+  behavior: HarborBehavior,
+  overrides: Record<string, BehaviorOverride> = {},
+  run: () => Promise<BehaviorContext>,
+  events: RunEventEmitter,
+): Promise<BehaviorContext> {
+  const retries = Math.max(0, Math.floor(overrides[behavior.id]?.retries ?? 0));
+  let result = await run();
+  let attempts = 1;
+
+  while (attempts <= retries && result.status === "fail") {
+    events.log("retryFailedBehavior", `Retrying "${behavior.title}" (${attempts}/${retries}) after: ${result.error ?? "failure"}`);
+    result = await run();
+    attempts++;
+  }
+
+  return retries > 0 ? { ...result, attempts } : result;
+}
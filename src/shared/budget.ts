@@ -0,0 +1,68 @@
+import type { LlmBudget, LlmCall } from "./types.js";
+
+/**
+ * Thrown instead of making an LLM call once the run's budget is exhausted.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Hard cap on LLM calls, tokens and estimated cost.
+ *
+ * A UsageTracker charges every recorded call; instrumented Stagehand methods,
+ * Tester.assert and the agent runner call `assertAvailable()` first, so once a
+ * limit is reached every further LLM call fails fast with BudgetExceededError.
+ * Pass the same guard to several runners to share one budget between parallel
+ * workers.
+ */
+export class BudgetGuard {
+  private calls = 0;
+  private tokens = 0;
+  private cost = 0;
+  private refused = 0;
+
+  constructor(readonly limits: LlmBudget) {}
+
+  charge(call: LlmCall, cost: number): void {
+    this.calls++;
+    this.tokens += call.inputTokens + call.outputTokens;
+    this.cost += cost;
+  }
+
+  /** True once any limit is reached. */
+  get exhausted(): boolean {
+    return this.reason !== undefined;
+  }
+
+  /** Which limit was reached, e.g. `LLM budget exhausted: 50/50 calls`. */
+  get reason(): string | undefined {
+    const { maxCalls, maxTokens, maxCost } = this.limits;
+    if (maxCalls !== undefined && this.calls >= maxCalls) return `LLM budget exhausted: ${this.calls}/${maxCalls} calls`;
+    if (maxTokens !== undefined && this.tokens >= maxTokens) return `LLM budget exhausted: ${this.tokens}/${maxTokens} tokens`;
+    if (maxCost !== undefined && this.cost >= maxCost) return `LLM budget exhausted: $${this.cost.toFixed(4)}/$${maxCost} estimated cost`;
+    return undefined;
+  }
+
+  /** Number of LLM calls refused so far; runners compare it before and after an example. */
+  get refusals(): number {
+    return this.refused;
+  }
+
+  /** Throw BudgetExceededError when the budget is exhausted; call before every LLM call. */
+  assertAvailable(): void {
+    const reason = this.reason;
+    if (reason === undefined) return;
+    this.refused++;
+    throw new BudgetExceededError(reason);
+  }
+}
+
+/** Accept budget limits or a guard shared with other runners. */
+export function toBudgetGuard(budget: LlmBudget | BudgetGuard | undefined): BudgetGuard | null {
+  if (!budget) return null;
+  return budget instanceof BudgetGuard ? budget : new BudgetGuard(budget);
+}
@@ -0,0 +1,177 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import type { CreateChatCompletionOptions, Stagehand } from "@browserbasehq/stagehand";
+import type { LanguageModelV2, LanguageModelV2CallOptions } from "@ai-sdk/provider";
+import { wrapLanguageModel } from "ai";
+import type { CassetteOptions } from "./types.js";
+
+/** Where a recorded call came from: Tester.assert's model or Stagehand's model client. */
+export type CassetteKind = "language-model" | "stagehand";
+
+/** One cassette file: every response recorded for one prompt hash, in call order. */
+interface CassetteEntry {
+  kind: CassetteKind;
+  model: string;
+  hash: string;
+  responses: unknown[];
+}
+
+/**
+ * Thrown in replay mode when a prompt has no recorded response.
+ */
+export class CassetteMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * Directory of recorded LLM responses, one JSON file per prompt hash.
+ *
+ * A prompt sent several times replays its responses in the order they were
+ * recorded, repeating the last one. Re-recording replaces a file the first
+ * time its prompt comes up in the session.
+ */
+export class Cassette {
+  private written = new Set<string>();
+  private replayed = new Map<string, number>();
+
+  constructor(readonly options: CassetteOptions) {}
+
+  get mode(): CassetteOptions["mode"] {
+    return this.options.mode;
+  }
+
+  /** Replay the response for `request`, or call the model and record its response. */
+  async play<T>(kind: CassetteKind, model: string, request: unknown, call: () => Promise<T>): Promise<T> {
+    const hash = cassetteKey(kind, model, request);
+    if (this.mode === "replay") return this.replay(kind, model, hash) as T;
+
+    const response = await call();
+    this.record(kind, model, hash, response);
+    return response;
+  }
+
+  private replay(kind: CassetteKind, model: string, hash: string): unknown {
+    const file = this.fileFor(hash);
+    if (!existsSync(file)) {
+      throw new CassetteMissError(
+        `No recorded ${kind} response for ${model} (prompt ${hash}) in ${this.options.dir}. Record the cassette again with mode "record".`,
+      );
+    }
+
+    const entry = JSON.parse(readFileSync(file, "utf-8")) as CassetteEntry;
+    const index = this.replayed.get(hash) ?? 0;
+    this.replayed.set(hash, index + 1);
+    return entry.responses[Math.min(index, entry.responses.length - 1)];
+  }
+
+  private record(kind: CassetteKind, model: string, hash: string, response: unknown): void {
+    const file = this.fileFor(hash);
+    const previous = this.written.has(hash) && existsSync(file)
+      ? (JSON.parse(readFileSync(file, "utf-8")) as CassetteEntry).responses
+      : [];
+    const entry: CassetteEntry = { kind, model, hash, responses: [...previous, response] };
+
+    mkdirSync(this.options.dir, { recursive: true });
+    writeFileSync(file, JSON.stringify(entry, null, 2), "utf-8");
+    this.written.add(hash);
+  }
+
+  private fileFor(hash: string): string {
+    return path.join(this.options.dir, `${hash}.json`);
+  }
+}
+
+/**
+ * Prompt hash for a request. Object keys are sorted, binary data is hashed and
+ * runs of six or more digits (timestamps, uniquified emails) are masked, so a
+ * re-run with fresh test data still finds its recording.
+ */
+export function cassetteKey(kind: CassetteKind, model: string, request: unknown): string {
+  const canonical = JSON.stringify({ kind, model, request }, canonicalValue).replace(/\d{6,}/g, "#");
+  return createHash("sha256").update(canonical).digest("hex").slice(0, 16);
+}
+
+function canonicalValue(_key: string, value: unknown): unknown {
+  if (value instanceof Uint8Array) return `<bytes ${createHash("sha256").update(value).digest("hex")}>`;
+  if (value && typeof value === "object" && (value as { type?: string }).type === "Buffer" && Array.isArray((value as { data?: unknown }).data)) {
+    return `<bytes ${createHash("sha256").update(Buffer.from((value as { data: number[] }).data)).digest("hex")}>`;
+  }
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+  }
+  return value;
+}
+
+// ── MODEL WRAPPERS ─────────────────────────────────────────────────────
+
+/**
+ * Wrap a LanguageModelV2 (e.g. the one passed to Tester) so doGenerate goes
+ * through the cassette. Streaming is passed through in record mode and refused
+ * in replay mode.
+ */
+export function recordLanguageModel(model: LanguageModelV2, cassette: Cassette): LanguageModelV2 {
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: ({ doGenerate, params }) =>
+        cassette.play("language-model", model.modelId, requestOf(params), async () => {
+          const { content, finishReason, usage, providerMetadata, warnings } = await doGenerate();
+          return { content, finishReason, usage, providerMetadata, warnings };
+        }),
+      wrapStream: async ({ doStream }) => {
+        if (cassette.mode === "replay") {
+          throw new CassetteMissError(`Streaming calls to ${model.modelId} cannot be replayed from a cassette`);
+        }
+        return doStream();
+      },
+    },
+  });
+}
+
+/** Call options that decide the response: everything except transport details. */
+function requestOf(params: LanguageModelV2CallOptions): Omit<LanguageModelV2CallOptions, "abortSignal" | "headers"> {
+  const { abortSignal: _abortSignal, headers: _headers, ...request } = params;
+  return request;
+}
+
+/**
+ * Route Stagehand's model client (act/observe/extract inference) through the
+ * cassette. Call after constructing Stagehand and before init(), which hands
+ * the client to its handlers.
+ *
+ * Only the session model is recorded. A per-call `model` option makes Stagehand
+ * build a separate client that would bypass the cassette, so act/observe/extract
+ * calls passing one are refused.
+ */
+export function recordStagehandClient(
+  stagehand: Pick<Stagehand, "llmClient" | "act" | "observe" | "extract">,
+  cassette: Cassette,
+): void {
+  const client = stagehand.llmClient;
+  if (!client) return;
+
+  const createChatCompletion = client.createChatCompletion.bind(client);
+  client.createChatCompletion = ((args: CreateChatCompletionOptions) => {
+    const { requestId: _requestId, response_model, ...options } = args.options;
+    const request = { ...options, response_model: response_model?.name };
+    return cassette.play("stagehand", client.modelName, request, () => createChatCompletion(args));
+  }) as typeof client.createChatCompletion;
+
+  stagehand.act = withoutModelOverride(stagehand.act, stagehand, "act");
+  stagehand.observe = withoutModelOverride(stagehand.observe, stagehand, "observe");
+  stagehand.extract = withoutModelOverride(stagehand.extract, stagehand, "extract");
+}
+
+/** `method` bound to `self`, rejecting calls whose options carry a `model`. */
+function withoutModelOverride<F extends (...args: never[]) => Promise<unknown>>(method: F, self: unknown, name: string): F {
+  return (async (...args: Parameters<F>) => {
+    if (args.some(arg => !!arg && typeof arg === "object" && Object.prototype.hasOwnProperty.call(arg, "model"))) {
+      throw new Error(`${name}() with a per-call model is not supported with a cassette — it would bypass the recording`);
+    }
+    return method.apply(self, args);
+  }) as F;
+}
@@ -1,4 +1,4 @@
-import type { HarborBehavior, SpecStep } from "./types";
+import type { HarborBehavior, SpecStep } from "./types.js";
 
 /** Matches "Type 'value' into the field" — captures value and field descriptor. */
 export const TYPE_INTO_FIELD_PATTERN = /Type\s+["']([^"']+)["']\s+into\s+(?:the\s+)?(.+)/i;
@@ -13,10 +13,16 @@ const EXECUTION_COUNTER_RANGE = 900000;
 export class CredentialTracker {
   private credentials: { email: string | null; password: string | null };
   private executionCounter: number;
+  private workerId?: number;
 
-  constructor() {
+  /**
+   * @param workerId - Set when several trackers run side by side (parallel workers):
+   *   emails get a `_w<id>` suffix so two workers can never produce the same address.
+   */
+  constructor(workerId?: number) {
     this.credentials = { email: null, password: null };
     this.executionCounter = Math.floor(Math.random() * EXECUTION_COUNTER_RANGE) + EXECUTION_COUNTER_MIN;
+    this.workerId = workerId;
   }
 
   /** Generate unique email variant to avoid duplicate registration. */
@@ -24,7 +30,8 @@ export class CredentialTracker {
     this.executionCounter++;
     const atIndex = email.indexOf('@');
     if (atIndex === -1) return email;
-    return `${email.slice(0, atIndex)}_${this.executionCounter}${email.slice(atIndex)}`;
+    const workerSuffix = this.workerId === undefined ? '' : `_w${this.workerId}`;
+    return `${email.slice(0, atIndex)}_${this.executionCounter}${workerSuffix}${email.slice(atIndex)}`;
   }
 
   /** Capture credentials from a Type step instruction. */
@@ -75,6 +82,11 @@ export class CredentialTracker {
     return { ...this.credentials };
   }
 
+  /** Adopt credentials from an earlier chain (e.g. a restored session). */
+  setCredentials(credentials: { email: string | null; password: string | null }): void {
+    this.credentials = { ...credentials };
+  }
+
   reset(): void {
     this.credentials = { email: null, password: null };
   }
@@ -1,4 +1,4 @@
-import type { HarborBehavior, ChainStep } from "./types";
+import type { HarborBehavior, ChainStep } from "./types.js";
 
 /**
  * Build the complete dependency chain for a behavior.
@@ -0,0 +1,157 @@
+import { appendFileSync, mkdirSync } from "fs";
+import path from "path";
+import type { BehaviorContext, RunEvent, RunEventMap, RunEventName, Verbosity } from "./types.js";
+import { formatUsage } from "./usage.js";
+
+type Listener<K extends RunEventName> = (event: Extract<RunEvent, { type: K }>) => void;
+
+/**
+ * Typed event bus for a verification run. Runners and orchestrators emit;
+ * subscribers (console, NDJSON file, custom) listen. A throwing listener never
+ * breaks the run.
+ */
+export class RunEventEmitter {
+  private listeners = new Map<RunEventName, Set<(event: RunEvent) => void>>();
+  private anyListeners = new Set<(event: RunEvent) => void>();
+
+  /** Subscribe to one event type. Returns an unsubscribe function. */
+  on<K extends RunEventName>(type: K, listener: Listener<K>): () => void {
+    const set = this.listeners.get(type) ?? new Set();
+    set.add(listener as (event: RunEvent) => void);
+    this.listeners.set(type, set);
+    return () => set.delete(listener as (event: RunEvent) => void);
+  }
+
+  /** Subscribe to every event. Returns an unsubscribe function. */
+  onAny(listener: (event: RunEvent) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  emit<K extends RunEventName>(type: K, payload: RunEventMap[K]): void {
+    const event = { type, timestamp: Date.now(), ...payload } as unknown as RunEvent;
+    for (const listener of [...(this.listeners.get(type) ?? []), ...this.anyListeners]) {
+      try {
+        listener(event);
+      } catch {
+        // Subscribers must not affect the run
+      }
+    }
+  }
+
+  /** Emit a free-form progress message (the console subscriber prints it like the old logs). */
+  log(scope: string, message: string, level: "info" | "debug" = "info"): void {
+    this.emit("log", { level, scope, message });
+  }
+}
+
+let defaultEmitter: RunEventEmitter | null = null;
+
+/**
+ * Shared emitter used when no emitter is passed in, with a console subscriber
+ * at "normal" verbosity — the output callers got before events existed.
+ */
+export function defaultRunEvents(): RunEventEmitter {
+  if (!defaultEmitter) {
+    defaultEmitter = new RunEventEmitter();
+    attachConsoleSubscriber(defaultEmitter);
+  }
+  return defaultEmitter;
+}
+
+/** Emitter with a console subscriber at the given verbosity. */
+export function createRunEvents(verbosity: Verbosity = "normal"): RunEventEmitter {
+  const emitter = new RunEventEmitter();
+  attachConsoleSubscriber(emitter, { verbosity });
+  return emitter;
+}
+
+// ── SUBSCRIBERS ────────────────────────────────────────────────────────
+
+/** Events printed at "normal" verbosity; everything else needs "verbose". */
+const NORMAL_EVENTS = new Set<RunEventName>([
+  "runStart", "runEnd", "behaviorStart", "behaviorEnd", "chainStep", "fallbackUsed", "sessionReset",
+]);
+
+/**
+ * Print events to the console.
+ * - silent: nothing
+ * - normal: run/behavior/chain progress, fallbacks, session resets, info logs
+ * - verbose: also every step, every oracle decision and debug logs
+ */
+export function attachConsoleSubscriber(
+  emitter: RunEventEmitter,
+  options: { verbosity?: Verbosity; write?: (line: string) => void } = {},
+): () => void {
+  const verbosity = options.verbosity ?? "normal";
+  const write = options.write ?? ((line: string) => console.log(line));
+  if (verbosity === "silent") return () => {};
+
+  return emitter.onAny(event => {
+    const visible = verbosity === "verbose"
+      || NORMAL_EVENTS.has(event.type)
+      || (event.type === "log" && event.level === "info");
+    if (!visible) return;
+
+    const line = formatEvent(event);
+    if (line !== null) write(line);
+  });
+}
+
+/**
+ * Append every event as one JSON line to filePath. Page snapshots are replaced
+ * by their length to keep lines small. Returns an unsubscribe function.
+ */
+export function attachNdjsonSubscriber(emitter: RunEventEmitter, filePath: string): () => void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  return emitter.onAny(event => {
+    appendFileSync(filePath, JSON.stringify(event, omitSnapshots) + "\n", "utf-8");
+  });
+}
+
+function omitSnapshots(key: string, value: unknown): unknown {
+  if (key === "pageSnapshot" && typeof value === "string") return `<${value.length} chars>`;
+  return value;
+}
+
+const BEHAVIOR_LABELS: Record<BehaviorContext["status"], string> = {
+  pass: "PASS",
+  fail: "FAIL",
+  dependency_failed: "SKIP",
+  budget_exceeded: "BUDGET",
+  not_run: "NOT RUN",
+};
+
+/** One console line per event, matching the log lines that preceded the event stream. */
+export function formatEvent(event: RunEvent): string | null {
+  switch (event.type) {
+    case "runStart":
+      return `\n=== ${event.mode === "continuous" ? "Continuous run" : "Run"}: ${event.behaviorIds.length} behaviors from ${event.source} ===\n`;
+    case "runEnd":
+      return event.summary
+        ? `\n=== Done: ${event.summary.summary} (${(event.duration / 1000).toFixed(1)}s${event.summary.usage ? `, ${formatUsage(event.summary.usage)}` : ""}) ===\n`
+        : null;
+    case "behaviorStart":
+      return `▶ ${event.behaviorName} (${event.phase})`;
+    case "behaviorEnd": {
+      const { result } = event;
+      const label = BEHAVIOR_LABELS[result.status];
+      const reason = result.status === "dependency_failed" ? ` — dependency "${result.failedDependency}" failed` : result.error ? ` — ${result.error.slice(0, 200)}` : "";
+      return `[${label}] ${result.behaviorName} (${(result.duration / 1000).toFixed(1)}s)${reason}`;
+    }
+    case "chainStep":
+      return `Chain: ${event.behaviorId} — ${event.steps} steps, email=${event.email ?? "(none)"}${event.navigateToPath ? `, navigateTo=${event.navigateToPath}` : ""}`;
+    case "stepStart":
+      return `  → [${event.stepIndex + 1}/${event.totalSteps}] ${event.step.type}: ${event.step.instruction}`;
+    case "stepEnd":
+      return `  ${event.result.success ? "✔" : "✘"} [${event.stepIndex + 1}] ${event.result.step.type} (${event.result.duration}ms)`;
+    case "oracleDecision":
+      return `    ${event.oracle} → ${event.passed ? "pass" : "fail"}: "${event.instruction.slice(0, 80)}"${event.reason ? ` — ${event.reason}` : ""}`;
+    case "fallbackUsed":
+      return `[${event.scope}] ${event.reason} — falling back from ${event.from} to ${event.to}`;
+    case "sessionReset":
+      return `[${event.scope}] ${event.detail ?? event.kind}. Page URL: ${event.url}`;
+    case "log":
+      return event.scope ? `[${event.scope}] ${event.message}` : event.message;
+  }
+}
@@ -0,0 +1,177 @@
+import type { Reporter, ReportSuite, ReportTestCase, StepRecord, TestReport } from "./types.js";
+import { formatUsage } from "./usage.js";
+
+const STATUS_ICON: Record<ReportTestCase["status"], string> = {
+  passed: "✔",
+  failed: "✘",
+  skipped: "⊘",
+};
+
+const STYLES = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 0; display: flex; color: #1f2328; }
+nav { width: 300px; flex-shrink: 0; height: 100vh; overflow-y: auto; position: sticky; top: 0; border-right: 1px solid #d0d7de; background: #f6f8fa; padding: 12px; box-sizing: border-box; }
+nav ul { list-style: none; padding-left: 14px; margin: 4px 0; }
+nav > ul { padding-left: 0; }
+nav a { color: inherit; text-decoration: none; }
+main { flex: 1; padding: 16px 24px; min-width: 0; }
+h1 { font-size: 20px; margin: 0 0 8px; }
+h2 { font-size: 17px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; margin-top: 32px; }
+h3 { font-size: 15px; margin: 20px 0 8px; }
+.counts span { margin-right: 16px; }
+.passed { color: #1a7f37; } .failed { color: #cf222e; } .skipped { color: #9a6700; }
+.message { background: #ffebe9; border: 1px solid #ffcecb; padding: 8px; border-radius: 6px; white-space: pre-wrap; }
+ol.timeline { list-style: none; padding-left: 0; border-left: 2px solid #d0d7de; margin-left: 6px; }
+ol.timeline > li { padding: 4px 0 8px 14px; position: relative; }
+ol.timeline > li::before { content: ""; position: absolute; left: -6px; top: 10px; width: 10px; height: 10px; border-radius: 50%; background: #1a7f37; }
+ol.timeline > li.step-failed::before { background: #cf222e; }
+.meta { color: #656d76; font-size: 12px; }
+.detail { margin: 4px 0; white-space: pre-wrap; }
+iframe { width: 100%; height: 420px; border: 1px solid #d0d7de; border-radius: 6px; background: #fff; }
+code { background: #eff1f3; padding: 1px 4px; border-radius: 4px; }
+`;
+
+/**
+ * Self-contained HTML report: behavior tree, per-scenario step timelines with
+ * check reasoning, failure suggestions and sandboxed renders of captured DOM
+ * snapshots. No scripts or external assets — the file can be attached to CI runs.
+ */
+export const htmlReporter: Reporter = {
+  name: "html",
+  extension: ".html",
+  render(report) {
+    const all = report.suites.flatMap(s => s.tests);
+    const count = (status: ReportTestCase["status"]) => all.filter(t => t.status === status).length;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.name)} — test report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<nav>
+<strong>Behaviors</strong>
+<ul>
+${report.suites.map(renderTreeItem).join("\n")}
+</ul>
+</nav>
+<main>
+<h1>${escapeHtml(report.name)}</h1>
+<div class="counts">
+<span class="passed">${count("passed")} passed</span>
+<span class="failed">${count("failed")} failed</span>
+<span class="skipped">${count("skipped")} skipped</span>
+<span class="meta">${new Date(report.startTime).toISOString()} · ${formatDuration(report.duration)}</span>
+</div>
+${report.suites.map(renderSuite).join("\n")}
+</main>
+</body>
+</html>
+`;
+  },
+};
+
+// ── SECTIONS ───────────────────────────────────────────────────────────
+
+function renderTreeItem(suite: ReportSuite): string {
+  const status = suiteStatus(suite);
+  const tests = suite.tests
+    .map((t, i) => `<li><a href="#${anchor(suite, i)}" class="${t.status}">${STATUS_ICON[t.status]} ${escapeHtml(t.name)}</a></li>`)
+    .join("");
+  return `<li><a href="#${escapeHtml(suite.id)}" class="${status}">${STATUS_ICON[status]} ${escapeHtml(suite.name)}</a><ul>${tests}</ul></li>`;
+}
+
+function renderSuite(suite: ReportSuite): string {
+  const status = suiteStatus(suite);
+  return `<section id="${escapeHtml(suite.id)}">
+<h2 class="${status}">${STATUS_ICON[status]} ${escapeHtml(suite.name)} <span class="meta">${formatDuration(suite.duration)}</span></h2>
+${suite.tests.map((t, i) => renderTestCase(suite, t, i)).join("\n")}
+</section>`;
+}
+
+function renderTestCase(suite: ReportSuite, test: ReportTestCase, index: number): string {
+  const parts = [
+    `<h3 id="${anchor(suite, index)}" class="${test.status}">${STATUS_ICON[test.status]} ${escapeHtml(test.name)} <span class="meta">${formatDuration(test.duration)}</span></h3>`,
+  ];
+
+  if (test.message) parts.push(`<div class="message">${escapeHtml(test.message)}</div>`);
+
+  const result = test.result;
+  if (result?.steps.length) {
+    parts.push(`<ol class="timeline">${result.steps.map(s => renderStep(s, test.file)).join("\n")}</ol>`);
+  }
+
+  const artifacts = result?.artifacts;
+  const links = [
+    artifacts?.tracePath && `<a href="${escapeHtml(fileUrl(artifacts.tracePath))}">Trace</a> <span class="meta">(npx playwright show-trace)</span>`,
+    artifacts?.videoPath && `<a href="${escapeHtml(fileUrl(artifacts.videoPath))}">Video</a>`,
+  ].filter(Boolean);
+  if (links.length) parts.push(`<p>${links.join(" · ")}</p>`);
+
+  const failure = result?.failure;
+  if (failure) {
+    if (failure.pageUrl) parts.push(`<p class="meta">Failed at <code>${escapeHtml(failure.pageUrl)}</code></p>`);
+    if (failure.suggestions.length) {
+      parts.push(`<details open><summary>Suggestions</summary><ul>${failure.suggestions.map(s => `<li>${escapeHtml(s)}</li>`).join("")}</ul></details>`);
+    }
+    if (failure.pageSnapshot) {
+      parts.push(`<details open><summary>DOM at failure</summary>${renderSnapshot(failure.pageSnapshot)}</details>`);
+    }
+  }
+
+  return parts.join("\n");
+}
+
+function renderStep(step: StepRecord, file?: string): string {
+  const location = step.lineNumber ? ` · ${escapeHtml(file ? `${file}:` : "line ")}${step.lineNumber}` : "";
+  const details = [...(step.error ? [`Error: ${step.error}`] : []), ...step.details]
+    .map(d => `<div class="detail">${escapeHtml(d)}</div>`).join("");
+  const snapshot = step.pageSnapshot
+    ? `<details><summary>DOM after step</summary>${renderSnapshot(step.pageSnapshot)}</details>`
+    : "";
+  const screenshot = step.screenshotPath
+    ? `<div class="detail"><a href="${escapeHtml(fileUrl(step.screenshotPath))}">Screenshot</a></div>`
+    : "";
+
+  return `<li class="${step.success ? "step-passed" : "step-failed"}">
+<strong>${escapeHtml(step.type)}:</strong> ${escapeHtml(step.instruction)}
+<div class="meta">${step.success ? "passed" : "failed"} · ${formatDuration(step.duration)}${location}${step.usage ? ` · ${escapeHtml(formatUsage(step.usage))}` : ""}</div>
+${details}${screenshot}${snapshot}
+</li>`;
+}
+
+/** Render captured HTML in a fully sandboxed iframe (no scripts, no same-origin access). */
+function renderSnapshot(html: string): string {
+  return `<iframe sandbox="" loading="lazy" srcdoc="${escapeHtml(html)}"></iframe>`;
+}
+
+// ── HELPERS ────────────────────────────────────────────────────────────
+
+function suiteStatus(suite: ReportSuite): ReportTestCase["status"] {
+  if (suite.tests.some(t => t.status === "failed")) return "failed";
+  if (suite.tests.some(t => t.status === "skipped")) return "skipped";
+  return "passed";
+}
+
+function anchor(suite: ReportSuite, index: number): string {
+  return `${escapeHtml(suite.id)}--${index + 1}`;
+}
+
+/** Artifact paths are absolute filesystem paths; link them as file URLs. */
+function fileUrl(filePath: string): string {
+  return filePath.startsWith("/") ? `file://${encodeURI(filePath)}` : encodeURI(filePath);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,31 @@
+import type { HarborBehavior } from "./types.js";
+import { buildTransitiveDependentsMap } from "./topological-sort.js";
+import { selectBehaviors } from "./selection.js";
+
+/**
+ * Narrow behaviors to the ones a change affects: the changed behaviors, every
+ * behavior that transitively depends on one of them, and the dependencies those
+ * need to run. Changed IDs that no longer exist (deleted behaviors) are ignored.
+ * Without `changedIds` every behavior is affected.
+ *
+ * Returns the behaviors to verify (in their original order) and the IDs of the
+ * unaffected ones, which the summary reports instead of counting.
+ */
+export function selectAffectedBehaviors(
+  behaviors: Map<string, HarborBehavior>,
+  changedIds: string[] | undefined,
+): { behaviors: Map<string, HarborBehavior>; unaffected: string[] } {
+  if (!changedIds) return { behaviors, unaffected: [] };
+
+  const dependentsMap = buildTransitiveDependentsMap(behaviors);
+  const affectedIds = new Set<string>();
+  for (const id of changedIds.filter(id => behaviors.has(id))) {
+    affectedIds.add(id);
+    for (const dependent of dependentsMap.get(id) ?? []) affectedIds.add(dependent);
+  }
+
+  const affected = affectedIds.size > 0
+    ? selectBehaviors(behaviors, { behaviorIds: [...affectedIds] })
+    : new Map<string, HarborBehavior>();
+  return { behaviors: affected, unaffected: [...behaviors.keys()].filter(id => !affected.has(id)) };
+}
@@ -2,48 +2,143 @@
 export type {
   SpecStep,
   SpecExample,
+  OutlineSource,
   BehaviorDependency,
   ChainStep,
   HarborBehavior,
+  Rule,
+  RuleCoverage,
   BehaviorContext,
+  ScenarioContext,
   VerificationSummary,
   ActResult,
+  RecordedAction,
   CheckResult,
+  AwaitResult,
+  CaptureResult,
   FailureContext,
   StepResult,
   ExampleResult,
+  ExampleArtifacts,
+  ScenarioRecord,
+  StepRecord,
+  LlmOperation,
+  LlmCall,
+  LlmUsageTotals,
+  LlmUsage,
+  LlmBudget,
+  ModelPrice,
+  PriceTable,
+  CassetteOptions,
   ActContext,
   ActEvalResult,
   BehaviorRunner,
-} from "./types";
+  RouteHistory,
+  StorageCookie,
+  StorageState,
+  CachedSession,
+  RouteStrategy,
+  VerifyOptions,
+  BehaviorOverride,
+  TagFilter,
+  ReportTestCase,
+  ReportSuite,
+  TestReport,
+  Reporter,
+  ReporterName,
+  ReporterOption,
+  Verbosity,
+  RunEventMap,
+  RunEventName,
+  RunEvent,
+} from "./types.js";
 
 // --- Credential Tracker ---
-export { CredentialTracker, processStepsWithCredentials, TYPE_INTO_FIELD_PATTERN, TYPE_VALUE_PATTERN } from "./credential-tracker";
+export { CredentialTracker, processStepsWithCredentials, TYPE_INTO_FIELD_PATTERN, TYPE_VALUE_PATTERN } from "./credential-tracker.js";
 
 // --- Dependency Chain ---
-export { buildDependencyChain } from "./dependency-chain";
+export { buildDependencyChain } from "./dependency-chain.js";
+
+// --- Rule Coverage ---
+export { checkRuleCoverage, findUncoveredRules, withRuleChecks, RULE_COVERAGE_THRESHOLD } from "./rule-coverage.js";
+
+// --- Selection ---
+export { selectBehaviors, selectExamples, matchesTags } from "./selection.js";
+
+// --- Impact ---
+export { selectAffectedBehaviors } from "./impact.js";
+
+// --- Behavior Overrides ---
+export { behaviorTimeoutFor, retryFailedBehavior } from "./behavior-overrides.js";
+
+// --- Project Config ---
+export {
+  defineConfig,
+  loadConfig,
+  findConfigFile,
+  applyProfile,
+  resolveSpecPaths,
+  toRunnerConfig,
+  toVerifyOptions,
+  CONFIG_FILE_NAMES,
+} from "./project-config.js";
+export type {
+  EpicTestConfig,
+  LoadedConfig,
+  ModelConfig,
+  ProfileName,
+  TesterName,
+  StrategyName,
+  ClaudeVariantName,
+} from "./project-config.js";
 
 // --- Verification Context ---
-export { VerificationContext } from "./verification-context";
+export { VerificationContext } from "./verification-context.js";
 
 // --- Summary ---
-export { calculateReward, aggregateResults, generateSummary, createVerificationSummary } from "./summary";
+export { calculateReward, aggregateResults, aggregateScenarioResults, generateSummary, createVerificationSummary, notRunResult, toScenarioRecord } from "./summary.js";
 
 // --- Session Management ---
-export { detectPort, resetSession, navigateToPagePath, clearFormFields, urlsMatch, isSignInRedirect, recoverAuth, safeWaitForLoadState } from "./session-management";
+export { detectPort, resetSession, navigateToPagePath, clearFormFields, urlsMatch, isSignInRedirect, recoverAuth, safeWaitForLoadState } from "./session-management.js";
+export { saveStorageState, restoreStorageState } from "./session-management.js";
+
+// --- Session Cache ---
+export { SessionCache } from "./session-cache.js";
+
+// --- Route Params ---
+export { resolvePagePath, recordRouteHistory, emptyRouteHistory } from "./route-params.js";
 
 // --- Auth Orchestrator ---
-export { isAuthBehavior, runAuthBehaviorsSequence, withTimeout, DEFAULT_BEHAVIOR_TIMEOUT_MS, AUTH_ORDER } from "./auth-orchestrator";
+export { isAuthBehavior, runAuthBehaviorsSequence, withTimeout, DEFAULT_BEHAVIOR_TIMEOUT_MS, AUTH_ORDER } from "./auth-orchestrator.js";
 
 // --- Topological Sort ---
-export { topologicalSort } from "./topological-sort";
+export { topologicalSort, buildTransitiveDependentsMap } from "./topological-sort.js";
 
 // --- Base Runner ---
-export { BaseStagehandRunner } from "./base-runner";
-export type { BaseRunnerConfig } from "./base-runner";
+export { BaseStagehandRunner } from "./base-runner.js";
+export type { BaseRunnerConfig } from "./base-runner.js";
 
 // --- Verify Utils ---
-export { resolveFixturePath, printVerificationResults, saveVerificationResults } from "./verify-utils";
+export { resolveFixturePath, printVerificationResults, saveVerificationResults } from "./verify-utils.js";
+
+// --- Reporters ---
+export { summaryToReport, specResultToReport, writeReports, writeVerificationReports, resolveReporters } from "./reporters.js";
+export { junitReporter, tapReporter, ctrfReporter, DEFAULT_REPORT_DIR } from "./reporters.js";
+export { htmlReporter } from "./html-report.js";
+
+// --- Events ---
+export { RunEventEmitter, defaultRunEvents, createRunEvents, attachConsoleSubscriber, attachNdjsonSubscriber, formatEvent } from "./events.js";
+
+// --- LLM Usage ---
+export { UsageTracker, DEFAULT_PRICES, summarizeCalls, sumUsage, findModelPrice, formatUsage, instrumentStagehand, instrumentTester } from "./usage.js";
+
+// --- LLM Budget ---
+export { BudgetGuard, BudgetExceededError, toBudgetGuard } from "./budget.js";
+
+// --- Cassettes ---
+export { Cassette, CassetteMissError, cassetteKey, recordLanguageModel, recordStagehandClient } from "./cassette.js";
+export type { CassetteKind } from "./cassette.js";
 
 // --- Parsing (re-exported from spec-test — depends on classify which is spec-test-specific) ---
-export { parseSteps, parseExamples, parseHarborBehaviorsWithDependencies, parseSpecFile } from "../spec-test/parsing";
+export { parseSteps, parseExamples, parseHarborBehaviorsWithDependencies, parseBehaviorFile, parseSpecFile } from "../spec-test/parsing.js";
+export { loadBehaviors, loadBehaviorDirectory } from "../spec-test/behavior-loader.js";
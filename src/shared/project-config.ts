@@ -0,0 +1,315 @@
+import { existsSync, readdirSync, statSync } from "fs";
+import { readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { LanguageModelV2 } from "@ai-sdk/provider";
+import type { BehaviorOverride, ReporterOption, VerifyOptions } from "./types.js";
+import type { ArtifactConfig } from "../spec-test/types.js";
+import type { AgentTestConfig } from "../agent-test/types.js";
+import type { ClaudeVerifierOptions } from "../claude-test/types.js";
+
+/** Config files looked up in the working directory, in this order. */
+export const CONFIG_FILE_NAMES = [
+  "epic-test.config.ts",
+  "epic-test.config.mts",
+  "epic-test.config.js",
+  "epic-test.config.mjs",
+  "epic-test.config.json",
+];
+
+const DEFAULT_BASE_URL = "http://localhost:3000";
+
+/** Directories never searched when expanding spec globs. */
+const IGNORED_DIRS = new Set(["node_modules", ".git"]);
+
+/** Which verifier drives the browser. */
+export type TesterName = "spec" | "agent" | "claude";
+
+/** chain: every behavior replays its dependency chain; continuous: one session in dependency order. */
+export type StrategyName = "chain" | "continuous";
+
+/** Browser tool variants of the claude tester. */
+export type ClaudeVariantName = "mcp" | "agent-browser" | "playwright-cli";
+
+/** Built-in profile names; any other name can be defined too. */
+export type ProfileName = "local" | "ci" | "staging" | (string & {});
+
+/**
+ * Models used by the runners. Strings are Stagehand model names (`"openai/gpt-4o"`).
+ */
+export interface ModelConfig {
+  /** Stagehand model for act/observe/extract */
+  act?: string;
+  /** Model for Check assertions (b-test Tester) */
+  check?: LanguageModelV2;
+  /** Stagehand agent model of the agent tester */
+  agent?: string;
+}
+
+/**
+ * Project configuration, usually `epic-test.config.ts`:
+ *
+ * ```typescript
+ * import { defineConfig } from "epic-test";
+ *
+ * export default defineConfig({
+ *   specs: ["specs/**\/*.md"],
+ *   baseUrl: "http://localhost:3000",
+ *   behaviors: { "create-ticket": { timeoutMs: 300_000, retries: 1 } },
+ *   profiles: { ci: { reporters: ["junit"], artifacts: { trace: "on-failure" } } },
+ * });
+ * ```
+ */
+export interface EpicTestConfig {
+  /** Spec files or directories; glob patterns (`*`, `**`, `?`, `{a,b}`) relative to the config file */
+  specs?: string | string[];
+  /** Application URL (default: http://localhost:3000) */
+  baseUrl?: string;
+  /** Use headless browser (default: true) */
+  headless?: boolean;
+  /** Verifier for `verify` (default: "spec") */
+  tester?: TesterName;
+  /** Orchestration for `verify` (default: "chain" for spec, "continuous" for agent) */
+  strategy?: StrategyName;
+  /** Browser tool for the claude tester (default: "mcp") */
+  variant?: ClaudeVariantName;
+  /** Default per-behavior timeout in ms */
+  behaviorTimeoutMs?: number;
+  /** Per-behavior timeout and retry overrides, keyed by behavior ID */
+  behaviors?: Record<string, BehaviorOverride>;
+  /** Lowest reward `verify` exits 0 with (default: 1) */
+  minReward?: number;
+  models?: ModelConfig;
+  /** Reporters written after each run (e.g. `["junit", "html"]`) */
+  reporters?: ReporterOption[];
+  /** Directory for reporter output and the verification summary (default: `test-results`) */
+  reportDir?: string;
+  /** Screenshot, trace and video capture */
+  artifacts?: ArtifactConfig;
+  /** Stagehand action cache */
+  cache?: { dir?: string; perSpec?: boolean };
+  /** Options for the claude tester */
+  claude?: ClaudeVerifierOptions;
+  /** Further SpecTestRunner / AgentTestRunner options */
+  runner?: Partial<AgentTestConfig>;
+  /** Settings merged over the rest of the config when the profile is active */
+  profiles?: Partial<Record<ProfileName, Omit<EpicTestConfig, "profiles">>>;
+}
+
+/** A config with its active profile applied. */
+export interface LoadedConfig {
+  config: Omit<EpicTestConfig, "profiles">;
+  /** Active profile name, when the config defines it */
+  profile?: string;
+  /** The config file, when one was found */
+  configPath?: string;
+}
+
+/** Type helper for config files: returns the config unchanged. */
+export function defineConfig(config: EpicTestConfig): EpicTestConfig {
+  return config;
+}
+
+/** First of CONFIG_FILE_NAMES present in `cwd`, or undefined. */
+export function findConfigFile(cwd: string = process.cwd()): string | undefined {
+  return CONFIG_FILE_NAMES.map(name => path.join(cwd, name)).find(existsSync);
+}
+
+/**
+ * Load the project config — `configPath`, else the one discovered in `cwd` —
+ * and apply the active profile: `profile`, else `EPIC_TEST_PROFILE`, else "ci"
+ * under CI and "local" otherwise. Without a config file the config is empty.
+ *
+ * Relative `specs`, `reportDir`, cache and artifact directories resolve against
+ * the config file's directory.
+ */
+export async function loadConfig(
+  options: { cwd?: string; configPath?: string; profile?: string } = {},
+): Promise<LoadedConfig> {
+  const cwd = options.cwd ?? process.cwd();
+  const configPath = options.configPath ? path.resolve(cwd, options.configPath) : findConfigFile(cwd);
+  if (!configPath) return { config: {} };
+
+  const raw = await importConfig(configPath);
+  const { config, profile } = applyProfile(raw, options.profile);
+  return { config: resolvePaths(config, path.dirname(configPath)), profile, configPath };
+}
+
+/**
+ * Merge the named profile over the base config. An explicitly requested profile
+ * (argument or EPIC_TEST_PROFILE) must exist; the CI/local default may be absent.
+ */
+export function applyProfile(
+  config: EpicTestConfig, requested?: string, env: NodeJS.ProcessEnv = process.env,
+): { config: Omit<EpicTestConfig, "profiles">; profile?: string } {
+  const { profiles = {}, ...base } = config;
+  const explicit = requested ?? env.EPIC_TEST_PROFILE;
+  const name = explicit ?? (env.CI ? "ci" : "local");
+  const overlay = profiles[name];
+
+  if (!overlay) {
+    if (explicit) {
+      throw new Error(`Unknown profile "${explicit}". Defined: ${Object.keys(profiles).join(", ") || "(none)"}`);
+    }
+    return { config: base };
+  }
+  return { config: mergeConfig(base, overlay), profile: name };
+}
+
+/** Expand `specs` patterns into existing files and directories, in pattern order. */
+export function resolveSpecPaths(specs: string | string[] | undefined, cwd: string = process.cwd()): string[] {
+  const matches = new Set<string>();
+  for (const pattern of typeof specs === "string" ? [specs] : specs ?? []) {
+    for (const match of expandGlob(pattern, cwd)) matches.add(match);
+  }
+  return [...matches];
+}
+
+/** SpecTestRunner / AgentTestRunner options for a config. */
+export function toRunnerConfig(config: Omit<EpicTestConfig, "profiles">): AgentTestConfig {
+  const { runner = {}, models = {} } = config;
+  return {
+    ...runner,
+    baseUrl: config.baseUrl ?? runner.baseUrl ?? DEFAULT_BASE_URL,
+    headless: config.headless ?? runner.headless ?? true,
+    ...(config.cache?.dir !== undefined && { cacheDir: config.cache.dir }),
+    ...(config.cache?.perSpec !== undefined && { cachePerSpec: config.cache.perSpec }),
+    ...(config.artifacts && { artifacts: config.artifacts }),
+    ...(config.reporters && { reporters: config.reporters }),
+    ...(config.reportDir && { reportDir: config.reportDir }),
+    ...(models.act && { stagehandOptions: { ...runner.stagehandOptions, model: models.act } }),
+    ...(models.check && { aiModel: models.check }),
+    ...(models.agent && { agentModel: models.agent }),
+  };
+}
+
+/** Orchestrator options (verifyAllBehaviors / verifyAllBehaviorsContinuous) for a config. */
+export function toVerifyOptions(config: Omit<EpicTestConfig, "profiles">): VerifyOptions {
+  return {
+    ...(config.reporters && { reporters: config.reporters }),
+    ...(config.reportDir && { reportDir: config.reportDir }),
+    ...(config.behaviors && { behaviorOverrides: config.behaviors }),
+  };
+}
+
+// ── LOADING ────────────────────────────────────────────────────────────
+
+async function importConfig(configPath: string): Promise<EpicTestConfig> {
+  try {
+    if (configPath.endsWith(".json")) return JSON.parse(await readFile(configPath, "utf-8"));
+    const module = await importModule(configPath);
+    return module.default ?? module;
+  } catch (error) {
+    throw new Error(`Invalid config ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Import a config module. Runtimes without TypeScript support (plain node) get a
+ * `.ts` / `.mts` config transpiled with the project's `typescript` into a
+ * temporary `.mjs` beside it, so its imports resolve as they would for the original.
+ */
+async function importModule(configPath: string): Promise<{ default?: EpicTestConfig } & EpicTestConfig> {
+  try {
+    return await import(pathToFileURL(configPath).href);
+  } catch (error) {
+    if (!/\.m?ts$/.test(configPath) || (error as { code?: string }).code !== "ERR_UNKNOWN_FILE_EXTENSION") throw error;
+  }
+
+  const ts = await import("typescript").then(m => m.default ?? m).catch(() => null);
+  if (!ts) {
+    throw new Error("TypeScript configs need the typescript package (or a runtime such as bun or tsx); use epic-test.config.mjs otherwise");
+  }
+  const { outputText } = ts.transpileModule(await readFile(configPath, "utf-8"), {
+    fileName: configPath,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+  const compiledPath = `${configPath}.${process.pid}-${Date.now()}.mjs`;
+  await writeFile(compiledPath, outputText, "utf-8");
+  try {
+    return await import(pathToFileURL(compiledPath).href);
+  } finally {
+    await rm(compiledPath, { force: true });
+  }
+}
+
+/** Profile values replace base values; nested option objects are merged one level deep. */
+function mergeConfig(
+  base: Omit<EpicTestConfig, "profiles">, overlay: Omit<EpicTestConfig, "profiles">,
+): Omit<EpicTestConfig, "profiles"> {
+  const merged = { ...base, ...overlay };
+  for (const key of ["models", "artifacts", "cache", "claude", "runner"] as const) {
+    if (base[key] && overlay[key]) Object.assign(merged, { [key]: { ...base[key], ...overlay[key] } });
+  }
+  if (base.behaviors && overlay.behaviors) {
+    const behaviors = { ...base.behaviors };
+    for (const [id, override] of Object.entries(overlay.behaviors)) behaviors[id] = { ...behaviors[id], ...override };
+    merged.behaviors = behaviors;
+  }
+  return merged;
+}
+
+function resolvePaths(config: Omit<EpicTestConfig, "profiles">, dir: string): Omit<EpicTestConfig, "profiles"> {
+  const resolve = (p: string | undefined) => (p === undefined ? undefined : path.resolve(dir, p));
+  return {
+    ...config,
+    ...(config.specs !== undefined && { specs: resolveSpecPaths(config.specs, dir) }),
+    ...(config.reportDir !== undefined && { reportDir: resolve(config.reportDir) }),
+    ...(config.cache?.dir !== undefined && { cache: { ...config.cache, dir: resolve(config.cache.dir) } }),
+    ...(config.artifacts?.dir !== undefined && { artifacts: { ...config.artifacts, dir: resolve(config.artifacts.dir) } }),
+  };
+}
+
+// ── GLOBS ──────────────────────────────────────────────────────────────
+
+/** Paths matching `pattern` under `cwd`; a pattern without wildcards matches itself if it exists. */
+function expandGlob(pattern: string, cwd: string): string[] {
+  const absolute = path.resolve(cwd, pattern);
+  if (!/[*?{]/.test(pattern)) return existsSync(absolute) ? [absolute] : [];
+
+  const segments = absolute.split(path.sep);
+  const firstGlob = segments.findIndex(segment => /[*?{]/.test(segment));
+  const root = segments.slice(0, firstGlob).join(path.sep) || path.sep;
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+
+  const matches: string[] = [];
+  const walk = (dir: string, relative: string) => {
+    if (!existsSync(dir) || !statSync(dir).isDirectory()) return;
+    for (const entry of readdirSync(dir).sort()) {
+      if (IGNORED_DIRS.has(entry)) continue;
+      const entryPath = path.join(dir, entry);
+      const entryRelative = relative ? `${relative}/${entry}` : entry;
+      if (matcher.test(entryRelative)) matches.push(entryPath);
+      if (statSync(entryPath).isDirectory()) walk(entryPath, entryRelative);
+    }
+  };
+  walk(root, "");
+  return matches;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // `**/` spans zero or more directories; a trailing `**` matches everything below
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && glob.indexOf("}", i) > i) {
+      const end = glob.indexOf("}", i);
+      source += `(?:${glob.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
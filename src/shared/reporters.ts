@@ -0,0 +1,331 @@
+import path from "path";
+import { mkdirSync, writeFileSync } from "fs";
+import type {
+  HarborBehavior,
+  VerificationSummary,
+  BehaviorContext,
+  ScenarioContext,
+  ReportSuite,
+  ReportTestCase,
+  TestReport,
+  Reporter,
+  ReporterName,
+  ReporterOption,
+} from "./types.js";
+import type { SpecTestResult } from "../spec-test/types.js";
+import { htmlReporter } from "./html-report.js";
+import { toScenarioRecord } from "./summary.js";
+import { defaultRunEvents, type RunEventEmitter } from "./events.js";
+
+/** Default output directory for reporters, relative to the working directory. */
+export const DEFAULT_REPORT_DIR = "test-results";
+
+// ── BUILDING REPORTS ───────────────────────────────────────────────────
+
+/**
+ * Build a report from a verification run: behaviors become suites, scenarios
+ * become test cases. A behavior with no scenario results (skipped or failed
+ * before its scenarios ran) becomes a single case named after the behavior.
+ *
+ * Test cases point at `behaviorFiles[behaviorId]` (the behavior's own file in a
+ * spec directory), else at `file`.
+ */
+export function summaryToReport(
+  summary: VerificationSummary,
+  options: { name?: string; file?: string; behaviorFiles?: Record<string, string> } = {},
+): TestReport {
+  const fileOf = (behaviorId: string) => options.behaviorFiles?.[behaviorId] ?? options.file;
+  return {
+    name: options.name ?? "epic-test",
+    startTime: Date.now() - summary.duration,
+    duration: summary.duration,
+    suites: [
+      ...summary.behaviors.map(b => behaviorSuite(b, fileOf(b.behaviorId))),
+      ...(summary.unaffected ?? []).map(id => unaffectedSuite(id, fileOf(id))),
+    ],
+  };
+}
+
+/** Build a report from a SpecTestRunner result: one suite, one case per executed example. */
+export function specResultToReport(result: SpecTestResult, file?: string): TestReport {
+  const tests: ReportTestCase[] = result.exampleResults.map(r => ({
+    name: r.example.name,
+    status: r.success ? "passed" : "failed",
+    duration: r.duration,
+    message: r.failedAt?.context.error,
+    failedStep: r.failedAt?.step,
+    file,
+    result: toScenarioRecord(r, { snapshots: true }),
+  }));
+
+  return {
+    name: result.spec.name,
+    startTime: Date.now() - result.duration,
+    duration: result.duration,
+    suites: [{ id: slugify(result.spec.name), name: result.spec.name, duration: result.duration, tests }],
+  };
+}
+
+function behaviorSuite(behavior: BehaviorContext, file?: string): ReportSuite {
+  // Behaviors without scenario results (skipped, not run) become a single case with the behavior's status
+  const scenarios: Array<Omit<ScenarioContext, "status"> & { status: BehaviorContext["status"] }> = behavior.scenarios?.length
+    ? behavior.scenarios
+    : [{ ...behavior, scenarioName: behavior.behaviorName }];
+
+  return {
+    id: behavior.behaviorId,
+    name: behavior.behaviorName,
+    duration: behavior.duration,
+    tests: scenarios.map(s => ({
+      name: s.scenarioName,
+      status: reportStatus(s.status),
+      duration: s.duration,
+      message: s.error ?? (s.failedDependency ? `Dependency "${s.failedDependency}" failed` : undefined),
+      failedStep: s.failedStep,
+      file,
+      result: s.result,
+    })),
+  };
+}
+
+/** A behavior an impact-based run skipped: one skipped case, so reports show it was not verified. */
+function unaffectedSuite(behaviorId: string, file?: string): ReportSuite {
+  return {
+    id: behaviorId,
+    name: behaviorId,
+    duration: 0,
+    tests: [{ name: behaviorId, status: "skipped", duration: 0, message: "Unaffected by the change", file }],
+  };
+}
+
+// ── BUILT-IN REPORTERS ─────────────────────────────────────────────────
+
+/** JUnit XML: `<testsuites>` → one `<testsuite>` per behavior → `<testcase>` per scenario. */
+export const junitReporter: Reporter = {
+  name: "junit",
+  extension: ".junit.xml",
+  render(report) {
+    const all = report.suites.flatMap(s => s.tests);
+    const lines = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites name="${xmlEscape(report.name)}" tests="${all.length}" failures="${countStatus(all, "failed")}" skipped="${countStatus(all, "skipped")}" time="${seconds(report.duration)}" timestamp="${new Date(report.startTime).toISOString()}">`,
+    ];
+
+    for (const suite of report.suites) {
+      lines.push(`  <testsuite name="${xmlEscape(suite.name)}" tests="${suite.tests.length}" failures="${countStatus(suite.tests, "failed")}" skipped="${countStatus(suite.tests, "skipped")}" time="${seconds(suite.duration)}">`);
+      for (const test of suite.tests) {
+        const location = test.file ? ` file="${xmlEscape(test.file)}"` : "";
+        const line = test.failedStep?.lineNumber ? ` line="${test.failedStep.lineNumber}"` : "";
+        const open = `    <testcase name="${xmlEscape(test.name)}" classname="${xmlEscape(suite.id)}" time="${seconds(test.duration)}"${location}${line}`;
+
+        // Jenkins/GitLab attachment convention: [[ATTACHMENT|path]] in system-out
+        const attachments = attachmentsOf(test).map(a => `[[ATTACHMENT|${xmlEscape(a.path)}]]`);
+        const systemOut = attachments.length ? [`      <system-out>${attachments.join("\n")}</system-out>`] : [];
+
+        if (test.status === "passed" && systemOut.length === 0) {
+          lines.push(`${open}/>`);
+        } else if (test.status === "passed") {
+          lines.push(`${open}>`, ...systemOut, `    </testcase>`);
+        } else if (test.status === "skipped") {
+          lines.push(`${open}>`, `      <skipped message="${xmlEscape(test.message ?? "")}"/>`, `    </testcase>`);
+        } else {
+          lines.push(
+            `${open}>`,
+            `      <failure message="${xmlEscape(test.message ?? "Failed")}">${xmlEscape(failureDetail(test))}</failure>`,
+            ...systemOut,
+            `    </testcase>`,
+          );
+        }
+      }
+      lines.push(`  </testsuite>`);
+    }
+
+    lines.push(`</testsuites>`);
+    return lines.join("\n") + "\n";
+  },
+};
+
+/** TAP version 13: one test point per scenario, failures with a YAML diagnostic block. */
+export const tapReporter: Reporter = {
+  name: "tap",
+  extension: ".tap",
+  render(report) {
+    const tests = report.suites.flatMap(suite => suite.tests.map(test => ({ suite, test })));
+    const lines = ["TAP version 13", `1..${tests.length}`];
+
+    tests.forEach(({ suite, test }, i) => {
+      const description = `${suite.name} > ${test.name}`.replace(/#/g, "\\#");
+      if (test.status === "skipped") {
+        lines.push(`ok ${i + 1} - ${description} # SKIP ${test.message ?? ""}`.trimEnd());
+        return;
+      }
+      if (test.status === "passed") {
+        lines.push(`ok ${i + 1} - ${description}`);
+        return;
+      }
+
+      lines.push(`not ok ${i + 1} - ${description}`, "  ---", `  message: ${JSON.stringify(test.message ?? "Failed")}`);
+      if (test.failedStep) lines.push(`  step: ${JSON.stringify(`${test.failedStep.type}: ${test.failedStep.instruction}`)}`);
+      if (test.file) lines.push(`  file: ${JSON.stringify(test.file)}`);
+      if (test.failedStep?.lineNumber) lines.push(`  line: ${test.failedStep.lineNumber}`);
+      const attachments = attachmentsOf(test);
+      if (attachments.length) lines.push("  attachments:", ...attachments.map(a => `    - ${JSON.stringify(a.path)}`));
+      lines.push(`  duration_ms: ${test.duration}`, "  ...");
+    });
+
+    return lines.join("\n") + "\n";
+  },
+};
+
+/** CTRF JSON (Common Test Report Format, https://ctrf.io). */
+export const ctrfReporter: Reporter = {
+  name: "ctrf",
+  extension: ".ctrf.json",
+  render(report) {
+    const tests = report.suites.flatMap(suite => suite.tests.map(test => ({
+      name: test.name,
+      status: test.status,
+      duration: test.duration,
+      suite: suite.name,
+      ...(test.message ? { message: test.message } : {}),
+      ...(test.status === "failed" && test.failedStep ? { trace: failureDetail(test) } : {}),
+      ...(test.file ? { filePath: test.file } : {}),
+      ...(test.failedStep?.lineNumber ? { line: test.failedStep.lineNumber } : {}),
+      ...(attachmentsOf(test).length ? { attachments: attachmentsOf(test) } : {}),
+    })));
+
+    const all = report.suites.flatMap(s => s.tests);
+    return JSON.stringify({
+      results: {
+        tool: { name: report.name },
+        summary: {
+          tests: all.length,
+          passed: countStatus(all, "passed"),
+          failed: countStatus(all, "failed"),
+          pending: 0,
+          skipped: countStatus(all, "skipped"),
+          other: 0,
+          start: report.startTime,
+          stop: report.startTime + report.duration,
+        },
+        tests,
+      },
+    }, null, 2) + "\n";
+  },
+};
+
+const BUILT_IN_REPORTERS: Record<ReporterName, Reporter> = {
+  junit: junitReporter,
+  tap: tapReporter,
+  ctrf: ctrfReporter,
+  html: htmlReporter,
+};
+
+// ── WRITING ────────────────────────────────────────────────────────────
+
+/** Resolve reporter names from config into Reporter objects. Custom reporters pass through. */
+export function resolveReporters(options: ReporterOption[]): Reporter[] {
+  return options.map(option => {
+    if (typeof option !== "string") return option;
+    const reporter = BUILT_IN_REPORTERS[option];
+    if (!reporter) {
+      throw new Error(`Unknown reporter "${option}". Available: ${Object.keys(BUILT_IN_REPORTERS).join(", ")}`);
+    }
+    return reporter;
+  });
+}
+
+/**
+ * Render the report with each reporter and write `<baseName><extension>` files
+ * into outputDir. Returns the written paths.
+ */
+export function writeReports(
+  report: TestReport,
+  reporters: ReporterOption[],
+  outputDir: string = DEFAULT_REPORT_DIR,
+  baseName: string = "results",
+  events: RunEventEmitter = defaultRunEvents(),
+): string[] {
+  const resolved = resolveReporters(reporters);
+  if (resolved.length === 0) return [];
+
+  mkdirSync(outputDir, { recursive: true });
+  return resolved.map(reporter => {
+    const outputPath = path.join(outputDir, `${baseName}${reporter.extension}`);
+    writeFileSync(outputPath, reporter.render(report), "utf-8");
+    events.log("writeReports", `${reporter.name} report saved to: ${outputPath}`);
+    return outputPath;
+  });
+}
+
+/**
+ * Write a finished verification run with reporters resolved up front (see
+ * resolveReporters); no-op when there are none. `behaviors` supply each
+ * behavior's own spec file for directory specs.
+ */
+export function writeVerificationReports(
+  summary: VerificationSummary,
+  reporters: Reporter[],
+  reportDir: string | undefined,
+  source: { specPath?: string; behaviors?: Map<string, HarborBehavior> } = {},
+  events: RunEventEmitter = defaultRunEvents(),
+): string[] {
+  if (reporters.length === 0) return [];
+  const behaviorFiles = Object.fromEntries(
+    [...(source.behaviors?.values() ?? [])].filter(b => b.sourceFile).map(b => [b.id, b.sourceFile!]),
+  );
+  return writeReports(summaryToReport(summary, { file: source.specPath, behaviorFiles }), reporters, reportDir, undefined, events);
+}
+
+// ── HELPERS ────────────────────────────────────────────────────────────
+
+/** Failed step with its spec location, e.g. `Check: Ticket appears (behaviors/create-ticket.md:18)`. */
+function failureDetail(test: ReportTestCase): string {
+  const step = test.failedStep;
+  if (!step) return test.message ?? "";
+  const location = step.lineNumber ? ` (${test.file ? `${test.file}:` : "line "}${step.lineNumber})` : "";
+  const detail = `${step.type}: ${step.instruction}${location}`;
+  return test.message ? `${detail}\n${test.message}` : detail;
+}
+
+/** Screenshots, trace and video recorded for a test case, in step order. */
+function attachmentsOf(test: ReportTestCase): Array<{ name: string; contentType: string; path: string }> {
+  const result = test.result;
+  if (!result) return [];
+
+  const attachments = result.steps
+    .filter(s => s.screenshotPath)
+    .map(s => ({ name: `${s.type}: ${s.instruction}`, contentType: "image/png", path: s.screenshotPath! }));
+  if (result.artifacts?.tracePath) attachments.push({ name: "trace", contentType: "application/zip", path: result.artifacts.tracePath });
+  if (result.artifacts?.videoPath) attachments.push({ name: "video", contentType: "video/webm", path: result.artifacts.videoPath });
+  return attachments;
+}
+
+/** budget_exceeded counts as a failure; dependency_failed and not_run as skipped. */
+function reportStatus(status: BehaviorContext["status"]): ReportTestCase["status"] {
+  if (status === "pass") return "passed";
+  if (status === "fail" || status === "budget_exceeded") return "failed";
+  return "skipped";
+}
+
+function countStatus(tests: ReportTestCase[], status: ReportTestCase["status"]): number {
+  return tests.filter(t => t.status === status).length;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
@@ -0,0 +1,112 @@
+import type { ExampleResult, RouteHistory, RouteStrategy } from "./types.js";
+import { defaultRunEvents, type RunEventEmitter } from "./events.js";
+
+/** Route parameter tokens such as `:id` or `:ticketId`. */
+const PARAM_PATTERN = /:(\w+)/g;
+
+/** Path segments that sit where an id would but never are one (`/tickets/new`). */
+const NON_ID_SEGMENTS = new Set(["new", "create", "edit"]);
+
+/** Empty history for the start of a chain or session. */
+export function emptyRouteHistory(): RouteHistory {
+  return { variables: {}, urls: [] };
+}
+
+/** Add an example's captured variables and visited URLs to the history (returns a new object). */
+export function recordRouteHistory(history: RouteHistory, result: ExampleResult): RouteHistory {
+  const visited = result.steps
+    .map(s => s.actResult?.pageUrl)
+    .concat(result.failedAt?.context.pageUrl)
+    .filter((url): url is string => !!url);
+
+  return {
+    variables: { ...history.variables, ...result.variables },
+    urls: [...history.urls, ...visited],
+  };
+}
+
+/**
+ * Fill the params of a page path like `/tickets/:id` from earlier chain steps.
+ *
+ * Strategy order:
+ * 1. captured — every param has a captured variable (`id`, `ticketId`, `ticket_id` or `ticket`)
+ * 2. url-history — the most recent visited URL matching the route supplies the values
+ * 3. parent-route — nothing known; the path is returned unchanged and
+ *    navigateToPagePath() falls back to the parent route (`/tickets`)
+ */
+export function resolvePagePath(
+  pagePath: string, history: RouteHistory, events: RunEventEmitter = defaultRunEvents(),
+): { path: string; strategy: RouteStrategy } {
+  const params = [...pagePath.matchAll(PARAM_PATTERN)].map(m => m[1]);
+  if (params.length === 0) return { path: pagePath, strategy: "static" };
+
+  const captured = fillFromVariables(pagePath, history.variables);
+  if (captured) {
+    events.log("resolvePagePath", `"${pagePath}" → "${captured}" (captured variables)`);
+    return { path: captured, strategy: "captured" };
+  }
+
+  const fromHistory = fillFromUrlHistory(pagePath, params.length, history.urls);
+  if (fromHistory) {
+    events.log("resolvePagePath", `"${pagePath}" → "${fromHistory}" (URL history)`);
+    return { path: fromHistory, strategy: "url-history" };
+  }
+
+  events.log("resolvePagePath", `No value known for "${pagePath}" — falling back to parent route`);
+  return { path: pagePath, strategy: "parent-route" };
+}
+
+function fillFromVariables(pagePath: string, variables: Record<string, string>): string | null {
+  const byLowerName = new Map(Object.entries(variables).map(([name, value]) => [name.toLowerCase(), value]));
+  let complete = true;
+
+  const filled = pagePath.replace(PARAM_PATTERN, (token, param: string, offset: number) => {
+    const resource = singular(pagePath.slice(0, offset).split("/").filter(Boolean).pop() ?? "");
+    const value = candidateNames(param, resource).map(name => byLowerName.get(name)).find(v => v !== undefined);
+    if (value === undefined) complete = false;
+    return value === undefined ? token : encodeURIComponent(value);
+  });
+
+  return complete ? filled : null;
+}
+
+/** Variable names that may hold a param's value, most specific first. */
+function candidateNames(param: string, resource: string): string[] {
+  const names = [param.toLowerCase()];
+  if (resource) names.push(`${resource}${param}`, `${resource}_${param}`, resource);
+  return names.map(name => name.toLowerCase());
+}
+
+function fillFromUrlHistory(pagePath: string, paramCount: number, urls: string[]): string | null {
+  const routePattern = new RegExp(
+    "^" + pagePath.split(PARAM_PATTERN).map((part, i) => (i % 2 === 1 ? "([^/]+)" : escapeRegExp(part))).join("") + "(?:/|$)",
+  );
+
+  for (const url of [...urls].reverse()) {
+    const match = pathnameOf(url).match(routePattern);
+    if (!match) continue;
+
+    const values = match.slice(1, paramCount + 1);
+    if (values.some(v => NON_ID_SEGMENTS.has(v.toLowerCase()))) continue;
+
+    let i = 0;
+    return pagePath.replace(PARAM_PATTERN, () => values[i++]);
+  }
+  return null;
+}
+
+function pathnameOf(url: string): string {
+  try {
+    return new URL(url, "http://localhost").pathname;
+  } catch {
+    return url;
+  }
+}
+
+function singular(segment: string): string {
+  return segment.toLowerCase().replace(/ies$/, "y").replace(/s$/, "");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,97 @@
+import type { HarborBehavior, Rule, RuleCoverage, SpecExample } from "./types.js";
+
+/** Minimum share of a rule's keywords a scenario must mention to count as exercising it. */
+export const RULE_COVERAGE_THRESHOLD = 0.4;
+
+const MIN_KEYWORD_LENGTH = 3;
+const STEM_MIN_LENGTH = 4;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "into", "from", "that", "this", "are", "was", "has", "have",
+  "user", "users", "their", "its", "not", "can", "should", "when", "then", "all",
+]);
+
+/**
+ * Match each rule of a behavior against its scenarios by keyword overlap.
+ * A rule is covered when at least one scenario (name + step text) mentions
+ * RULE_COVERAGE_THRESHOLD of the rule's name/When/Then keywords.
+ */
+export function checkRuleCoverage(behavior: HarborBehavior): RuleCoverage[] {
+  return (behavior.rules ?? []).map(rule => ({
+    behaviorId: behavior.id,
+    rule,
+    coveredBy: rankScenarios(rule, behavior.examples)
+      .filter(({ score }) => score >= RULE_COVERAGE_THRESHOLD)
+      .map(({ example }) => example.name),
+  }));
+}
+
+/** Rules across all behaviors that no scenario exercises. */
+export function findUncoveredRules(behaviors: Map<string, HarborBehavior>): RuleCoverage[] {
+  return [...behaviors.values()]
+    .flatMap(checkRuleCoverage)
+    .filter(coverage => coverage.coveredBy.length === 0);
+}
+
+/**
+ * Return a copy of the behaviors where each covered rule's Then clauses are
+ * appended as semantic Check steps to its best-matching scenario.
+ * Then clauses already present as Check steps are not duplicated.
+ */
+export function withRuleChecks(behaviors: Map<string, HarborBehavior>): Map<string, HarborBehavior> {
+  const result = new Map<string, HarborBehavior>();
+  for (const [id, behavior] of behaviors) {
+    result.set(id, { ...behavior, examples: behavior.examples.map(e => appendRuleChecks(e, rulesFor(e, behavior))) });
+  }
+  return result;
+}
+
+/** Rules whose single best-matching scenario is `example`. */
+function rulesFor(example: SpecExample, behavior: HarborBehavior): Rule[] {
+  return (behavior.rules ?? []).filter(rule => {
+    const [best] = rankScenarios(rule, behavior.examples);
+    return best && best.score >= RULE_COVERAGE_THRESHOLD && best.example === example;
+  });
+}
+
+function appendRuleChecks(example: SpecExample, rules: Rule[]): SpecExample {
+  if (rules.length === 0) return example;
+
+  const existing = new Set(example.steps.filter(s => s.type === "Check").map(s => s.instruction.toLowerCase()));
+  const extraChecks = rules
+    .flatMap(rule => rule.then)
+    .filter(clause => !existing.has(clause.toLowerCase()))
+    .map(instruction => ({ type: "Check" as const, instruction, checkType: "semantic" as const }));
+
+  return { ...example, steps: [...example.steps, ...extraChecks] };
+}
+
+/** Scenarios ordered by keyword overlap with the rule, highest first. */
+function rankScenarios(rule: Rule, examples: SpecExample[]): Array<{ example: SpecExample; score: number }> {
+  const ruleKeywords = keywords([rule.name, ...rule.when, ...rule.then].join(" "));
+  if (ruleKeywords.size === 0) return [];
+
+  return examples
+    .map(example => {
+      const scenarioKeywords = keywords([example.name, ...example.steps.map(s => s.instruction)].join(" "));
+      const shared = [...ruleKeywords].filter(k => scenarioKeywords.has(k)).length;
+      return { example, score: shared / ruleKeywords.size };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9@.]+/)
+      .map(word => word.replace(/^\.+|\.+$/g, ""))
+      .filter(word => word.length >= MIN_KEYWORD_LENGTH && !STOPWORDS.has(word))
+      .map(stem),
+  );
+}
+
+/** Crude suffix stripping so "create", "creates" and "created" share a keyword. */
+function stem(word: string): string {
+  if (word.length < STEM_MIN_LENGTH) return word;
+  return word.replace(/(?:ing|ed|s)$/, "").replace(/e$/, "");
+}
@@ -0,0 +1,72 @@
+import type { HarborBehavior, SpecExample, TagFilter, VerifyOptions } from "./types.js";
+
+/**
+ * Narrow behaviors to the ones a run selects, plus everything they transitively
+ * depend on, so dependency chains stay runnable. Without a filter the map is
+ * returned as is.
+ *
+ * - `behaviorIds` select whole behaviors; `tags` select behaviors and scenarios
+ *   tagged with one of them (a scenario inherits its behavior's tags) — a behavior
+ *   matched by either is selected
+ * - `excludeTags` drop the scenarios carrying them; alone, they keep everything else
+ * - A behavior selected only through some of its scenarios runs just those, unless
+ *   another selected behavior depends on it. Dependencies are always kept whole.
+ *
+ * Selected behaviors keep their order in `behaviors`.
+ */
+export function selectBehaviors(
+  behaviors: Map<string, HarborBehavior>,
+  filter: Pick<VerifyOptions, "behaviorIds" | "tags" | "excludeTags">,
+): Map<string, HarborBehavior> {
+  const ids = filter.behaviorIds ?? [];
+  const tags = filter.tags ?? [];
+  const excludeTags = filter.excludeTags ?? [];
+  if (ids.length === 0 && tags.length === 0 && excludeTags.length === 0) return behaviors;
+
+  for (const id of ids) {
+    if (!behaviors.has(id)) throw new Error(`Behavior "${id}" not found`);
+  }
+
+  const targets = new Map<string, HarborBehavior>();
+  for (const behavior of behaviors.values()) {
+    const byId = ids.includes(behavior.id);
+    if (!byId && tags.length === 0 && ids.length > 0) continue;
+
+    const tagFilter: TagFilter = byId ? { excludeTags } : { tags, excludeTags };
+    if (behavior.examples.length === 0) {
+      if (matchesTags(behavior.tags ?? [], tagFilter)) targets.set(behavior.id, behavior);
+      continue;
+    }
+    const examples = selectExamples(behavior.examples, tagFilter, behavior.tags);
+    if (examples.length === behavior.examples.length) targets.set(behavior.id, behavior);
+    else if (examples.length > 0) targets.set(behavior.id, { ...behavior, examples });
+  }
+
+  const required = new Set<string>();
+  const pending = [...targets.values()].flatMap(b => b.dependencies.map(dep => dep.behaviorId));
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (required.has(id) || !behaviors.has(id)) continue;
+    required.add(id);
+    pending.push(...behaviors.get(id)!.dependencies.map(dep => dep.behaviorId));
+  }
+
+  const selected = new Map<string, HarborBehavior>();
+  for (const [id, behavior] of behaviors) {
+    if (required.has(id)) selected.set(id, behavior);
+    else if (targets.has(id)) selected.set(id, targets.get(id)!);
+  }
+  return selected;
+}
+
+/** Examples passing `filter`, each judged by its own tags plus `inheritedTags` (its behavior's or spec's). */
+export function selectExamples(examples: SpecExample[], filter: TagFilter, inheritedTags: string[] = []): SpecExample[] {
+  return examples.filter(example => matchesTags([...inheritedTags, ...(example.tags ?? [])], filter));
+}
+
+/** Whether tags carry one of `filter.tags` (any tags when none are given) and none of `filter.excludeTags`. */
+export function matchesTags(tags: string[], filter: TagFilter): boolean {
+  const include = filter.tags ?? [];
+  const exclude = filter.excludeTags ?? [];
+  return (include.length === 0 || tags.some(tag => include.includes(tag))) && !tags.some(tag => exclude.includes(tag));
+}
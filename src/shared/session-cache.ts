@@ -0,0 +1,55 @@
+import type { CachedSession, ChainStep } from "./types.js";
+
+/**
+ * Authenticated sessions keyed by the chain prefix that produced them
+ * (`sign-up`, `sign-up → create-ticket`, ...).
+ *
+ * After a dependency passes, its browser state is saved under the prefix up to
+ * and including it; later chains restore the longest saved prefix instead of
+ * replaying it. The target behavior itself is never skipped.
+ */
+export class SessionCache {
+  private entries = new Map<string, CachedSession>();
+
+  /** Cache key for the first `length` steps of a chain. */
+  static keyFor(chain: ChainStep[], length: number): string {
+    return chain
+      .slice(0, length)
+      .map(({ behavior, scenarioName }) => (scenarioName ? `${behavior.id}:${scenarioName}` : behavior.id))
+      .join(" → ");
+  }
+
+  set(key: string, session: CachedSession): void {
+    this.entries.set(key, session);
+  }
+
+  get(key: string): CachedSession | undefined {
+    return this.entries.get(key);
+  }
+
+  /**
+   * Longest cached prefix of the chain, excluding its last (target) step.
+   * `length` is the number of chain steps the session replaces.
+   */
+  findLongestPrefix(chain: ChainStep[]): { key: string; length: number; session: CachedSession } | null {
+    for (let length = chain.length - 1; length > 0; length--) {
+      const key = SessionCache.keyFor(chain, length);
+      const session = this.entries.get(key);
+      if (session) return { key, length, session };
+    }
+    return null;
+  }
+
+  /** Drop a stale session so the next chain replays the prefix and saves a fresh one. */
+  invalidate(key: string): void {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
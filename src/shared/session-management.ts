@@ -1,5 +1,7 @@
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
+import type { StorageState } from "./types.js";
+import { defaultRunEvents, type RunEventEmitter } from "./events.js";
 
 // Apps with persistent connections (HMR, WebSocket) never reach networkidle
 const NETWORKIDLE_TIMEOUT_MS = 5000;
@@ -38,7 +40,7 @@ export function isSignInRedirect(currentUrl: string, targetUrl: string): boolean
  * Tries the configured port first, then probes common alternatives (Vite, Angular, etc.).
  * Returns the (possibly updated) baseUrl.
  */
-export async function detectPort(page: Page, baseUrl: string): Promise<string> {
+export async function detectPort(page: Page, baseUrl: string, events: RunEventEmitter = defaultRunEvents()): Promise<string> {
   const url = new URL(baseUrl);
   const baseHost = url.hostname;
   const expectedPort = url.port || '3000';
@@ -46,7 +48,7 @@ export async function detectPort(page: Page, baseUrl: string): Promise<string> {
   try {
     const response = await page.goto(`http://${baseHost}:${expectedPort}`, { timeout: CONFIGURED_PORT_TIMEOUT_MS });
     if (response?.ok()) {
-      console.log(`[detectPort] App responding on configured port ${expectedPort}`);
+      events.log('detectPort', `App responding on configured port ${expectedPort}`);
       return baseUrl;
     }
   } catch { /* configured port failed */ }
@@ -58,13 +60,13 @@ export async function detectPort(page: Page, baseUrl: string): Promise<string> {
       const response = await page.goto(`http://${baseHost}:${port}`, { timeout: ALT_PORT_TIMEOUT_MS });
       if (response?.ok()) {
         const newBase = `http://${baseHost}:${port}`;
-        console.log(`[detectPort] App found on port ${port} (expected ${expectedPort}). Overriding baseUrl to ${newBase}.`);
+        events.log('detectPort', `App found on port ${port} (expected ${expectedPort}). Overriding baseUrl to ${newBase}.`);
         return newBase;
       }
     } catch { /* port not responding */ }
   }
 
-  console.log(`[detectPort] No app found on any probed port — using configured ${expectedPort}`);
+  events.log('detectPort', `No app found on any probed port — using configured ${expectedPort}`);
   return baseUrl;
 }
 
@@ -72,7 +74,7 @@ export async function detectPort(page: Page, baseUrl: string): Promise<string> {
  * Hard reset: navigate to about:blank → baseUrl → clear all storage/cookies → reload.
  * Guarantees a completely clean SPA state with zero auth tokens or user data.
  */
-export async function resetSession(page: Page, baseUrl: string): Promise<void> {
+export async function resetSession(page: Page, baseUrl: string, events: RunEventEmitter = defaultRunEvents()): Promise<void> {
   // 1. Navigate to about:blank to fully unload the SPA (destroys in-memory state).
   await page.goto('about:blank');
 
@@ -96,7 +98,7 @@ export async function resetSession(page: Page, baseUrl: string): Promise<void> {
   // 4. Reload so the SPA re-initializes reading the now-empty storage.
   await page.reload();
   await safeWaitForLoadState(page);
-  console.log(`[resetSession] Hard reset complete. Page URL: ${page.url()}`);
+  events.emit('sessionReset', { scope: 'resetSession', kind: 'hard-reset', url: page.url(), detail: 'Hard reset complete' });
 }
 
 /** Attempt to re-authenticate by filling the sign-in form. */
@@ -104,7 +106,8 @@ export async function recoverAuth(
   page: Page,
   stagehand: Stagehand,
   credentials: { email: string | null; password: string | null },
-  targetUrl: string
+  targetUrl: string,
+  events: RunEventEmitter = defaultRunEvents(),
 ): Promise<void> {
   try {
     await stagehand.act(`Type "${credentials.email}" into the email field`);
@@ -118,9 +121,9 @@ export async function recoverAuth(
       await page.evaluate((url: string) => { window.location.href = url; }, targetUrl);
       await safeWaitForLoadState(page);
     }
-    console.log(`[navigateToPagePath] Auth recovery succeeded. Page URL: ${page.url()}`);
+    events.emit('sessionReset', { scope: 'navigateToPagePath', kind: 'auth-recovery', url: page.url(), detail: 'Auth recovery succeeded' });
   } catch (error) {
-    console.log(`[navigateToPagePath] Auth recovery failed: ${error instanceof Error ? error.message : String(error)}`);
+    events.log('navigateToPagePath', `Auth recovery failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
@@ -134,18 +137,20 @@ export async function navigateToPagePath(
   pagePath: string,
   baseUrl: string,
   stagehand?: Stagehand,
-  credentials?: { email: string | null; password: string | null }
+  credentials?: { email: string | null; password: string | null },
+  events: RunEventEmitter = defaultRunEvents(),
 ): Promise<void> {
-  // Resolve parameterized routes to their parent path (e.g., /surveys/:id → /surveys)
-  // The behavior's steps handle navigating to the specific instance.
+  // Params still unresolved (no captured value or visited URL, see resolvePagePath):
+  // fall back to the parent path (e.g., /surveys/:id → /surveys) and let the
+  // behavior's steps navigate to the specific instance.
   let resolvedPath = pagePath;
   if (/:\w+/.test(resolvedPath)) {
     resolvedPath = resolvedPath.replace(/\/:[^/]+/g, '');
     if (!resolvedPath || resolvedPath === '/') {
-      console.log(`[navigateToPagePath] Route "${pagePath}" resolves to root, skipping navigation`);
+      events.log('navigateToPagePath', `Route "${pagePath}" resolves to root, skipping navigation`);
       return;
     }
-    console.log(`[navigateToPagePath] Parameterized route "${pagePath}" → resolved to parent "${resolvedPath}"`);
+    events.log('navigateToPagePath', `Parameterized route "${pagePath}" → resolved to parent "${resolvedPath}"`);
   }
 
   const targetUrl = `${baseUrl.replace(/\/$/, '')}${resolvedPath}`;
@@ -153,31 +158,80 @@ export async function navigateToPagePath(
 
   // Skip if already on the target URL
   if (urlsMatch(currentUrl, targetUrl)) {
-    console.log(`[navigateToPagePath] Already on ${resolvedPath}, skipping navigation`);
+    events.log('navigateToPagePath', `Already on ${resolvedPath}, skipping navigation`);
     return;
   }
 
   // Soft navigation (avoids full reload, preserves SPA state)
-  console.log(`[navigateToPagePath] Soft-navigating to ${targetUrl}`);
+  events.log('navigateToPagePath', `Soft-navigating to ${targetUrl}`, 'debug');
   await page.evaluate((url: string) => { window.location.href = url; }, targetUrl);
   await safeWaitForLoadState(page);
 
   // Auth recovery — detect redirect to sign-in page
   const afterUrl = page.url();
   if (isSignInRedirect(afterUrl, targetUrl) && stagehand && credentials?.email && credentials?.password) {
-    console.log(`[navigateToPagePath] Auth lost — detected redirect to ${afterUrl}. Attempting recovery...`);
-    await recoverAuth(page, stagehand, credentials, targetUrl);
+    events.log('navigateToPagePath', `Auth lost — detected redirect to ${afterUrl}. Attempting recovery...`);
+    await recoverAuth(page, stagehand, credentials, targetUrl, events);
   } else {
-    console.log(`[navigateToPagePath] Page URL after navigation: ${afterUrl}`);
+    events.emit('sessionReset', { scope: 'navigateToPagePath', kind: 'navigate', url: afterUrl, detail: `Soft-navigated to ${resolvedPath}` });
   }
 }
 
+/** Snapshot cookies, localStorage and sessionStorage of the current page. */
+export async function saveStorageState(page: Page, stagehand: Stagehand): Promise<StorageState> {
+  const storage = await page.evaluate(() => {
+    const dump = (store: Storage) => {
+      const entries: Record<string, string> = {};
+      for (let i = 0; i < store.length; i++) {
+        const key = store.key(i);
+        if (key !== null) entries[key] = store.getItem(key) ?? '';
+      }
+      return entries;
+    };
+    return { localStorage: dump(localStorage), sessionStorage: dump(sessionStorage) };
+  });
+  const cookies = await stagehand.context.cookies();
+  return { url: page.url(), cookies, ...storage };
+}
+
+/**
+ * Restore a snapshot from saveStorageState(): clear cookies, re-apply cookies
+ * and storage on the app origin, then open the saved URL.
+ * Returns false when the app redirects to sign-in — the saved session is stale.
+ */
+export async function restoreStorageState(
+  page: Page, stagehand: Stagehand, state: StorageState, events: RunEventEmitter = defaultRunEvents(),
+): Promise<boolean> {
+  await page.goto('about:blank');
+  await stagehand.context.clearCookies();
+  if (state.cookies.length > 0) await stagehand.context.addCookies(state.cookies);
+
+  await page.goto(new URL(state.url).origin);
+  await page.evaluate((saved: Pick<StorageState, 'localStorage' | 'sessionStorage'>) => {
+    localStorage.clear();
+    sessionStorage.clear();
+    for (const [key, value] of Object.entries(saved.localStorage)) localStorage.setItem(key, value);
+    for (const [key, value] of Object.entries(saved.sessionStorage)) sessionStorage.setItem(key, value);
+  }, { localStorage: state.localStorage, sessionStorage: state.sessionStorage });
+
+  await page.goto(state.url);
+  await safeWaitForLoadState(page);
+
+  const afterUrl = page.url();
+  if (isSignInRedirect(afterUrl, state.url)) {
+    events.log('restoreStorageState', `Session stale — redirected to ${afterUrl}`);
+    return false;
+  }
+  events.emit('sessionReset', { scope: 'restoreStorageState', kind: 'restore', url: afterUrl, detail: 'Session restored' });
+  return true;
+}
+
 /**
  * Clear all visible form fields with React/Vue-compatible approach.
  * Uses native value setters to trigger framework change tracking,
  * then falls back to triple-click + delete for resistant fields.
  */
-export async function clearFormFields(page: Page): Promise<void> {
+export async function clearFormFields(page: Page, events: RunEventEmitter = defaultRunEvents()): Promise<void> {
   const FIELD_SELECTOR = 'input:not([type="hidden"]), textarea';
 
   // Programmatic clearing via native value setters
@@ -216,7 +270,9 @@ export async function clearFormFields(page: Page): Promise<void> {
     }, FIELD_SELECTOR);
 
     if (fieldsStillFilled) {
-      console.log(`[clearFormFields] Fields still have values after programmatic clear — using triple-click+delete fallback`);
+      events.emit('fallbackUsed', {
+        scope: 'clearFormFields', from: 'programmatic clear', to: 'triple-click+delete', reason: 'Fields still have values after programmatic clear',
+      });
       const filledSelectors = await page.evaluate((sel: string) => {
         const inputs = Array.from(document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>(sel));
         return inputs
@@ -1,4 +1,5 @@
-import type { BehaviorContext, VerificationSummary } from "./types";
+import type { BehaviorContext, ExampleResult, ScenarioContext, ScenarioRecord, StepRecord, StepResult, VerificationSummary } from "./types.js";
+import { sumUsage } from "./usage.js";
 
 export function calculateReward(results: BehaviorContext[]): number {
   if (results.length === 0) return 0;
@@ -15,6 +16,93 @@ export function aggregateResults(results: BehaviorContext[]): Omit<VerificationS
   };
 }
 
+/**
+ * Roll per-scenario results up into one behavior result.
+ * Any failing scenario fails the behavior; otherwise a scenario cut off by the
+ * LLM budget marks it budget_exceeded; otherwise any dependency failure
+ * marks it dependency_failed; otherwise it passes. The error is the first
+ * problem scenario's error; LLM usage is the sum over scenarios.
+ */
+export function aggregateScenarioResults(
+  behaviorId: string,
+  behaviorName: string,
+  scenarios: ScenarioContext[]
+): BehaviorContext {
+  const failed = scenarios.find(s => s.status === 'fail');
+  const cutOff = scenarios.find(s => s.status === 'budget_exceeded');
+  const depFailed = scenarios.find(s => s.status === 'dependency_failed');
+  return {
+    behaviorId,
+    behaviorName,
+    status: failed ? 'fail' : cutOff ? 'budget_exceeded' : depFailed ? 'dependency_failed' : 'pass',
+    failedDependency: failed || cutOff ? undefined : depFailed?.failedDependency,
+    error: (failed ?? cutOff ?? depFailed)?.error,
+    duration: scenarios.reduce((sum, s) => sum + s.duration, 0),
+    scenarios,
+    usage: sumUsage(scenarios.map(s => s.usage)),
+  };
+}
+
+/**
+ * Reduce an example run to what reports read: the step timeline, failure
+ * suggestions and artifact paths. Page snapshots (full page HTML) are kept only
+ * with `snapshots: true`, for reports rendered straight from a run; results stored
+ * in a VerificationSummary leave them out so summary.json stays small.
+ */
+export function toScenarioRecord(result: ExampleResult, options: { snapshots?: boolean } = {}): ScenarioRecord {
+  const context = result.failedAt?.context;
+  return {
+    steps: result.steps.map(s => toStepRecord(s, options.snapshots)),
+    ...(result.artifacts && { artifacts: result.artifacts }),
+    ...(context && {
+      failure: {
+        pageUrl: context.pageUrl,
+        suggestions: context.suggestions,
+        ...(options.snapshots && context.pageSnapshot && { pageSnapshot: context.pageSnapshot }),
+      },
+    }),
+  };
+}
+
+function toStepRecord(stepResult: StepResult, snapshots?: boolean): StepRecord {
+  const { step, actResult, checkResult, awaitResult, captureResult } = stepResult;
+  const details: string[] = [];
+  if (actResult?.pageUrl) details.push(`URL: ${actResult.pageUrl}`);
+  if (checkResult) {
+    details.push(`${checkResult.checkType} check — expected: ${checkResult.expected}`);
+    if (checkResult.actual) details.push(`Actual: ${checkResult.actual}`);
+    if (checkResult.reasoning) details.push(`Reasoning: ${checkResult.reasoning}`);
+    if (checkResult.suggestion) details.push(`Suggestion: ${checkResult.suggestion}`);
+  }
+  if (awaitResult) {
+    details.push(`${awaitResult.strategy} wait — ${formatMs(awaitResult.waitDuration)} of ${formatMs(awaitResult.timeout)}, ${awaitResult.polls} polls`);
+  }
+  if (captureResult?.value !== undefined) {
+    details.push(`{${captureResult.variable}} = "${captureResult.value}" (${captureResult.strategy})`);
+  }
+
+  const captureError = captureResult && captureResult.value === undefined
+    ? `{${captureResult.variable}} not captured: ${captureResult.error ?? "no value"}`
+    : undefined;
+  const error = actResult?.error ?? awaitResult?.error ?? captureError;
+  return {
+    type: step.type,
+    instruction: step.instruction,
+    ...(step.lineNumber !== undefined && { lineNumber: step.lineNumber }),
+    success: stepResult.success,
+    duration: stepResult.duration,
+    ...(error && { error }),
+    details,
+    ...(stepResult.usage && { usage: stepResult.usage }),
+    ...(stepResult.screenshotPath && { screenshotPath: stepResult.screenshotPath }),
+    ...(snapshots && stepResult.pageSnapshot && { pageSnapshot: stepResult.pageSnapshot }),
+  };
+}
+
+function formatMs(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
 export function generateSummary(results: BehaviorContext[]): string {
   const { passed, failed, dependency_failed } = aggregateResults(results);
   const parts: string[] = [];
@@ -35,17 +123,61 @@ export function generateSummary(results: BehaviorContext[]): string {
       : `${dependency_failed} failed due to dependencies`);
   }
 
+  const cutOff = results.filter(r => r.status === 'budget_exceeded').length;
+  const notRun = results.filter(r => r.status === 'not_run').length;
+  if (cutOff > 0) parts.push(`${cutOff} cut off by the LLM budget`);
+  if (notRun > 0) parts.push(`${notRun} not run`);
+
   return parts.join(', ');
 }
 
+/** Result for a behavior that never started because the LLM budget was used up. */
+export function notRunResult(behaviorId: string, behaviorName: string, reason = 'LLM budget exhausted'): BehaviorContext {
+  return { behaviorId, behaviorName, status: 'not_run', error: `Not run: ${reason}`, duration: 0 };
+}
+
+/** Which behaviors the LLM budget cut off or kept from running; undefined when it never ran out. */
+function budgetExceededReport(results: BehaviorContext[]): VerificationSummary['budgetExceeded'] {
+  const cutOff = results.filter(r => r.status === 'budget_exceeded');
+  const notRun = results.filter(r => r.status === 'not_run');
+  if (cutOff.length === 0 && notRun.length === 0) return undefined;
+
+  return {
+    reason: cutOff[0]?.error ?? notRun[0].error!.replace(/^Not run: /, ''),
+    cutOff: cutOff.map(r => r.behaviorId),
+    notRun: notRun.map(r => r.behaviorId),
+  };
+}
+
+/**
+ * Summarize a run; `unaffected` lists behaviors an impact-based run skipped (not
+ * counted in the reward). A change that affects no behavior verifies nothing and
+ * passes with reward 1.
+ */
 export function createVerificationSummary(
   results: BehaviorContext[],
-  duration: number
+  duration: number,
+  unaffected: string[] = [],
 ): VerificationSummary {
+  if (results.length === 0 && unaffected.length > 0) {
+    return {
+      ...aggregateResults(results),
+      reward: 1,
+      summary: `Nothing to verify: ${unaffected.length} skipped as unaffected`,
+      behaviors: results,
+      duration,
+      unaffected,
+    };
+  }
+
+  const summary = generateSummary(results);
   return {
     ...aggregateResults(results),
-    summary: generateSummary(results),
+    summary: unaffected.length > 0 ? `${summary}, ${unaffected.length} skipped as unaffected` : summary,
     behaviors: results,
     duration,
+    usage: sumUsage(results.map(r => r.usage)),
+    budgetExceeded: budgetExceededReport(results),
+    ...(unaffected.length > 0 && { unaffected }),
   };
 }
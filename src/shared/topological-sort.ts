@@ -1,4 +1,4 @@
-import type { HarborBehavior } from "./types";
+import type { HarborBehavior } from "./types.js";
 
 /** Topologically sort behaviors using Kahn's algorithm. Throws on cycles. */
 export function topologicalSort(
@@ -47,3 +47,31 @@ export function topologicalSort(
 
   return sorted;
 }
+
+/** Build a map from each behavior ID to all behaviors that transitively depend on it. */
+export function buildTransitiveDependentsMap(
+  behaviors: Map<string, HarborBehavior>
+): Map<string, Set<string>> {
+  const directDependents = new Map<string, Set<string>>();
+  for (const [id, behavior] of behaviors) {
+    for (const dep of behavior.dependencies) {
+      const set = directDependents.get(dep.behaviorId) ?? new Set();
+      set.add(id);
+      directDependents.set(dep.behaviorId, set);
+    }
+  }
+
+  // Iterate in reverse topological order so each node's dependents are already computed
+  const sorted = topologicalSort(behaviors);
+  const transitiveMap = new Map<string, Set<string>>();
+
+  for (const behavior of sorted.reverse()) {
+    const allDeps = new Set(
+      [...(directDependents.get(behavior.id) ?? [])]
+        .flatMap(dep => [dep, ...(transitiveMap.get(dep) ?? [])])
+    );
+    transitiveMap.set(behavior.id, allDeps);
+  }
+
+  return transitiveMap;
+}
@@ -2,8 +2,11 @@
  * A single step in a specification
  */
 export interface SpecStep {
-  /** Step type: Act for actions, Check for verifications, Await for async operations */
-  type: "Act" | "Check" | "Await";
+  /**
+   * Step type: Act for actions, Check for verifications, Await for async operations,
+   * Capture for reading a page value into a `{variable}` for later steps
+   */
+  type: "Act" | "Check" | "Await" | "Capture";
   /** Natural language instruction */
   instruction: string;
   /** For checks: deterministic or semantic */
@@ -20,6 +23,27 @@ export interface SpecExample {
   name: string;
   /** Steps to execute for this example */
   steps: SpecStep[];
+  /** Set when this example was expanded from a Scenario Outline row */
+  outline?: OutlineSource;
+  /** Tags from the scenario heading (`##### Happy path @smoke`) or scenario tags, without the `@` */
+  tags?: string[];
+}
+
+/**
+ * Origin of an example expanded from a Scenario Outline.
+ * Step line numbers point at the template; rowLineNumber points at the table row.
+ */
+export interface OutlineSource {
+  /** Outline name before placeholder substitution */
+  name: string;
+  /** 1-based row index in the Examples table */
+  row: number;
+  /** Original line number of the Scenario Outline heading */
+  lineNumber?: number;
+  /** Original line number of the Examples table row */
+  rowLineNumber?: number;
+  /** Column name → cell value for this row */
+  values: Record<string, string>;
 }
 
 /**
@@ -44,6 +68,32 @@ export interface ChainStep {
   scenarioName?: string;
 }
 
+/**
+ * A business rule from a behavior's #### Rules section (When → Then).
+ */
+export interface Rule {
+  /** Rule name from the ##### heading */
+  name: string;
+  /** Triggering conditions (When clauses) */
+  when: string[];
+  /** Expected outcomes (Then clauses) */
+  then: string[];
+  /** Original line number of the rule heading (for error reporting) */
+  lineNumber?: number;
+}
+
+/**
+ * Which scenarios exercise a rule. Empty coveredBy means no scenario does.
+ */
+export interface RuleCoverage {
+  /** Behavior that owns the rule */
+  behaviorId: string;
+  /** The rule being checked */
+  rule: Rule;
+  /** Names of scenarios that exercise the rule, best match first */
+  coveredBy: string[];
+}
+
 /**
  * A complete behavior definition with dependencies (Harbor format)
  */
@@ -60,6 +110,14 @@ export interface HarborBehavior {
   examples: SpecExample[];
   /** Page path where this behavior lives (e.g., "/candidates") */
   pagePath?: string;
+  /** Business rules from the #### Rules section */
+  rules?: Rule[];
+  /** Priority from prd.json (lower runs first), when loaded from a spec directory */
+  priority?: number;
+  /** Tags from the heading (`### Create Ticket @smoke`) or feature tags, without the `@` */
+  tags?: string[];
+  /** Spec file the behavior was loaded from, when it comes from a spec directory */
+  sourceFile?: string;
 }
 
 /**
@@ -71,12 +129,43 @@ export interface BehaviorContext {
   behaviorId: string;
   /** Display name of the behavior */
   behaviorName: string;
-  /** Verification status */
-  status: 'pass' | 'fail' | 'dependency_failed';
+  /**
+   * Verification status. budget_exceeded: an LLM call was refused by the run's
+   * budget; not_run: the budget ran out before the behavior started.
+   */
+  status: 'pass' | 'fail' | 'dependency_failed' | 'budget_exceeded' | 'not_run';
+  /** Which dependency caused a skip (if status is dependency_failed) */
+  failedDependency?: string;
+  /** Error message if failed */
+  error?: string;
+  /** Execution duration in milliseconds */
+  duration: number;
+  /** Per-scenario results; status above is their aggregate */
+  scenarios?: ScenarioContext[];
+  /** LLM usage of all scenarios, dependency chains included */
+  usage?: LlmUsage;
+  /** Runs it took when the behavior has `retries`; the result is the last run's */
+  attempts?: number;
+}
+
+/**
+ * Result of verifying one scenario (example) of a behavior.
+ */
+export interface ScenarioContext {
+  /** Scenario (example) name */
+  scenarioName: string;
+  /** Verification status (budget_exceeded: cut off by the LLM budget) */
+  status: 'pass' | 'fail' | 'dependency_failed' | 'budget_exceeded';
   /** Which dependency caused a skip (if status is dependency_failed) */
   failedDependency?: string;
   /** Error message if failed */
   error?: string;
+  /** The scenario's own step that failed (carries lineNumber for reports) */
+  failedStep?: SpecStep;
+  /** Step timeline and artifacts of the scenario's own run, without page snapshots, when it ran */
+  result?: ScenarioRecord;
+  /** LLM usage of the scenario, including its dependency chain */
+  usage?: LlmUsage;
   /** Execution duration in milliseconds */
   duration: number;
 }
@@ -94,7 +183,7 @@ export interface VerificationSummary {
   dependency_failed: number;
   /** Total number of behaviors tested */
   total: number;
-  /** Reward score (passed / total) */
+  /** Reward score (passed / total; behaviors skipped as unaffected are not counted) */
   reward: number;
   /** Human-readable summary */
   summary: string;
@@ -102,6 +191,27 @@ export interface VerificationSummary {
   behaviors: BehaviorContext[];
   /** Total duration in milliseconds */
   duration: number;
+  /** LLM usage of the whole run, when any LLM calls were made */
+  usage?: LlmUsage;
+  /** Set when the LLM budget ran out: which limit, which behaviors were cut off and which never ran */
+  budgetExceeded?: { reason: string; cutOff: string[]; notRun: string[] };
+  /** Behavior IDs skipped because an impact-based run found them unaffected by the change */
+  unaffected?: string[];
+}
+
+/**
+ * A concrete action Stagehand performed for an Act step. DOM fallbacks that
+ * bypass Stagehand are recorded with `method: "fallback"` and no selector.
+ */
+export interface RecordedAction {
+  /** Element selector (usually `xpath=...`) */
+  selector: string;
+  /** What the action did, as described by Stagehand */
+  description: string;
+  /** Playwright-style method: click, fill, type, press, selectOptionFromDropdown, ... */
+  method?: string;
+  /** Method arguments (fill value, key, option) */
+  arguments?: string[];
 }
 
 /**
@@ -120,6 +230,8 @@ export interface ActResult {
   pageSnapshot?: string;
   /** Available actions on page if failed (for suggestions) */
   availableActions?: string[];
+  /** Actions performed by the adaptive act loop, in order (SpecTestRunner only) */
+  actions?: RecordedAction[];
 }
 
 /**
@@ -140,6 +252,44 @@ export interface CheckResult {
   suggestion?: string;
 }
 
+/**
+ * Result of executing an Await step
+ */
+export interface AwaitResult {
+  /** Whether the awaited condition was met before the timeout */
+  satisfied: boolean;
+  /** Strategy used: deterministic polling or LLM-backed Tester.waitFor() */
+  strategy: "deterministic" | "semantic";
+  /** Condition that was awaited (instruction without the timeout suffix) */
+  condition: string;
+  /** Time spent waiting in ms */
+  waitDuration: number;
+  /** Timeout that applied to this step in ms */
+  timeout: number;
+  /** Number of deterministic polls performed (0 for semantic waits) */
+  polls: number;
+  /** Last observed value for deterministic waits */
+  actual?: string;
+  /** Error message if the wait timed out or failed */
+  error?: string;
+}
+
+/**
+ * Result of executing a Capture step
+ */
+export interface CaptureResult {
+  /** Variable the value is stored under (without braces) */
+  variable: string;
+  /** What was captured (instruction without the `as {variable}` suffix) */
+  source: string;
+  /** Strategy used: deterministic DOM/URL read or stagehand.extract() */
+  strategy: "deterministic" | "extract";
+  /** Captured value, undefined when nothing could be read */
+  value?: string;
+  /** Error message if the capture failed */
+  error?: string;
+}
+
 /**
  * Rich context for debugging failures
  */
@@ -177,6 +327,21 @@ export interface StepResult {
   actResult?: ActResult;
   /** For check steps */
   checkResult?: CheckResult;
+  /** For await steps */
+  awaitResult?: AwaitResult;
+  /** For capture steps */
+  captureResult?: CaptureResult;
+  /** Page HTML after the step, when step snapshots are enabled */
+  pageSnapshot?: string;
+  /** Screenshot taken after the step (Act steps and the failing step), when artifacts are enabled */
+  screenshotPath?: string;
+  /** LLM calls made by the step, when it made any */
+  usage?: LlmUsage;
+  /**
+   * How DeterministicRunner handled the step: resolved without a model,
+   * escalated to SpecTestRunner (hybrid mode) or left unresolved
+   */
+  resolution?: "deterministic" | "escalated" | "unresolved";
 }
 
 /**
@@ -191,6 +356,16 @@ export interface ExampleResult {
   steps: StepResult[];
   /** Execution duration in ms */
   duration: number;
+  /** Variables in scope when the example finished (passed-in values plus captures) */
+  variables?: Record<string, string>;
+  /** Page URL after session setup, where the first step started */
+  startUrl?: string;
+  /** Files recorded for this example (trace, video), when artifacts are enabled */
+  artifacts?: ExampleArtifacts;
+  /** LLM calls made by the example (steps plus session recovery), when it made any */
+  usage?: LlmUsage;
+  /** True when the LLM budget refused a call during the example */
+  budgetExceeded?: boolean;
   /** Details about failure if success is false */
   failedAt?: {
     stepIndex: number;
@@ -199,6 +374,120 @@ export interface ExampleResult {
   };
 }
 
+/**
+ * Artifact files recorded for one example. Step screenshots live on StepResult.
+ */
+export interface ExampleArtifacts {
+  /** Directory holding this example's artifacts */
+  dir: string;
+  /** Playwright trace zip (open with `npx playwright show-trace`) */
+  tracePath?: string;
+  /** Recorded video */
+  videoPath?: string;
+}
+
+/**
+ * What reports keep of an example run: the step timeline, failure suggestions and
+ * artifact paths. Verification summaries persist it, so it carries page snapshots
+ * only when built for an in-memory report (see toScenarioRecord).
+ */
+export interface ScenarioRecord {
+  steps: StepRecord[];
+  artifacts?: ExampleArtifacts;
+  failure?: {
+    pageUrl?: string;
+    suggestions: string[];
+    pageSnapshot?: string;
+  };
+}
+
+/**
+ * One step of a ScenarioRecord.
+ */
+export interface StepRecord {
+  type: SpecStep["type"];
+  instruction: string;
+  lineNumber?: number;
+  success: boolean;
+  /** Duration in ms */
+  duration: number;
+  /** Why the step failed (act, await or capture error) */
+  error?: string;
+  /** Readable result lines: check expectation and reasoning, wait strategy, captured value */
+  details: string[];
+  usage?: LlmUsage;
+  screenshotPath?: string;
+  pageSnapshot?: string;
+}
+
+/** LLM touchpoint kinds: Stagehand act/observe/extract/agent inference and Tester.assert. */
+export type LlmOperation = "act" | "observe" | "extract" | "agent" | "assert";
+
+/**
+ * One LLM inference, as recorded by a UsageTracker.
+ */
+export interface LlmCall {
+  operation: LlmOperation;
+  /** Model identifier (e.g. "openai/gpt-4.1-mini"), when known */
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Inference latency in ms */
+  latencyMs: number;
+}
+
+/** Call, token, latency and cost totals. */
+export interface LlmUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Summed inference latency in ms */
+  latencyMs: number;
+  /** Estimated cost in USD from the price table (0 for models without a price) */
+  cost: number;
+}
+
+/**
+ * LLM usage of a step, example, behavior or run, with a per-operation breakdown.
+ */
+export interface LlmUsage extends LlmUsageTotals {
+  byOperation: Partial<Record<LlmOperation, LlmUsageTotals>>;
+}
+
+/**
+ * Hard limits for a run's LLM usage. Once one is reached, further LLM calls
+ * are refused with BudgetExceededError.
+ */
+export interface LlmBudget {
+  maxCalls?: number;
+  /** Input plus output tokens */
+  maxTokens?: number;
+  /** Estimated cost in USD (see PriceTable) */
+  maxCost?: number;
+}
+
+/** USD per one million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices keyed by model name. A provider-prefixed name ("openai/gpt-4o") also
+ * matches an entry without the prefix ("gpt-4o").
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Record/replay of LLM responses. "record" calls the model and stores each
+ * response under its prompt hash in `dir`; "replay" serves stored responses
+ * and fails on a prompt that was never recorded.
+ */
+export interface CassetteOptions {
+  dir: string;
+  mode: "record" | "replay";
+}
+
 /**
  * Context threaded through each iteration of the adaptive act loop.
  * Carries goal intent, last concrete action taken, and accumulated history
@@ -239,5 +528,241 @@ export interface BehaviorRunner {
     credentials?: { email: string | null; password: string | null };
     /** Reload the page before running steps (cleans dirty form state). */
     reloadPage?: boolean;
+    /** Variables captured earlier in the dependency chain, available as `{name}` in steps. */
+    variables?: Record<string, string>;
   }): Promise<ExampleResult>;
+  /** Release the browser; called on runners the orchestrator created itself. */
+  close?(): Promise<void>;
+  /** Snapshot cookies and storage so a SessionCache can skip replaying a chain prefix. */
+  saveSessionState?(): Promise<StorageState>;
+  /** Restore a snapshot; resolves false when the app redirects to sign-in (stale session). */
+  restoreSessionState?(state: StorageState): Promise<boolean>;
+  /** Progress events of this runner; orchestrators emit on it unless VerifyOptions.events is set. */
+  events?: import("./events.js").RunEventEmitter;
+  /** True once the runner's LLM budget is used up; orchestrators then mark remaining behaviors not_run. */
+  isBudgetExhausted?(): boolean;
+}
+
+/**
+ * Browser cookie as saved in a StorageState.
+ */
+export interface StorageCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /** Unix time in seconds, -1 for session cookies */
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: "Strict" | "Lax" | "None";
+}
+
+/**
+ * Snapshot of an authenticated browser session.
+ */
+export interface StorageState {
+  /** Page URL when the snapshot was taken (restored after applying storage) */
+  url: string;
+  cookies: StorageCookie[];
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+}
+
+/**
+ * A SessionCache entry: everything a chain needs to resume after a prefix.
+ */
+export interface CachedSession {
+  state: StorageState;
+  /** Credentials the prefix signed up / in with */
+  credentials: { email: string | null; password: string | null };
+  /** Variables and URLs recorded by the prefix */
+  history: RouteHistory;
+}
+
+/**
+ * What earlier chain steps left behind, used to fill route params like `/tickets/:id`.
+ */
+export interface RouteHistory {
+  /** Variables captured so far by Capture steps */
+  variables: Record<string, string>;
+  /** Page URLs visited so far, oldest first */
+  urls: string[];
+}
+
+/** How a page path's route params were filled before navigating. */
+export type RouteStrategy = "static" | "captured" | "url-history" | "parent-route";
+
+/**
+ * One test case in a TestReport: a scenario (or a behavior without scenarios).
+ */
+export interface ReportTestCase {
+  /** Scenario name, or the behavior name when it never reached its scenarios */
+  name: string;
+  status: "passed" | "failed" | "skipped";
+  /** Duration in ms */
+  duration: number;
+  /** Failure or skip reason */
+  message?: string;
+  /** Step that failed, when known */
+  failedStep?: SpecStep;
+  /** Spec file the case comes from, when known */
+  file?: string;
+  /** Step-level detail for reporters that render it (HTML, attachments) */
+  result?: ScenarioRecord;
+}
+
+/**
+ * A behavior (or spec) and its test cases.
+ */
+export interface ReportSuite {
+  id: string;
+  name: string;
+  /** Duration in ms */
+  duration: number;
+  tests: ReportTestCase[];
+}
+
+/**
+ * Reporter-neutral view of a run, built from a VerificationSummary or SpecTestResult.
+ */
+export interface TestReport {
+  /** Run name (tool or spec name) */
+  name: string;
+  /** Run start as epoch ms */
+  startTime: number;
+  /** Duration in ms */
+  duration: number;
+  suites: ReportSuite[];
+}
+
+/**
+ * Renders a TestReport into one output file format.
+ */
+export interface Reporter {
+  /** Reporter name used in config (e.g. "junit") */
+  name: string;
+  /** File suffix including the dot (e.g. ".junit.xml") */
+  extension: string;
+  render(report: TestReport): string;
+}
+
+/** Built-in reporter names. */
+export type ReporterName = "junit" | "tap" | "ctrf" | "html";
+
+/** A built-in reporter name or a custom Reporter. */
+export type ReporterOption = ReporterName | Reporter;
+
+/** Console output level for run events. */
+export type Verbosity = "silent" | "normal" | "verbose";
+
+/**
+ * Payloads of the events emitted during a run, keyed by event type.
+ * Every emitted event also carries `type` and `timestamp` (see RunEvent).
+ */
+export interface RunEventMap {
+  /** An orchestrator or SpecTestRunner started */
+  runStart: { mode: "chain" | "continuous" | "spec"; source: string; behaviorIds: string[] };
+  /** The run finished; summary is set for behavior verification runs */
+  runEnd: { success: boolean; duration: number; summary?: VerificationSummary };
+  /** A behavior began verification */
+  behaviorStart: { behaviorId: string; behaviorName: string; phase: "auth" | "non-auth" };
+  /** One link of a dependency chain is about to run (Sign Up → ... → target) */
+  chainStep: {
+    targetId: string;
+    behaviorId: string;
+    scenarioName: string;
+    index: number;
+    length: number;
+    steps: number;
+    email: string | null;
+    navigateToPath?: string;
+  };
+  /** A spec step is about to run */
+  stepStart: { exampleName: string; step: SpecStep; stepIndex: number; totalSteps: number };
+  /** A spec step finished */
+  stepEnd: { exampleName: string; stepIndex: number; result: StepResult };
+  /** A check oracle reached a verdict */
+  oracleDecision: { instruction: string; oracle: "deterministic" | "b-test" | "extract"; passed: boolean; reason?: string };
+  /** A strategy gave way to another (deterministic → semantic, b-test → extract, ...) */
+  fallbackUsed: { scope: string; from: string; to: string; reason: string };
+  /** Browser session was reset, restored or re-navigated */
+  sessionReset: {
+    scope: string;
+    kind: "hard-reset" | "navigate" | "auth-recovery" | "restore" | "reload";
+    url: string;
+    detail?: string;
+  };
+  /** A behavior finished (pass, fail or dependency_failed) */
+  behaviorEnd: { result: BehaviorContext };
+  /** Free-form progress message */
+  log: { level: "info" | "debug"; scope: string; message: string };
+}
+
+/** Run event type names. */
+export type RunEventName = keyof RunEventMap;
+
+/** A run event: its payload plus `type` and `timestamp` (epoch ms). */
+export type RunEvent = {
+  [K in RunEventName]: { type: K; timestamp: number } & RunEventMap[K];
+}[RunEventName];
+
+/**
+ * Options shared by the verifyAllBehaviors orchestrators.
+ */
+export interface VerifyOptions {
+  /** Append each rule's Then clauses as semantic checks after its best-matching scenario */
+  ruleChecks?: boolean;
+  /**
+   * Number of non-auth chains verifyAllBehaviors runs at once (default: 1).
+   * Values above 1 require createRunner.
+   */
+  concurrency?: number;
+  /**
+   * Creates the runner (its own browser) for parallel worker 1..N-1; worker 0
+   * uses the runner passed in. Created runners are closed when the run ends.
+   */
+  createRunner?: (workerIndex: number) => BehaviorRunner | Promise<BehaviorRunner>;
+  /**
+   * Save the browser session after each passing chain prefix (e.g. `sign-up`)
+   * and restore it in later chains instead of replaying the prefix.
+   * Needs a runner with saveSessionState/restoreSessionState.
+   */
+  sessionCache?: boolean;
+  /** Reporters written when the run finishes (e.g. `["junit", "ctrf"]`) */
+  reporters?: ReporterOption[];
+  /** Directory for reporter output (default: `test-results` in the working directory) */
+  reportDir?: string;
+  /** Event emitter for run/behavior/chain events (default: the runner's `events`) */
+  events?: import("./events.js").RunEventEmitter;
+  /** Only verify these behavior IDs; the behaviors they depend on are verified too */
+  behaviorIds?: string[];
+  /** Only verify behaviors and scenarios tagged with one of these tags (and their dependencies) */
+  tags?: string[];
+  /** Skip behaviors and scenarios tagged with any of these tags, unless another selected behavior depends on them */
+  excludeTags?: string[];
+  /** Per-behavior timeout and retry settings, keyed by behavior ID */
+  behaviorOverrides?: Record<string, BehaviorOverride>;
+  /**
+   * Impact-based run: only verify these changed behaviors and everything that
+   * transitively depends on them (plus what those need). The rest are listed in
+   * `VerificationSummary.unaffected` instead of counting toward the reward.
+   */
+  changedBehaviorIds?: string[];
+}
+
+/**
+ * Include/exclude tag selection. Tags are written without the `@`; a scenario
+ * carries its own tags plus its behavior's.
+ */
+export type TagFilter = Pick<VerifyOptions, "tags" | "excludeTags">;
+
+/**
+ * Settings for one behavior that replace the run-wide defaults.
+ */
+export interface BehaviorOverride {
+  /** Timeout in ms, replacing the orchestrator's behaviorTimeoutMs */
+  timeoutMs?: number;
+  /** Re-run the behavior up to this many times while it fails (default: 0) */
+  retries?: number;
 }
@@ -0,0 +1,182 @@
+import type { Stagehand } from "@browserbasehq/stagehand";
+import type { Tester } from "../b-test/index.js";
+import type { LlmCall, LlmOperation, LlmUsage, LlmUsageTotals, ModelPrice, PriceTable } from "./types.js";
+import type { BudgetGuard } from "./budget.js";
+
+/**
+ * Estimated list prices (USD per 1M tokens) for the models the runners use by
+ * default. Prices change — pass `prices` to override or extend them.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "computer-use-preview": { input: 3, output: 12 },
+};
+
+/** Stagehand reports inference per handler; map its function names to operations. */
+const STAGEHAND_OPERATIONS: Record<string, LlmOperation> = {
+  ACT: "act",
+  OBSERVE: "observe",
+  EXTRACT: "extract",
+  AGENT: "agent",
+};
+
+/**
+ * Records every LLM call of a runner and sums them into LlmUsage.
+ *
+ * Calls come from an instrumented Stagehand (act/observe/extract/agent
+ * inference, which covers the adaptive act loop, evaluateActResult, extract
+ * double-checks, fill-value extraction and the agent runner) and from
+ * Tester.assert. Take a `mark()` before a unit of work and read
+ * `usageSince(mark)` after it to attribute calls to a step or example.
+ *
+ * With a BudgetGuard, every recorded call is charged against the budget.
+ */
+export class UsageTracker {
+  private calls: LlmCall[] = [];
+  private prices: PriceTable;
+
+  constructor(prices: PriceTable = {}, readonly budget: BudgetGuard | null = null) {
+    this.prices = { ...DEFAULT_PRICES, ...prices };
+  }
+
+  record(call: LlmCall): void {
+    this.calls.push(call);
+    this.budget?.charge(call, estimateCost(call, this.prices));
+  }
+
+  /** Position to pass to usageSince(). */
+  mark(): number {
+    return this.calls.length;
+  }
+
+  /** Usage of the calls recorded after `mark`, or undefined when there were none. */
+  usageSince(mark: number): LlmUsage | undefined {
+    const calls = this.calls.slice(mark);
+    return calls.length > 0 ? summarizeCalls(calls, this.prices) : undefined;
+  }
+
+  /** Usage of every call recorded so far. */
+  total(): LlmUsage | undefined {
+    return this.usageSince(0);
+  }
+}
+
+/** Sum LlmCalls into LlmUsage, pricing each call by its model. */
+export function summarizeCalls(calls: LlmCall[], prices: PriceTable = DEFAULT_PRICES): LlmUsage {
+  return sumUsage(calls.map(call => {
+    const totals: LlmUsageTotals = {
+      calls: 1,
+      inputTokens: call.inputTokens,
+      outputTokens: call.outputTokens,
+      latencyMs: call.latencyMs,
+      cost: estimateCost(call, prices),
+    };
+    return { ...totals, byOperation: { [call.operation]: totals } };
+  }))!;
+}
+
+/** Add usages together (per operation too). Returns undefined when none are defined. */
+export function sumUsage(usages: Array<LlmUsage | undefined>): LlmUsage | undefined {
+  const defined = usages.filter((u): u is LlmUsage => u !== undefined);
+  if (defined.length === 0) return undefined;
+
+  const total: LlmUsage = { ...emptyTotals(), byOperation: {} };
+  for (const usage of defined) {
+    addTotals(total, usage);
+    for (const [operation, totals] of Object.entries(usage.byOperation) as Array<[LlmOperation, LlmUsageTotals]>) {
+      total.byOperation[operation] = addTotals(total.byOperation[operation] ?? emptyTotals(), totals);
+    }
+  }
+  return total;
+}
+
+/** Price for a model: exact name first, then the name without its provider prefix. */
+export function findModelPrice(model: string | undefined, prices: PriceTable = DEFAULT_PRICES): ModelPrice | undefined {
+  if (!model) return undefined;
+  return prices[model] ?? prices[model.slice(model.indexOf("/") + 1)];
+}
+
+/** One-line usage summary, e.g. `12 LLM calls, 48,210 tokens, ~$0.0213`. */
+export function formatUsage(usage: LlmUsage): string {
+  const tokens = (usage.inputTokens + usage.outputTokens).toLocaleString("en-US");
+  return `${usage.calls} LLM call${usage.calls === 1 ? "" : "s"}, ${tokens} tokens, ~$${usage.cost.toFixed(4)}`;
+}
+
+// ── INSTRUMENTATION ────────────────────────────────────────────────────
+
+/** The part of Stagehand instrumentStagehand wraps. */
+export type InstrumentedStagehand = Pick<Stagehand, "act" | "observe" | "extract" | "updateMetrics" | "llmClient">;
+
+/**
+ * Record Stagehand inference on the tracker. Stagehand funnels the token usage
+ * of every act/observe/extract/agent inference through `updateMetrics`, so
+ * wrapping it counts actual LLM calls — cached acts cost nothing and are not
+ * counted. With a budget, act/observe/extract throw BudgetExceededError once
+ * it is exhausted.
+ */
+export function instrumentStagehand(stagehand: InstrumentedStagehand, tracker: UsageTracker): void {
+  const budget = tracker.budget;
+  if (budget) {
+    stagehand.act = withBudget(stagehand.act, stagehand, budget);
+    stagehand.observe = withBudget(stagehand.observe, stagehand, budget);
+    stagehand.extract = withBudget(stagehand.extract, stagehand, budget);
+  }
+
+  const updateMetrics = stagehand.updateMetrics;
+  stagehand.updateMetrics = (functionName, promptTokens, completionTokens, reasoningTokens, cachedInputTokens, inferenceTimeMs) => {
+    tracker.record({
+      operation: STAGEHAND_OPERATIONS[functionName] ?? "act",
+      model: stagehand.llmClient?.modelName,
+      inputTokens: promptTokens ?? 0,
+      outputTokens: completionTokens ?? 0,
+      latencyMs: inferenceTimeMs ?? 0,
+    });
+    return updateMetrics.call(stagehand, functionName, promptTokens, completionTokens, reasoningTokens, cachedInputTokens, inferenceTimeMs);
+  };
+}
+
+
+/** Record Tester.assert LLM calls on the tracker; with a budget, assert() is refused once it is exhausted. */
+export function instrumentTester(tester: Tester, tracker: UsageTracker): void {
+  tester.onUsage(usage => tracker.record({ operation: "assert", ...usage }));
+  if (!tracker.budget) return;
+
+  const original = tester.assert.bind(tester);
+  tester.assert = async (condition: string) => {
+    tracker.budget!.assertAvailable();
+    return original(condition);
+  };
+}
+
+// ── HELPERS ────────────────────────────────────────────────────────────
+
+/** `method` bound to `self`, refusing calls once the budget is exhausted. */
+function withBudget<F extends (...args: never[]) => Promise<unknown>>(method: F, self: unknown, budget: BudgetGuard): F {
+  return (async (...args: Parameters<F>) => {
+    budget.assertAvailable();
+    return method.apply(self, args);
+  }) as F;
+}
+
+function estimateCost(call: LlmCall, prices: PriceTable): number {
+  const price = findModelPrice(call.model, prices);
+  if (!price) return 0;
+  return (call.inputTokens * price.input + call.outputTokens * price.output) / 1_000_000;
+}
+
+function emptyTotals(): LlmUsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 };
+}
+
+function addTotals<T extends LlmUsageTotals>(target: T, add: LlmUsageTotals): T {
+  target.calls += add.calls;
+  target.inputTokens += add.inputTokens;
+  target.outputTokens += add.outputTokens;
+  target.latencyMs += add.latencyMs;
+  target.cost += add.cost;
+  return target;
+}
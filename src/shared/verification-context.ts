@@ -1,4 +1,4 @@
-import type { BehaviorContext } from "./types";
+import type { BehaviorContext } from "./types.js";
 
 export class VerificationContext {
   private results: Map<string, BehaviorContext>;
@@ -30,6 +30,11 @@ export class VerificationContext {
     return this.results.get(behaviorId)?.status === 'pass';
   }
 
+  /** True once any behavior was cut off by the LLM budget. */
+  budgetExceeded(): boolean {
+    return [...this.results.values()].some(r => r.status === 'budget_exceeded');
+  }
+
   getAllResults(): Map<string, BehaviorContext> {
     return new Map(this.results);
   }
@@ -41,7 +46,7 @@ export class VerificationContext {
   getStatusCounts(): { pass: number; fail: number; dependency_failed: number } {
     const counts = { pass: 0, fail: 0, dependency_failed: 0 };
     for (const result of this.results.values()) {
-      counts[result.status]++;
+      if (result.status in counts) counts[result.status]++;
     }
     return counts;
   }
@@ -1,7 +1,8 @@
 import path from "path";
 import { mkdirSync, writeFileSync } from "fs";
 import { fileURLToPath } from "url";
-import type { VerificationSummary } from "./types";
+import type { VerificationSummary } from "./types.js";
+import { formatUsage } from "./usage.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const PROJECT_ROOT = path.resolve(path.dirname(__filename), "..", "..");
@@ -29,6 +30,9 @@ export function saveVerificationResults(
     dependency_failed: summary.dependency_failed,
     total: summary.total,
     duration: summary.duration,
+    usage: summary.usage ?? null,
+    budgetExceeded: summary.budgetExceeded ?? null,
+    unaffected: summary.unaffected ?? null,
     behaviors: summary.behaviors.map(b => ({
       id: b.behaviorId,
       name: b.behaviorName,
@@ -36,6 +40,7 @@ export function saveVerificationResults(
       duration: b.duration,
       error: b.error ?? null,
       failedDependency: b.failedDependency ?? null,
+      usage: b.usage ?? null,
     })),
   }, null, 2), "utf-8");
 
@@ -54,12 +59,14 @@ export function printVerificationResults(summary: VerificationSummary, title: st
   for (const behavior of summary.behaviors) {
     const icon = behavior.status === "pass" ? "PASS"
       : behavior.status === "fail" ? "FAIL"
+      : behavior.status === "budget_exceeded" ? "BUDGET"
+      : behavior.status === "not_run" ? "NOT RUN"
       : "SKIP";
 
     const duration = behavior.duration ? ` (${(behavior.duration / 1000).toFixed(1)}s)` : "";
     console.log(`  [${icon}] ${behavior.behaviorName}${duration}`);
 
-    if (behavior.status === "fail" && behavior.error) {
+    if ((behavior.status === "fail" || behavior.status === "budget_exceeded") && behavior.error) {
       console.log(`         Error: ${behavior.error.slice(0, 200)}`);
     }
     if (behavior.status === "dependency_failed") {
@@ -74,5 +81,12 @@ export function printVerificationResults(summary: VerificationSummary, title: st
   console.log(`  Total:             ${summary.total}`);
   console.log(`  Reward:            ${summary.reward.toFixed(2)} (${(summary.reward * 100).toFixed(1)}%)`);
   console.log(`  Duration:          ${(summary.duration / 1000).toFixed(1)}s`);
+  if (summary.usage) console.log(`  LLM usage:         ${formatUsage(summary.usage)}`);
+  if (summary.budgetExceeded) {
+    console.log(`  LLM budget:        ${summary.budgetExceeded.reason} — ${summary.budgetExceeded.cutOff.length} cut off, ${summary.budgetExceeded.notRun.length} not run`);
+  }
+  if (summary.unaffected) {
+    console.log(`  Unaffected:        ${summary.unaffected.length} skipped, not in the reward (${summary.unaffected.join(", ")})`);
+  }
   console.log("-".repeat(60));
 }
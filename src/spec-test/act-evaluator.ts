@@ -6,8 +6,8 @@
 
 import { z } from "zod";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { Tester } from "../b-test";
-import type { ActContext, ActEvalResult } from "./types";
+import type { Tester } from "../b-test/index.js";
+import type { ActContext, ActEvalResult } from "./types.js";
 
 const EVAL_SCHEMA = z.object({
   status: z.enum(["complete", "incomplete", "failed"]).describe(
@@ -1,7 +1,8 @@
 import { z } from "zod";
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { SpecStep, StepResult } from "./types";
+import type { RecordedAction, SpecStep, StepResult } from "./types.js";
+import { defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
 
 const RETRY_DELAY = 1000;
 const POST_CLICK_DELAY_MS = 500;
@@ -52,7 +53,7 @@ const MODAL_SELECTORS = [
  * submit/save action — HTML5 required-field validation silently blocks submission
  * (no DOM change), so the evaluator returns "failed" and this auto-fills to unblock it.
  */
-export async function tryFillRequiredInputs(page: Page): Promise<number> {
+export async function tryFillRequiredInputs(page: Page, events: RunEventEmitter = defaultRunEvents()): Promise<number> {
   const fieldValues = { ...DEFAULT_FIELD_VALUES, email: `test-${Date.now()}@example.com` };
 
   const filled = await page.evaluate((defaults): number => {
@@ -127,7 +128,7 @@ export async function tryFillRequiredInputs(page: Page): Promise<number> {
   }, fieldValues);
 
   if (filled > 0) {
-    console.log(`[tryFillRequiredInputs] Auto-filled ${filled} empty required field(s)`);
+    events.log("tryFillRequiredInputs", `Auto-filled ${filled} empty required field(s)`);
   }
   return filled;
 }
@@ -139,7 +140,7 @@ export async function tryFillRequiredInputs(page: Page): Promise<number> {
  * Only activates for click/select/rate-type instructions. Returns true if
  * any strategy successfully interacted with an element.
  */
-export async function tryDOMClick(page: Page, instruction: string): Promise<boolean> {
+export async function tryDOMClick(page: Page, instruction: string, events: RunEventEmitter = defaultRunEvents()): Promise<boolean> {
   if (!CLICK_KEYWORD_PATTERN.test(instruction)) return false;
 
   const target = extractClickTarget(instruction);
@@ -192,7 +193,7 @@ export async function tryDOMClick(page: Page, instruction: string): Promise<bool
   }, target);
 
   if (clicked) {
-    console.log(`[tryDOMClick] DOM interaction succeeded for target "${target}" in: "${instruction.slice(0, 60)}"`);
+    events.log("tryDOMClick", `DOM interaction succeeded for target "${target}" in: "${instruction.slice(0, 60)}"`);
     await delay(POST_CLICK_DELAY_MS);
   }
   return clicked;
@@ -214,6 +215,7 @@ export async function tryNativeInputFill(
   page: Page,
   stagehand: Stagehand,
   instruction: string,
+  events: RunEventEmitter = defaultRunEvents(),
 ): Promise<(() => Promise<void>) | null> {
   const nativeSelector = NATIVE_WIDGET_TYPES.map(t => `input[type="${t}"]`).join(", ");
   const inputs = await page.evaluate((sel) => {
@@ -229,7 +231,7 @@ export async function tryNativeInputFill(
   const value = await extractNativeInputValue(stagehand, instruction, target);
   const selector = buildNativeInputSelector(target);
 
-  console.log(`[nativeInputFill] Filling "${selector}" with "${value}" for: "${instruction.slice(0, 60)}"`);
+  events.log("nativeInputFill", `Filling "${selector}" with "${value}" for: "${instruction.slice(0, 60)}"`);
 
   return async () => {
     await page.locator(selector).fill(value);
@@ -296,20 +298,24 @@ export async function executePageAction(
 
 /**
  * Wrapper around stagehand.act() that retries on transient API errors.
+ * Resolves to the concrete actions Stagehand performed.
  */
 export async function actWithRetry(
   stagehand: Stagehand,
   instruction: string,
   maxAttempts = 3,
-): Promise<void> {
+  events: RunEventEmitter = defaultRunEvents(),
+): Promise<RecordedAction[]> {
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     try {
-      await stagehand.act(instruction);
-      return;
+      const result = await stagehand.act(instruction);
+      return (result?.actions ?? []).map(({ selector, description, method, arguments: args }) => ({
+        selector, description, method, arguments: args,
+      }));
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       if (isRetryableError(msg) && attempt < maxAttempts - 1) {
-        console.log(`[actWithRetry] Retrying (attempt ${attempt + 1}): ${msg.slice(0, 80)}`);
+        events.log("actWithRetry", `Retrying (attempt ${attempt + 1}): ${msg.slice(0, 80)}`);
         await delay(RETRY_DELAY);
         continue;
       }
@@ -322,7 +328,7 @@ export async function actWithRetry(
  * Pre-flight modal dismissal. Clears any stale overlay left over from a previous step.
  * Returns true if a modal was detected and dismissed.
  */
-export async function dismissStaleModal(page: Page): Promise<boolean> {
+export async function dismissStaleModal(page: Page, events: RunEventEmitter = defaultRunEvents()): Promise<boolean> {
   const modalFound = await page.evaluate((selectors) => {
     for (const sel of selectors) {
       const el = document.querySelector(sel) as HTMLElement | null;
@@ -345,7 +351,7 @@ export async function dismissStaleModal(page: Page): Promise<boolean> {
 
   await page.keyboard.press('Escape');
   await delay(STALE_MODAL_DELAY_MS);
-  console.log('[dismissStaleModal] Pressed Escape to clear stale modal');
+  events.log("dismissStaleModal", "Pressed Escape to clear stale modal");
   return true;
 }
 
@@ -0,0 +1,184 @@
+import path from "path";
+import { mkdirSync, rmSync } from "fs";
+import type { Page, Tracing, Video } from "playwright";
+import type { ArtifactConfig, ArtifactMode, ExampleArtifacts, StepResult } from "./types.js";
+import { defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
+
+/** Default base directory for artifacts, relative to the working directory. */
+export const DEFAULT_ARTIFACT_DIR = path.join("test-results", "artifacts");
+
+/**
+ * Records screenshots, traces and videos for SpecTestRunner examples.
+ *
+ * Lifecycle per example: startExample → afterStep (each step) → finishExample.
+ * Each run gets one directory (`<dir>/run-<timestamp>`), each example a
+ * numbered subdirectory inside it. "on-failure" traces are recorded
+ * throughout and discarded when the example passes.
+ *
+ * Stagehand pages have no Playwright context, so trace and video are skipped
+ * (with one log line) unless the page exposes `context().tracing` / `video()`.
+ */
+export class ArtifactRecorder {
+  private screenshots: ArtifactMode;
+  private trace: ArtifactMode;
+  private video: ArtifactMode;
+  private baseDir: string;
+  private runDir: string | null = null;
+  private exampleCount = 0;
+  private exampleDir: string | null = null;
+  private tracing: Tracing | null = null;
+  private warned = new Set<string>();
+  private events: RunEventEmitter;
+
+  constructor(config: ArtifactConfig = {}, events: RunEventEmitter = defaultRunEvents()) {
+    this.events = events;
+    this.screenshots = config.screenshots ?? "on-failure";
+    this.trace = config.trace ?? "off";
+    this.video = config.video ?? "off";
+    // Absolute, so reporters written elsewhere can still link the files
+    this.baseDir = path.resolve(config.dir ?? DEFAULT_ARTIFACT_DIR);
+  }
+
+  /** True when any artifact type is recorded. */
+  get enabled(): boolean {
+    return [this.screenshots, this.trace, this.video].some(mode => mode !== "off");
+  }
+
+  /** Create the example's directory and start tracing if configured. */
+  async startExample(page: Page, exampleName: string): Promise<void> {
+    if (!this.enabled) return;
+
+    this.exampleCount++;
+    this.exampleDir = path.join(this.getRunDir(), `${String(this.exampleCount).padStart(3, "0")}-${slugify(exampleName)}`);
+    mkdirSync(this.exampleDir, { recursive: true });
+
+    this.tracing = null;
+    if (this.trace === "off") return;
+    const tracing = getTracing(page);
+    if (!tracing) {
+      this.warnOnce("trace", "Tracing needs a page from a Playwright context — skipped");
+      return;
+    }
+    try {
+      await tracing.start({ screenshots: true, snapshots: true, sources: false });
+      this.tracing = tracing;
+    } catch (error) {
+      this.events.log("ArtifactRecorder", `Could not start trace: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Screenshot after an Act step ("always") or at a failing step (any mode but "off").
+   * Sets stepResult.screenshotPath.
+   */
+  async afterStep(page: Page, stepResult: StepResult, stepIndex: number): Promise<void> {
+    if (!this.exampleDir || this.screenshots === "off") return;
+
+    const wanted = !stepResult.success || (this.screenshots === "always" && stepResult.step.type === "Act");
+    if (!wanted) return;
+
+    const suffix = stepResult.success ? "" : "-failed";
+    const screenshotPath = path.join(this.exampleDir, `step-${String(stepIndex + 1).padStart(2, "0")}-${stepResult.step.type.toLowerCase()}${suffix}.png`);
+    try {
+      await page.screenshot({ path: screenshotPath });
+      stepResult.screenshotPath = screenshotPath;
+    } catch (error) {
+      this.events.log("ArtifactRecorder", `Screenshot failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /** Stop tracing, save the video, drop artifacts the mode does not keep. */
+  async finishExample(page: Page, success: boolean): Promise<ExampleArtifacts | undefined> {
+    const dir = this.exampleDir;
+    if (!dir) return undefined;
+    this.exampleDir = null;
+
+    const artifacts: ExampleArtifacts = { dir };
+    const tracePath = await this.stopTrace(dir, keeps(this.trace, success));
+    if (tracePath) artifacts.tracePath = tracePath;
+
+    if (keeps(this.video, success)) {
+      const videoPath = await getVideoPath(page, this.events);
+      if (videoPath) artifacts.videoPath = videoPath;
+      else this.warnOnce("video", "Video needs a Playwright context created with recordVideo — skipped");
+    }
+
+    if (success && this.screenshots !== "always" && !artifacts.tracePath && !artifacts.videoPath) {
+      rmSync(dir, { recursive: true, force: true });
+      return undefined;
+    }
+    return artifacts;
+  }
+
+  private async stopTrace(dir: string, keep: boolean): Promise<string | undefined> {
+    const tracing = this.tracing;
+    this.tracing = null;
+    if (!tracing) return undefined;
+
+    const tracePath = path.join(dir, "trace.zip");
+    try {
+      await tracing.stop(keep ? { path: tracePath } : undefined);
+      return keep ? tracePath : undefined;
+    } catch (error) {
+      this.events.log("ArtifactRecorder", `Could not save trace: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  private getRunDir(): string {
+    if (!this.runDir) {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      this.runDir = path.join(this.baseDir, `run-${timestamp}-${Math.random().toString(36).slice(2, 6)}`);
+    }
+    return this.runDir;
+  }
+
+  private warnOnce(key: string, message: string): void {
+    if (this.warned.has(key)) return;
+    this.warned.add(key);
+    this.events.log("ArtifactRecorder", message);
+  }
+}
+
+/** Whether an artifact recorded under this mode is kept for the example outcome. */
+function keeps(mode: ArtifactMode, success: boolean): boolean {
+  return mode === "always" || (mode === "on-failure" && !success);
+}
+
+/** The page context's tracing, or null for Stagehand pages (they have no context()). */
+function getTracing(page: Page): Tracing | null {
+  try {
+    return page.context().tracing;
+  } catch {
+    return null;
+  }
+}
+
+/** The page's video, or null without recordVideo and for Stagehand pages (they have no video()). */
+function getVideo(page: Page): Video | null {
+  try {
+    return page.video();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Path of the page's video. Playwright writes it into the context's recordVideo
+ * dir and finalizes it when the page closes (saveAs() would block until then),
+ * so the file is referenced where it is rather than copied.
+ */
+async function getVideoPath(page: Page, events: RunEventEmitter): Promise<string | undefined> {
+  const video = getVideo(page);
+  if (!video) return undefined;
+  try {
+    return await video.path();
+  } catch (error) {
+    events.log("ArtifactRecorder", `Could not get video path: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "example";
+}
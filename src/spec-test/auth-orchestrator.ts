@@ -4,4 +4,4 @@ export {
   runAuthBehaviorsSequence,
   withTimeout,
   DEFAULT_BEHAVIOR_TIMEOUT_MS,
-} from "../shared/auth-orchestrator";
+} from "../shared/auth-orchestrator.js";
@@ -0,0 +1,151 @@
+import type { Page } from "playwright";
+import type { Tester } from "../b-test/index.js";
+import type { AwaitResult, SpecStep, StepResult } from "./types.js";
+
+import { executeCheckStep, extractExpectedText } from "./step-execution.js";
+import { hasDeterministicHandler } from "./deterministic-checks.js";
+import { safeWaitForLoadState } from "./session-management.js";
+import { delay } from "./act-helpers.js";
+
+/** Default time an Await step may wait for its condition (30 seconds) */
+export const DEFAULT_AWAIT_TIMEOUT_MS = 30_000;
+
+/** Interval between deterministic condition polls */
+export const AWAIT_POLL_INTERVAL_MS = 500;
+
+/** Upper bound for the initial networkidle wait so it never eats the whole timeout */
+const LOAD_STATE_BUDGET_MS = 2000;
+
+/** Matches a trailing timeout override: "(timeout: 60s)", "(timeout 500ms)", "(timeout: 2m)". */
+const TIMEOUT_SUFFIX_PATTERN = /\s*\(timeout:?\s*(\d+(?:\.\d+)?)\s*(ms|s|m)\)\s*$/i;
+
+const UNIT_TO_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000 };
+
+type ConditionProbe = () => Promise<{ satisfied: boolean; actual: string }>;
+
+/**
+ * Execute an Await step: wait until the condition holds or the timeout expires.
+ *
+ * Strategy:
+ * - Deterministic fast path: quoted text presence/absence and deterministic check
+ *   patterns (URL contains, page title is, ...) are polled without any LLM call
+ * - Semantic: everything else goes through Tester.waitFor(), which only asks the
+ *   LLM again when the page HTML actually changed
+ */
+export async function executeAwaitStep(
+  step: SpecStep,
+  page: Page,
+  tester: Tester,
+  options?: { timeoutMs?: number; pollIntervalMs?: number },
+): Promise<StepResult> {
+  const stepStart = Date.now();
+  const { condition, timeoutMs: override } = parseAwaitTimeout(step.instruction);
+  const timeoutMs = override ?? options?.timeoutMs ?? DEFAULT_AWAIT_TIMEOUT_MS;
+
+  await safeWaitForLoadState(page, Math.min(timeoutMs, LOAD_STATE_BUDGET_MS));
+
+  const probe = buildDeterministicProbe(condition, page, tester);
+  const awaitResult = probe
+    ? await pollUntilSatisfied(probe, condition, timeoutMs, stepStart, options?.pollIntervalMs ?? AWAIT_POLL_INTERVAL_MS)
+    : await waitSemantic(condition, tester, timeoutMs, stepStart);
+
+  return { step, success: awaitResult.satisfied, duration: Date.now() - stepStart, awaitResult };
+}
+
+/**
+ * Split an Await instruction into its condition and optional timeout override.
+ *
+ * Example: `Export is ready (timeout: 60s)` → `{ condition: "Export is ready", timeoutMs: 60000 }`
+ */
+export function parseAwaitTimeout(instruction: string): { condition: string; timeoutMs?: number } {
+  const match = instruction.match(TIMEOUT_SUFFIX_PATTERN);
+  if (!match) return { condition: instruction.trim() };
+
+  const timeoutMs = Math.round(parseFloat(match[1]) * UNIT_TO_MS[match[2].toLowerCase()]);
+  return { condition: instruction.slice(0, match.index).trim(), timeoutMs };
+}
+
+/** True when the Await condition can be polled without an LLM (quoted text or a deterministic check pattern). */
+export function hasDeterministicAwait(instruction: string): boolean {
+  const { condition } = parseAwaitTimeout(instruction);
+  return extractExpectedText(condition) !== null || hasDeterministicHandler(condition);
+}
+
+/** Build a no-LLM probe for the condition, or null when only a semantic wait can judge it. */
+function buildDeterministicProbe(condition: string, page: Page, tester: Tester): ConditionProbe | null {
+  const textCheck = extractExpectedText(condition);
+  if (textCheck) {
+    return async () => {
+      const exists = await page.evaluate((text: string) => {
+        return document.body.innerText.includes(text);
+      }, textCheck.text).catch(() => false);
+      return {
+        satisfied: textCheck.shouldExist ? exists : !exists,
+        actual: exists ? `Found "${textCheck.text}" on page` : `Text "${textCheck.text}" not on page`,
+      };
+    };
+  }
+
+  if (hasDeterministicHandler(condition)) {
+    return async () => {
+      const result = await executeCheckStep(condition, "deterministic", page, tester);
+      return { satisfied: result.passed, actual: result.actual };
+    };
+  }
+
+  return null;
+}
+
+async function pollUntilSatisfied(
+  probe: ConditionProbe, condition: string, timeoutMs: number, stepStart: number, pollIntervalMs: number,
+): Promise<AwaitResult> {
+  let polls = 0;
+  let actual = "";
+
+  while (true) {
+    polls++;
+    try {
+      const observed = await probe();
+      actual = observed.actual;
+      if (observed.satisfied) {
+        return { satisfied: true, strategy: "deterministic", condition, waitDuration: Date.now() - stepStart, timeout: timeoutMs, polls, actual };
+      }
+    } catch (error) {
+      actual = error instanceof Error ? error.message : String(error);
+    }
+
+    if (Date.now() - stepStart + pollIntervalMs > timeoutMs) break;
+    await delay(pollIntervalMs);
+  }
+
+  return {
+    satisfied: false,
+    strategy: "deterministic",
+    condition,
+    waitDuration: Date.now() - stepStart,
+    timeout: timeoutMs,
+    polls,
+    actual,
+    error: `Timed out after ${timeoutMs}ms waiting for: "${condition}" (last observed: ${actual})`,
+  };
+}
+
+async function waitSemantic(
+  condition: string, tester: Tester, timeoutMs: number, stepStart: number,
+): Promise<AwaitResult> {
+  const remaining = Math.max(timeoutMs - (Date.now() - stepStart), 0);
+  try {
+    await tester.waitFor(condition, remaining);
+    return { satisfied: true, strategy: "semantic", condition, waitDuration: Date.now() - stepStart, timeout: timeoutMs, polls: 0 };
+  } catch (error) {
+    return {
+      satisfied: false,
+      strategy: "semantic",
+      condition,
+      waitDuration: Date.now() - stepStart,
+      timeout: timeoutMs,
+      polls: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { readFile, readdir } from "fs/promises";
+import { existsSync, statSync } from "fs";
+import path from "path";
+import type { HarborBehavior } from "./types.js";
+import { parseBehaviorFile, parseHarborBehaviorsWithDependencies } from "./parsing.js";
+import { parseFeatureFile } from "./gherkin.js";
+import { defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
+
+const PRD_FILE = "prd.json";
+const BEHAVIORS_DIR = "behaviors";
+
+/** A behavior entry in prd.json. */
+interface PrdBehavior {
+  id: string;
+  title?: string;
+  specFile: string;
+  priority?: number;
+}
+
+/**
+ * Load behaviors from either a single instruction.md (Harbor `## Behaviors` format),
+ * a single Gherkin `.feature` file, or a spec directory of per-behavior files.
+ */
+export async function loadBehaviors(
+  specPath: string, events: RunEventEmitter = defaultRunEvents(),
+): Promise<Map<string, HarborBehavior>> {
+  if (isDirectory(specPath)) return loadBehaviorDirectory(specPath, events);
+
+  const content = await readFile(specPath, "utf-8");
+  if (specPath.endsWith(".feature")) {
+    const behavior = parseFeatureFile(content);
+    return new Map([[behavior.id, behavior]]);
+  }
+  return parseHarborBehaviorsWithDependencies(content);
+}
+
+/**
+ * Load a spec directory: `behaviors/*.md` (and `*.feature`) plus an optional `prd.json`.
+ *
+ * prd.json supplies ids and priority; the returned Map is ordered by priority,
+ * then prd.json order. Spec files not listed in prd.json follow alphabetically,
+ * keyed by file name. `dir` may also be the behaviors folder itself.
+ */
+export async function loadBehaviorDirectory(
+  dir: string, events: RunEventEmitter = defaultRunEvents(),
+): Promise<Map<string, HarborBehavior>> {
+  const behaviors = new Map<string, HarborBehavior>();
+
+  for (const entry of await listBehaviorFiles(dir)) {
+    if (!existsSync(entry.filePath)) {
+      events.log("loadBehaviorDirectory", `${PRD_FILE} lists missing spec file: ${entry.specFile}`);
+      continue;
+    }
+    if (!entry.listed && behaviors.has(entry.id)) continue;
+    const behavior = parseSpecSource(await readFile(entry.filePath, "utf-8"), entry.filePath, entry.id);
+    behaviors.set(behavior.id, { ...behavior, sourceFile: entry.filePath, ...(entry.listed && { priority: entry.priority }) });
+  }
+
+  return behaviors;
+}
+
+/** A spec file of a behavior directory and the id it loads under. */
+export interface BehaviorFileEntry {
+  id: string;
+  /** Absolute path; prd.json entries may point at a file that does not exist */
+  filePath: string;
+  /** Path as written in prd.json, or the file name for unlisted files */
+  specFile: string;
+  /** True when the file comes from prd.json */
+  listed: boolean;
+  priority?: number;
+}
+
+/**
+ * List the spec files of a directory in load order: prd.json entries by priority,
+ * then unlisted `*.md` / `*.feature` files alphabetically. Duplicate ids are kept.
+ */
+export async function listBehaviorFiles(dir: string): Promise<BehaviorFileEntry[]> {
+  const nestedDir = path.join(dir, BEHAVIORS_DIR);
+  const behaviorsDir = isDirectory(nestedDir) ? nestedDir : dir;
+
+  const entries: BehaviorFileEntry[] = sortByPriority(await readPrd(dir)).map(entry => ({
+    id: entry.id,
+    filePath: path.resolve(dir, entry.specFile),
+    specFile: entry.specFile,
+    listed: true,
+    priority: entry.priority,
+  }));
+  const listedFiles = new Set(entries.map(e => e.filePath));
+
+  const files = (await readdir(behaviorsDir)).filter(f => f.endsWith(".md") || f.endsWith(".feature")).sort();
+  for (const file of files) {
+    const filePath = path.resolve(behaviorsDir, file);
+    if (listedFiles.has(filePath)) continue;
+    entries.push({ id: path.basename(file, path.extname(file)), filePath, specFile: file, listed: false });
+  }
+
+  return entries;
+}
+
+/** Parse a per-behavior file by extension: Gherkin `.feature` or Epic markdown. */
+export function parseSpecSource(content: string, filePath: string, id: string): HarborBehavior {
+  return filePath.endsWith(".feature") ? parseFeatureFile(content, id) : parseBehaviorFile(content, id);
+}
+
+async function readPrd(dir: string): Promise<PrdBehavior[]> {
+  const prdPath = path.join(dir, PRD_FILE);
+  if (!existsSync(prdPath)) return [];
+
+  try {
+    const prd = JSON.parse(await readFile(prdPath, "utf-8"));
+    return Array.isArray(prd.behaviors) ? prd.behaviors.filter((b: PrdBehavior) => b.id && b.specFile) : [];
+  } catch (error) {
+    throw new Error(`Invalid ${PRD_FILE} in ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Stable sort by priority; entries without a priority keep their place after prioritized ones. */
+function sortByPriority(entries: PrdBehavior[]): PrdBehavior[] {
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) =>
+      (a.entry.priority ?? Infinity) - (b.entry.priority ?? Infinity) || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+function isDirectory(specPath: string): boolean {
+  try {
+    return statSync(specPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import type { Page } from "playwright";
+import type { Stagehand } from "@browserbasehq/stagehand";
+import type { CaptureResult, SpecStep, StepResult } from "./types.js";
+import { classifyCheck } from "./classify.js";
+
+/** Splits a Capture instruction into its source description and target variable: `<source> as {name}`. */
+const CAPTURE_PATTERN = /^(.+?)\s+as\s+\{(\w+)\}\s*$/i;
+
+/** `{name}` references to captured variables inside step text. */
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+const EXTRACT_CAPTURE_PROMPT = `Extract {source} from the current page.
+Return only the value itself (e.g. "1042", not "Ticket #1042 was created").`;
+
+const CAPTURE_SCHEMA = z.object({
+  value: z.string().describe("The exact value as shown on the page, without surrounding labels"),
+});
+
+type SelectorRead = (page: Page, groups: Record<string, string>) => Promise<string | null>;
+
+/**
+ * Capture sources read straight from the page, without an LLM call.
+ * Anything else is described in natural language and goes through stagehand.extract().
+ */
+const DETERMINISTIC_SOURCES: Array<{ pattern: RegExp; read: SelectorRead }> = [
+  {
+    // the URL
+    pattern: /^(?:the\s+)?(?:current\s+)?url$/i,
+    read: async (page) => page.url(),
+  },
+  {
+    // URL path segment 2
+    pattern: /^(?:the\s+)?url\s+(?:path\s+)?segment\s+(?<index>\d+)$/i,
+    read: async (page, g) => new URL(page.url()).pathname.split("/").filter(Boolean)[Number(g.index) - 1] ?? null,
+  },
+  {
+    // text of "h1.ticket-title"
+    pattern: /^(?:the\s+)?text\s+of\s+["'](?<selector>.+)["']$/i,
+    read: (page, g) => readElement(page, g.selector, "text"),
+  },
+  {
+    // value of "#ticket-id"
+    pattern: /^(?:the\s+)?value\s+of\s+["'](?<selector>.+)["']$/i,
+    read: (page, g) => readElement(page, g.selector, "value"),
+  },
+  {
+    // attribute "href" of "a.ticket-link"
+    pattern: /^(?:the\s+)?attribute\s+["'](?<attribute>[^"']+)["']\s+of\s+["'](?<selector>.+)["']$/i,
+    read: (page, g) => readElement(page, g.selector, "attribute", g.attribute),
+  },
+];
+
+/**
+ * Execute a Capture step: read a value from the page and report it under its variable name.
+ *
+ * `* Capture: text of "h1 .ticket-number" as {ticketId}` reads the DOM directly;
+ * `* Capture: the ticket number shown in the header as {ticketId}` uses stagehand.extract().
+ * The caller stores `captureResult.value` in the example's variable scope.
+ */
+export async function executeCaptureStep(step: SpecStep, page: Page, stagehand: Stagehand): Promise<StepResult> {
+  const stepStart = Date.now();
+  const parsed = parseCaptureInstruction(step.instruction);
+  if (!parsed) {
+    const captureResult: CaptureResult = {
+      variable: "",
+      source: step.instruction,
+      strategy: "extract",
+      error: `Capture step must end with "as {variableName}": "${step.instruction}"`,
+    };
+    return { step, success: false, duration: Date.now() - stepStart, captureResult };
+  }
+
+  const captureResult = await captureValue(parsed.source, parsed.variable, page, stagehand);
+  return { step, success: captureResult.value !== undefined, duration: Date.now() - stepStart, captureResult };
+}
+
+/**
+ * Split a Capture instruction into its source and variable name.
+ *
+ * Example: `the ticket number as {ticketId}` → `{ source: "the ticket number", variable: "ticketId" }`
+ */
+export function parseCaptureInstruction(instruction: string): { source: string; variable: string } | null {
+  const match = instruction.trim().match(CAPTURE_PATTERN);
+  if (!match) return null;
+  return { source: match[1].trim(), variable: match[2] };
+}
+
+/** True when the Capture source is read straight from the page (URL, text/value/attribute of a selector). */
+export function hasDeterministicCapture(instruction: string): boolean {
+  const parsed = parseCaptureInstruction(instruction);
+  return parsed !== null && DETERMINISTIC_SOURCES.some(({ pattern }) => pattern.test(parsed.source));
+}
+
+/** Replace `{name}` references with captured values, leaving unknown names untouched. */
+export function interpolateVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (token, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : token);
+}
+
+/**
+ * Resolve variable references in a step before it runs.
+ * Check steps are re-classified; a Capture step only interpolates its source,
+ * so re-capturing into an existing variable keeps the `as {name}` target intact.
+ */
+export function interpolateStep(step: SpecStep, variables: Record<string, string>): SpecStep {
+  if (Object.keys(variables).length === 0) return step;
+
+  if (step.type === "Capture") {
+    const parsed = parseCaptureInstruction(step.instruction);
+    if (!parsed) return step;
+    return { ...step, instruction: `${interpolateVariables(parsed.source, variables)} as {${parsed.variable}}` };
+  }
+
+  const instruction = interpolateVariables(step.instruction, variables);
+  if (instruction === step.instruction) return step;
+  if (step.type !== "Check") return { ...step, instruction };
+  return { ...step, instruction, checkType: classifyCheck(instruction) };
+}
+
+async function captureValue(source: string, variable: string, page: Page, stagehand: Stagehand): Promise<CaptureResult> {
+  for (const { pattern, read } of DETERMINISTIC_SOURCES) {
+    const match = source.match(pattern);
+    if (!match) continue;
+
+    try {
+      const value = await read(page, match.groups ?? {});
+      if (value === null) {
+        return { variable, source, strategy: "deterministic", error: `Nothing to capture for: "${source}"` };
+      }
+      return { variable, source, strategy: "deterministic", value: value.trim() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { variable, source, strategy: "deterministic", error: `Capture error: ${message}` };
+    }
+  }
+
+  try {
+    const result = await stagehand.extract(EXTRACT_CAPTURE_PROMPT.replace("{source}", source), CAPTURE_SCHEMA);
+    const value = result.value?.trim();
+    if (!value) return { variable, source, strategy: "extract", error: `extract() found no value for: "${source}"` };
+    return { variable, source, strategy: "extract", value };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { variable, source, strategy: "extract", error: `extract() failed: ${message}` };
+  }
+}
+
+/** Read text, input value or an attribute from the first element matching the selector. */
+async function readElement(
+  page: Page, selector: string, kind: "text" | "value" | "attribute", attribute?: string,
+): Promise<string | null> {
+  return page.evaluate(({ selector, kind, attribute }) => {
+    const element = document.querySelector(selector);
+    if (!element) return null;
+    if (kind === "value") return (element as HTMLInputElement).value ?? null;
+    if (kind === "attribute") return element.getAttribute(attribute!);
+    return (element as HTMLElement).innerText ?? element.textContent;
+  }, { selector, kind, attribute });
+}
@@ -0,0 +1,95 @@
+import { execFileSync } from "child_process";
+import { realpathSync, statSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import { loadBehaviors, listBehaviorFiles } from "./behavior-loader.js";
+import { parseBehaviorSections } from "./parsing.js";
+
+/** Changed 1-based lines of a file, or "all" for new files. */
+type FileChanges = Map<string, number[] | "all">;
+
+/**
+ * IDs of the behaviors in a spec that differ from git `baseRef` (default: HEAD,
+ * i.e. uncommitted changes; pass e.g. `origin/main` for a whole branch), in spec order:
+ *
+ * - Spec directory: behaviors whose file changed or is untracked; a changed
+ *   prd.json counts as changing every behavior
+ * - instruction.md: behaviors whose `###` section has changed lines; a change
+ *   outside the behavior sections (## Pages, the intro) counts as changing every behavior
+ * - `.feature` file: its behavior, when the file changed
+ *
+ * Feed the result to `VerifyOptions.changedBehaviorIds`.
+ */
+export async function behaviorsChangedSince(specPath: string, baseRef: string = "HEAD"): Promise<string[]> {
+  const absolutePath = realpathSync(path.resolve(specPath));
+  const directory = isDirectory(absolutePath);
+  const changes = gitChanges(absolutePath, baseRef, directory ? absolutePath : path.dirname(absolutePath));
+  if (changes.size === 0) return [];
+
+  const behaviorIds = [...(await loadBehaviors(absolutePath)).keys()];
+
+  if (directory) {
+    if ([...changes.keys()].some(file => path.basename(file) === "prd.json")) return behaviorIds;
+    const changedIds = new Set((await listBehaviorFiles(absolutePath)).filter(e => changes.has(e.filePath)).map(e => e.id));
+    return behaviorIds.filter(id => changedIds.has(id));
+  }
+
+  const lines = changes.get(absolutePath);
+  if (!lines) return [];
+  if (lines === "all" || absolutePath.endsWith(".feature")) return behaviorIds;
+
+  const sections = parseBehaviorSections(await readFile(absolutePath, "utf-8"));
+  const changedIds = new Set<string>();
+  for (const line of lines) {
+    const section = sections.find(s => line >= s.startLine && line <= s.endLine);
+    if (!section) return behaviorIds;
+    changedIds.add(section.behaviorId);
+  }
+  return behaviorIds.filter(id => changedIds.has(id));
+}
+
+// ── GIT ────────────────────────────────────────────────────────────────
+
+/** Changed lines per file under `specPath` (working tree vs `baseRef`), plus untracked files. */
+function gitChanges(specPath: string, baseRef: string, cwd: string): FileChanges {
+  const root = git(["rev-parse", "--show-toplevel"], cwd).trim();
+  const changes: FileChanges = new Map();
+
+  const diff = git(["diff", "--unified=0", "--no-color", "--no-ext-diff", "--src-prefix=a/", "--dst-prefix=b/", baseRef, "--", specPath], cwd);
+  let file: string | null = null;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("--- a/")) file = path.join(root, line.slice(6));
+    else if (line.startsWith("+++ b/")) file = path.join(root, line.slice(6));
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (!hunk || !file) continue;
+
+    const start = Number(hunk[1]);
+    const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+    // A pure deletion (count 0) sits after line `start`; attribute it to that line
+    const changed = count === 0 ? [Math.max(start, 1)] : Array.from({ length: count }, (_, i) => start + i);
+    const existing = changes.get(file);
+    if (existing !== "all") changes.set(file, [...(existing ?? []), ...changed]);
+  }
+
+  const untracked = git(["ls-files", "--others", "--exclude-standard", "--full-name", "--", specPath], cwd);
+  for (const name of untracked.split("\n").filter(Boolean)) changes.set(path.join(root, name), "all");
+
+  return changes;
+}
+
+function git(args: string[], cwd: string): string {
+  try {
+    return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : String(error))}`);
+  }
+}
+
+function isDirectory(specPath: string): boolean {
+  try {
+    return statSync(specPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
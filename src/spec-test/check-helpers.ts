@@ -1,8 +1,8 @@
 import { z } from "zod";
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { Tester } from "../b-test";
-import type { CheckResult, SpecStep, StepResult } from "./types";
+import type { Tester } from "../b-test/index.js";
+import type { CheckResult, SpecStep, StepResult } from "./types.js";
 
 import {
   executeCheckStep,
@@ -10,8 +10,9 @@ import {
   getCheckErrorContext,
   MAX_RETRIES,
   RETRY_DELAY,
-} from "./step-execution";
-import { delay, isRetryableError } from "./act-helpers";
+} from "./step-execution.js";
+import { delay, isRetryableError } from "./act-helpers.js";
+import { defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
 
 /** Enhanced instruction template for stagehand.extract() double-check. */
 export const EXTRACT_EVALUATION_PROMPT = `Look at ALL visible elements on the page (buttons, links, text, navigation items, headings, forms, badges, icons, labels, timestamps). Evaluate whether this condition is satisfied: "{instruction}".
@@ -33,6 +34,8 @@ IMPORTANT evaluation rules:
  * Concordance gates (activated when deterministicFailed=true):
  * - Negative concordance: b-test "No changes" + deterministic failed → skip extract()
  * - Evidence gate: deterministic failed → extract() must return foundText to pass
+ *
+ * Each oracle verdict is emitted as an `oracleDecision` event, each rescue as `fallbackUsed`.
  */
 export async function executeCheckWithRetry(
   instruction: string,
@@ -41,13 +44,14 @@ export async function executeCheckWithRetry(
   tester: Tester,
   stagehand: Stagehand,
   pageTransitioned: boolean = false,
-  deterministicFailed: boolean = false
+  deterministicFailed: boolean = false,
+  events: RunEventEmitter = defaultRunEvents(),
 ): Promise<CheckResult> {
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
       const result = pageTransitioned
-        ? await runPageTransitionOracle(instruction, stagehand, page, tester, checkType, attempt)
-        : await runSamePageOracle(instruction, checkType, page, tester, stagehand, deterministicFailed);
+        ? await runPageTransitionOracle(instruction, stagehand, page, tester, checkType, attempt, events)
+        : await runSamePageOracle(instruction, checkType, page, tester, stagehand, deterministicFailed, events);
 
       if (result.passed) return result;
       if (canRetry(checkType, attempt)) { await delay(RETRY_DELAY); continue; }
@@ -67,15 +71,17 @@ export async function executeCheckWithRetry(
 
 async function runPageTransitionOracle(
   instruction: string, stagehand: Stagehand, page: Page, tester: Tester,
-  checkType: "deterministic" | "semantic", attempt: number,
+  checkType: "deterministic" | "semantic", attempt: number, events: RunEventEmitter,
 ): Promise<CheckResult> {
-  console.log(`Page transitioned (attempt ${attempt}/${MAX_RETRIES}) — extract() primary for: "${instruction.slice(0, 80)}..."`);
+  events.log("executeCheckWithRetry", `Page transitioned (attempt ${attempt}/${MAX_RETRIES}) — extract() primary for: "${instruction.slice(0, 80)}..."`, "debug");
 
-  if (await doubleCheckWithExtract(instruction, stagehand)) {
+  if (await doubleCheckWithExtract(instruction, stagehand, false, events)) {
     return { passed: true, checkType: "semantic", expected: instruction, actual: "Confirmed by extract() (page transition)" };
   }
 
+  events.emit("fallbackUsed", { scope: "executeCheckWithRetry", from: "extract()", to: "b-test", reason: "extract() failed after page transition" });
   const bTestResult = await executeCheckStep(instruction, checkType, page, tester);
+  events.emit("oracleDecision", { instruction, oracle: "b-test", passed: bTestResult.passed, reason: bTestResult.reasoning });
   if (bTestResult.passed) {
     return { passed: true, checkType: "semantic", expected: instruction, actual: "Confirmed by b-test (extract false negative mitigated)" };
   }
@@ -84,34 +90,37 @@ async function runPageTransitionOracle(
 
 async function runSamePageOracle(
   instruction: string, checkType: "deterministic" | "semantic",
-  page: Page, tester: Tester, stagehand: Stagehand, deterministicFailed: boolean,
+  page: Page, tester: Tester, stagehand: Stagehand, deterministicFailed: boolean, events: RunEventEmitter,
 ): Promise<CheckResult> {
   const result = await executeCheckStep(instruction, checkType, page, tester);
+  events.emit("oracleDecision", { instruction, oracle: "b-test", passed: result.passed, reason: result.reasoning });
   if (result.passed) return result;
   if (checkType !== "semantic") return result;
 
-  const rescued = await applyConcordanceGate(instruction, stagehand, tester, deterministicFailed);
+  const rescued = await applyConcordanceGate(instruction, stagehand, tester, deterministicFailed, events);
   if (rescued) return { passed: true, checkType: "semantic", expected: instruction, actual: rescued };
 
   return result;
 }
 
 async function applyConcordanceGate(
-  instruction: string, stagehand: Stagehand, tester: Tester, deterministicFailed: boolean,
+  instruction: string, stagehand: Stagehand, tester: Tester, deterministicFailed: boolean, events: RunEventEmitter,
 ): Promise<string | null> {
   if (!deterministicFailed) {
-    if (await doubleCheckWithExtract(instruction, stagehand)) return "Confirmed by extract() (b-test false negative mitigated)";
+    events.emit("fallbackUsed", { scope: "executeCheckWithRetry", from: "b-test", to: "extract()", reason: "b-test failed — double-checking" });
+    if (await doubleCheckWithExtract(instruction, stagehand, false, events)) return "Confirmed by extract() (b-test false negative mitigated)";
     return null;
   }
 
   if (await noChangesDetected(tester)) {
     // Two oracles (deterministic + b-test) both signal failure — single extract() cannot override
-    console.log(`[executeCheckWithRetry] Negative concordance: b-test "No changes" + deterministic FAIL — skipping extract() rescue`);
+    events.log("executeCheckWithRetry", `Negative concordance: b-test "No changes" + deterministic FAIL — skipping extract() rescue`);
     return null;
   }
 
   // Page did change — require extract() to cite specific evidence
-  if (await doubleCheckWithExtract(instruction, stagehand, true)) {
+  events.emit("fallbackUsed", { scope: "executeCheckWithRetry", from: "b-test", to: "extract()", reason: "b-test failed — double-checking with evidence gate" });
+  if (await doubleCheckWithExtract(instruction, stagehand, true, events)) {
     return "Confirmed by extract() with evidence (b-test false negative mitigated)";
   }
   return null;
@@ -139,7 +148,8 @@ function canRetry(checkType: "deterministic" | "semantic", attempt: number): boo
 export async function doubleCheckWithExtract(
   instruction: string,
   stagehand: Stagehand,
-  requireEvidence = false
+  requireEvidence = false,
+  events: RunEventEmitter = defaultRunEvents(),
 ): Promise<boolean> {
   try {
     const passedDesc = "true if the condition is satisfied by ANY element currently visible on the page, false only if NO element matches";
@@ -156,14 +166,14 @@ export async function doubleCheckWithExtract(
     const result = await stagehand.extract(enhancedInstruction, schema);
 
     if (requireEvidence && result.passed && !(result as { foundText?: string }).foundText) {
-      console.log(`extract() passed without evidence — treating as FAIL (concordance gate): "${instruction.slice(0, 80)}"`);
+      events.emit("oracleDecision", { instruction, oracle: "extract", passed: false, reason: "Passed without evidence — treated as FAIL (concordance gate)" });
       return false;
     }
 
-    console.log(`extract() double-check for "${instruction.slice(0, 80)}...": ${result.passed}`);
+    events.emit("oracleDecision", { instruction, oracle: "extract", passed: result.passed });
     return result.passed;
   } catch (error) {
-    console.log(`extract() double-check threw: ${error instanceof Error ? error.message : String(error)}`);
+    events.emit("oracleDecision", { instruction, oracle: "extract", passed: false, reason: `Threw: ${error instanceof Error ? error.message : String(error)}` });
     return false;
   }
 }
@@ -180,7 +190,7 @@ export async function doubleCheckWithExtract(
  * to activate concordance gates that prevent extract() from overriding two negative signals.
  */
 export async function tryDeterministicCheck(
-  page: Page, step: SpecStep, stepStart: number
+  page: Page, step: SpecStep, stepStart: number, events: RunEventEmitter = defaultRunEvents(),
 ): Promise<{ stepResult: StepResult | null; failed: boolean }> {
   const textCheck = extractExpectedText(step.instruction);
   if (!textCheck) return { stepResult: null, failed: false };
@@ -191,8 +201,11 @@ export async function tryDeterministicCheck(
     }, textCheck.text).catch(() => false);
     const passed = textCheck.shouldExist ? exists : !exists;
 
+    events.emit("oracleDecision", { instruction: step.instruction, oracle: "deterministic", passed, reason: `Text "${textCheck.text}"` });
     if (!passed) {
-      console.log(`[runStep] Deterministic text check failed for "${textCheck.text}" — falling through to semantic oracle`);
+      events.emit("fallbackUsed", {
+        scope: "runStep", from: "deterministic text check", to: "semantic oracle", reason: `Deterministic text check failed for "${textCheck.text}"`,
+      });
       return { stepResult: null, failed: true };
     }
 
@@ -1,11 +1,17 @@
 export const DETERMINISTIC_PATTERNS = [
   /^url\s+contains\s+/i,
   /^url\s+is\s+/i,
+  /^url\s+matches\s+\//i,
+  /^url\s+(?:has\s+(?:no\s+)?)?query\s+param/i,
   /^page\s+title\s+is\s+/i,
   /^page\s+title\s+contains\s+/i,
-  /^element\s+count\s+is\s+/i,
-  /^input\s+value\s+is\s+/i,
-  /^checkbox\s+is\s+checked/i,
+  /^page\s+title\s+matches\s+\//i,
+  /^element\s+count\s+(?:is|of)\s+/i,
+  /^input\s+value\s+(?:is|of)\s+/i,
+  /^checkbox\s+["'].*?["']\s+is\s+(?:not\s+)?(?:un)?checked/i,
+  /^attribute\s+["'].*?["']\s+of\s+/i,
+  /^element\s+["'].*?["']\s+(?:is|has|exists|does\s+not\s+exist|text)\b/i,
+  /^text\s+matches\s+\//i,
 ];
 
 export function classifyCheck(instruction: string): "deterministic" | "semantic" {
@@ -1,2 +1,2 @@
 // Re-export from shared for backwards compatibility
-export { CredentialTracker, processStepsWithCredentials } from "../shared/credential-tracker";
+export { CredentialTracker, processStepsWithCredentials } from "../shared/credential-tracker.js";
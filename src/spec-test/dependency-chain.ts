@@ -1,2 +1,2 @@
 // Re-export from shared for backwards compatibility
-export { buildDependencyChain } from "../shared/dependency-chain";
+export { buildDependencyChain } from "../shared/dependency-chain.js";
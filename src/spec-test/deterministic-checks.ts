@@ -0,0 +1,412 @@
+import type { Page } from "playwright";
+import type { CheckResult } from "./types.js";
+
+/**
+ * Deterministic assertion DSL for Check steps — pure DOM/URL reads, no LLM.
+ *
+ * Supported forms (case-insensitive, values in "double" or 'single' quotes):
+ * - URL contains X | URL is X | URL matches /re/flags
+ * - URL query param "name" is "value" | URL has (no) query param "name"
+ * - Page title is X | Page title contains X | Page title matches /re/flags
+ * - Element count of "sel" is [at least|at most|more than|fewer than] N
+ *   (also: Element count is N for "sel")
+ * - Input value is "v" (any field) | Input value of "sel" is|contains "v"
+ * - Checkbox "label or sel" is checked|unchecked|not checked (a bare "Checkbox is
+ *   checked" is left to the semantic path: it cannot say which box is meant)
+ * - Attribute "name" of "sel" is|contains "v" | Element "sel" has (no) attribute "name"
+ * - Element "sel" is (not) visible|hidden|enabled|disabled
+ * - Element "sel" exists | does not exist
+ * - Text matches /re/flags | Element "sel" text matches /re/flags
+ * - Element "sel" text is|contains "v"
+ *
+ * Selectors are CSS. Visibility passes when ANY matched element is visible;
+ * text, value, attribute and enabled state are read from the FIRST match.
+ */
+
+/** Observable state of a DOM element, collected in the browser by inspectElements(). */
+interface ElementState {
+  visible: boolean;
+  enabled: boolean;
+  value: string | null;
+  text: string;
+  attribute: string | null;
+}
+
+interface CheckOutcome {
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
+type Groups = Record<string, string | undefined>;
+
+interface DeterministicHandler {
+  pattern: RegExp;
+  evaluate: (page: Page, groups: Groups) => CheckOutcome | Promise<CheckOutcome>;
+}
+
+/** Quoted argument ("value" or 'value') captured under `name`. */
+function quoted(name: string): string {
+  return `(?<${name}Quote>["'])(?<${name}>.*?)\\k<${name}Quote>`;
+}
+
+const REGEX_LITERAL = String.raw`\/(?<source>.+)\/(?<flags>[dgimsuy]*)`;
+const COMPARATOR = String.raw`(?:(?<comparator>at\s+least|at\s+most|more\s+than|greater\s+than|fewer\s+than|less\s+than)\s+)?`;
+
+function dsl(source: string): RegExp {
+  return new RegExp(`^${source}$`, "i");
+}
+
+const DETERMINISTIC_HANDLERS: DeterministicHandler[] = [
+  // ── URL ──
+  {
+    pattern: dsl(String.raw`url\s+contains\s+(?<expected>.+)`),
+    evaluate: (p, g) => compareText(p.url(), unquote(g.expected!), "contains"),
+  },
+  {
+    pattern: dsl(String.raw`url\s+is\s+(?<expected>.+)`),
+    evaluate: (p, g) => compareText(p.url(), unquote(g.expected!), "is"),
+  },
+  {
+    pattern: dsl(String.raw`url\s+matches\s+${REGEX_LITERAL}`),
+    evaluate: (p, g) => matchRegex(p.url(), g),
+  },
+  {
+    pattern: dsl(String.raw`url\s+query\s+param(?:eter)?\s+${quoted("name")}\s+is\s+${quoted("expected")}`),
+    evaluate: (p, g) => {
+      const actual = new URL(p.url()).searchParams.get(g.name!);
+      return {
+        passed: actual === g.expected,
+        expected: `${g.name}=${g.expected}`,
+        actual: actual === null ? `query param "${g.name}" absent` : `${g.name}=${actual}`,
+      };
+    },
+  },
+  {
+    pattern: dsl(String.raw`url\s+has\s+(?<negated>no\s+)?query\s+param(?:eter)?\s+${quoted("name")}`),
+    evaluate: (p, g) => {
+      const present = new URL(p.url()).searchParams.has(g.name!);
+      return {
+        passed: g.negated ? !present : present,
+        expected: `query param "${g.name}" ${g.negated ? "absent" : "present"}`,
+        actual: `query param "${g.name}" ${present ? "present" : "absent"} in ${p.url()}`,
+      };
+    },
+  },
+
+  // ── Page title ──
+  {
+    pattern: dsl(String.raw`page\s+title\s+is\s+(?<expected>.+)`),
+    evaluate: async (p, g) => compareText(await p.title(), unquote(g.expected!), "is"),
+  },
+  {
+    pattern: dsl(String.raw`page\s+title\s+contains\s+(?<expected>.+)`),
+    evaluate: async (p, g) => compareText(await p.title(), unquote(g.expected!), "contains"),
+  },
+  {
+    pattern: dsl(String.raw`page\s+title\s+matches\s+${REGEX_LITERAL}`),
+    evaluate: async (p, g) => matchRegex(await p.title(), g),
+  },
+
+  // ── Element count ──
+  {
+    pattern: dsl(String.raw`element\s+count\s+of\s+${quoted("selector")}\s+is\s+${COMPARATOR}(?<count>\d+)`),
+    evaluate: (p, g) => compareCount(p, g),
+  },
+  {
+    pattern: dsl(String.raw`element\s+count\s+is\s+${COMPARATOR}(?<count>\d+)\s+for\s+${quoted("selector")}`),
+    evaluate: (p, g) => compareCount(p, g),
+  },
+
+  // ── Input value ──
+  {
+    pattern: dsl(String.raw`input\s+value\s+of\s+${quoted("selector")}\s+(?<op>is|contains)\s+${quoted("expected")}`),
+    evaluate: async (p, g) => {
+      const [first] = await inspectElements(p, g.selector!);
+      if (!first) return noMatch(g.selector!, `value ${g.op} "${g.expected}"`);
+      return compareText(first.value ?? "", g.expected!, opOf(g));
+    },
+  },
+  {
+    pattern: dsl(String.raw`input\s+value\s+is\s+${quoted("expected")}`),
+    evaluate: async (p, g) => {
+      const values = (await inspectElements(p, "input, textarea, select"))
+        .map(el => el.value ?? "")
+        .filter(v => v !== "");
+      return {
+        passed: values.includes(g.expected!),
+        expected: `an input with value "${g.expected}"`,
+        actual: values.length > 0 ? `input values: ${values.map(v => `"${v}"`).join(", ")}` : "no input has a value",
+      };
+    },
+  },
+
+  // ── Checkbox ──
+  {
+    pattern: dsl(String.raw`checkbox\s+${quoted("target")}\s+is\s+(?<state>checked|unchecked|not\s+checked)`),
+    evaluate: async (p, g) => {
+      const wantChecked = g.state!.toLowerCase() === "checked";
+      const boxes = await inspectCheckboxes(p, g.target!);
+      const subject = `checkbox "${g.target}"`;
+      if (boxes.length === 0) {
+        return { passed: false, expected: `${subject} ${wantChecked ? "checked" : "unchecked"}`, actual: `no ${subject} found` };
+      }
+      const anyChecked = boxes.some(b => b.checked);
+      return {
+        passed: wantChecked ? anyChecked : !anyChecked,
+        expected: `${subject} ${wantChecked ? "checked" : "unchecked"}`,
+        actual: boxes.map(b => `${b.label}: ${b.checked ? "checked" : "unchecked"}`).join(", "),
+      };
+    },
+  },
+
+  // ── Attributes ──
+  {
+    pattern: dsl(String.raw`attribute\s+${quoted("attribute")}\s+of\s+${quoted("selector")}\s+(?<op>is|contains)\s+${quoted("expected")}`),
+    evaluate: async (p, g) => {
+      const [first] = await inspectElements(p, g.selector!, g.attribute);
+      if (!first) return noMatch(g.selector!, `${g.attribute} ${g.op} "${g.expected}"`);
+      if (first.attribute === null) {
+        return { passed: false, expected: `${g.attribute} ${g.op} "${g.expected}"`, actual: `attribute "${g.attribute}" not present` };
+      }
+      return compareText(first.attribute, g.expected!, opOf(g));
+    },
+  },
+  {
+    pattern: dsl(String.raw`element\s+${quoted("selector")}\s+has\s+(?<negated>no\s+)?attribute\s+${quoted("attribute")}`),
+    evaluate: async (p, g) => {
+      const [first] = await inspectElements(p, g.selector!, g.attribute);
+      const expected = `attribute "${g.attribute}" ${g.negated ? "absent" : "present"}`;
+      if (!first) return noMatch(g.selector!, expected);
+      const present = first.attribute !== null;
+      return {
+        passed: g.negated ? !present : present,
+        expected,
+        actual: present ? `${g.attribute}="${first.attribute}"` : `attribute "${g.attribute}" absent`,
+      };
+    },
+  },
+
+  // ── Element state ──
+  {
+    pattern: dsl(String.raw`element\s+${quoted("selector")}\s+is\s+(?<negated>not\s+)?(?<state>visible|hidden|enabled|disabled)`),
+    evaluate: (p, g) => compareElementState(p, g),
+  },
+  {
+    pattern: dsl(String.raw`element\s+${quoted("selector")}\s+(?<existence>exists|does\s+not\s+exist)`),
+    evaluate: async (p, g) => {
+      const count = (await inspectElements(p, g.selector!)).length;
+      const shouldExist = g.existence!.toLowerCase() === "exists";
+      return {
+        passed: shouldExist ? count > 0 : count === 0,
+        expected: `"${g.selector}" ${shouldExist ? "exists" : "does not exist"}`,
+        actual: `${count} element(s) match "${g.selector}"`,
+      };
+    },
+  },
+
+  // ── Text ──
+  {
+    pattern: dsl(String.raw`text\s+matches\s+${REGEX_LITERAL}`),
+    evaluate: async (p, g) => {
+      const bodyText = await p.evaluate(() => document.body.innerText);
+      const outcome = matchRegex(bodyText, g);
+      return { ...outcome, actual: outcome.passed ? outcome.actual : "no match in page text" };
+    },
+  },
+  {
+    pattern: dsl(String.raw`element\s+${quoted("selector")}\s+text\s+matches\s+${REGEX_LITERAL}`),
+    evaluate: async (p, g) => {
+      const [first] = await inspectElements(p, g.selector!);
+      if (!first) return noMatch(g.selector!, `text matches /${g.source}/${g.flags}`);
+      return matchRegex(first.text, g);
+    },
+  },
+  {
+    pattern: dsl(String.raw`element\s+${quoted("selector")}\s+text\s+(?<op>is|contains)\s+${quoted("expected")}`),
+    evaluate: async (p, g) => {
+      const [first] = await inspectElements(p, g.selector!);
+      if (!first) return noMatch(g.selector!, `text ${g.op} "${g.expected}"`);
+      return compareText(first.text, g.expected!, opOf(g));
+    },
+  },
+];
+
+/** Run a deterministic check instruction against the page. Never calls an LLM. */
+export async function executeDeterministicCheck(instruction: string, page: Page): Promise<CheckResult> {
+  const found = findDeterministicHandler(instruction);
+
+  if (!found) {
+    return {
+      passed: false,
+      checkType: "deterministic",
+      expected: instruction,
+      actual: "Unrecognized check pattern",
+      suggestion: "Use patterns like 'URL contains X', 'Page title is Y', 'Element count of \".row\" is 3' or 'Element \"#save\" is disabled'",
+    };
+  }
+
+  try {
+    const outcome = await found.handler.evaluate(page, found.groups);
+    return { passed: outcome.passed, checkType: "deterministic", expected: outcome.expected, actual: outcome.actual };
+  } catch (error) {
+    return {
+      passed: false,
+      checkType: "deterministic",
+      expected: instruction,
+      actual: `Deterministic check error: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/** True if the instruction is a complete deterministic DSL form (not just a deterministic-looking prefix). */
+export function hasDeterministicHandler(instruction: string): boolean {
+  return findDeterministicHandler(instruction) !== null;
+}
+
+function findDeterministicHandler(instruction: string): { handler: DeterministicHandler; groups: Groups } | null {
+  const trimmed = instruction.trim();
+  for (const handler of DETERMINISTIC_HANDLERS) {
+    const match = trimmed.match(handler.pattern);
+    if (match) return { handler, groups: match.groups ?? {} };
+  }
+  return null;
+}
+
+// ── COMPARISONS ────────────────────────────────────────────────────────
+
+function compareText(actual: string, expected: string, op: "is" | "contains"): CheckOutcome {
+  const passed = op === "is" ? actual === expected : actual.includes(expected);
+  return { passed, expected, actual };
+}
+
+function matchRegex(actual: string, groups: Groups): CheckOutcome {
+  const regex = new RegExp(groups.source!, groups.flags);
+  const match = actual.match(regex);
+  return { passed: match !== null, expected: `/${groups.source}/${groups.flags ?? ""}`, actual: match ? match[0] : actual };
+}
+
+async function compareCount(page: Page, groups: Groups): Promise<CheckOutcome> {
+  const count = (await inspectElements(page, groups.selector!)).length;
+  const target = Number(groups.count);
+  const comparator = (groups.comparator ?? "").toLowerCase().replace(/\s+/g, " ");
+
+  const [symbol, passed] =
+    comparator === "at least" ? [">=", count >= target]
+    : comparator === "at most" ? ["<=", count <= target]
+    : comparator === "more than" || comparator === "greater than" ? [">", count > target]
+    : comparator === "fewer than" || comparator === "less than" ? ["<", count < target]
+    : ["=", count === target];
+
+  return {
+    passed,
+    expected: `"${groups.selector}" count ${symbol} ${target}`,
+    actual: `"${groups.selector}" count = ${count}`,
+  };
+}
+
+async function compareElementState(page: Page, groups: Groups): Promise<CheckOutcome> {
+  const elements = await inspectElements(page, groups.selector!);
+  const state = groups.state!.toLowerCase();
+  const negated = Boolean(groups.negated);
+
+  // "hidden" is "not visible"; "disabled" is "not enabled"
+  const wantsPositive = (state === "visible" || state === "enabled") !== negated;
+  const property = state === "visible" || state === "hidden" ? "visible" : "enabled";
+  const label = wantsPositive ? property : property === "visible" ? "hidden" : "disabled";
+
+  if (property === "visible") {
+    const visibleCount = elements.filter(el => el.visible).length;
+    return {
+      passed: wantsPositive ? visibleCount > 0 : visibleCount === 0,
+      expected: `"${groups.selector}" ${label}`,
+      actual: `${visibleCount} of ${elements.length} matching element(s) visible`,
+    };
+  }
+
+  const [first] = elements;
+  if (!first) return noMatch(groups.selector!, label);
+  return {
+    passed: first.enabled === wantsPositive,
+    expected: `"${groups.selector}" ${label}`,
+    actual: `"${groups.selector}" ${first.enabled ? "enabled" : "disabled"}`,
+  };
+}
+
+function noMatch(selector: string, expectation: string): CheckOutcome {
+  return { passed: false, expected: `"${selector}" ${expectation}`, actual: `no element matches "${selector}"` };
+}
+
+function opOf(groups: Groups): "is" | "contains" {
+  return groups.op?.toLowerCase() === "contains" ? "contains" : "is";
+}
+
+/** Strip one pair of matching surrounding quotes. */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(["'])(.*)\1$/);
+  return match ? match[2] : trimmed;
+}
+
+// ── DOM READS ──────────────────────────────────────────────────────────
+
+async function inspectElements(page: Page, selector: string, attribute?: string): Promise<ElementState[]> {
+  const result = await page.evaluate((args) => {
+    let nodes: Element[];
+    try {
+      nodes = Array.from(document.querySelectorAll(args.selector));
+    } catch {
+      return { invalid: true, elements: [] };
+    }
+
+    return {
+      invalid: false,
+      elements: nodes.map(el => {
+        const style = getComputedStyle(el);
+        const rect = el.getBoundingClientRect();
+        const field = el as HTMLInputElement;
+        return {
+          visible: rect.width > 0 && rect.height > 0 && style.display !== "none" && style.visibility !== "hidden",
+          enabled: !field.disabled && el.getAttribute("aria-disabled") !== "true",
+          value: "value" in el ? String(field.value) : null,
+          text: ((el as HTMLElement).innerText ?? el.textContent ?? "").trim(),
+          attribute: args.attribute ? el.getAttribute(args.attribute) : null,
+        };
+      }),
+    };
+  }, { selector, attribute: attribute ?? null });
+
+  if (result.invalid) throw new Error(`Invalid CSS selector: ${selector}`);
+  return result.elements;
+}
+
+/**
+ * Find checkboxes by CSS selector, or by label / aria-label / name / id text.
+ */
+async function inspectCheckboxes(page: Page, target: string): Promise<Array<{ label: string; checked: boolean }>> {
+  return page.evaluate((tgt) => {
+    const boxes = Array.from(document.querySelectorAll('input[type="checkbox"], [role="checkbox"]'));
+
+    const describe = (el: Element): string[] => [
+      ...Array.from((el as HTMLInputElement).labels ?? []).map(l => (l.textContent ?? "").trim()),
+      el.getAttribute("aria-label") ?? "",
+      el.getAttribute("name") ?? "",
+      el.id,
+    ].filter(Boolean);
+
+    const isChecked = (el: Element): boolean =>
+      el instanceof HTMLInputElement ? el.checked : el.getAttribute("aria-checked") === "true";
+
+    let bySelector: Element[] = [];
+    try {
+      bySelector = Array.from(document.querySelectorAll(tgt)).filter(el => boxes.includes(el));
+    } catch { /* not a CSS selector — match by label text below */ }
+
+    const lower = tgt.toLowerCase();
+    const exact = boxes.filter(el => describe(el).some(d => d.toLowerCase() === lower));
+    const partial = boxes.filter(el => describe(el).some(d => d.toLowerCase().includes(lower)));
+    const matched = bySelector.length > 0 ? bySelector : exact.length > 0 ? exact : partial;
+
+    return matched.map(el => ({ label: describe(el)[0] ?? "checkbox", checked: isChecked(el) }));
+  }, target);
+}
@@ -0,0 +1,526 @@
+import type { Browser, Locator, Page } from "playwright";
+import type { BehaviorRunner, DeterministicRunnerConfig, ExampleResult, SpecExample, SpecStep, StepResult } from "./types.js";
+import { createRunEvents, defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
+import { detectPort, resetSession, navigateToPagePath, clearFormFields, safeWaitForLoadState } from "./session-management.js";
+import { executeDeterministicCheck, hasDeterministicHandler } from "./deterministic-checks.js";
+import { executeAwaitStep, hasDeterministicAwait } from "./await-helpers.js";
+import { executeCaptureStep, hasDeterministicCapture, interpolateStep } from "./capture-helpers.js";
+import { executePageAction } from "./act-helpers.js";
+import { extractExpectedText, generateFailureContext, isNavigationAction, isRefreshAction } from "./step-execution.js";
+import { SpecTestRunner, describeStepFailure } from "./runner.js";
+
+/** Default time to find and act on an element */
+const DEFAULT_ACTION_TIMEOUT_MS = 5000;
+
+/** Upper bound for waiting on network idle after an action */
+const ACTION_SETTLE_MS = 2000;
+
+/** Accessible roles a target can be narrowed to. */
+export type TargetRole = "button" | "link" | "tab" | "checkbox" | "radio" | "menuitem" | "option" | "textbox" | "combobox";
+
+/** The element an Act instruction refers to: its accessible name, label, placeholder or text, and role. */
+export interface ActTarget {
+  name: string;
+  role?: TargetRole;
+}
+
+/** An Act instruction resolved into one Playwright action. */
+export type DeterministicAction =
+  | { kind: "click"; target: ActTarget }
+  | { kind: "fill"; target: ActTarget; value: string }
+  | { kind: "select"; target: ActTarget; option: string }
+  | { kind: "check"; target: ActTarget; checked: boolean }
+  | { kind: "press"; key: string };
+
+/** Trailing nouns that name a target's role: `the "Save" button` → button. Radio precedes button. */
+const ROLE_NOUNS: Array<{ pattern: RegExp; role: TargetRole }> = [
+  { pattern: /\s+(?:input\s+field|text\s+field|text\s+box|textbox|textarea|input|field|box)$/i, role: "textbox" },
+  { pattern: /\s+(?:dropdown|drop-down|select\s+box|select|combobox|picker)$/i, role: "combobox" },
+  { pattern: /\s+(?:radio\s+button|radio)$/i, role: "radio" },
+  { pattern: /\s+button$/i, role: "button" },
+  { pattern: /\s+link$/i, role: "link" },
+  { pattern: /\s+tab$/i, role: "tab" },
+  { pattern: /\s+checkbox$/i, role: "checkbox" },
+  { pattern: /\s+(?:menu\s+item|menuitem)$/i, role: "menuitem" },
+  { pattern: /\s+option$/i, role: "option" },
+];
+
+const QUOTED = String.raw`(?<q>["'])(?<value>.*?)\k<q>`;
+
+const FILL_PATTERNS = [
+  new RegExp(String.raw`^(?:type|enter|input|fill\s+in|fill)\s+${QUOTED}\s+(?:into|in\s+to|in)\s+(?<target>.+)$`, "i"),
+  new RegExp(String.raw`^(?:fill\s+in|fill|populate)\s+(?<target>.+?)\s+with\s+${QUOTED}$`, "i"),
+];
+const SELECT_PATTERN = new RegExp(String.raw`^(?:select|choose|pick)\s+${QUOTED}\s+(?:from|in)\s+(?<target>.+)$`, "i");
+const CHECK_PATTERN = /^(?<verb>check|tick|uncheck|untick)\s+(?<target>.+)$/i;
+const PRESS_PATTERN = /^press\s+(?:the\s+)?(?<key>enter|return|tab|escape|esc|space)(?:\s+key)?$/i;
+const CLICK_PATTERN = /^(?:click|tap|press)\s+(?:on\s+)?(?<target>.+)$/i;
+
+const KEYS: Record<string, string> = { enter: "Enter", return: "Enter", tab: "Tab", escape: "Escape", esc: "Escape", space: "Space" };
+
+/** Input types a field name can stand for when nothing is labelled with it ("the password field"). */
+const FIELD_TYPES = new Set(["email", "password", "tel", "url", "search", "number", "date", "time"]);
+
+/**
+ * Resolve a well-formed Act instruction into a Playwright action, or null when
+ * it is too loose to act on without a model.
+ *
+ * Supported forms (values in "double" or 'single' quotes):
+ * - Type|Enter|Fill "value" into <target>  /  Fill <target> with "value"
+ * - Select|Choose "option" from <target>
+ * - Click|Tap <target>
+ * - Check|Uncheck <target>
+ * - Press Enter|Tab|Escape|Space
+ *
+ * A target is a quoted name and/or a role noun: `the "Sign Up" button`,
+ * `the email input field`, `the priority dropdown`.
+ */
+export function parseActInstruction(instruction: string): DeterministicAction | null {
+  const text = instruction.trim().replace(/[.!]$/, "");
+
+  for (const pattern of FILL_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const target = parseTarget(match.groups!.target, "textbox");
+      return target && { kind: "fill", target, value: match.groups!.value };
+    }
+  }
+
+  const select = text.match(SELECT_PATTERN);
+  if (select) {
+    const target = parseTarget(select.groups!.target, "combobox");
+    return target && { kind: "select", target, option: select.groups!.value };
+  }
+
+  const check = text.match(CHECK_PATTERN);
+  if (check) {
+    const target = parseTarget(check.groups!.target, "checkbox");
+    return target && { kind: "check", target, checked: !/^un/i.test(check.groups!.verb) };
+  }
+
+  const press = text.match(PRESS_PATTERN);
+  if (press) return { kind: "press", key: KEYS[press.groups!.key.toLowerCase()] };
+
+  const click = text.match(CLICK_PATTERN);
+  if (click) {
+    const target = parseTarget(click.groups!.target);
+    return target && { kind: "click", target };
+  }
+
+  return null;
+}
+
+/**
+ * Split `the "Sign Up" button` into name and role. Without a quoted name or a
+ * role noun the target is too vague, unless the verb implies a role (`defaultRole`).
+ */
+function parseTarget(text: string, defaultRole?: TargetRole): ActTarget | null {
+  let rest = text.trim().replace(/^the\s+/i, "");
+  let role: TargetRole | undefined;
+  for (const noun of ROLE_NOUNS) {
+    if (noun.pattern.test(rest)) {
+      role = noun.role;
+      rest = rest.replace(noun.pattern, "").replace(/^the\s+/i, "");
+      break;
+    }
+  }
+
+  const quoted = rest.match(/^(["'])(.+)\1$/);
+  const name = quoted ? quoted[2] : rest.trim();
+  if (!name || /["']/.test(quoted ? "" : name)) return null;
+  if (!quoted && !role && !defaultRole) return null;
+  return { name, role: role ?? defaultRole };
+}
+
+/**
+ * Pure-Playwright BehaviorRunner: no model, no Stagehand.
+ *
+ * Act steps are resolved by parseActInstruction() and located by accessible
+ * role, label, placeholder and text; Checks use the deterministic DSL and the
+ * quoted-text oracle; Await and Capture steps use their deterministic forms.
+ *
+ * A step it cannot resolve fails with `resolution: "unresolved"`. With
+ * `config.hybrid`, the step is instead escalated to a SpecTestRunner that shares
+ * the browser (Playwright connects over CDP to its Stagehand), so only those
+ * steps reach the adaptive act loop and semantic oracles.
+ */
+export class DeterministicRunner implements BehaviorRunner {
+  readonly events: RunEventEmitter;
+  private config: DeterministicRunnerConfig;
+  private escalation: SpecTestRunner | null;
+  private browser: Browser | null = null;
+  private page: Page | null = null;
+  private portDetected = false;
+
+  constructor(config: DeterministicRunnerConfig) {
+    this.config = config;
+    this.events = config.events ?? (config.verbosity ? createRunEvents(config.verbosity) : defaultRunEvents());
+    this.escalation = config.hybrid
+      ? new SpecTestRunner({
+          baseUrl: config.baseUrl,
+          headless: config.headless,
+          events: this.events,
+          ...(typeof config.hybrid === "object" ? config.hybrid : {}),
+        })
+      : null;
+  }
+
+  /** True once the escalation runner's LLM budget is used up (never without hybrid mode). */
+  isBudgetExhausted(): boolean {
+    return this.escalation?.isBudgetExhausted() ?? false;
+  }
+
+  /**
+   * Run a single example. Session options behave as in SpecTestRunner.
+   * Usage is only set in hybrid mode, for the LLM calls of escalated steps.
+   */
+  async runExample(example: SpecExample, options?: {
+    clearSession?: boolean;
+    navigateToPath?: string;
+    credentials?: { email: string | null; password: string | null };
+    reloadPage?: boolean;
+    variables?: Record<string, string>;
+  }): Promise<ExampleResult> {
+    const startTime = Date.now();
+    const usageMark = this.escalation?.usage.mark();
+    const variables = { ...options?.variables };
+
+    try {
+      const page = await this.initialize();
+      await this.manageSession(page, options);
+      await this.escalation?.markBaseline();
+
+      const stepResults: StepResult[] = [];
+      let failedAt: ExampleResult["failedAt"] | undefined;
+
+      for (let i = 0; i < example.steps.length; i++) {
+        const step = example.steps[i];
+        this.events.emit("stepStart", { exampleName: example.name, step, stepIndex: i, totalSteps: example.steps.length });
+        const stepResult = await this.runStep(step, page, variables);
+        stepResults.push(stepResult);
+        this.events.emit("stepEnd", { exampleName: example.name, stepIndex: i, result: stepResult });
+
+        if (!stepResult.success) {
+          failedAt = await this.buildFailureResult(page, stepResult.step, stepResult, i);
+          break;
+        }
+      }
+
+      return {
+        example,
+        success: !failedAt,
+        steps: stepResults,
+        duration: Date.now() - startTime,
+        variables,
+        usage: usageMark === undefined ? undefined : this.escalation!.usage.usageSince(usageMark),
+        failedAt,
+      };
+    } catch (error) {
+      return this.buildCrashResult(example, startTime, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /** Resolve `{variable}` references, then run the step deterministically or escalate it. */
+  async runStep(rawStep: SpecStep, page: Page, variables: Record<string, string> = {}): Promise<StepResult> {
+    const step = interpolateStep(rawStep, variables);
+    if (step.type === "Act") return this.runActStep(step, page, variables);
+    if (step.type === "Check") return this.runCheckStep(step, page, variables);
+
+    const stepStart = Date.now();
+    if (step.type === "Await") {
+      if (!hasDeterministicAwait(step.instruction)) return this.unresolved(step, variables, stepStart, "no deterministic condition to poll");
+      const stepResult = await executeAwaitStep(step, page, null, { timeoutMs: this.config.awaitTimeoutMs });
+      return { ...stepResult, resolution: "deterministic" };
+    }
+
+    if (!hasDeterministicCapture(step.instruction)) return this.unresolved(step, variables, stepStart, "no deterministic source to read");
+    const stepResult = await executeCaptureStep(step, page, null);
+    const { variable, value } = stepResult.captureResult ?? {};
+    if (variable && value !== undefined) variables[variable] = value;
+    return { ...stepResult, resolution: "deterministic" };
+  }
+
+  /** Close the browser (and the escalation runner in hybrid mode). */
+  async close(): Promise<void> {
+    try {
+      await this.browser?.close();
+    } catch {
+      // Browser already gone
+    }
+    this.browser = null;
+    this.page = null;
+    await this.escalation?.close();
+  }
+
+  // ── STEP ROUTING ─────────────────────────────────────────────────────
+
+  /** Navigation → refresh → parsed action on a located element. */
+  private async runActStep(step: SpecStep, page: Page, variables: Record<string, string>): Promise<StepResult> {
+    const stepStart = Date.now();
+
+    const navUrl = isNavigationAction(step.instruction);
+    if (navUrl) {
+      const url = new URL(navUrl, this.config.baseUrl).toString();
+      return { ...await executePageAction(step, page, stepStart, () => page.goto(url).then(() => {})), resolution: "deterministic" };
+    }
+    if (isRefreshAction(step.instruction)) {
+      return { ...await executePageAction(step, page, stepStart, () => page.reload().then(() => {})), resolution: "deterministic" };
+    }
+
+    const action = parseActInstruction(step.instruction);
+    if (!action) return this.unresolved(step, variables, stepStart, "no deterministic pattern matches the instruction");
+
+    // Escalated Checks diff against the page as it was before this action
+    await this.escalation?.markBaseline();
+
+    try {
+      const found = await performAction(page, action, this.config.actionTimeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS);
+      if (!found) return this.unresolved(step, variables, stepStart, `no element matches ${describeAction(action)}`);
+      await safeWaitForLoadState(page, ACTION_SETTLE_MS);
+
+      const duration = Date.now() - stepStart;
+      return { step, success: true, duration, actResult: { success: true, duration, pageUrl: page.url() }, resolution: "deterministic" };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.escalation) return this.escalate(step, variables, `${describeAction(action)} failed: ${message}`);
+
+      const duration = Date.now() - stepStart;
+      return { step, success: false, duration, actResult: { success: false, duration, error: message }, resolution: "deterministic" };
+    }
+  }
+
+  /** Deterministic DSL → quoted-text oracle; anything else cannot be judged without a model. */
+  private async runCheckStep(step: SpecStep, page: Page, variables: Record<string, string>): Promise<StepResult> {
+    const stepStart = Date.now();
+
+    if (hasDeterministicHandler(step.instruction)) {
+      const checkResult = await executeDeterministicCheck(step.instruction, page);
+      this.events.emit("oracleDecision", { instruction: step.instruction, oracle: "deterministic", passed: checkResult.passed, reason: checkResult.actual });
+      return { step, success: checkResult.passed, duration: Date.now() - stepStart, checkResult, resolution: "deterministic" };
+    }
+
+    const textCheck = extractExpectedText(step.instruction);
+    if (!textCheck) return this.unresolved(step, variables, stepStart, "no deterministic oracle for the condition");
+
+    const exists = await page.evaluate((text: string) => document.body.innerText.includes(text), textCheck.text).catch(() => false);
+    const passed = textCheck.shouldExist ? exists : !exists;
+    this.events.emit("oracleDecision", { instruction: step.instruction, oracle: "deterministic", passed, reason: `Text "${textCheck.text}"` });
+
+    // As in SpecTestRunner, a failed text check is not final when a semantic oracle is available
+    if (!passed && this.escalation) return this.escalate(step, variables, `Deterministic text check failed for "${textCheck.text}"`);
+
+    return {
+      step,
+      success: passed,
+      duration: Date.now() - stepStart,
+      checkResult: {
+        passed,
+        checkType: "deterministic",
+        expected: step.instruction,
+        actual: exists ? `Found "${textCheck.text}" on page` : `Text "${textCheck.text}" not on page`,
+      },
+      resolution: "deterministic",
+    };
+  }
+
+  // ── ESCALATION ───────────────────────────────────────────────────────
+
+  /** Escalate in hybrid mode; otherwise fail the step as unresolved. */
+  private async unresolved(
+    step: SpecStep, variables: Record<string, string>, stepStart: number, reason: string,
+  ): Promise<StepResult> {
+    if (this.escalation) return this.escalate(step, variables, `Unresolved: ${reason}`);
+
+    const error = `Unresolved ${step.type} step (${reason}): "${step.instruction}"`;
+    const duration = Date.now() - stepStart;
+    const result: StepResult = { step, success: false, duration, resolution: "unresolved" };
+    if (step.type === "Act") result.actResult = { success: false, duration, error };
+    if (step.type === "Check") result.checkResult = { passed: false, checkType: "deterministic", expected: step.instruction, actual: error };
+    if (step.type === "Await") {
+      result.awaitResult = { satisfied: false, strategy: "deterministic", condition: step.instruction, waitDuration: 0, timeout: 0, polls: 0, error };
+    }
+    if (step.type === "Capture") result.captureResult = { variable: "", source: step.instruction, strategy: "deterministic", error };
+    return result;
+  }
+
+  /** Hand the step to the SpecTestRunner; Capture steps store their value in `variables`. */
+  private async escalate(step: SpecStep, variables: Record<string, string>, reason: string): Promise<StepResult> {
+    this.events.emit("fallbackUsed", { scope: "DeterministicRunner", from: "deterministic resolver", to: "SpecTestRunner", reason });
+    const stepResult = await this.escalation!.escalateStep(step, variables);
+    return { ...stepResult, resolution: "escalated" };
+  }
+
+  // ── BROWSER & SESSION ────────────────────────────────────────────────
+
+  /** Launch Chromium, or attach to the escalation runner's browser in hybrid mode (lazy, cached). */
+  private async initialize(): Promise<Page> {
+    if (this.page) return this.page;
+
+    const { chromium } = await import("playwright");
+    if (this.escalation) {
+      this.browser = await chromium.connectOverCDP(await this.escalation.connectURL());
+      const context = this.browser.contexts()[0] ?? await this.browser.newContext();
+      this.page = context.pages()[0] ?? await context.newPage();
+      return this.page;
+    }
+
+    const executablePath = process.env.CHROME_PATH || process.env.PUPPETEER_EXECUTABLE_PATH;
+    const isDocker = !!executablePath || process.getuid?.() === 0;
+    this.browser = await chromium.launch({
+      headless: this.config.headless ?? true,
+      ...(executablePath && { executablePath }),
+      ...(isDocker && { chromiumSandbox: false, args: ["--no-sandbox", "--disable-dev-shm-usage", "--disable-gpu"] }),
+    });
+    this.page = await this.browser.newPage();
+    return this.page;
+  }
+
+  /** Same session semantics as BaseStagehandRunner.manageSession, without Stagehand auth recovery. */
+  private async manageSession(page: Page, options?: {
+    clearSession?: boolean;
+    navigateToPath?: string;
+    credentials?: { email: string | null; password: string | null };
+    reloadPage?: boolean;
+  }): Promise<void> {
+    if (options?.clearSession !== false) {
+      if (!this.portDetected) {
+        this.config.baseUrl = await detectPort(page, this.config.baseUrl, this.events);
+        this.portDetected = true;
+      }
+      await resetSession(page, this.config.baseUrl, this.events);
+    } else if (options?.navigateToPath) {
+      await navigateToPagePath(page, options.navigateToPath, this.config.baseUrl, undefined, options.credentials, this.events);
+    }
+
+    if (options?.reloadPage) {
+      await page.reload();
+      await safeWaitForLoadState(page);
+      await clearFormFields(page, this.events);
+    }
+  }
+
+  // ── RESULT BUILDERS ──────────────────────────────────────────────────
+
+  private async buildFailureResult(
+    page: Page, step: SpecStep, stepResult: StepResult, stepIndex: number,
+  ): Promise<ExampleResult["failedAt"]> {
+    const error = new Error(describeStepFailure(step, stepResult));
+    try {
+      return { stepIndex, step, context: await generateFailureContext(page, step, error) };
+    } catch {
+      return {
+        stepIndex,
+        step,
+        context: { pageSnapshot: "", pageUrl: "", failedStep: step, error: error.message, availableElements: [], suggestions: [] },
+      };
+    }
+  }
+
+  private buildCrashResult(example: SpecExample, startTime: number, errorMessage: string): ExampleResult {
+    const fallbackStep = example.steps[0] ?? { type: "Act" as const, instruction: "initialize" };
+    return {
+      example,
+      success: false,
+      steps: [],
+      duration: Date.now() - startTime,
+      failedAt: {
+        stepIndex: 0,
+        step: fallbackStep,
+        context: {
+          pageSnapshot: "",
+          pageUrl: "",
+          failedStep: fallbackStep,
+          error: errorMessage,
+          availableElements: [],
+          suggestions: ["Browser or page initialization failed"],
+        },
+      },
+    };
+  }
+}
+
+// ── ELEMENT RESOLUTION ─────────────────────────────────────────────────
+
+/** Perform the action; resolves false when no element matches its target. */
+async function performAction(page: Page, action: DeterministicAction, timeout: number): Promise<boolean> {
+  if (action.kind === "press") {
+    await page.keyboard.press(action.key);
+    return true;
+  }
+
+  const element = await locateTarget(page, action.target);
+  if (!element) return false;
+
+  if (action.kind === "click") await element.click({ timeout });
+  if (action.kind === "fill") await element.fill(action.value, { timeout });
+  if (action.kind === "check") await element.setChecked(action.checked, { timeout });
+  if (action.kind === "select") await selectOption(page, element, action.option, timeout);
+  return true;
+}
+
+/**
+ * A lookup for an Act target. `unique` lookups match loosely (substring, any case),
+ * so they count only when they match exactly one element.
+ */
+interface TargetLookup {
+  locator: Locator;
+  unique?: boolean;
+}
+
+/**
+ * First visible element found by role, then label, placeholder, input type, name
+ * attribute or text. Role and label names match exactly first ("Save" is not
+ * "Save draft"); a loose match is taken only when it is the page's only one.
+ */
+export async function locateTarget(page: Page, target: ActTarget): Promise<Locator | null> {
+  for (const { locator, unique } of targetLookups(page, target)) {
+    const count = await locator.count();
+    if (unique && count !== 1) continue;
+    for (let i = 0; i < count; i++) {
+      const candidate = locator.nth(i);
+      if (await candidate.isVisible()) return candidate;
+    }
+  }
+  return null;
+}
+
+function targetLookups(page: Page, { name, role }: ActTarget): TargetLookup[] {
+  const byRole = (r: TargetRole, exact: boolean) => page.getByRole(r, { name, exact });
+  const byLabel = (exact: boolean) => page.getByLabel(name, { exact });
+  const loose = (...locators: Locator[]) => locators.map(locator => ({ locator, unique: true }));
+
+  if (role === "textbox" || role === "combobox") {
+    const locators = [byRole(role, true), byLabel(true), page.getByPlaceholder(name)];
+    if (FIELD_TYPES.has(name.toLowerCase())) locators.push(page.locator(`input[type="${name.toLowerCase()}"]`));
+    locators.push(page.locator(`[name="${name.replace(/"/g, '\\"')}" i]`));
+    return [...locators.map(locator => ({ locator })), ...loose(byRole(role, false), byLabel(false))];
+  }
+  if (role === "checkbox" || role === "radio") {
+    return [{ locator: byRole(role, true) }, { locator: byLabel(true) }, ...loose(byRole(role, false), byLabel(false))];
+  }
+  if (role) {
+    return [{ locator: byRole(role, true) }, { locator: page.getByText(name, { exact: true }) }, ...loose(byRole(role, false))];
+  }
+  return [
+    { locator: byRole("button", true) },
+    { locator: byRole("link", true) },
+    { locator: page.getByText(name, { exact: true }) },
+    ...loose(byRole("button", false), byRole("link", false)),
+  ];
+}
+
+/** Native <select> by option label (then value); custom dropdowns by opening them and clicking the option. */
+async function selectOption(page: Page, element: Locator, option: string, timeout: number): Promise<void> {
+  const isNative = await element.evaluate(el => el.tagName === "SELECT");
+  if (isNative) {
+    await element.selectOption({ label: option }, { timeout }).catch(() => element.selectOption(option, { timeout }));
+    return;
+  }
+  await element.click({ timeout });
+  await page.getByRole("option", { name: option }).first().click({ timeout });
+}
+
+function describeAction(action: DeterministicAction): string {
+  if (action.kind === "press") return `key ${action.key}`;
+  return `${action.target.role ?? "element"} "${action.target.name}"`;
+}
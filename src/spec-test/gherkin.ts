@@ -0,0 +1,309 @@
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import type { BehaviorDependency, HarborBehavior, SpecExample, SpecStep } from "./types.js";
+import { classifyCheck } from "./classify.js";
+import { expandExample, slugify, substitutePlaceholders, type DraftExample } from "./parsing.js";
+
+/** `Given|When|Then|And|But|*` step line. Captures: (1) keyword, (2) text */
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s+(.+)$/;
+
+/** Epic step types spelled out in step text, for steps Gherkin has no keyword for: `When Await: Export is ready` */
+const EPIC_STEP_PATTERN = /^(Act|Check|Await|Capture):\s*(.+)$/;
+
+/** Feature tags that carry HarborBehavior fields. */
+const DEPENDS_ON_TAG = "@depends-on:";
+const PRIORITY_TAG = "@priority:";
+const PAGE_TAG = "@page:";
+
+/** Business rules ride along as comments: `# Rule: name`, `#   When: ...`, `#   Then: ...` */
+const RULE_COMMENT_PATTERN = /^#\s*Rule:\s*(.+)$/i;
+const RULE_CLAUSE_COMMENT_PATTERN = /^#\s*(When|Then):\s*(.+)$/i;
+
+/** Parser position inside a feature. */
+type GherkinMode = "description" | "background" | "scenario" | "examples" | "idle";
+
+/**
+ * Parse a Gherkin `.feature` file into a HarborBehavior.
+ *
+ * - Feature → behavior (title, first description line, id = slugified title)
+ * - Scenario / Example → example; Scenario Outline + Examples → one example per row
+ * - Background steps are prepended to every following scenario
+ * - Given/When → Act, Then → Check; And/But inherit the previous keyword.
+ *   `When Await: ...` and `When Capture: ...` keep the Epic step type
+ * - Feature tags: `@depends-on:sign-up`, `@depends-on:sign-up:Valid_sign_up`
+ *   (scenario name, `_` for spaces), `@priority:2`, `@page:/tickets`; other feature tags
+ *   (`@smoke`) become behavior tags; scenario tags become example tags
+ *
+ * `Rule:` blocks only group scenarios; data tables and doc strings are skipped.
+ * Step line numbers point into the `.feature` file.
+ */
+export function parseFeatureFile(content: string, id?: string): HarborBehavior {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  const behavior: HarborBehavior = { id: id ?? "", title: "Unnamed", description: "", dependencies: [], examples: [], rules: [] };
+  let tags: string[] = [];
+  let background: SpecStep[] = [];
+  let example: DraftExample | null = null;
+  let mode: GherkinMode = "idle";
+  let keywordType: "Act" | "Check" = "Act";
+  let expectHeader = false;
+  let inDocString = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmedLine = lines[i].trim();
+    const lineNumber = i + 1;
+
+    if (trimmedLine.startsWith('"""') || trimmedLine.startsWith("```")) { inDocString = !inDocString; continue; }
+    if (inDocString || !trimmedLine) continue;
+
+    if (trimmedLine.startsWith("#")) {
+      parseRuleComment(trimmedLine, behavior, lineNumber);
+      continue;
+    }
+    if (trimmedLine.startsWith("@")) { tags.push(...trimmedLine.split(/\s+/)); continue; }
+
+    const heading = trimmedLine.match(/^(Feature|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios|Rule):\s*(.*)$/);
+    if (heading) {
+      const [, keyword, name] = heading;
+      if (keyword === "Examples" || keyword === "Scenarios") {
+        mode = "examples";
+        expectHeader = true;
+        tags = [];
+        continue;
+      }
+
+      behavior.examples.push(...expandExample(example));
+      example = null;
+      keywordType = "Act";
+
+      if (keyword === "Feature") {
+        behavior.title = name.trim() || "Unnamed";
+        behavior.id = id ?? slugify(behavior.title);
+        applyFeatureTags(tags, behavior);
+        mode = "description";
+      } else if (keyword === "Background") {
+        background = [];
+        mode = "background";
+      } else if (keyword === "Rule") {
+        mode = "idle";
+      } else {
+        const scenarioName = name.trim();
+        const scenarioTags = tags.filter(tag => tag.length > 1).map(tag => tag.slice(1));
+        example = { name: scenarioName, steps: background.map(step => ({ ...step })) };
+        if (scenarioTags.length > 0) example.tags = scenarioTags;
+        if (keyword === "Scenario Outline" || keyword === "Scenario Template") {
+          example.outlineTable = { name: scenarioName, lineNumber, columns: [], rows: [] };
+        }
+        mode = "scenario";
+      }
+      tags = [];
+      continue;
+    }
+
+    if (mode === "examples") {
+      if (!trimmedLine.startsWith("|") || !example?.outlineTable) continue;
+      const cells = trimmedLine.replace(/^\|/, "").replace(/\|$/, "").split("|").map(cell => cell.trim());
+      if (expectHeader) {
+        if (example.outlineTable.columns.length === 0) example.outlineTable.columns = cells;
+        expectHeader = false;
+      } else {
+        example.outlineTable.rows.push({ cells, lineNumber });
+      }
+      continue;
+    }
+
+    const stepMatch = trimmedLine.match(STEP_PATTERN);
+    if (stepMatch && (mode === "scenario" || mode === "background")) {
+      const [, keyword, text] = stepMatch;
+      if (keyword === "Given" || keyword === "When") keywordType = "Act";
+      if (keyword === "Then") keywordType = "Check";
+      const step = toSpecStep(keywordType, text.trim(), lineNumber);
+      (mode === "background" ? background : example!.steps).push(step);
+      continue;
+    }
+
+    if (mode === "description" && !behavior.description) behavior.description = trimmedLine;
+  }
+
+  behavior.examples.push(...expandExample(example));
+  return behavior;
+}
+
+/**
+ * Format a HarborBehavior as a Gherkin `.feature` file (the inverse of parseFeatureFile).
+ *
+ * Act → When, Check → Then, repeated keywords → And. Examples expanded from one
+ * Scenario Outline are folded back into the outline when the template can be
+ * recovered from the rows; otherwise each row is written as its own Scenario.
+ */
+export function formatFeatureFile(behavior: HarborBehavior): string {
+  const lines: string[] = [];
+  const tags = [
+    ...behavior.dependencies.map(dependencyTag),
+    ...(behavior.priority !== undefined ? [`${PRIORITY_TAG}${behavior.priority}`] : []),
+    ...(behavior.pagePath ? [`${PAGE_TAG}${behavior.pagePath}`] : []),
+    ...(behavior.tags ?? []).map(tag => `@${tag}`),
+  ];
+  if (tags.length > 0) lines.push(tags.join(" "));
+  lines.push(`Feature: ${behavior.title}`);
+  if (behavior.description) lines.push(`  ${behavior.description}`);
+
+  for (const rule of behavior.rules ?? []) {
+    lines.push("", `  # Rule: ${rule.name}`);
+    for (const clause of rule.when) lines.push(`  #   When: ${clause}`);
+    for (const clause of rule.then) lines.push(`  #   Then: ${clause}`);
+  }
+
+  for (const group of groupOutlines(behavior.examples)) {
+    lines.push("", ...formatScenario(group));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/** Write each behavior to `<dir>/<id>.feature`. Returns the written paths. */
+export function writeFeatureFiles(behaviors: Iterable<HarborBehavior>, dir: string): string[] {
+  mkdirSync(dir, { recursive: true });
+  const written: string[] = [];
+  for (const behavior of behaviors) {
+    const filePath = path.join(dir, `${behavior.id}.feature`);
+    writeFileSync(filePath, formatFeatureFile(behavior), "utf-8");
+    written.push(filePath);
+  }
+  return written;
+}
+
+// ── IMPORT HELPERS ─────────────────────────────────────────────────────
+
+function toSpecStep(keywordType: "Act" | "Check", text: string, lineNumber: number): SpecStep {
+  const epic = text.match(EPIC_STEP_PATTERN);
+  const type = epic ? (epic[1] as SpecStep["type"]) : keywordType;
+  const instruction = epic ? epic[2].trim() : text;
+  if (type === "Check") return { type, instruction, checkType: classifyCheck(instruction), lineNumber };
+  return { type, instruction, lineNumber };
+}
+
+function applyFeatureTags(tags: string[], behavior: HarborBehavior): void {
+  for (const tag of tags) {
+    if (tag.startsWith(DEPENDS_ON_TAG)) {
+      const [behaviorId, scenario] = splitOnce(tag.slice(DEPENDS_ON_TAG.length), ":");
+      if (behaviorId) behavior.dependencies.push({ behaviorId, scenarioName: scenario ? decodeTagText(scenario) : undefined });
+    } else if (tag.startsWith(PRIORITY_TAG)) {
+      const priority = Number(tag.slice(PRIORITY_TAG.length));
+      if (Number.isFinite(priority)) behavior.priority = priority;
+    } else if (tag.startsWith(PAGE_TAG)) {
+      behavior.pagePath = tag.slice(PAGE_TAG.length);
+    } else if (tag.length > 1) {
+      behavior.tags = [...(behavior.tags ?? []), tag.slice(1)];
+    }
+  }
+}
+
+/** Collect `# Rule:` comments and their When/Then clauses; other comments are ignored. */
+function parseRuleComment(trimmedLine: string, behavior: HarborBehavior, lineNumber: number): void {
+  const rule = trimmedLine.match(RULE_COMMENT_PATTERN);
+  if (rule) {
+    behavior.rules!.push({ name: rule[1].trim(), when: [], then: [], lineNumber });
+    return;
+  }
+  const clause = trimmedLine.match(RULE_CLAUSE_COMMENT_PATTERN);
+  const current = behavior.rules![behavior.rules!.length - 1];
+  if (clause && current) current[clause[1].toLowerCase() as "when" | "then"].push(clause[2].trim());
+}
+
+// ── EXPORT HELPERS ─────────────────────────────────────────────────────
+
+function dependencyTag(dependency: BehaviorDependency): string {
+  const scenario = dependency.scenarioName ? `:${encodeTagText(dependency.scenarioName)}` : "";
+  return `${DEPENDS_ON_TAG}${dependency.behaviorId}${scenario}`;
+}
+
+/** Consecutive examples expanded from the same Scenario Outline form one group. */
+function groupOutlines(examples: SpecExample[]): SpecExample[][] {
+  const groups: SpecExample[][] = [];
+  for (const example of examples) {
+    const previous = groups[groups.length - 1]?.[0];
+    const sameOutline = previous?.outline && example.outline
+      && previous.outline.name === example.outline.name
+      && previous.outline.lineNumber === example.outline.lineNumber;
+    if (sameOutline) groups[groups.length - 1].push(example);
+    else groups.push([example]);
+  }
+  return groups;
+}
+
+function formatScenario(group: SpecExample[]): string[] {
+  const outline = group[0].outline;
+  const template = outline ? outlineTemplate(group) : null;
+  if (!outline || !template) {
+    return group.flatMap((example, i) => [
+      ...(i > 0 ? [""] : []),
+      ...scenarioTagLine(example),
+      `  Scenario: ${example.name}`,
+      ...formatSteps(example.steps),
+    ]);
+  }
+
+  const columns = Object.keys(outline.values);
+  const rows = [columns, ...group.map(example => columns.map(column => example.outline!.values[column] ?? ""))];
+  const widths = columns.map((_, i) => Math.max(...rows.map(cells => cells[i].length)));
+  return [
+    ...scenarioTagLine(group[0]),
+    `  Scenario Outline: ${outline.name}`,
+    ...formatSteps(template),
+    "",
+    "    Examples:",
+    ...rows.map(cells => `      | ${cells.map((cell, i) => cell.padEnd(widths[i])).join(" | ")} |`),
+  ];
+}
+
+/**
+ * Recover the outline's template steps by putting `<column>` back in place of
+ * row values. Null unless substituting every row reproduces its steps exactly.
+ */
+function outlineTemplate(group: SpecExample[]): SpecStep[] | null {
+  const values = Object.entries(group[0].outline!.values)
+    .filter(([, value]) => value)
+    .sort(([, a], [, b]) => b.length - a.length);
+  const template = group[0].steps.map(step => ({
+    ...step,
+    instruction: values.reduce((text, [column, value]) => text.split(value).join(`<${column}>`), step.instruction),
+  }));
+
+  const reproduces = group.every(example =>
+    example.steps.length === template.length &&
+    template.every((step, i) =>
+      step.type === example.steps[i].type &&
+      substitutePlaceholders(step.instruction, example.outline!.values) === example.steps[i].instruction));
+  return reproduces ? template : null;
+}
+
+function scenarioTagLine(example: SpecExample): string[] {
+  return example.tags?.length ? [`  ${example.tags.map(tag => `@${tag}`).join(" ")}`] : [];
+}
+
+function formatSteps(steps: SpecStep[]): string[] {
+  let previous: string | null = null;
+  return steps.map(step => {
+    const keyword = step.type === "Check" ? "Then" : "When";
+    const text = step.type === "Await" || step.type === "Capture" ? `${step.type}: ${step.instruction}` : step.instruction;
+    const line = `    ${keyword === previous ? "And" : keyword} ${text}`;
+    previous = keyword;
+    return line;
+  });
+}
+
+// ── TAG TEXT ───────────────────────────────────────────────────────────
+
+/** Tags cannot hold spaces: spaces become `_`, and `_ % @` and other whitespace are %-escaped. */
+function encodeTagText(text: string): string {
+  return text.replace(/[%_@]|\s/g, c => (c === " " ? "_" : `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`));
+}
+
+function decodeTagText(text: string): string {
+  return text.replace(/_/g, " ").replace(/%([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
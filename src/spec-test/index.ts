@@ -1,68 +1,190 @@
 // --- Types ---
 export type {
   SpecTestConfig,
+  DeterministicRunnerConfig,
+  PlaywrightExportOptions,
+  LintRule,
+  LintSeverity,
+  LintDiagnostic,
+  ArtifactMode,
+  ArtifactConfig,
   TestableSpec,
   SpecExample,
+  OutlineSource,
   SpecStep,
   SpecTestResult,
   ExampleResult,
+  ExampleArtifacts,
+  ScenarioRecord,
+  StepRecord,
+  LlmOperation,
+  LlmCall,
+  LlmUsageTotals,
+  LlmUsage,
+  LlmBudget,
+  ModelPrice,
+  PriceTable,
+  CassetteOptions,
   StepResult,
   ActResult,
+  RecordedAction,
   CheckResult,
+  AwaitResult,
+  CaptureResult,
   FailureContext,
   StepContext,
   BehaviorContext,
+  ScenarioContext,
   BehaviorDependency,
   BehaviorRunner,
+  RouteHistory,
+  StorageCookie,
+  StorageState,
+  CachedSession,
+  RouteStrategy,
   ChainStep,
   VerificationSummary,
-} from "./types";
+  VerifyOptions,
+  BehaviorOverride,
+  TagFilter,
+  ReportTestCase,
+  ReportSuite,
+  TestReport,
+  Reporter,
+  ReporterName,
+  ReporterOption,
+  Verbosity,
+  RunEventMap,
+  RunEventName,
+  RunEvent,
+  Rule,
+  RuleCoverage,
+} from "./types.js";
 
 // --- Classify ---
-export { classifyCheck, DETERMINISTIC_PATTERNS } from "./classify";
+export { classifyCheck, DETERMINISTIC_PATTERNS } from "./classify.js";
 
 // --- Parsing ---
-export { parseSteps, parseExamples, parseHarborBehaviorsWithDependencies, parseSpecFile } from "./parsing";
+export { parseSteps, parseExamples, parseHarborBehaviorsWithDependencies, parseBehaviorFile, parseSpecFile } from "./parsing.js";
+export { loadBehaviors, loadBehaviorDirectory, listBehaviorFiles } from "./behavior-loader.js";
+export type { BehaviorFileEntry } from "./behavior-loader.js";
+export { parsePageListings, parseBehaviorSections, splitHeadingTags } from "./parsing.js";
+export type { PageListing, BehaviorSection } from "./parsing.js";
+
+// --- Lint ---
+export { lintSpec, formatDiagnostics } from "./lint.js";
+
+// --- Gherkin ---
+export { parseFeatureFile, formatFeatureFile, writeFeatureFiles } from "./gherkin.js";
 
 // --- Step Execution ---
-export { executeActStep, executeCheckStep, generateFailureContext } from "./step-execution";
-export { isNavigationAction, isRefreshAction, extractExpectedText } from "./step-execution";
-export { getEnhancedErrorContext, getCheckErrorContext, MAX_RETRIES, RETRY_DELAY } from "./step-execution";
+export { executeActStep, executeCheckStep, generateFailureContext } from "./step-execution.js";
+export { isNavigationAction, isRefreshAction, extractExpectedText } from "./step-execution.js";
+export { getEnhancedErrorContext, getCheckErrorContext, MAX_RETRIES, RETRY_DELAY } from "./step-execution.js";
 
 // --- Session Management ---
-export { detectPort, resetSession, navigateToPagePath, clearFormFields, urlsMatch, isSignInRedirect, recoverAuth } from "./session-management";
-export { safeWaitForLoadState } from "./session-management";
+export { detectPort, resetSession, navigateToPagePath, clearFormFields, urlsMatch, isSignInRedirect, recoverAuth } from "./session-management.js";
+export { safeWaitForLoadState, saveStorageState, restoreStorageState } from "./session-management.js";
+
+// --- Session Cache ---
+export { SessionCache } from "../shared/session-cache.js";
+
+// --- Route Params ---
+export { resolvePagePath, recordRouteHistory, emptyRouteHistory } from "../shared/route-params.js";
 
 // --- Act Helpers ---
-export { delay, isRetryableError, executePageAction } from "./act-helpers";
+export { delay, isRetryableError, executePageAction } from "./act-helpers.js";
 
 // --- Check Helpers ---
-export { EXTRACT_EVALUATION_PROMPT, doubleCheckWithExtract, tryDeterministicCheck, executeCheckWithRetry } from "./check-helpers";
+export { EXTRACT_EVALUATION_PROMPT, doubleCheckWithExtract, tryDeterministicCheck, executeCheckWithRetry } from "./check-helpers.js";
+
+// --- Await Helpers ---
+export { executeAwaitStep, parseAwaitTimeout, hasDeterministicAwait, DEFAULT_AWAIT_TIMEOUT_MS, AWAIT_POLL_INTERVAL_MS } from "./await-helpers.js";
+
+// --- Capture Helpers ---
+export { executeCaptureStep, parseCaptureInstruction, hasDeterministicCapture, interpolateVariables, interpolateStep } from "./capture-helpers.js";
+
+// --- Artifacts ---
+export { ArtifactRecorder, DEFAULT_ARTIFACT_DIR } from "./artifacts.js";
+
+// --- Deterministic Checks ---
+export { executeDeterministicCheck, hasDeterministicHandler } from "./deterministic-checks.js";
+
+// --- Selection ---
+export { selectBehaviors, selectExamples, matchesTags } from "../shared/selection.js";
+
+// --- Impact ---
+export { selectAffectedBehaviors } from "../shared/impact.js";
+export { behaviorsChangedSince } from "./changed-behaviors.js";
+
+// --- Behavior Overrides ---
+export { behaviorTimeoutFor, retryFailedBehavior } from "../shared/behavior-overrides.js";
+
+// --- Project Config ---
+export {
+  defineConfig,
+  loadConfig,
+  findConfigFile,
+  applyProfile,
+  resolveSpecPaths,
+  toRunnerConfig,
+  toVerifyOptions,
+  CONFIG_FILE_NAMES,
+} from "../shared/project-config.js";
+export type { EpicTestConfig, LoadedConfig, ModelConfig, ProfileName } from "../shared/project-config.js";
 
 // --- Verification Context ---
-export { VerificationContext } from "./verification-context";
+export { VerificationContext } from "./verification-context.js";
 
 // --- Credential Tracker ---
-export { CredentialTracker, processStepsWithCredentials } from "./credential-tracker";
+export { CredentialTracker, processStepsWithCredentials } from "./credential-tracker.js";
 
 // --- Dependency Chain ---
-export { buildDependencyChain } from "./dependency-chain";
+export { buildDependencyChain } from "./dependency-chain.js";
+
+// --- Rule Coverage ---
+export { checkRuleCoverage, findUncoveredRules, withRuleChecks, RULE_COVERAGE_THRESHOLD } from "../shared/rule-coverage.js";
 
 // --- Summary ---
-export { calculateReward, aggregateResults, generateSummary, createVerificationSummary } from "./summary";
+export { calculateReward, aggregateResults, aggregateScenarioResults, generateSummary, createVerificationSummary, notRunResult, toScenarioRecord } from "./summary.js";
+
+// --- Reporters ---
+export { summaryToReport, specResultToReport, writeReports, writeVerificationReports, resolveReporters } from "../shared/reporters.js";
+export { junitReporter, tapReporter, ctrfReporter, DEFAULT_REPORT_DIR } from "../shared/reporters.js";
+export { htmlReporter } from "../shared/html-report.js";
+
+// --- Events ---
+export { RunEventEmitter, defaultRunEvents, createRunEvents, attachConsoleSubscriber, attachNdjsonSubscriber, formatEvent } from "../shared/events.js";
+
+// --- LLM Usage ---
+export { UsageTracker, DEFAULT_PRICES, summarizeCalls, sumUsage, findModelPrice, formatUsage, instrumentStagehand, instrumentTester } from "../shared/usage.js";
+
+// --- LLM Budget ---
+export { BudgetGuard, BudgetExceededError, toBudgetGuard } from "../shared/budget.js";
+
+// --- Cassettes ---
+export { Cassette, CassetteMissError, cassetteKey, recordLanguageModel, recordStagehandClient } from "../shared/cassette.js";
+export type { CassetteKind } from "../shared/cassette.js";
 
 // --- Verification Runner ---
-export { verifyBehaviorWithDependencies } from "./verification-runner";
+export { verifyBehaviorWithDependencies } from "./verification-runner.js";
 
 // --- Auth Orchestrator ---
-export { isAuthBehavior, runAuthBehaviorsSequence, withTimeout, DEFAULT_BEHAVIOR_TIMEOUT_MS } from "./auth-orchestrator";
+export { isAuthBehavior, runAuthBehaviorsSequence, withTimeout, DEFAULT_BEHAVIOR_TIMEOUT_MS } from "./auth-orchestrator.js";
 
 // --- Orchestrator ---
-export { verifyAllBehaviors } from "./orchestrator";
+export { verifyAllBehaviors } from "./orchestrator.js";
 
 // --- Act Evaluator ---
-export { evaluateActResult } from "./act-evaluator";
-export type { ActContext, ActEvalResult } from "./types";
+export { evaluateActResult } from "./act-evaluator.js";
+export type { ActContext, ActEvalResult } from "./types.js";
 
 // --- Runner ---
-export { SpecTestRunner } from "./runner";
+export { SpecTestRunner } from "./runner.js";
+
+// --- Playwright Export ---
+export { compilePlaywrightTest, writePlaywrightTest } from "./playwright-export.js";
+
+// --- Deterministic Runner ---
+export { DeterministicRunner, parseActInstruction, locateTarget } from "./deterministic-runner.js";
+export type { DeterministicAction, ActTarget, TargetRole } from "./deterministic-runner.js";
@@ -0,0 +1,276 @@
+import { readFile } from "fs/promises";
+import { existsSync, statSync } from "fs";
+import path from "path";
+import type { HarborBehavior, LintDiagnostic, LintRule, LintSeverity, SpecExample } from "./types.js";
+import { loadBehaviors, listBehaviorFiles, parseSpecSource } from "./behavior-loader.js";
+import { parseBehaviorSections, parsePageListings, slugify, splitHeadingTags } from "./parsing.js";
+import { hasDeterministicHandler } from "./deterministic-checks.js";
+
+/** Where a behavior is defined: the file, its title line and the lines it spans. */
+interface BehaviorSource {
+  id: string;
+  file: string;
+  /** 1-based line of the `### Title`, `# Title` or `Feature:` line */
+  line: number;
+  lines: string[];
+  /** 0-based range of `lines` that belongs to the behavior */
+  start: number;
+  end: number;
+}
+
+/** Behaviors of a spec path with the source each one was loaded from. */
+interface LintSubject {
+  behaviors: Map<string, HarborBehavior>;
+  sources: Map<string, BehaviorSource>;
+}
+
+/**
+ * Lint a spec without running it: an instruction.md, a `.feature` file or a spec directory.
+ *
+ * Reports what would otherwise only fail (or silently misbehave) at run time:
+ * unknown and cyclic dependencies, dependency scenario names that match no
+ * scenario, `## Pages` listings without a behavior and behaviors on no page,
+ * scenarios without a Check, Checks classified deterministic that no handler
+ * implements, and duplicate behavior slugs. Diagnostics are ordered by file and line.
+ */
+export async function lintSpec(specPath: string): Promise<LintDiagnostic[]> {
+  const diagnostics: LintDiagnostic[] = [];
+  const report = (severity: LintSeverity, rule: LintRule, file: string, line: number, message: string, behaviorId?: string) =>
+    diagnostics.push({ file, line, severity, rule, message, ...(behaviorId ? { behaviorId } : {}) });
+
+  const { behaviors, sources } = isDirectory(specPath)
+    ? await lintDirectory(specPath, report)
+    : await lintFile(specPath, report);
+
+  if (behaviors.size === 0) {
+    report("error", "no-behaviors", specPath, 1, "No behaviors found");
+  }
+
+  for (const behavior of behaviors.values()) {
+    const source = sources.get(behavior.id);
+    lintDependencies(behavior, behaviors, source, report);
+    lintExamples(behavior, source, report);
+  }
+  lintCycles(behaviors, sources, report);
+
+  return diagnostics.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+/** `file:line: severity [rule] message`, one diagnostic per line. */
+export function formatDiagnostics(diagnostics: LintDiagnostic[]): string {
+  return diagnostics
+    .map(d => `${d.file}:${d.line}: ${d.severity} [${d.rule}] ${d.message}`)
+    .join("\n");
+}
+
+type Report = (severity: LintSeverity, rule: LintRule, file: string, line: number, message: string, behaviorId?: string) => void;
+
+// ── SOURCES ────────────────────────────────────────────────────────────
+
+async function lintFile(specPath: string, report: Report): Promise<LintSubject> {
+  const content = await readFile(specPath, "utf-8");
+  const lines = content.split("\n");
+  const behaviors = await loadBehaviors(specPath);
+  const sources = new Map<string, BehaviorSource>();
+
+  if (specPath.endsWith(".feature")) {
+    for (const id of behaviors.keys()) {
+      sources.set(id, { id, file: specPath, line: titleLine(lines, /^Feature:/), lines, start: 0, end: lines.length });
+    }
+    return { behaviors, sources };
+  }
+
+  for (const source of behaviorHeadings(specPath, lines)) {
+    const previous = sources.get(source.id);
+    if (previous) {
+      report("error", "duplicate-slug", specPath, source.line,
+        `Behavior "${source.id}" is already defined at line ${previous.line}; the later definition replaces it`, source.id);
+    }
+    sources.set(source.id, source);
+  }
+
+  lintPages(content, specPath, behaviors, sources, report);
+  return { behaviors, sources };
+}
+
+async function lintDirectory(dir: string, report: Report): Promise<LintSubject> {
+  const behaviors = new Map<string, HarborBehavior>();
+  const sources = new Map<string, BehaviorSource>();
+  const prdPath = path.join(dir, "prd.json");
+
+  for (const entry of await listBehaviorFiles(dir)) {
+    if (!existsSync(entry.filePath)) {
+      const line = existsSync(prdPath) ? titleLine((await readFile(prdPath, "utf-8")).split("\n"), entry.specFile) : 1;
+      report("error", "missing-spec-file", prdPath, line, `prd.json lists missing spec file "${entry.specFile}"`, entry.id);
+      continue;
+    }
+
+    const lines = (await readFile(entry.filePath, "utf-8")).split("\n");
+    const source: BehaviorSource = {
+      id: entry.id, file: entry.filePath, lines, start: 0, end: lines.length,
+      line: titleLine(lines, entry.filePath.endsWith(".feature") ? /^Feature:/ : /^# /),
+    };
+    const previous = sources.get(entry.id);
+    if (previous) {
+      const used = entry.listed ? "this file replaces it" : "this file is ignored";
+      report("error", "duplicate-slug", entry.filePath, source.line,
+        `Behavior "${entry.id}" is already defined in ${previous.file}; ${used}`, entry.id);
+      if (!entry.listed) continue;
+    }
+
+    const behavior = parseSpecSource(lines.join("\n"), entry.filePath, entry.id);
+    behaviors.set(behavior.id, entry.listed ? { ...behavior, priority: entry.priority } : behavior);
+    sources.set(entry.id, source);
+  }
+
+  return { behaviors, sources };
+}
+
+/** `### Title` headings of the `## Behaviors` section, each spanning up to the next one. */
+function behaviorHeadings(file: string, lines: string[]): BehaviorSource[] {
+  return parseBehaviorSections(lines.join("\n")).map(section => ({
+    id: section.behaviorId, file, line: section.startLine, lines, start: section.startLine - 1, end: section.endLine,
+  }));
+}
+
+// ── RULES ──────────────────────────────────────────────────────────────
+
+function lintDependencies(
+  behavior: HarborBehavior, behaviors: Map<string, HarborBehavior>, source: BehaviorSource | undefined, report: Report,
+): void {
+  if (!source) return;
+
+  for (const dep of behavior.dependencies) {
+    const line = dependencyLine(source, dep.behaviorId);
+    const target = behaviors.get(dep.behaviorId);
+    if (!target) {
+      report("error", "unknown-dependency", source.file, line,
+        `"${behavior.id}" depends on unknown behavior "${dep.behaviorId}"`, behavior.id);
+      continue;
+    }
+    if (dep.scenarioName && !target.examples.some(e => e.name === dep.scenarioName)) {
+      report("error", "unknown-scenario", source.file, line,
+        `"${dep.behaviorId}" has no scenario "${dep.scenarioName}"; the chain would run "${target.examples[0]?.name ?? "nothing"}" instead`,
+        behavior.id);
+    }
+  }
+}
+
+function lintExamples(behavior: HarborBehavior, source: BehaviorSource | undefined, report: Report): void {
+  if (!source) return;
+
+  // Outline rows share their template's steps: lint the template once
+  for (const example of behavior.examples.filter(e => !e.outline || e.outline.row === 1)) {
+    const checks = example.steps.filter(s => s.type === "Check");
+    if (checks.length === 0) {
+      report("warning", "scenario-without-check", source.file, scenarioLine(source, example),
+        `Scenario "${example.outline?.name ?? example.name}" has no Check step and can only fail on an Act`, behavior.id);
+    }
+    for (const check of checks) {
+      if (check.checkType !== "deterministic" || hasDeterministicHandler(check.instruction)) continue;
+      report("error", "deterministic-check-without-handler", source.file, check.lineNumber ?? scenarioLine(source, example),
+        `Check "${check.instruction}" is classified deterministic but no handler implements it`, behavior.id);
+    }
+  }
+}
+
+function lintPages(
+  content: string, file: string, behaviors: Map<string, HarborBehavior>, sources: Map<string, BehaviorSource>, report: Report,
+): void {
+  const listings = parsePageListings(content);
+  if (listings.length === 0) return;
+
+  for (const listing of listings) {
+    if (!behaviors.has(listing.behaviorId)) {
+      report("error", "page-behavior-undefined", file, listing.lineNumber,
+        `Page lists "${listing.title}" but no behavior "${listing.behaviorId}" is defined`, listing.behaviorId);
+    }
+  }
+
+  const listed = new Set(listings.map(l => l.behaviorId));
+  for (const id of behaviors.keys()) {
+    const source = sources.get(id);
+    if (!listed.has(id) && source) {
+      report("warning", "behavior-not-on-page", file, source.line, `Behavior "${id}" is not listed on any page in ## Pages`, id);
+    }
+  }
+}
+
+/** Report each dependency cycle once, at the dependency line that closes it. */
+function lintCycles(behaviors: Map<string, HarborBehavior>, sources: Map<string, BehaviorSource>, report: Report): void {
+  const done = new Set<string>();
+  const reported = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): void => {
+    stack.push(id);
+    for (const dep of behaviors.get(id)!.dependencies) {
+      if (!behaviors.has(dep.behaviorId) || done.has(dep.behaviorId)) continue;
+      const index = stack.indexOf(dep.behaviorId);
+      if (index === -1) {
+        visit(dep.behaviorId);
+        continue;
+      }
+      const cycle = stack.slice(index);
+      const key = [...cycle].sort().join(" ");
+      const source = sources.get(id);
+      if (reported.has(key) || !source) continue;
+      reported.add(key);
+      report("error", "dependency-cycle", source.file, dependencyLine(source, dep.behaviorId),
+        `Dependency cycle: ${[...cycle, dep.behaviorId].join(" -> ")}`, id);
+    }
+    stack.pop();
+    done.add(id);
+  };
+
+  for (const id of behaviors.keys()) {
+    if (!done.has(id)) visit(id);
+  }
+}
+
+// ── LINE LOOKUP ────────────────────────────────────────────────────────
+
+/** Numbered line under a Dependencies heading, or a `@depends-on:` tag, naming `dependencyId`. */
+function dependencyLine(source: BehaviorSource, dependencyId: string): number {
+  let inDependencies = false;
+  for (let i = source.start; i < source.end; i++) {
+    const trimmed = source.lines[i].trim();
+    if (trimmed.startsWith("@") && trimmed.split(/\s+/).some(tag =>
+      tag === `@depends-on:${dependencyId}` || tag.startsWith(`@depends-on:${dependencyId}:`))) {
+      return i + 1;
+    }
+    if (trimmed.startsWith("#")) {
+      inDependencies = /^#+\s*Dependencies\b/i.test(trimmed);
+      continue;
+    }
+    const numbered = trimmed.match(/^\d+\.\s+(.+)$/);
+    if (inDependencies && numbered && slugify(numbered[1].split(":")[0]) === dependencyId) return i + 1;
+  }
+  return source.line;
+}
+
+/** Heading (`##### Name`, `Scenario: Name`) of an example, else its first step. */
+function scenarioLine(source: BehaviorSource, example: SpecExample): number {
+  if (example.outline?.lineNumber) return example.outline.lineNumber;
+  for (let i = source.start; i < source.end; i++) {
+    const trimmed = source.lines[i].trim();
+    const heading = trimmed.startsWith("#") || /^Scenario\b/i.test(trimmed);
+    if (heading && splitHeadingTags(trimmed).title.endsWith(example.name)) return i + 1;
+  }
+  return example.steps[0]?.lineNumber ?? source.line;
+}
+
+/** First line matching `pattern` (a substring or a regex on the trimmed line), else 1. */
+function titleLine(lines: string[], pattern: RegExp | string): number {
+  const index = lines.findIndex(line =>
+    typeof pattern === "string" ? line.includes(pattern) : pattern.test(line.trim()));
+  return index === -1 ? 1 : index + 1;
+}
+
+function isDirectory(specPath: string): boolean {
+  try {
+    return statSync(specPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
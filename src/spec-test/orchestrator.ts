@@ -1,69 +1,226 @@
-import { readFile } from "fs/promises";
-import type { BehaviorContext, BehaviorRunner, VerificationSummary } from "./types";
-import { parseHarborBehaviorsWithDependencies } from "./parsing";
-import { VerificationContext } from "./verification-context";
-import { CredentialTracker } from "./credential-tracker";
-import { createVerificationSummary } from "./summary";
-import { verifyBehaviorWithDependencies } from "./verification-runner";
-import { isAuthBehavior, runAuthBehaviorsSequence, withTimeout, DEFAULT_BEHAVIOR_TIMEOUT_MS } from "./auth-orchestrator";
+import type { BehaviorContext, BehaviorOverride, BehaviorRunner, HarborBehavior, VerificationSummary, VerifyOptions } from "./types.js";
+import { loadBehaviors } from "./behavior-loader.js";
+import { VerificationContext } from "./verification-context.js";
+import { CredentialTracker } from "./credential-tracker.js";
+import { createVerificationSummary, notRunResult } from "./summary.js";
+import { verifyBehaviorWithDependencies } from "./verification-runner.js";
+import { withRuleChecks } from "../shared/rule-coverage.js";
+import { selectBehaviors } from "../shared/selection.js";
+import { selectAffectedBehaviors } from "../shared/impact.js";
+import { behaviorTimeoutFor, retryFailedBehavior } from "../shared/behavior-overrides.js";
+import { SessionCache } from "../shared/session-cache.js";
+import { resolveReporters, writeVerificationReports } from "../shared/reporters.js";
+import { defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
+import { isAuthBehavior, runAuthBehaviorsSequence, withTimeout, DEFAULT_BEHAVIOR_TIMEOUT_MS } from "./auth-orchestrator.js";
+
+/** One parallel worker: its own runner (browser) and its own credential uniquification. */
+interface Worker {
+  runner: BehaviorRunner;
+  credentialTracker: CredentialTracker;
+  /** True when the orchestrator created the runner and must close it */
+  owned: boolean;
+}
 
 /**
- * Verify all behaviors from an instruction.md file.
+ * Verify all behaviors from an instruction.md file or a spec directory
+ * (`behaviors/*.md` + `prd.json`).
  *
  * Execution strategy:
  * 1. Auth behaviors run first in a dedicated sequence (shared session)
- * 2. Non-auth behaviors run independently, each with its own fresh chain
- *    (Sign Up → target behavior, fresh browser state per chain)
+ * 2. Non-auth behaviors run independently, every scenario with its own fresh chain
+ *    (Sign Up → target scenario, fresh browser state per chain)
+ *
+ * With `options.concurrency` > 1, non-auth chains are spread over a pool of
+ * workers, each with a runner from `options.createRunner`. A behavior still
+ * waits for its direct dependencies listed before it, so skips and the order
+ * of `VerificationSummary.behaviors` match a sequential run.
+ *
+ * With `options.sessionCache`, sessions saved after passing chain prefixes
+ * (e.g. `sign-up`) are restored instead of replaying Sign Up in every chain.
+ *
+ * With `options.ruleChecks`, each rule's Then clauses run as extra semantic
+ * checks after the scenario that best matches the rule.
+ *
+ * With a `budget` on the runner, behaviors are cut off once it runs out
+ * (budget_exceeded) and the ones not started yet are marked not_run.
+ *
+ * With `options.reporters` (e.g. `["junit", "ctrf"]`), report files are written
+ * to `options.reportDir` when the run finishes.
+ *
+ * `options.behaviorIds` / `options.tags` limit the run to the matching behaviors
+ * and scenarios plus their dependencies, and `options.excludeTags` skip scenarios
+ * (see selectBehaviors). `options.behaviorOverrides`
+ * replace the timeout and retry failures per behavior. `options.changedBehaviorIds`
+ * run only what a change affects (see selectAffectedBehaviors); the skipped
+ * behaviors are listed in `summary.unaffected` and left out of the reward.
+ *
+ * Run, behavior and chain progress is emitted on `options.events` (default:
+ * the runner's emitter, which prints to the console).
  */
 export async function verifyAllBehaviors(
   instructionPath: string,
   runner: BehaviorRunner,
-  behaviorTimeoutMs: number = DEFAULT_BEHAVIOR_TIMEOUT_MS
+  behaviorTimeoutMs: number = DEFAULT_BEHAVIOR_TIMEOUT_MS,
+  options: VerifyOptions = {}
 ): Promise<VerificationSummary> {
   const startTime = Date.now();
+  const events = options.events ?? runner.events ?? defaultRunEvents();
+  const reporters = resolveReporters(options.reporters ?? []);
 
-  const content = await readFile(instructionPath, 'utf-8');
-  const allBehaviors = parseHarborBehaviorsWithDependencies(content);
+  const parsed = await loadBehaviors(instructionPath, events);
+  const selected = selectBehaviors(options.ruleChecks ? withRuleChecks(parsed) : parsed, options);
+  const { behaviors: allBehaviors, unaffected } = selectAffectedBehaviors(selected, options.changedBehaviorIds);
+  if (unaffected.length > 0) events.log("verifyAllBehaviors", `Skipping ${unaffected.length} behaviors unaffected by the change: ${unaffected.join(", ")}`);
+  events.emit("runStart", { mode: "chain", source: instructionPath, behaviorIds: [...allBehaviors.keys()] });
 
   const context = new VerificationContext();
   const credentialTracker = new CredentialTracker();
 
   // 1. Auth behaviors in dedicated sequence
   const authResults = await runAuthBehaviorsSequence(
-    allBehaviors, context, credentialTracker, runner, behaviorTimeoutMs
+    allBehaviors, context, credentialTracker, runner, behaviorTimeoutMs, events, options.behaviorOverrides
   );
 
-  // 2. Non-auth behaviors with independent chains
-  const nonAuthResults: BehaviorContext[] = [];
-  for (const behavior of allBehaviors.values()) {
-    if (isAuthBehavior(behavior.id)) continue;
+  // 2. Non-auth behaviors with independent chains, spread over the worker pool
+  const nonAuth = [...allBehaviors.values()].filter(b => !isAuthBehavior(b.id));
+  const workers = await createWorkers(runner, credentialTracker, nonAuth.length, options, events);
+  const sessionCache = options.sessionCache ? new SessionCache() : undefined;
+  let nonAuthResults: BehaviorContext[];
+  try {
+    nonAuthResults = await runWorkerPool(nonAuth, workers, (behavior, worker) =>
+      verifyNonAuthBehavior(behavior, allBehaviors, context, worker, behaviorTimeoutMs, sessionCache, events, options.behaviorOverrides)
+    );
+  } finally {
+    await closeWorkers(workers, events);
+  }
+
+  const results = [...authResults, ...nonAuthResults];
+  const summary = createVerificationSummary(results, Date.now() - startTime, unaffected);
+  events.emit("runEnd", { success: summary.passed === summary.total, duration: summary.duration, summary });
+  writeVerificationReports(summary, reporters, options.reportDir, { specPath: instructionPath, behaviors: parsed }, events);
+  return summary;
+}
 
-    // Fresh credentials for each chain
-    credentialTracker.reset();
+/**
+ * Verify one non-auth behavior on a worker, converting timeouts and crashes into
+ * a fail result and retrying failures per its override. Once the LLM budget has
+ * run out, the behavior is not run.
+ */
+async function verifyNonAuthBehavior(
+  behavior: HarborBehavior,
+  allBehaviors: Map<string, HarborBehavior>,
+  context: VerificationContext,
+  worker: Worker,
+  behaviorTimeoutMs: number,
+  sessionCache: SessionCache | undefined,
+  events: RunEventEmitter,
+  overrides: Record<string, BehaviorOverride> = {},
+): Promise<BehaviorContext> {
+  if (context.budgetExceeded() || worker.runner.isBudgetExhausted?.()) {
+    const result = notRunResult(behavior.id, behavior.title);
+    context.markResult(behavior.id, result);
+    events.emit("behaviorEnd", { result });
+    return result;
+  }
 
+  events.emit("behaviorStart", { behaviorId: behavior.id, behaviorName: behavior.title, phase: "non-auth" });
+  // Every scenario runs its own chain, so the budget scales with the scenario count
+  const timeoutMs = behaviorTimeoutFor(behavior.id, behaviorTimeoutMs, overrides) * Math.max(1, behavior.examples.length);
+  const result = await retryFailedBehavior(behavior, overrides, async () => {
+    // Fresh credentials for each chain
+    worker.credentialTracker.reset();
     const behaviorStart = Date.now();
     try {
-      const result = await withTimeout(
-        verifyBehaviorWithDependencies(behavior, allBehaviors, context, credentialTracker, runner),
-        behaviorTimeoutMs,
-        `Behavior "${behavior.title}" timed out after ${behaviorTimeoutMs / 1000}s`
+      return await withTimeout(
+        verifyBehaviorWithDependencies(behavior, allBehaviors, context, worker.credentialTracker, worker.runner, sessionCache, events),
+        timeoutMs,
+        `Behavior "${behavior.title}" timed out after ${timeoutMs / 1000}s`
       );
-      context.markResult(behavior.id, result);
-      nonAuthResults.push(result);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      const failResult: BehaviorContext = {
+      return {
         behaviorId: behavior.id,
         behaviorName: behavior.title,
         status: 'fail',
         error: errorMessage.includes('timed out') ? errorMessage : `Unexpected error: ${errorMessage}`,
         duration: Date.now() - behaviorStart,
       };
-      context.markResult(behavior.id, failResult);
-      nonAuthResults.push(failResult);
     }
+  }, events);
+
+  context.markResult(behavior.id, result);
+  events.emit("behaviorEnd", { result });
+  return result;
+}
+
+/**
+ * Run behaviors on the workers, each worker pulling the next behavior in order.
+ * Before starting, a behavior waits for its direct dependencies that come
+ * earlier in the list. Results are returned in input order.
+ */
+async function runWorkerPool(
+  behaviors: HarborBehavior[],
+  workers: Worker[],
+  verify: (behavior: HarborBehavior, worker: Worker) => Promise<BehaviorContext>,
+): Promise<BehaviorContext[]> {
+  const indexById = new Map(behaviors.map((b, i) => [b.id, i]));
+  const running: Promise<BehaviorContext>[] = [];
+  let next = 0;
+
+  const work = async (worker: Worker): Promise<void> => {
+    while (next < behaviors.length) {
+      const index = next++;
+      const behavior = behaviors[index];
+      const earlierDependencies = behavior.dependencies
+        .map(d => indexById.get(d.behaviorId))
+        .filter((i): i is number => i !== undefined && i < index)
+        .map(i => running[i]);
+
+      running[index] = Promise.all(earlierDependencies).then(() => verify(behavior, worker));
+      await running[index];
+    }
+  };
+
+  await Promise.all(workers.map(work));
+  return Promise.all(running);
+}
+
+/** Worker 0 reuses the caller's runner; the others get runners from options.createRunner. */
+async function createWorkers(
+  runner: BehaviorRunner,
+  credentialTracker: CredentialTracker,
+  behaviorCount: number,
+  options: VerifyOptions,
+  events: RunEventEmitter,
+): Promise<Worker[]> {
+  const requested = Math.max(1, Math.floor(options.concurrency ?? 1));
+  if (requested > 1 && !options.createRunner) {
+    events.log("verifyAllBehaviors", `concurrency=${requested} needs options.createRunner — running sequentially`);
+  }
+
+  const size = options.createRunner ? Math.min(requested, Math.max(1, behaviorCount)) : 1;
+  if (size === 1) return [{ runner, credentialTracker, owned: false }];
+
+  events.log("verifyAllBehaviors", `Running ${behaviorCount} non-auth behaviors on ${size} workers`);
+  const workers: Worker[] = [{ runner, credentialTracker: new CredentialTracker(0), owned: false }];
+  try {
+    for (let i = 1; i < size; i++) {
+      workers.push({ runner: await options.createRunner!(i), credentialTracker: new CredentialTracker(i), owned: true });
+    }
+  } catch (error) {
+    await closeWorkers(workers, events);
+    throw error;
   }
+  return workers;
+}
 
-  const results = [...authResults, ...nonAuthResults];
-  return createVerificationSummary(results, Date.now() - startTime);
+async function closeWorkers(workers: Worker[], events: RunEventEmitter): Promise<void> {
+  for (const worker of workers) {
+    if (!worker.owned || !worker.runner.close) continue;
+    try {
+      await worker.runner.close();
+    } catch (error) {
+      events.log("verifyAllBehaviors", `Failed to close worker runner: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 }
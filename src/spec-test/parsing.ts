@@ -1,12 +1,12 @@
 import { readFile } from "fs/promises";
-import type { SpecStep, SpecExample, TestableSpec, HarborBehavior } from "./types";
-import { classifyCheck } from "./classify";
+import type { SpecStep, SpecExample, TestableSpec, HarborBehavior } from "./types.js";
+import { classifyCheck } from "./classify.js";
 
 /**
- * Regex pattern to match Act, Check, and Await step lines.
- * Captures: (1) step type (Act|Check|Await), (2) instruction text
+ * Regex pattern to match Act, Check, Await, and Capture step lines.
+ * Captures: (1) step type (Act|Check|Await|Capture), (2) instruction text
  */
-const STEP_PATTERN = /^\s*\*\s*(Act|Check|Await):\s*(.+)$/;
+const STEP_PATTERN = /^\s*\*\s*(Act|Check|Await|Capture):\s*(.+)$/;
 
 /**
  * Parses the Steps section from markdown content into an array of executable steps.
@@ -27,8 +27,8 @@ export function parseSteps(content: string): SpecStep[] {
         return [{ type: "Act", instruction, lineNumber }];
       }
 
-      if (stepType === "Await") {
-        return [{ type: "Await", instruction, lineNumber }];
+      if (stepType === "Await" || stepType === "Capture") {
+        return [{ type: stepType, instruction, lineNumber }];
       }
 
       return [{
@@ -79,13 +79,26 @@ export function parseExamples(content: string): SpecExample[] {
 }
 
 /** Convert title to slug (same as Python slugify) */
-function slugify(text: string): string {
+export function slugify(text: string): string {
   return text
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-+|-+$/g, '');
 }
 
+/** Trailing `@tag` tokens of a behavior heading: `Create Ticket @smoke @tickets`. */
+const HEADING_TAGS_PATTERN = /(?:\s+@[\w:-]+)+$/;
+
+/** Split a heading into its title and trailing `@tag`s (returned without the `@`). */
+export function splitHeadingTags(heading: string): { title: string; tags: string[] } {
+  const match = heading.match(HEADING_TAGS_PATTERN);
+  if (!match) return { title: heading.trim(), tags: [] };
+  return {
+    title: heading.slice(0, match.index).trim(),
+    tags: match[0].trim().split(/\s+/).map(tag => tag.slice(1)),
+  };
+}
+
 /** Extract a markdown section by H2 heading, returning its body, lines, and line offset. */
 function extractSection(
   content: string, headingPattern: RegExp
@@ -98,12 +111,24 @@ function extractSection(
   const end = nextH2 ? start + nextH2.index! : content.length;
   const body = content.slice(start, end);
 
-  return { body, lines: body.split("\n"), lineOffset: content.slice(0, start).split('\n').length };
+  // body starts on the heading's own line, so lines[i] sits at file line lineOffset + i + 1
+  return { body, lines: body.split("\n"), lineOffset: content.slice(0, start).split('\n').length - 1 };
+}
+
+/** A behavior listed under a page in the ## Pages section. */
+export interface PageListing {
+  /** Slugified behavior title */
+  behaviorId: string;
+  /** Title as written in the list item */
+  title: string;
+  /** The page's `**Path:**`, null when the page has none */
+  pagePath: string | null;
+  /** 1-based line of the list item */
+  lineNumber: number;
 }
 
 /**
- * Parse the ## Pages section to extract page paths for each behavior.
- * Returns a Map of behavior ID (slugified) to page path (e.g., "/candidates").
+ * Parse the ## Pages section into the behaviors each page lists.
  *
  * Expected format:
  * ```markdown
@@ -114,17 +139,17 @@ function extractSection(
  * - Behavior Title
  * ```
  */
-function parsePagePaths(content: string): Map<string, string> {
-  const pagePaths = new Map<string, string>();
+export function parsePageListings(content: string): PageListing[] {
+  const listings: PageListing[] = [];
 
   const section = extractSection(content, /^## Pages/im);
-  if (!section) return pagePaths;
+  if (!section) return listings;
 
   let currentPagePath: string | null = null;
   let inBehaviorsSection = false;
 
-  for (const line of section.lines) {
-    const trimmed = line.trim();
+  for (let i = 0; i < section.lines.length; i++) {
+    const trimmed = section.lines[i].trim();
 
     // Page heading: ### Page Name
     if (trimmed.startsWith('### ') && !trimmed.startsWith('#### ')) {
@@ -153,29 +178,155 @@ function parsePagePaths(content: string): Map<string, string> {
     }
 
     // Behavior list item
-    if (inBehaviorsSection && currentPagePath && trimmed.startsWith('- ')) {
-      const behaviorTitle = trimmed.slice(2).trim();
-      pagePaths.set(slugify(behaviorTitle), currentPagePath);
+    if (inBehaviorsSection && trimmed.startsWith('- ')) {
+      const title = trimmed.slice(2).trim();
+      listings.push({ behaviorId: slugify(title), title, pagePath: currentPagePath, lineNumber: section.lineOffset + i + 1 });
     }
   }
 
+  return listings;
+}
+
+/** Lines of one `### Title` block in the ## Behaviors section. */
+export interface BehaviorSection {
+  /** Slugified behavior title */
+  behaviorId: string;
+  /** 1-based line of the `###` heading */
+  startLine: number;
+  /** 1-based last line, just before the next `###` or `##` heading */
+  endLine: number;
+}
+
+/** Line ranges of the behaviors in the ## Behaviors section, in file order. */
+export function parseBehaviorSections(content: string): BehaviorSection[] {
+  const lines = content.split("\n");
+  const sections: BehaviorSection[] = [];
+  let inBehaviors = false;
+
+  const closeLast = (lineNumber: number) => {
+    const last = sections[sections.length - 1];
+    if (last && last.endLine > lineNumber) last.endLine = lineNumber;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (/^## [^#]/.test(trimmed)) {
+      inBehaviors = /^## Behaviors/i.test(trimmed);
+      closeLast(i);
+      continue;
+    }
+    if (inBehaviors && trimmed.startsWith("### ") && !trimmed.startsWith("#### ")) {
+      closeLast(i);
+      sections.push({ behaviorId: slugify(splitHeadingTags(trimmed.slice(4)).title), startLine: i + 1, endLine: lines.length });
+    }
+  }
+  return sections;
+}
+
+/** Map of behavior ID (slugified) to the page path that lists it (e.g., "/candidates"). */
+function parsePagePaths(content: string): Map<string, string> {
+  const pagePaths = new Map<string, string>();
+  for (const listing of parsePageListings(content)) {
+    if (listing.pagePath) pagePaths.set(listing.behaviorId, listing.pagePath);
+  }
   return pagePaths;
 }
 
 /** Parser state for content collection within a behavior. */
-type ParserMode = 'idle' | 'dependencies' | 'steps';
+type ParserMode = 'idle' | 'dependencies' | 'steps' | 'rules' | 'table';
+
+/** Active clause list inside a ##### Rule block. */
+type RuleClause = 'when' | 'then' | null;
+
+/** Heading prefix that turns a scenario into a template expanded per Examples row. */
+const OUTLINE_PATTERN = /^Scenario Outline:\s*(.+)$/i;
+
+/** Examples table collected for a Scenario Outline before expansion. */
+interface OutlineTable {
+  name: string;
+  lineNumber: number;
+  columns: string[];
+  rows: Array<{ cells: string[]; lineNumber: number }>;
+}
+
+/** Example being parsed; outlines carry their table until they are flushed. */
+export type DraftExample = SpecExample & { outlineTable?: OutlineTable };
 
-/** Push current example onto behavior if it has steps. */
-function flushExample(example: SpecExample | null, behavior: HarborBehavior): void {
-  if (example && example.steps.length > 0) {
-    behavior.examples.push(example);
+/** Create an example from its heading text, splitting off `@tag`s and marking Scenario Outlines for expansion. */
+function startExample(heading: string, lineNumber: number): DraftExample {
+  const { title: name, tags } = splitHeadingTags(heading);
+  const tagged = tags.length > 0 ? { tags } : {};
+  const outlineMatch = name.match(OUTLINE_PATTERN);
+  if (!outlineMatch) return { name, steps: [], ...tagged };
+
+  const outlineName = outlineMatch[1].trim();
+  return { name: outlineName, steps: [], ...tagged, outlineTable: { name: outlineName, lineNumber, columns: [], rows: [] } };
+}
+
+/** Parse a `| a | b |` table line into the outline's header or a data row. */
+function parseTableLine(trimmedLine: string, example: DraftExample | null, lineNumber: number): void {
+  const table = example?.outlineTable;
+  if (!table || !trimmedLine.startsWith("|")) return;
+
+  const cells = trimmedLine.replace(/^\|/, "").replace(/\|$/, "").split("|").map(cell => cell.trim());
+  if (cells.every(cell => /^:?-+:?$/.test(cell))) return;
+
+  if (table.columns.length === 0) {
+    table.columns = cells;
+  } else {
+    table.rows.push({ cells, lineNumber });
   }
 }
 
+/**
+ * Expand a parsed example into runnable examples.
+ * Scenario Outlines produce one example per Examples row, named "<name> (row N)",
+ * with `<column>` placeholders substituted. Step line numbers keep pointing at
+ * the template; `outline.rowLineNumber` points at the row.
+ */
+export function expandExample(example: DraftExample | null): SpecExample[] {
+  if (!example || example.steps.length === 0) return [];
+
+  const { outlineTable, ...template } = example;
+  if (!outlineTable || outlineTable.rows.length === 0) return [template];
+
+  return outlineTable.rows.map(({ cells, lineNumber }, index) => {
+    const values = Object.fromEntries(outlineTable.columns.map((column, i) => [column, cells[i] ?? ""]));
+    return {
+      name: `${substitutePlaceholders(outlineTable.name, values)} (row ${index + 1})`,
+      steps: template.steps.map(step => substituteStep(step, values)),
+      ...(template.tags && { tags: template.tags }),
+      outline: {
+        name: outlineTable.name,
+        row: index + 1,
+        lineNumber: outlineTable.lineNumber,
+        rowLineNumber: lineNumber,
+        values,
+      },
+    };
+  });
+}
+
+function substituteStep(step: SpecStep, values: Record<string, string>): SpecStep {
+  const instruction = substitutePlaceholders(step.instruction, values);
+  if (step.type !== "Check") return { ...step, instruction };
+  return { ...step, instruction, checkType: classifyCheck(instruction) };
+}
+
+/** Replace `<column>` tokens with row values, leaving unknown tokens untouched. */
+export function substitutePlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(/<([^<>]+)>/g, (token, key: string) => values[key.trim()] ?? token);
+}
+
+/** Push current example onto behavior if it has steps, expanding Scenario Outlines. */
+function flushExample(example: DraftExample | null, behavior: HarborBehavior): void {
+  behavior.examples.push(...expandExample(example));
+}
+
 /** Save current example to behavior, then behavior to the map. */
 function saveBehavior(
   currentBehavior: HarborBehavior | null,
-  currentExample: SpecExample | null,
+  currentExample: DraftExample | null,
   behaviors: Map<string, HarborBehavior>
 ): void {
   if (!currentBehavior) return;
@@ -201,7 +352,7 @@ function parseDependencyLine(trimmedLine: string, behavior: HarborBehavior): boo
   return true;
 }
 
-/** Parse an Act/Check step line and push onto example.steps. */
+/** Parse an Act/Check/Await/Capture step line and push onto example.steps. */
 function parseStepLine(trimmedLine: string, example: SpecExample, lineNumber: number): boolean {
   const stepMatch = trimmedLine.match(STEP_PATTERN);
   if (!stepMatch) return false;
@@ -210,28 +361,66 @@ function parseStepLine(trimmedLine: string, example: SpecExample, lineNumber: nu
   const instruction = rawInstruction.trim();
   if (stepType === "Act") {
     example.steps.push({ type: "Act", instruction, lineNumber });
-  } else if (stepType === "Await") {
-    example.steps.push({ type: "Await", instruction, lineNumber });
+  } else if (stepType === "Await" || stepType === "Capture") {
+    example.steps.push({ type: stepType, instruction, lineNumber });
   } else {
     example.steps.push({ type: "Check", instruction, checkType: classifyCheck(instruction), lineNumber });
   }
   return true;
 }
 
+/**
+ * Parse a line inside #### Rules, returning the active clause.
+ *
+ * ```markdown
+ * ##### Invalid Credentials
+ * - When:
+ *   - User enters incorrect credentials
+ * - Then:
+ *   - Error message is displayed
+ * ```
+ */
+function parseRuleLine(
+  trimmedLine: string, behavior: HarborBehavior, lineNumber: number, clause: RuleClause, ruleHeading = "#####",
+): RuleClause {
+  const rules = behavior.rules!;
+
+  if (trimmedLine.startsWith(ruleHeading + " ")) {
+    rules.push({ name: trimmedLine.slice(ruleHeading.length + 1).trim(), when: [], then: [], lineNumber });
+    return null;
+  }
+
+  const clauseMatch = trimmedLine.match(/^[-*]\s*(When|Then):\s*(.*)$/i);
+  if (clauseMatch) {
+    if (rules.length === 0) rules.push({ name: `Rule ${rules.length + 1}`, when: [], then: [], lineNumber });
+    const next = clauseMatch[1].toLowerCase() as 'when' | 'then';
+    const inline = clauseMatch[2].trim();
+    if (inline) rules[rules.length - 1][next].push(inline);
+    return next;
+  }
+
+  const itemMatch = trimmedLine.match(/^[-*]\s+(.+)$/);
+  if (itemMatch && clause && rules.length > 0) {
+    rules[rules.length - 1][clause].push(itemMatch[1].trim());
+  }
+  return clause;
+}
+
 /** Finalize previous behavior (if any) and create a new one from a ### heading. */
 function startNewBehavior(
   trimmedLine: string,
   pagePaths: Map<string, string>,
   currentBehavior: HarborBehavior | null,
-  currentExample: SpecExample | null,
+  currentExample: DraftExample | null,
   behaviors: Map<string, HarborBehavior>,
 ): HarborBehavior {
   saveBehavior(currentBehavior, currentExample, behaviors);
-  const title = trimmedLine.slice(4).trim();
+  const { title, tags } = splitHeadingTags(trimmedLine.slice(4));
   const id = slugify(title);
   return {
     id, title, description: '', dependencies: [],
-    examples: [], pagePath: pagePaths.get(id),
+    examples: [], pagePath: pagePaths.get(id), rules: [],
+    ...(tags.length > 0 ? { tags } : {}),
   };
 }
 
@@ -239,8 +428,8 @@ function startNewBehavior(
 function handleH4Heading(
   trimmedLine: string,
   behavior: HarborBehavior,
-  currentExample: SpecExample | null,
-): { mode: ParserMode; inExamples: boolean; example: SpecExample | null } | null {
+  currentExample: DraftExample | null,
+): { mode: ParserMode; inExamples: boolean; example: DraftExample | null } | null {
   if (!trimmedLine.startsWith("#### ") || trimmedLine.startsWith("#####")) return null;
 
   if (/^#### Dependencies/i.test(trimmedLine)) {
@@ -258,6 +447,11 @@ function handleH4Heading(
     return { mode: 'idle', inExamples: true, example: currentExample };
   }
 
+  if (/^#### Rules/i.test(trimmedLine)) {
+    flushExample(currentExample, behavior);
+    return { mode: 'rules', inExamples: false, example: null };
+  }
+
   // Other #### section — flush and reset
   flushExample(currentExample, behavior);
   return { mode: 'idle', inExamples: false, example: null };
@@ -275,9 +469,10 @@ export function parseHarborBehaviorsWithDependencies(
   if (!section) return new Map();
   const behaviors = new Map<string, HarborBehavior>();
   let currentBehavior: HarborBehavior | null = null;
-  let currentExample: SpecExample | null = null;
+  let currentExample: DraftExample | null = null;
   let mode: ParserMode = 'idle';
   let inExamples = false;
+  let ruleClause: RuleClause = null;
 
   for (let i = 0; i < section.lines.length; i++) {
     const trimmedLine = section.lines[i].trim();
@@ -293,17 +488,24 @@ export function parseHarborBehaviorsWithDependencies(
     if (!currentBehavior) continue;
     // #### Heading dispatch
     const h4 = handleH4Heading(trimmedLine, currentBehavior, currentExample);
-    if (h4) { mode = h4.mode; inExamples = h4.inExamples; currentExample = h4.example; continue; }
+    if (h4) { mode = h4.mode; inExamples = h4.inExamples; currentExample = h4.example; ruleClause = null; continue; }
+    // Content: rule headings and When/Then clauses
+    if (mode === 'rules') {
+      if (trimmedLine) ruleClause = parseRuleLine(trimmedLine, currentBehavior, lineNumber, ruleClause);
+      continue;
+    }
 
     // ##### Example heading (within examples section)
     if (inExamples && trimmedLine.startsWith("##### ") && !trimmedLine.startsWith("######")) {
       flushExample(currentExample, currentBehavior);
-      currentExample = { name: trimmedLine.slice(6).trim(), steps: [] };
+      currentExample = startExample(trimmedLine.slice(6).trim(), lineNumber);
       mode = 'idle';
       continue;
     }
-    // ###### Steps
+    // ###### Steps / ###### Examples (Scenario Outline table)
     if (/^###### Steps/i.test(trimmedLine)) { mode = 'steps'; continue; }
+    if (/^###### Examples/i.test(trimmedLine)) { mode = 'table'; continue; }
+    if (mode === 'table') { parseTableLine(trimmedLine, currentExample, lineNumber); continue; }
     // Content: dependency lines
     if (mode === 'dependencies' && trimmedLine && parseDependencyLine(trimmedLine, currentBehavior)) continue;
     // Content: step lines
@@ -320,7 +522,88 @@ export function parseHarborBehaviorsWithDependencies(
   return behaviors;
 }
 
-/** Parse examples section with configurable heading levels. */
+/**
+ * Parse a single per-behavior spec file (behaviors/*.md) into a HarborBehavior.
+ *
+ * Expected format:
+ * ```markdown
+ * # Behavior Title
+ * Description.
+ * ## Page Context
+ * This behavior is part of the **Page** at `/route`.
+ * ## Dependencies
+ * 1. **sign-up**: User creates a new account
+ * ## Examples
+ * ### Scenario name
+ * #### Steps
+ * * Act: ...
+ * ```
+ */
+export function parseBehaviorFile(content: string, id?: string): HarborBehavior {
+  const normalized = content.replace(/\r\n/g, "\n");
+  const { title, tags } = splitHeadingTags(normalized.match(NAME_PATTERN)?.[1] ?? "Unnamed");
+  const behavior: HarborBehavior = {
+    id: id ?? slugify(title),
+    title,
+    description: parseBehaviorFileDescription(normalized),
+    dependencies: [],
+    examples: [],
+    rules: [],
+    ...(tags.length > 0 ? { tags } : {}),
+  };
+
+  const pageContext = extractSection(normalized, /^## Page Context\s*$/im);
+  behavior.pagePath = pageContext?.body.match(/\bat\s+`(\/[^`]*)`/)?.[1];
+
+  const dependencies = extractSection(normalized, /^## Dependencies\s*$/im);
+  for (const line of dependencies?.lines ?? []) {
+    parseDependencyLine(line.trim(), behavior);
+  }
+
+  const rules = extractSection(normalized, /^## Rules\s*$/im);
+  if (rules) {
+    let clause: RuleClause = null;
+    rules.lines.forEach((line, i) => {
+      const trimmedLine = line.trim();
+      if (trimmedLine) clause = parseRuleLine(trimmedLine, behavior, rules.lineOffset + i + 1, clause, "###");
+    });
+  }
+
+  const examples = extractSection(normalized, /^## (?:Scenarios|Examples)\s*$/m);
+  if (examples) {
+    behavior.examples = parseExamplesSection(examples.body, "###", "####", examples.lineOffset);
+  }
+
+  return behavior;
+}
+
+/** First plain text line between the H1 and the first H2. */
+function parseBehaviorFileDescription(content: string): string {
+  const afterTitle = content.slice((content.match(NAME_PATTERN)?.index ?? 0)).split("\n").slice(1);
+  for (const line of afterTitle) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("## ")) break;
+    if (trimmed && !trimmed.startsWith("#")) return trimmed;
+  }
+  return "";
+}
+
+/**
+ * Parse examples section with configurable heading levels.
+ *
+ * A `Scenario Outline:` heading followed by an Examples table expands into one
+ * example per row:
+ * ```markdown
+ * ### Scenario Outline: Create <priority> ticket
+ * #### Steps
+ * * Act: Select "<priority>" as the priority
+ * #### Examples
+ * | priority |
+ * |----------|
+ * | Low      |
+ * | High     |
+ * ```
+ */
 function parseExamplesSection(
   content: string,
   exampleHeading: string,
@@ -329,8 +612,8 @@ function parseExamplesSection(
 ): SpecExample[] {
   const lines = content.split("\n");
   const examples: SpecExample[] = [];
-  let currentExample: SpecExample | null = null;
-  let inSteps = false;
+  let currentExample: DraftExample | null = null;
+  let mode: ParserMode = 'idle';
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -338,67 +621,55 @@ function parseExamplesSection(
     const lineNumber = lineOffset + i + 1;
 
     if (trimmedLine.startsWith(exampleHeading + " ")) {
-      if (currentExample && currentExample.steps.length > 0) {
-        examples.push(currentExample);
-      }
-      currentExample = {
-        name: trimmedLine.slice(exampleHeading.length + 1).trim(),
-        steps: [],
-      };
-      inSteps = false;
+      examples.push(...expandExample(currentExample));
+      currentExample = startExample(trimmedLine.slice(exampleHeading.length + 1).trim(), lineNumber);
+      mode = 'idle';
       continue;
     }
 
     if (trimmedLine.toLowerCase() === stepsHeading.toLowerCase() + " steps") {
-      inSteps = true;
+      mode = 'steps';
+      continue;
+    }
+
+    if (trimmedLine.toLowerCase() === stepsHeading.toLowerCase() + " examples") {
+      mode = 'table';
       continue;
     }
 
     if (trimmedLine.startsWith(stepsHeading + " ") && !trimmedLine.toLowerCase().includes("steps")) {
-      inSteps = false;
+      mode = 'idle';
       continue;
     }
 
-    if (inSteps && currentExample && trimmedLine.startsWith("* ")) {
-      const match = trimmedLine.match(STEP_PATTERN);
-      if (match) {
-        const [, stepType, rawInstruction] = match;
-        const instruction = rawInstruction.trim();
-
-        if (stepType === "Act") {
-          currentExample.steps.push({ type: "Act", instruction, lineNumber });
-        } else if (stepType === "Await") {
-          currentExample.steps.push({ type: "Await", instruction, lineNumber });
-        } else {
-          currentExample.steps.push({
-            type: "Check",
-            instruction,
-            checkType: classifyCheck(instruction),
-            lineNumber,
-          });
-        }
-      }
+    if (mode === 'steps' && currentExample && trimmedLine.startsWith("* ")) {
+      parseStepLine(trimmedLine, currentExample, lineNumber);
+    } else if (mode === 'table') {
+      parseTableLine(trimmedLine, currentExample, lineNumber);
     }
   }
 
-  if (currentExample && currentExample.steps.length > 0) {
-    examples.push(currentExample);
-  }
+  examples.push(...expandExample(currentExample));
 
   return examples;
 }
 
-/** Parse a behavior spec markdown file into a TestableSpec. */
+/** Parse a behavior spec markdown file (or a Gherkin `.feature` file) into a TestableSpec. */
 export async function parseSpecFile(filePath: string): Promise<TestableSpec> {
   const content = await readFile(filePath, "utf-8");
 
-  const nameMatch = content.match(NAME_PATTERN);
-  const name = nameMatch?.[1]?.trim() ?? "Unnamed";
+  if (filePath.endsWith(".feature")) {
+    const { parseFeatureFile } = await import("./gherkin.js");
+    const behavior = parseFeatureFile(content);
+    return { name: behavior.title, examples: behavior.examples, ...(behavior.tags && { tags: behavior.tags }) };
+  }
+
+  const { title: name, tags } = splitHeadingTags(content.match(NAME_PATTERN)?.[1] ?? "Unnamed");
 
   const dirMatch = content.match(DIRECTORY_PATTERN);
   const directory = dirMatch?.[1]?.trim();
 
   const examples = parseExamples(content);
 
-  return { name, directory, examples };
+  return { name, directory, examples, ...(tags.length > 0 ? { tags } : {}) };
 }
@@ -0,0 +1,223 @@
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import type { ExampleResult, PlaywrightExportOptions, RecordedAction, StepResult } from "./types.js";
+import { hasDeterministicHandler } from "./deterministic-checks.js";
+import { extractExpectedText, isNavigationAction, isRefreshAction } from "./step-execution.js";
+
+/** Shortest captured value substituted back into later steps; shorter ones match too much by accident. */
+const MIN_CAPTURED_LENGTH = 3;
+
+/** Helpers a compiled test may import from `<package>/spec-test`. */
+type SpecTestHelper = "executeDeterministicCheck" | "executeAwaitStep" | "executeCaptureStep";
+
+/** Captured variables (name, value) known at a point in the example. */
+type Captures = Array<[string, string]>;
+
+/**
+ * Compile passing runs into a standalone @playwright/test file.
+ *
+ * Act steps replay the selectors and methods Stagehand actually used, and
+ * navigations become `page.goto`. Checks the run decided without a model become
+ * plain assertions (`toContainText`, the deterministic DSL); the others — and
+ * semantic Await steps — use Tester.assert with the same snapshot lifecycle as
+ * SpecTestRunner. Deterministic Captures are re-read, so captured values stay
+ * live in later steps; extract() captures are frozen to the recorded value.
+ *
+ * Steps completed by a DOM fallback have no replayable selector and become
+ * TODO comments.
+ */
+export function compilePlaywrightTest(results: ExampleResult[], options: PlaywrightExportOptions = {}): string {
+  if (results.length === 0) throw new Error("No runs to compile");
+  const failed = results.find(r => !r.success);
+  if (failed) throw new Error(`Cannot compile "${failed.example.name}": only passing runs can be compiled`);
+
+  const baseUrl = options.baseUrl ?? originOf(results[0].startUrl);
+  const helpers = new Set<SpecTestHelper>();
+  const tests = results.map(result => compileExample(result, baseUrl, helpers));
+  const needsTester = tests.some(t => t.needsTester);
+  const packageName = options.packageName ?? "epic-test";
+
+  const lines = [
+    `// Compiled by epic-test from a passing run${options.title ? ` of "${comment(options.title)}"` : ""}.`,
+    `import { test, expect } from "@playwright/test";`,
+  ];
+  if (helpers.size > 0) lines.push(`import { ${[...helpers].sort().join(", ")} } from "${packageName}/spec-test";`);
+  if (needsTester) lines.push(`import { Tester } from "${packageName}/b-test";`);
+  lines.push("");
+  if (baseUrl) lines.push(`test.use({ baseURL: ${JSON.stringify(baseUrl)} });`, "");
+
+  const body = tests.flatMap((t, i) => (i === 0 ? t.lines : ["", ...t.lines]));
+  if (options.title) {
+    lines.push(`test.describe(${JSON.stringify(options.title)}, () => {`, ...indent(body), "});");
+  } else {
+    lines.push(...body);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Compile passing runs and write them to `filePath`. Returns the path. */
+export function writePlaywrightTest(results: ExampleResult[], filePath: string, options: PlaywrightExportOptions = {}): string {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, compilePlaywrightTest(results, options), "utf-8");
+  return filePath;
+}
+
+// ── EXAMPLE COMPILATION ────────────────────────────────────────────────
+
+function compileExample(
+  result: ExampleResult, baseUrl: string | undefined, helpers: Set<SpecTestHelper>,
+): { lines: string[]; needsTester: boolean } {
+  const needsTester = result.steps.some(usesTester);
+  const captures: Captures = [];
+  const body: string[] = [];
+
+  if (needsTester) body.push("const tester = new Tester(page);");
+  if (result.steps.some(s => s.step.type === "Capture")) body.push("const vars: Record<string, string> = {};");
+  body.push(`await page.goto(${JSON.stringify(startPath(result.startUrl, baseUrl))});`);
+  if (needsTester) body.push("await tester.snapshot(page);");
+
+  for (const stepResult of result.steps) {
+    body.push("", `// ${stepResult.step.type}: ${comment(stepResult.step.instruction)}`);
+    body.push(...compileStep(stepResult, captures, needsTester, helpers));
+  }
+
+  return {
+    lines: [`test(${JSON.stringify(result.example.name)}, async ({ page }) => {`, ...indent(body), "});"],
+    needsTester,
+  };
+}
+
+function compileStep(stepResult: StepResult, captures: Captures, needsTester: boolean, helpers: Set<SpecTestHelper>): string[] {
+  const { step } = stepResult;
+  const instruction = literal(step.instruction, captures);
+
+  if (step.type === "Act") {
+    const navUrl = isNavigationAction(step.instruction);
+    if (navUrl) return [`await page.goto(${literal(navUrl, captures)});`];
+    if (isRefreshAction(step.instruction)) return ["await page.reload();"];
+
+    const actions = stepResult.actResult?.actions ?? [];
+    const lines = needsTester ? ["tester.clearSnapshots();", "await tester.snapshot(page);"] : [];
+    if (actions.length === 0) lines.push("// TODO: no recorded actions for this step");
+    return [...lines, ...actions.map(action => compileAction(action, captures))];
+  }
+
+  if (step.type === "Check") {
+    if (hasDeterministicHandler(step.instruction)) {
+      helpers.add("executeDeterministicCheck");
+      return [`expect((await executeDeterministicCheck(${instruction}, page)).passed).toBe(true);`];
+    }
+    const textCheck = decidedByTextOracle(stepResult) ? extractExpectedText(step.instruction) : null;
+    if (textCheck) {
+      return [`await expect(page.locator("body")).${textCheck.shouldExist ? "" : "not."}toContainText(${literal(textCheck.text, captures)});`];
+    }
+    return ["await tester.snapshot(page);", `expect(await tester.assert(${instruction})).toBe(true);`];
+  }
+
+  if (step.type === "Await") {
+    helpers.add("executeAwaitStep");
+    const tester = stepResult.awaitResult?.strategy === "semantic" ? "tester" : "null";
+    return [`expect((await executeAwaitStep({ type: "Await", instruction: ${instruction} }, page, ${tester})).success).toBe(true);`];
+  }
+
+  const { variable, value, strategy } = stepResult.captureResult ?? {};
+  if (!variable || value === undefined) return ["// TODO: capture produced no value"];
+  const lines = strategy === "deterministic"
+    ? compileCapture(instruction, variable, helpers)
+    : [`${varRef(variable)} = ${JSON.stringify(value)}; // read by extract() in the recorded run`];
+  captures.push([variable, value]);
+  return lines;
+}
+
+function compileCapture(instruction: string, variable: string, helpers: Set<SpecTestHelper>): string[] {
+  helpers.add("executeCaptureStep");
+  const capture = `await executeCaptureStep({ type: "Capture", instruction: ${instruction} }, page, null)`;
+  return [`${varRef(variable)} = (${capture}).captureResult!.value!;`];
+}
+
+/** One Playwright statement for a Stagehand action. */
+function compileAction(action: RecordedAction, captures: Captures): string {
+  if (action.method === "fallback") return `// TODO: ${comment(action.description)} (DOM fallback, no recorded selector)`;
+
+  const target = `page.locator(${JSON.stringify(action.selector)})`;
+  const arg = literal(action.arguments?.[0] ?? "", captures);
+  switch (action.method) {
+    case "click": return `await ${target}.click();`;
+    case "doubleClick": return `await ${target}.dblclick();`;
+    case "hover": return `await ${target}.hover();`;
+    case "fill": return `await ${target}.fill(${arg});`;
+    case "type": return `await ${target}.pressSequentially(${arg});`;
+    case "press": return `await page.keyboard.press(${arg});`;
+    case "selectOption":
+    case "selectOptionFromDropdown": return `await ${target}.selectOption(${arg});`;
+    case "scrollIntoView":
+    case "scrollTo":
+    case "scroll": return `await ${target}.scrollIntoViewIfNeeded();`;
+    default: return `// TODO: unsupported action "${action.method}" on ${action.selector}: ${comment(action.description)}`;
+  }
+}
+
+// ── HELPERS ────────────────────────────────────────────────────────────
+
+/** A Check decided by the quoted-text oracle alone: deterministic and no LLM call. */
+function decidedByTextOracle(stepResult: StepResult): boolean {
+  return stepResult.checkResult?.checkType === "deterministic" && !stepResult.usage;
+}
+
+/** A Check or Await step the run could only decide with a model. */
+function usesTester(stepResult: StepResult): boolean {
+  const { step } = stepResult;
+  if (step.type === "Await") return stepResult.awaitResult?.strategy === "semantic";
+  if (step.type !== "Check" || hasDeterministicHandler(step.instruction)) return false;
+  return !(decidedByTextOracle(stepResult) && extractExpectedText(step.instruction));
+}
+
+/**
+ * String literal for generated code. Values captured earlier in the example are
+ * substituted back as `${vars.name}`, so later steps follow a fresh capture.
+ */
+function literal(value: string, captures: Captures): string {
+  const hits = captures.filter(([, captured]) => captured.length >= MIN_CAPTURED_LENGTH && value.includes(captured));
+  if (hits.length === 0) return JSON.stringify(value);
+
+  let text = escapeTemplate(value);
+  for (const [name, captured] of hits) {
+    text = text.split(escapeTemplate(captured)).join(`\${${varRef(name)}}`);
+  }
+  return `\`${text}\``;
+}
+
+function escapeTemplate(value: string): string {
+  return value.replace(/[`\\$]/g, c => `\\${c}`).replace(/\n/g, "\\n");
+}
+
+function varRef(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `vars.${name}` : `vars[${JSON.stringify(name)}]`;
+}
+
+function originOf(url: string | undefined): string | undefined {
+  try {
+    return url ? new URL(url).origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Where the example started, relative to baseUrl when it is on the same origin. */
+function startPath(startUrl: string | undefined, baseUrl: string | undefined): string {
+  if (!startUrl) return "/";
+  try {
+    const url = new URL(startUrl);
+    return baseUrl && url.origin === originOf(baseUrl) ? `${url.pathname}${url.search}${url.hash}` : startUrl;
+  } catch {
+    return startUrl;
+  }
+}
+
+function comment(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ");
+}
+
+function indent(lines: string[]): string[] {
+  return lines.map(line => (line ? `  ${line}` : line));
+}
@@ -2,7 +2,7 @@ import { existsSync, rmSync } from "fs";
 import path from "path";
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { Tester } from "../b-test";
+import type { Tester } from "../b-test/index.js";
 
 import type {
   SpecTestConfig,
@@ -14,17 +14,22 @@ import type {
   StepResult,
   StepContext,
   FailureContext,
-} from "./types";
-import type { ActContext, ActEvalResult } from "../shared/types";
-import { evaluateActResult } from "./act-evaluator";
-import { BaseStagehandRunner } from "../shared/base-runner";
-
-import { parseSpecFile } from "./parsing";
+  RecordedAction,
+} from "./types.js";
+import type { ActContext, ActEvalResult, Reporter, TagFilter } from "../shared/types.js";
+import { evaluateActResult } from "./act-evaluator.js";
+import { BaseStagehandRunner } from "../shared/base-runner.js";
+import { resolveReporters, specResultToReport, writeReports } from "../shared/reporters.js";
+import { instrumentTester, sumUsage } from "../shared/usage.js";
+import { recordLanguageModel } from "../shared/cassette.js";
+import { selectExamples } from "../shared/selection.js";
+
+import { parseSpecFile } from "./parsing.js";
 import {
   isNavigationAction,
   isRefreshAction,
   generateFailureContext,
-} from "./step-execution";
+} from "./step-execution.js";
 import {
   executePageAction,
   tryNativeInputFill,
@@ -33,8 +38,13 @@ import {
   tryDOMClick,
   tryFillRequiredInputs,
   isSubmitAction,
-} from "./act-helpers";
-import { tryDeterministicCheck, executeCheckWithRetry } from "./check-helpers";
+} from "./act-helpers.js";
+import { tryDeterministicCheck, executeCheckWithRetry } from "./check-helpers.js";
+import { executeAwaitStep } from "./await-helpers.js";
+import { executeCaptureStep, interpolateStep } from "./capture-helpers.js";
+import { executeDeterministicCheck, hasDeterministicHandler } from "./deterministic-checks.js";
+import { ArtifactRecorder } from "./artifacts.js";
+import { writePlaywrightTest } from "./playwright-export.js";
 
 /** Maximum iterations for the adaptive act loop before giving up */
 const MAX_ADAPTIVE_ITERATIONS = 5;
@@ -58,37 +68,70 @@ export class SpecTestRunner extends BaseStagehandRunner {
   private currentSpec: TestableSpec | null = null;
   private page: Page | null = null;
   private preActUrl: string | null = null;
+  private stepActions: RecordedAction[] = [];
+  private artifacts: ArtifactRecorder | null;
+  private reporters: Reporter[];
 
   constructor(config: SpecTestConfig) {
     super(config);
+    this.reporters = resolveReporters(config.reporters ?? []);
+    this.artifacts = config.artifacts ? new ArtifactRecorder(config.artifacts, this.events) : null;
   }
 
   // ── PUBLIC ENTRY POINTS ──────────────────────────────────────────────
 
-  /** Run a specification from a markdown file. */
-  async runFromFile(filePath: string, exampleName?: string): Promise<SpecTestResult> {
+  /** Run a specification from a markdown file; `tagFilter` narrows the examples by tag. */
+  async runFromFile(filePath: string, exampleName?: string, tagFilter?: TagFilter): Promise<SpecTestResult> {
     const spec = await parseSpecFile(filePath);
-    return this.runFromSpec(spec, exampleName);
+    return this.runSpec(spec, exampleName, filePath, tagFilter);
+  }
+
+  /** Run a parsed specification; `tagFilter` narrows the examples by tag. */
+  async runFromSpec(spec: TestableSpec, exampleName?: string, tagFilter?: TagFilter): Promise<SpecTestResult> {
+    return this.runSpec(spec, exampleName, undefined, tagFilter);
+  }
+
+  /** Clear the cache directory to force fresh LLM inference. */
+  clearCache(): void {
+    if (this.config.cacheDir && existsSync(this.config.cacheDir)) {
+      rmSync(this.config.cacheDir, { recursive: true, force: true });
+    }
+  }
+
+  /** Close browser and clean up resources. */
+  async close(): Promise<void> {
+    await super.close();
+    if (this.tester) {
+      this.tester.clearSnapshots();
+      this.tester = null;
+    }
   }
 
-  /** Run a parsed specification. */
-  async runFromSpec(spec: TestableSpec, exampleName?: string): Promise<SpecTestResult> {
+  /** Run the selected examples of a spec and write configured reports (filePath feeds report locations). */
+  private async runSpec(
+    spec: TestableSpec, exampleName?: string, filePath?: string, tagFilter?: TagFilter,
+  ): Promise<SpecTestResult> {
     const startTime = Date.now();
     this.currentSpec = spec;
 
-    const examplesToRun = exampleName
+    const namedExamples = exampleName
       ? spec.examples.filter(e => e.name === exampleName)
       : spec.examples;
+    const examplesToRun = tagFilter ? selectExamples(namedExamples, tagFilter, spec.tags) : namedExamples;
 
     if (examplesToRun.length === 0) {
       const availableNames = spec.examples.map(e => e.name).join(", ");
       throw new Error(
-        exampleName
-          ? `Example "${exampleName}" not found. Available: ${availableNames}`
-          : "No examples found in specification"
+        namedExamples.length > 0
+          ? `No examples match tags ${describeTagFilter(tagFilter!)}. Available: ${availableNames}`
+          : exampleName
+            ? `Example "${exampleName}" not found. Available: ${availableNames}`
+            : "No examples found in specification"
       );
     }
 
+    this.events.emit("runStart", { mode: "spec", source: filePath ?? spec.name, behaviorIds: examplesToRun.map(e => e.name) });
+
     const exampleResults: ExampleResult[] = [];
     for (const example of examplesToRun) {
       const result = await this.runExample(example);
@@ -99,30 +142,35 @@ export class SpecTestRunner extends BaseStagehandRunner {
     const success = exampleResults.every(r => r.success);
     const firstResult = exampleResults[0];
 
-    return {
+    const result: SpecTestResult = {
       success,
       spec,
       exampleResults,
       duration,
       steps: firstResult?.steps ?? [],
       failedAt: firstResult?.failedAt,
+      usage: sumUsage(exampleResults.map(r => r.usage)),
     };
+    this.events.emit("runEnd", { success, duration });
+    this.writeReports(result, filePath);
+    this.exportPlaywrightTest(result, filePath);
+    return result;
   }
 
-  /** Clear the cache directory to force fresh LLM inference. */
-  clearCache(): void {
-    if (this.config.cacheDir && existsSync(this.config.cacheDir)) {
-      rmSync(this.config.cacheDir, { recursive: true, force: true });
-    }
+  /** Write `config.reporters` (resolved in the constructor) for a finished spec run. */
+  private writeReports(result: SpecTestResult, filePath?: string): void {
+    if (this.reporters.length === 0) return;
+    writeReports(specResultToReport(result, filePath), this.reporters, this.config.reportDir, reportBaseName(result, filePath), this.events);
   }
 
-  /** Close browser and clean up resources. */
-  async close(): Promise<void> {
-    await super.close();
-    if (this.tester) {
-      this.tester.clearSnapshots();
-      this.tester = null;
-    }
+  /** Compile the run's passing examples to `config.playwrightDir`. */
+  private exportPlaywrightTest(result: SpecTestResult, filePath?: string): void {
+    if (!this.config.playwrightDir) return;
+    const passed = result.exampleResults.filter(r => r.success);
+    if (passed.length === 0) return;
+    const file = path.join(this.config.playwrightDir, `${reportBaseName(result, filePath)}.spec.ts`);
+    writePlaywrightTest(passed, file, { title: result.spec.name, baseUrl: this.config.baseUrl });
+    this.events.log("exportPlaywrightTest", `Wrote ${file}`);
   }
 
   // ── CORE EXECUTION ───────────────────────────────────────────────────
@@ -134,14 +182,27 @@ export class SpecTestRunner extends BaseStagehandRunner {
    * - clearSession=true: Hard reset — completely clean slate
    * - clearSession=false + navigateToPath: Preserve session, navigate to page
    * - clearSession=false + no path: Keep as-is (auth flow continuation)
+   *
+   * Variables: `options.variables` seeds the example's scope; Capture steps add
+   * to it and `{name}` references are resolved before each step runs.
+   *
+   * With `config.stepSnapshots`, each StepResult also carries the page HTML after the step.
+   * With `config.artifacts`, screenshots, trace and video are recorded per ArtifactRecorder.
+   * Emits `stepStart` / `stepEnd` around every step. LLM usage lands on each
+   * StepResult and, with session recovery included, on the ExampleResult.
+   * A failure caused by a refused LLM call (budget exhausted) sets `budgetExceeded`.
    */
   async runExample(example: SpecExample, options?: {
     clearSession?: boolean;
     navigateToPath?: string;
     credentials?: { email: string | null; password: string | null };
     reloadPage?: boolean;
+    variables?: Record<string, string>;
   }): Promise<ExampleResult> {
     const startTime = Date.now();
+    const usageMark = this.usage.mark();
+    const refusalsBefore = this.budgetRefusals();
+    const variables = { ...options?.variables };
 
     try {
       const { stagehand, tester } = await this.initialize();
@@ -155,6 +216,8 @@ export class SpecTestRunner extends BaseStagehandRunner {
       this.page = page;
 
       await this.manageSession(page, stagehand, options);
+      const startUrl = page.url();
+      await this.artifacts?.startExample(page, example.name);
       await tester.snapshot(page);
 
       const stepResults: StepResult[] = [];
@@ -170,10 +233,17 @@ export class SpecTestRunner extends BaseStagehandRunner {
           stagehand,
           tester,
           nextStep: example.steps[i + 1],
+          variables,
         };
 
+        this.events.emit("stepStart", { exampleName: example.name, step, stepIndex: i, totalSteps: example.steps.length });
+        const stepMark = this.usage.mark();
         const stepResult = await this.runStep(step, context);
+        stepResult.usage = this.usage.usageSince(stepMark);
+        if (this.config.stepSnapshots) stepResult.pageSnapshot = await capturePageSnapshot(page);
+        await this.artifacts?.afterStep(page, stepResult, i);
         stepResults.push(stepResult);
+        this.events.emit("stepEnd", { exampleName: example.name, stepIndex: i, result: stepResult });
 
         if (!stepResult.success) {
           failedAt = await this.buildFailureResult(page, step, stepResult, i);
@@ -181,21 +251,31 @@ export class SpecTestRunner extends BaseStagehandRunner {
         }
       }
 
-      return {
+      return this.applyBudgetOutcome({
         example,
         success: !failedAt,
         steps: stepResults,
         duration: Date.now() - startTime,
+        variables,
+        startUrl,
+        artifacts: await this.artifacts?.finishExample(page, !failedAt),
+        usage: this.usage.usageSince(usageMark),
         failedAt,
-      };
+      }, refusalsBefore);
     } catch (error) {
-      return this.buildCrashResult(example, startTime, error instanceof Error ? error.message : String(error));
+      const result = this.buildCrashResult(example, startTime, error instanceof Error ? error.message : String(error));
+      result.usage = this.usage.usageSince(usageMark);
+      if (this.page) result.artifacts = await this.artifacts?.finishExample(this.page, false);
+      return this.applyBudgetOutcome(result, refusalsBefore);
     }
   }
 
-  /** Dispatch a step to the appropriate Act or Check handler. */
-  async runStep(step: SpecStep, context: StepContext): Promise<StepResult> {
+  /** Resolve `{variable}` references, then dispatch to the Act, Await, Capture or Check handler. */
+  async runStep(rawStep: SpecStep, context: StepContext): Promise<StepResult> {
+    const step = interpolateStep(rawStep, context.variables ?? {});
     if (step.type === "Act") return this.routeActStep(step, context);
+    if (step.type === "Await") return this.routeAwaitStep(step, context);
+    if (step.type === "Capture") return this.routeCaptureStep(step, context);
     return this.routeCheckStep(step, context);
   }
 
@@ -216,9 +296,10 @@ export class SpecTestRunner extends BaseStagehandRunner {
       return executePageAction(step, page, stepStart, () => page.reload().then(() => {}));
     }
 
+    this.stepActions = [];
     try {
       await this.executeAdaptiveAct(step.instruction);
-      const actResult = { success: true, duration: Date.now() - stepStart, pageUrl: page.url() };
+      const actResult = { success: true, duration: Date.now() - stepStart, pageUrl: page.url(), actions: this.stepActions };
       return { step, success: true, duration: Date.now() - stepStart, actResult };
     } catch (error) {
       const actResult = {
@@ -230,24 +311,79 @@ export class SpecTestRunner extends BaseStagehandRunner {
     }
   }
 
-  /** Route a Check step: deterministic fast-path → semantic check with retry. */
+  /** Route a Check step: deterministic DSL → quoted-text fast-path → semantic check with retry. */
   private async routeCheckStep(step: SpecStep, context: StepContext): Promise<StepResult> {
     const { page, tester, stagehand } = context;
     const stepStart = Date.now();
 
+    if (hasDeterministicHandler(step.instruction)) {
+      const checkResult = await executeDeterministicCheck(step.instruction, page);
+      this.events.emit("oracleDecision", { instruction: step.instruction, oracle: "deterministic", passed: checkResult.passed, reason: checkResult.reasoning });
+      return { step, success: checkResult.passed, duration: Date.now() - stepStart, checkResult };
+    }
+
     const { stepResult: deterministicResult, failed: deterministicFailed } =
-      await tryDeterministicCheck(page, step, stepStart);
+      await tryDeterministicCheck(page, step, stepStart, this.events);
     if (deterministicResult) return deterministicResult;
 
     const pageTransitioned = this.preActUrl !== null && page.url() !== this.preActUrl;
     const checkType = step.checkType ?? "semantic";
     const checkResult = await executeCheckWithRetry(
-      step.instruction, checkType, page, tester, stagehand, pageTransitioned, deterministicFailed
+      step.instruction, checkType, page, tester, stagehand, pageTransitioned, deterministicFailed, this.events
     );
 
     return { step, success: checkResult.passed, duration: Date.now() - stepStart, checkResult };
   }
 
+  /** Route an Await step: poll until the condition holds or the timeout expires. */
+  private async routeAwaitStep(step: SpecStep, context: StepContext): Promise<StepResult> {
+    return executeAwaitStep(step, context.page, context.tester, { timeoutMs: this.config.awaitTimeoutMs });
+  }
+
+  /** Route a Capture step: read the value and store it in the example's variable scope. */
+  private async routeCaptureStep(step: SpecStep, context: StepContext): Promise<StepResult> {
+    const stepResult = await executeCaptureStep(step, context.page, context.stagehand);
+    const { variable, value } = stepResult.captureResult ?? {};
+    if (variable && value !== undefined && context.variables) {
+      context.variables[variable] = value;
+      this.events.log("routeCaptureStep", `{${variable}} = "${value}"`);
+    }
+    return stepResult;
+  }
+
+  // ── STEP ESCALATION ──────────────────────────────────────────────────
+
+  /** CDP URL of the runner's browser, so a Playwright client can drive the same page. */
+  async connectURL(): Promise<string> {
+    const { stagehand } = await this.initialize();
+    return stagehand.connectURL();
+  }
+
+  /** Take a fresh "before" snapshot; the next escalated Check diffs against it. */
+  async markBaseline(): Promise<void> {
+    const { stagehand, tester } = await this.initialize();
+    tester.clearSnapshots();
+    await tester.snapshot(stagehand.context.activePage() as unknown as Page);
+  }
+
+  /**
+   * Run one step on the current page with the full engine (adaptive act loop,
+   * semantic oracles). DeterministicRunner's hybrid mode escalates the steps it
+   * cannot resolve here.
+   */
+  async escalateStep(step: SpecStep, variables: Record<string, string> = {}): Promise<StepResult> {
+    const { stagehand, tester } = await this.initialize();
+    const page = stagehand.context.activePage() as unknown as Page;
+    this.page = page;
+
+    const mark = this.usage.mark();
+    const stepResult = await this.runStep(step, {
+      stepIndex: 0, totalSteps: 1, previousResults: [], page, stagehand, tester, variables,
+    });
+    stepResult.usage = this.usage.usageSince(mark);
+    return stepResult;
+  }
+
   // ── ADAPTIVE ACT ENGINE ──────────────────────────────────────────────
 
   /**
@@ -259,7 +395,7 @@ export class SpecTestRunner extends BaseStagehandRunner {
     const stagehand = this.stagehand!;
     const page = this.page!;
 
-    await dismissStaleModal(page);
+    await dismissStaleModal(page, this.events);
 
     const actContext: ActContext = { goal, lastAct: null, iteration: 0, history: [] };
 
@@ -271,7 +407,7 @@ export class SpecTestRunner extends BaseStagehandRunner {
       // Snapshot before → act → snapshot after
       tester.clearSnapshots();
       await tester.snapshot(page);
-      await actWithRetry(stagehand, enrichedInstruction);
+      this.stepActions.push(...await actWithRetry(stagehand, enrichedInstruction, undefined, this.events));
       await tester.snapshot(page);
 
       actContext.lastAct = enrichedInstruction;
@@ -322,7 +458,7 @@ export class SpecTestRunner extends BaseStagehandRunner {
     const stagehand = this.stagehand!;
 
     // Fallback 1: native date/time shadow DOM inputs
-    const nativeFill = await tryNativeInputFill(page, stagehand, instruction);
+    const nativeFill = await tryNativeInputFill(page, stagehand, instruction, this.events);
     const r1 = await this.attemptFallbackRecovery(
       nativeFill, `filled native input for: ${instruction}`, actContext, true,
     );
@@ -334,7 +470,7 @@ export class SpecTestRunner extends BaseStagehandRunner {
     }
 
     // Fallback 2: DOM click for elements outside Stagehand's a11y tree
-    const domClicked = await tryDOMClick(page, instruction);
+    const domClicked = await tryDOMClick(page, instruction, this.events);
     const r2 = domClicked
       ? await this.attemptFallbackRecovery(
           async () => {}, `DOM click for: ${instruction}`, actContext, false,
@@ -349,9 +485,9 @@ export class SpecTestRunner extends BaseStagehandRunner {
 
     // Fallback 3: fill empty required fields, then retry the submit
     if (isSubmitAction(instruction)) {
-      const filledCount = await tryFillRequiredInputs(page);
+      const filledCount = await tryFillRequiredInputs(page, this.events);
       if (filledCount > 0) {
-        const retryAction = async () => { await actWithRetry(stagehand, instruction); };
+        const retryAction = async () => { this.stepActions.push(...await actWithRetry(stagehand, instruction, undefined, this.events)); };
         const r3 = await this.attemptFallbackRecovery(
           retryAction, `retry submit after filling ${filledCount} required field(s)`, actContext, true,
         );
@@ -389,6 +525,7 @@ export class SpecTestRunner extends BaseStagehandRunner {
       await tester.snapshot(page);
     }
 
+    this.stepActions.push({ selector: "", description, method: "fallback" });
     await action();
     await tester.snapshot(page);
 
@@ -412,16 +549,22 @@ export class SpecTestRunner extends BaseStagehandRunner {
 
     if (cacheDir) this.config.cacheDir = originalCacheDir;
 
-    const { Tester } = await import("../b-test");
+    const { Tester, DEFAULT_ASSERT_MODEL } = await import("../b-test/index.js");
     const page = stagehand.context.activePage();
 
     if (!page) {
       throw new Error("Failed to get active page from Stagehand");
     }
 
-    this.tester = this.config.aiModel
-      ? new Tester(page, this.config.aiModel)
+    let aiModel = this.config.aiModel;
+    if (this.cassette) {
+      const { openai } = await import("@ai-sdk/openai");
+      aiModel = recordLanguageModel(aiModel ?? openai(DEFAULT_ASSERT_MODEL), this.cassette);
+    }
+    this.tester = aiModel
+      ? new Tester(page, aiModel)
       : new Tester(page);
+    instrumentTester(this.tester, this.usage);
 
     return { stagehand, tester: this.tester };
   }
@@ -440,11 +583,7 @@ export class SpecTestRunner extends BaseStagehandRunner {
   private async buildFailureResult(
     page: Page, step: SpecStep, stepResult: StepResult, stepIndex: number
   ): Promise<ExampleResult["failedAt"]> {
-    const error = new Error(
-      step.type === "Act"
-        ? stepResult.actResult?.error ?? "Act step failed"
-        : stepResult.checkResult?.actual ?? "Check step failed"
-    );
+    const error = new Error(describeStepFailure(step, stepResult));
 
     let failureContext: FailureContext;
     try {
@@ -486,3 +625,34 @@ export class SpecTestRunner extends BaseStagehandRunner {
     };
   }
 }
+
+/** Error message for a failed step, by step type. */
+export function describeStepFailure(step: SpecStep, stepResult: StepResult): string {
+  if (step.type === "Act") return stepResult.actResult?.error ?? "Act step failed";
+  if (step.type === "Await") return stepResult.awaitResult?.error ?? "Await step timed out";
+  if (step.type === "Capture") return stepResult.captureResult?.error ?? "Capture step failed";
+  return stepResult.checkResult?.actual ?? "Check step failed";
+}
+
+/** `@smoke, not @slow` — a tag filter for error messages. */
+function describeTagFilter(filter: TagFilter): string {
+  return [
+    ...(filter.tags ?? []).map(tag => `@${tag}`),
+    ...(filter.excludeTags ?? []).map(tag => `not @${tag}`),
+  ].join(", ");
+}
+
+/** File name stem for reports and exports: the spec file name, else the spec name, slugified. */
+function reportBaseName(result: SpecTestResult, filePath?: string): string {
+  const name = filePath ? path.basename(filePath, path.extname(filePath)) : result.spec.name;
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/** Page HTML for StepResult.pageSnapshot; undefined when the page cannot be read. */
+async function capturePageSnapshot(page: Page): Promise<string | undefined> {
+  try {
+    return await page.content();
+  } catch {
+    return undefined;
+  }
+}
@@ -8,4 +8,6 @@ export {
   recoverAuth,
   navigateToPagePath,
   clearFormFields,
-} from "../shared/session-management";
+  saveStorageState,
+  restoreStorageState,
+} from "../shared/session-management.js";
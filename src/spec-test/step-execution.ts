@@ -1,7 +1,8 @@
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { Tester } from "../b-test";
-import type { ActResult, CheckResult, SpecStep, FailureContext } from "./types";
+import type { Tester } from "../b-test/index.js";
+import type { ActResult, CheckResult, SpecStep, FailureContext } from "./types.js";
+import { executeDeterministicCheck } from "./deterministic-checks.js";
 
 export const MAX_RETRIES = 3;
 export const RETRY_DELAY = 1000;
@@ -135,40 +136,6 @@ export function extractExpectedText(instruction: string): { text: string; should
   return { text: match[1], shouldExist };
 }
 
-const DETERMINISTIC_HANDLERS: Array<{
-  pattern: RegExp;
-  getActual: (page: Page) => string | Promise<string>;
-  compare: (actual: string, expected: string) => boolean;
-}> = [
-  { pattern: /^url\s+contains\s+(.+)$/i, getActual: (p) => p.url(), compare: (a, e) => a.includes(e) },
-  { pattern: /^url\s+is\s+(.+)$/i, getActual: (p) => p.url(), compare: (a, e) => a === e },
-  { pattern: /^page\s+title\s+is\s+(.+)$/i, getActual: (p) => p.title(), compare: (a, e) => a === e },
-  { pattern: /^page\s+title\s+contains\s+(.+)$/i, getActual: (p) => p.title(), compare: (a, e) => a.includes(e) },
-];
-
-async function executeDeterministicCheck(instruction: string, page: Page): Promise<CheckResult> {
-  const trimmed = instruction.trim();
-
-  const found = DETERMINISTIC_HANDLERS
-    .map(h => ({ handler: h, match: trimmed.match(h.pattern) }))
-    .find(({ match }) => match !== null);
-
-  if (found) {
-    const expected = found.match![1].trim();
-    const actual = await found.handler.getActual(page);
-    const passed = found.handler.compare(actual, expected);
-    return { passed, checkType: "deterministic", expected, actual };
-  }
-
-  return {
-    passed: false,
-    checkType: "deterministic",
-    expected: instruction,
-    actual: "Unrecognized check pattern",
-    suggestion: "Use patterns like 'URL contains X' or 'Page title is Y'",
-  };
-}
-
 async function executeSemanticCheck(
   instruction: string, page: Page, tester: Tester,
 ): Promise<CheckResult> {
@@ -1,2 +1,2 @@
 // Re-export from shared for backwards compatibility
-export { calculateReward, aggregateResults, generateSummary, createVerificationSummary } from "../shared/summary";
+export { calculateReward, aggregateResults, aggregateScenarioResults, generateSummary, createVerificationSummary, notRunResult, toScenarioRecord } from "../shared/summary.js";
@@ -19,7 +19,7 @@ function makePage(evaluateResult: unknown = false): Page {
   } as unknown as Page;
 }
 
-function makeStagehand(actImpl?: () => Promise<void>): Stagehand {
+function makeStagehand(actImpl?: () => Promise<unknown>): Stagehand {
   return {
     act: vi.fn(actImpl ?? (() => Promise.resolve())),
   } as unknown as Stagehand;
@@ -67,6 +67,17 @@ describe('actWithRetry', () => {
     expect(stagehand.act).toHaveBeenCalledWith('Click the button');
   });
 
+  it('should return the actions Stagehand performed', async () => {
+    const stagehand = makeStagehand(() => Promise.resolve({
+      success: true,
+      actions: [{ selector: 'xpath=/html/body/button', description: 'Save button', method: 'click', arguments: [] }],
+    }));
+
+    const actions = await actWithRetry(stagehand, 'Click the button');
+
+    expect(actions).toEqual([{ selector: 'xpath=/html/body/button', description: 'Save button', method: 'click', arguments: [] }]);
+  });
+
   it('should retry on a retryable error and succeed on the second attempt', async () => {
     let calls = 0;
     const stagehand = makeStagehand(() => {
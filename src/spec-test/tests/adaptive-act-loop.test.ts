@@ -50,7 +50,7 @@ describe("executeAdaptiveAct", () => {
     // actWithRetry is a thin wrapper — forward to stagehand.act so existing
     // assertions on mockStagehand.act continue to work.
     vi.mocked(actHelpers.actWithRetry).mockImplementation(
-      async (stagehand: any, instruction: string) => { await stagehand.act(instruction); },
+      async (stagehand: any, instruction: string) => { await stagehand.act(instruction); return []; },
     );
     // dismissStaleModal / tryDOMClick / tryFillRequiredInputs — safe no-ops by default
     vi.mocked(actHelpers.dismissStaleModal).mockResolvedValue(false);
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { ArtifactRecorder } from "../index";
+import type { StepResult } from "../types";
+
+function createPage(withPlaywrightContext: boolean) {
+  const tracing = { start: vi.fn(async () => {}), stop: vi.fn(async () => {}) };
+  const page: any = {
+    screenshot: vi.fn(async ({ path: file }: { path: string }) => writeFileSync(file, "png")),
+  };
+  if (withPlaywrightContext) {
+    page.context = () => ({ tracing });
+    page.video = () => ({ path: async () => "/videos/abc.webm" });
+  }
+  return { page, tracing };
+}
+
+function stepResult(type: "Act" | "Check", success: boolean): StepResult {
+  return { step: { type, instruction: `${type} something` }, success, duration: 10 };
+}
+
+describe("ArtifactRecorder", () => {
+  let dir: string;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should capture Act and failing-step screenshots, trace and video in always mode", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "artifacts-"));
+    const recorder = new ArtifactRecorder({ screenshots: "always", trace: "always", video: "always", dir });
+    const { page, tracing } = createPage(true);
+
+    await recorder.startExample(page, "Create ticket");
+    const act = stepResult("Act", true);
+    const passingCheck = stepResult("Check", true);
+    const failingCheck = stepResult("Check", false);
+    await recorder.afterStep(page, act, 0);
+    await recorder.afterStep(page, passingCheck, 1);
+    await recorder.afterStep(page, failingCheck, 2);
+    const artifacts = await recorder.finishExample(page, false);
+
+    expect(act.screenshotPath).toMatch(/001-create-ticket[\\/]step-01-act\.png$/);
+    expect(passingCheck.screenshotPath).toBeUndefined();
+    expect(failingCheck.screenshotPath).toMatch(/step-03-check-failed\.png$/);
+    expect(existsSync(failingCheck.screenshotPath!)).toBe(true);
+    expect(tracing.start).toHaveBeenCalled();
+    expect(tracing.stop).toHaveBeenCalledWith({ path: path.join(artifacts!.dir, "trace.zip") });
+    expect(artifacts).toMatchObject({ tracePath: path.join(artifacts!.dir, "trace.zip"), videoPath: "/videos/abc.webm" });
+  });
+
+  it("should discard on-failure artifacts when the example passes", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "artifacts-"));
+    const recorder = new ArtifactRecorder({ screenshots: "on-failure", trace: "on-failure", dir });
+    const { page, tracing } = createPage(true);
+
+    await recorder.startExample(page, "Valid ticket");
+    const act = stepResult("Act", true);
+    await recorder.afterStep(page, act, 0);
+    const artifacts = await recorder.finishExample(page, true);
+
+    expect(act.screenshotPath).toBeUndefined();
+    expect(page.screenshot).not.toHaveBeenCalled();
+    expect(tracing.stop).toHaveBeenCalledWith(undefined);
+    expect(artifacts).toBeUndefined();
+  });
+
+  it("should skip trace and video on pages without a Playwright context", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "artifacts-"));
+    const recorder = new ArtifactRecorder({ screenshots: "off", trace: "always", video: "always", dir });
+    const { page } = createPage(false);
+
+    await recorder.startExample(page, "Valid ticket");
+    const artifacts = await recorder.finishExample(page, false);
+
+    expect(artifacts?.tracePath).toBeUndefined();
+    expect(artifacts?.videoPath).toBeUndefined();
+  });
+
+  it("should record nothing when every mode is off", async () => {
+    const recorder = new ArtifactRecorder({ screenshots: "off" });
+    const { page } = createPage(true);
+
+    expect(recorder.enabled).toBe(false);
+    await recorder.startExample(page, "Valid ticket");
+    expect(await recorder.finishExample(page, false)).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { executeAwaitStep, parseAwaitTimeout } from "../index";
+import type { SpecStep } from "../types";
+
+function createMockPage(bodyTexts: string[], url = "http://localhost:3000/exports") {
+  let call = 0;
+  return {
+    url: vi.fn(() => url),
+    title: vi.fn(async () => "Exports"),
+    waitForLoadState: vi.fn(async () => undefined),
+    evaluate: vi.fn(async (fn: (text: string) => boolean, text: string) => {
+      const body = bodyTexts[Math.min(call++, bodyTexts.length - 1)];
+      return body.includes(text);
+    }),
+  } as any;
+}
+
+function makeAwaitStep(instruction: string): SpecStep {
+  return { type: "Await", instruction };
+}
+
+describe("parseAwaitTimeout", () => {
+  it("should return the instruction unchanged when no timeout suffix is present", () => {
+    expect(parseAwaitTimeout("The export finishes")).toEqual({ condition: "The export finishes" });
+  });
+
+  it("should parse seconds, milliseconds and minutes", () => {
+    expect(parseAwaitTimeout("The export finishes (timeout: 60s)")).toEqual({ condition: "The export finishes", timeoutMs: 60_000 });
+    expect(parseAwaitTimeout("The export finishes (timeout 500ms)")).toEqual({ condition: "The export finishes", timeoutMs: 500 });
+    expect(parseAwaitTimeout("The export finishes (timeout: 2m)")).toEqual({ condition: "The export finishes", timeoutMs: 120_000 });
+  });
+});
+
+describe("executeAwaitStep", () => {
+  it("should poll deterministically until quoted text appears", async () => {
+    const page = createMockPage(["Processing...", "Processing...", "Export ready"]);
+    const tester = { waitFor: vi.fn() } as any;
+
+    const result = await executeAwaitStep(makeAwaitStep('The text "Export ready" appears'), page, tester, { pollIntervalMs: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.awaitResult?.strategy).toBe("deterministic");
+    expect(result.awaitResult?.polls).toBe(3);
+    expect(tester.waitFor).not.toHaveBeenCalled();
+  });
+
+  it("should wait for quoted text to disappear", async () => {
+    const page = createMockPage(["Loading", "Done"]);
+    const tester = { waitFor: vi.fn() } as any;
+
+    const result = await executeAwaitStep(makeAwaitStep('The text "Loading" no longer appears'), page, tester, { pollIntervalMs: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.awaitResult?.polls).toBe(2);
+  });
+
+  it("should time out with the last observed value when the condition never holds", async () => {
+    const page = createMockPage(["Processing..."]);
+    const tester = { waitFor: vi.fn() } as any;
+
+    const result = await executeAwaitStep(
+      makeAwaitStep('The text "Export ready" appears (timeout: 20ms)'), page, tester, { pollIntervalMs: 5 },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.awaitResult?.timeout).toBe(20);
+    expect(result.awaitResult?.polls).toBeGreaterThan(1);
+    expect(result.awaitResult?.error).toContain("Timed out after 20ms");
+    expect(result.awaitResult?.error).toContain('Text "Export ready" not on page');
+  });
+
+  it("should poll deterministic check patterns such as URL contains", async () => {
+    const page = createMockPage([""], "http://localhost:3000/exports/42/done");
+    const tester = { waitFor: vi.fn() } as any;
+
+    const result = await executeAwaitStep(makeAwaitStep("URL contains /done"), page, tester, { pollIntervalMs: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.awaitResult?.strategy).toBe("deterministic");
+    expect(result.awaitResult?.actual).toBe("http://localhost:3000/exports/42/done");
+  });
+
+  it("should delegate semantic conditions to Tester.waitFor with the configured timeout", async () => {
+    const page = createMockPage([""]);
+    const tester = { waitFor: vi.fn(async () => true) } as any;
+
+    const result = await executeAwaitStep(makeAwaitStep("The background job completes"), page, tester, { timeoutMs: 5000 });
+
+    expect(result.success).toBe(true);
+    expect(result.awaitResult?.strategy).toBe("semantic");
+    expect(result.awaitResult?.timeout).toBe(5000);
+    expect(tester.waitFor).toHaveBeenCalledWith("The background job completes", expect.any(Number));
+    expect(tester.waitFor.mock.calls[0][1]).toBeLessThanOrEqual(5000);
+  });
+
+  it("should report a semantic timeout as a failed await", async () => {
+    const page = createMockPage([""]);
+    const tester = { waitFor: vi.fn(async () => { throw new Error('Timeout waiting for condition: "x" after 100ms'); }) } as any;
+
+    const result = await executeAwaitStep(makeAwaitStep("The background job completes"), page, tester, { timeoutMs: 100 });
+
+    expect(result.success).toBe(false);
+    expect(result.awaitResult?.error).toContain("Timeout waiting for condition");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { loadBehaviors, loadBehaviorDirectory, parseBehaviorFile, parseHarborBehaviorsWithDependencies } from "../index";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const APP_DIR = path.resolve(__dirname, "..", "..", "..", "test-fixtures", "customer-feedback-app");
+
+describe("parseBehaviorFile", () => {
+  const content = `# Add Reply
+
+Agents can reply to tickets.
+
+## Page Context
+
+This behavior is part of the **Ticket Detail Page** at \`/tickets/:id\`.
+
+## Dependencies
+
+This behavior requires the following to be implemented first:
+
+1. **sign-up**: User creates a new account
+2. **create-ticket**
+
+## Rules
+
+### Reply Added
+- When:
+  - User submits a reply
+- Then:
+  - Reply appears in the thread
+
+## Examples
+
+### User adds a reply
+
+#### Steps
+* Act: Type "Thanks" into the reply field
+* Check: URL contains /tickets
+`;
+
+  it("should parse title, description and page path", () => {
+    const behavior = parseBehaviorFile(content);
+
+    expect(behavior.id).toBe("add-reply");
+    expect(behavior.title).toBe("Add Reply");
+    expect(behavior.description).toBe("Agents can reply to tickets.");
+    expect(behavior.pagePath).toBe("/tickets/:id");
+  });
+
+  it("should parse bold-id dependencies with optional scenario targeting", () => {
+    const behavior = parseBehaviorFile(content);
+
+    expect(behavior.dependencies).toEqual([
+      { behaviorId: "sign-up", scenarioName: "User creates a new account" },
+      { behaviorId: "create-ticket" },
+    ]);
+  });
+
+  it("should parse rules and examples with file line numbers", () => {
+    const behavior = parseBehaviorFile(content, "reply");
+
+    expect(behavior.id).toBe("reply");
+    expect(behavior.rules).toEqual([
+      { name: "Reply Added", when: ["User submits a reply"], then: ["Reply appears in the thread"], lineNumber: 18 },
+    ]);
+    expect(behavior.examples).toHaveLength(1);
+    expect(behavior.examples[0].steps[1]).toMatchObject({ type: "Check", checkType: "deterministic", lineNumber: 30 });
+  });
+});
+
+describe("loadBehaviorDirectory", () => {
+  it("should load every behavior ordered by prd.json priority", async () => {
+    const behaviors = await loadBehaviorDirectory(APP_DIR);
+    const ids = [...behaviors.keys()];
+
+    expect(ids).toHaveLength(14);
+    expect(ids.slice(0, 4)).toEqual(["sign-up", "sign-in", "sign-out", "create-survey"]);
+    expect(behaviors.get("create-survey")!.priority).toBe(5);
+    expect(behaviors.get("create-survey")!.sourceFile).toMatch(/behaviors[\\/][\w-]+\.md$/);
+  });
+
+  it("should match the single-file instruction.md on dependencies and page paths", async () => {
+    const fromDir = await loadBehaviorDirectory(APP_DIR);
+    const fromFile = parseHarborBehaviorsWithDependencies(await readFile(path.join(APP_DIR, "instruction.md"), "utf-8"));
+
+    for (const [id, behavior] of fromFile) {
+      const loaded = fromDir.get(id);
+      expect(loaded, `Missing behavior: ${id}`).toBeDefined();
+      expect(loaded!.dependencies).toEqual(behavior.dependencies);
+      expect(loaded!.pagePath).toBe(behavior.pagePath);
+      expect(loaded!.examples.map(e => e.name)).toEqual(behavior.examples.map(e => e.name));
+    }
+  });
+
+  it("should accept the behaviors folder itself", async () => {
+    const behaviors = await loadBehaviorDirectory(path.join(APP_DIR, "behaviors"));
+
+    expect(behaviors.size).toBe(14);
+    expect(behaviors.get("sign-in")!.examples).toHaveLength(2);
+  });
+});
+
+describe("loadBehaviors", () => {
+  it("should dispatch on file vs directory", async () => {
+    const fromFile = await loadBehaviors(path.join(APP_DIR, "instruction.md"));
+    const fromDir = await loadBehaviors(APP_DIR);
+
+    expect([...fromDir.keys()].sort()).toEqual([...fromFile.keys()].sort());
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  BudgetGuard, BudgetExceededError, UsageTracker, instrumentStagehand, instrumentTester,
+  aggregateScenarioResults, createVerificationSummary, notRunResult, executeAwaitStep,
+} from "../index";
+import { Tester } from "../../b-test";
+import type { LlmCall, ScenarioContext } from "../types";
+
+const call: LlmCall = { operation: "act", model: "gpt-4.1-mini", inputTokens: 1000, outputTokens: 250, latencyMs: 500 };
+
+describe("BudgetGuard", () => {
+  it("should report the first limit reached", () => {
+    const guard = new BudgetGuard({ maxCalls: 2, maxTokens: 10_000 });
+    guard.charge(call, 0.001);
+    expect(guard.exhausted).toBe(false);
+
+    guard.charge(call, 0.001);
+    expect(guard.exhausted).toBe(true);
+    expect(guard.reason).toBe("LLM budget exhausted: 2/2 calls");
+  });
+
+  it("should enforce token and cost limits", () => {
+    const tokens = new BudgetGuard({ maxTokens: 1000 });
+    tokens.charge(call, 0);
+    expect(tokens.reason).toBe("LLM budget exhausted: 1250/1000 tokens");
+
+    const cost = new BudgetGuard({ maxCost: 0.01 });
+    cost.charge(call, 0.02);
+    expect(cost.reason).toBe("LLM budget exhausted: $0.0200/$0.01 estimated cost");
+  });
+
+  it("should throw and count refusals once exhausted", () => {
+    const guard = new BudgetGuard({ maxCalls: 1 });
+    expect(() => guard.assertAvailable()).not.toThrow();
+    guard.charge(call, 0);
+
+    expect(() => guard.assertAvailable()).toThrow(BudgetExceededError);
+    expect(guard.refusals).toBe(1);
+  });
+});
+
+describe("budgeted instrumentation", () => {
+  it("should charge recorded calls and refuse Stagehand calls once exhausted", async () => {
+    const guard = new BudgetGuard({ maxCalls: 1 });
+    const tracker = new UsageTracker({}, guard);
+    const act = vi.fn(async () => ({ success: true }));
+    const stagehand = { act, updateMetrics: vi.fn(), llmClient: { modelName: "openai/gpt-4.1-mini" } } as any;
+    instrumentStagehand(stagehand, tracker);
+
+    await stagehand.act("Click Save");
+    stagehand.updateMetrics("ACT", 1000, 250, 0, 0, 500);
+
+    await expect(stagehand.act("Click Save")).rejects.toThrow("LLM budget exhausted: 1/1 calls");
+    expect(act).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refuse Tester.assert once exhausted", async () => {
+    const guard = new BudgetGuard({ maxCalls: 0 });
+    const assert = vi.fn(async () => true);
+    const tester = { onUsage: vi.fn(), assert } as any;
+    instrumentTester(tester, new UsageTracker({}, guard));
+
+    await expect(tester.assert("The ticket appears")).rejects.toThrow(BudgetExceededError);
+    expect(assert).not.toHaveBeenCalled();
+  });
+
+  it("should stop a semantic Await at once when the budget is exhausted", async () => {
+    const guard = new BudgetGuard({ maxCalls: 0 });
+    const page = { content: vi.fn(async () => "<p>Exporting</p>"), url: () => "http://localhost:3000/exports" } as any;
+    const tester = new Tester(page, {} as any);
+    instrumentTester(tester, new UsageTracker({}, guard));
+
+    const result = await executeAwaitStep({ type: "Await", instruction: "The export finishes (timeout: 10s)" }, page, tester);
+
+    // One refusal is what marks the example budgetExceeded (behavior status budget_exceeded)
+    expect(result.success).toBe(false);
+    expect(result.awaitResult?.error).toBe("LLM budget exhausted: 0/0 calls");
+    expect(result.duration).toBeLessThan(1000);
+    expect(guard.refusals).toBe(1);
+  });
+});
+
+describe("budget results", () => {
+  const scenario = (status: ScenarioContext["status"], error?: string): ScenarioContext =>
+    ({ scenarioName: status, status, error, duration: 1 });
+
+  it("should rank fail over budget_exceeded over dependency_failed", () => {
+    const cutOff = aggregateScenarioResults("a", "A", [scenario("pass"), scenario("budget_exceeded", "LLM budget exhausted: 3/3 calls")]);
+    expect(cutOff).toMatchObject({ status: "budget_exceeded", error: "LLM budget exhausted: 3/3 calls" });
+
+    expect(aggregateScenarioResults("a", "A", [scenario("budget_exceeded"), scenario("fail")]).status).toBe("fail");
+    expect(aggregateScenarioResults("a", "A", [scenario("dependency_failed"), scenario("budget_exceeded")]).status).toBe("budget_exceeded");
+  });
+
+  it("should report which behaviors were cut off and which were not run", () => {
+    const summary = createVerificationSummary([
+      { behaviorId: "sign-up", behaviorName: "Sign Up", status: "pass", duration: 1 },
+      { behaviorId: "create-ticket", behaviorName: "Create Ticket", status: "budget_exceeded", error: "LLM budget exhausted: 3/3 calls", duration: 1 },
+      notRunResult("close-ticket", "Close Ticket"),
+    ], 3);
+
+    expect(summary.budgetExceeded).toEqual({ reason: "LLM budget exhausted: 3/3 calls", cutOff: ["create-ticket"], notRun: ["close-ticket"] });
+    expect(summary.summary).toContain("1 cut off by the LLM budget");
+    expect(summary.summary).toContain("1 not run");
+    expect(summary.reward).toBeCloseTo(1 / 3);
+  });
+});
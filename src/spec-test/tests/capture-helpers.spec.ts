@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { executeCaptureStep, parseCaptureInstruction, interpolateVariables, interpolateStep } from "../index";
+import type { SpecStep } from "../types";
+
+function createMockPage(url = "http://localhost:3000/tickets/1042", elementValue: string | null = "  #1042  ") {
+  return {
+    url: vi.fn(() => url),
+    evaluate: vi.fn(async () => elementValue),
+  } as any;
+}
+
+function createMockStagehand(value?: string) {
+  return { extract: vi.fn(async () => ({ value })) } as any;
+}
+
+function makeCaptureStep(instruction: string): SpecStep {
+  return { type: "Capture", instruction };
+}
+
+describe("parseCaptureInstruction", () => {
+  it("should split the source from the variable name", () => {
+    expect(parseCaptureInstruction("the ticket number shown in the header as {ticketId}")).toEqual({
+      source: "the ticket number shown in the header",
+      variable: "ticketId",
+    });
+  });
+
+  it("should return null without an `as {name}` suffix", () => {
+    expect(parseCaptureInstruction("the ticket number")).toBeNull();
+  });
+});
+
+describe("interpolateVariables", () => {
+  it("should replace known variables and leave unknown ones untouched", () => {
+    expect(interpolateVariables("Click ticket {ticketId} in {queue}", { ticketId: "1042" })).toBe("Click ticket 1042 in {queue}");
+  });
+});
+
+describe("interpolateStep", () => {
+  it("should re-classify interpolated checks", () => {
+    const step: SpecStep = { type: "Check", instruction: "URL contains /tickets/{ticketId}", checkType: "deterministic" };
+    expect(interpolateStep(step, { ticketId: "1042" })).toEqual({
+      type: "Check", instruction: "URL contains /tickets/1042", checkType: "deterministic",
+    });
+  });
+
+  it("should keep the target of a re-capture intact", () => {
+    const step = makeCaptureStep('text of "#ticket-{ticketId} .status" as {ticketId}');
+    expect(interpolateStep(step, { ticketId: "7" }).instruction).toBe('text of "#ticket-7 .status" as {ticketId}');
+  });
+});
+
+describe("executeCaptureStep", () => {
+  it("should read selector text without calling extract()", async () => {
+    const page = createMockPage();
+    const stagehand = createMockStagehand();
+
+    const result = await executeCaptureStep(makeCaptureStep('text of "h1 .ticket-number" as {ticketId}'), page, stagehand);
+
+    expect(result.success).toBe(true);
+    expect(result.captureResult).toEqual({
+      variable: "ticketId", source: 'text of "h1 .ticket-number"', strategy: "deterministic", value: "#1042",
+    });
+    expect(stagehand.extract).not.toHaveBeenCalled();
+  });
+
+  it("should read URL path segments", async () => {
+    const result = await executeCaptureStep(makeCaptureStep("URL path segment 2 as {ticketId}"), createMockPage(), createMockStagehand());
+    expect(result.captureResult?.value).toBe("1042");
+  });
+
+  it("should fail when the selector matches nothing", async () => {
+    const page = createMockPage(undefined, null);
+    const result = await executeCaptureStep(makeCaptureStep('value of "#missing" as {x}'), page, createMockStagehand());
+
+    expect(result.success).toBe(false);
+    expect(result.captureResult?.error).toContain("Nothing to capture");
+  });
+
+  it("should fall back to stagehand.extract() for natural-language sources", async () => {
+    const stagehand = createMockStagehand("1042");
+
+    const result = await executeCaptureStep(
+      makeCaptureStep("the ticket number shown in the header as {ticketId}"), createMockPage(), stagehand,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.captureResult).toMatchObject({ strategy: "extract", value: "1042" });
+    expect(stagehand.extract.mock.calls[0][0]).toContain("the ticket number shown in the header");
+  });
+
+  it("should fail when extract() returns nothing", async () => {
+    const result = await executeCaptureStep(makeCaptureStep("the ticket number as {ticketId}"), createMockPage(), createMockStagehand(""));
+
+    expect(result.success).toBe(false);
+    expect(result.captureResult?.error).toContain("found no value");
+  });
+
+  it("should reject instructions without a variable", async () => {
+    const result = await executeCaptureStep(makeCaptureStep("the ticket number"), createMockPage(), createMockStagehand());
+
+    expect(result.success).toBe(false);
+    expect(result.captureResult?.error).toContain('as {variableName}');
+  });
+});
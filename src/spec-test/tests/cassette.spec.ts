@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { generateText } from "ai";
+import { Cassette, CassetteMissError, cassetteKey, recordLanguageModel, recordStagehandClient } from "../index";
+
+function fakeModel(texts: string[]) {
+  const doGenerate = vi.fn(async () => ({
+    content: [{ type: "text" as const, text: texts.shift() ?? "" }],
+    finishReason: "stop" as const,
+    usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+    warnings: [],
+  }));
+  return { specificationVersion: "v2" as const, provider: "test", modelId: "gpt-4o-mini", supportedUrls: {}, doGenerate, doStream: vi.fn() };
+}
+
+function fakeStagehand() {
+  const createChatCompletion = vi.fn(async () => ({ data: { found: true }, usage: { prompt_tokens: 100, completion_tokens: 5, total_tokens: 105 } }));
+  return { stagehand: { llmClient: { modelName: "openai/gpt-4.1-mini", createChatCompletion } } as any, createChatCompletion };
+}
+
+const chat = (email: string, requestId: string) => ({
+  logger: () => {},
+  options: {
+    messages: [{ role: "user" as const, content: `Fill ${email}` }],
+    response_model: { name: "Extraction", schema: {} },
+    requestId,
+  },
+});
+
+describe("Cassette", () => {
+  let dir: string;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should record Tester model responses and replay them without calling the model", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "cassette-"));
+    const live = fakeModel(["true — the ticket is listed"]);
+    const recorded = await generateText({ model: recordLanguageModel(live, new Cassette({ dir, mode: "record" })), prompt: "Is the ticket listed?" });
+
+    const offline = fakeModel([]);
+    const replayed = await generateText({ model: recordLanguageModel(offline, new Cassette({ dir, mode: "replay" })), prompt: "Is the ticket listed?" });
+
+    expect(recorded.text).toBe("true — the ticket is listed");
+    expect(replayed.text).toBe(recorded.text);
+    expect(replayed.usage.inputTokens).toBe(10);
+    expect(offline.doGenerate).not.toHaveBeenCalled();
+    expect(readdirSync(dir)).toHaveLength(1);
+  });
+
+  it("should replay repeated prompts in recorded order", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "cassette-"));
+    const record = recordLanguageModel(fakeModel(["false", "true"]), new Cassette({ dir, mode: "record" }));
+    await generateText({ model: record, prompt: "Is it saved?" });
+    await generateText({ model: record, prompt: "Is it saved?" });
+
+    const replay = recordLanguageModel(fakeModel([]), new Cassette({ dir, mode: "replay" }));
+    const texts = [];
+    for (let i = 0; i < 3; i++) texts.push((await generateText({ model: replay, prompt: "Is it saved?" })).text);
+
+    expect(texts).toEqual(["false", "true", "true"]);
+  });
+
+  it("should fail loudly on a prompt that was never recorded", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "cassette-"));
+    const model = recordLanguageModel(fakeModel([]), new Cassette({ dir, mode: "replay" }));
+
+    await expect(generateText({ model, prompt: "Unrecorded", maxRetries: 0 })).rejects.toThrow(CassetteMissError);
+  });
+
+  it("should record Stagehand's model client and replay it with a different request id and generated email", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "cassette-"));
+    const live = fakeStagehand();
+    recordStagehandClient(live.stagehand, new Cassette({ dir, mode: "record" }));
+    await live.stagehand.llmClient.createChatCompletion(chat("user_482913@test.com", "req-1"));
+
+    const offline = fakeStagehand();
+    recordStagehandClient(offline.stagehand, new Cassette({ dir, mode: "replay" }));
+    const response = await offline.stagehand.llmClient.createChatCompletion(chat("user_771204@test.com", "req-2"));
+
+    expect(response).toEqual({ data: { found: true }, usage: { prompt_tokens: 100, completion_tokens: 5, total_tokens: 105 } });
+    expect(offline.createChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it("should refuse per-call model overrides, which would bypass the cassette", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "cassette-"));
+    const act = vi.fn(async () => ({ success: true }));
+    const { stagehand } = fakeStagehand();
+    stagehand.act = act;
+    recordStagehandClient(stagehand, new Cassette({ dir, mode: "record" }));
+
+    await stagehand.act("Click Save", { timeout: 5000 });
+    await expect(stagehand.act("Click Save", { model: "openai/gpt-4o" })).rejects.toThrow("per-call model is not supported with a cassette");
+    expect(act).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("cassetteKey", () => {
+  it("should ignore key order and separate kinds and models", () => {
+    const key = cassetteKey("stagehand", "gpt-4.1-mini", { a: 1, b: 2 });
+
+    expect(cassetteKey("stagehand", "gpt-4.1-mini", { b: 2, a: 1 })).toBe(key);
+    expect(cassetteKey("language-model", "gpt-4.1-mini", { a: 1, b: 2 })).not.toBe(key);
+    expect(cassetteKey("stagehand", "gpt-4o", { a: 1, b: 2 })).not.toBe(key);
+  });
+});
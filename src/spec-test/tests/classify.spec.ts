@@ -34,8 +34,24 @@ describe("classifyCheck", () => {
     );
   });
 
-  it('should classify "Checkbox is checked" as deterministic', () => {
-    expect(classifyCheck("Checkbox is checked")).toBe("deterministic");
+  it('should leave "Checkbox is checked" without a target to the semantic path', () => {
+    expect(classifyCheck("Checkbox is checked")).toBe("semantic");
+  });
+
+  it("should classify the extended DSL forms as deterministic", () => {
+    expect(classifyCheck("URL matches /\\/tickets\\/\\d+/")).toBe("deterministic");
+    expect(classifyCheck('URL query param "q" is "shoes"')).toBe("deterministic");
+    expect(classifyCheck('Element count of ".row" is at least 3')).toBe("deterministic");
+    expect(classifyCheck('Input value of "#email" is "a@b.c"')).toBe("deterministic");
+    expect(classifyCheck('Checkbox "Remember me" is unchecked')).toBe("deterministic");
+    expect(classifyCheck('Attribute "href" of "a.logo" is "/"')).toBe("deterministic");
+    expect(classifyCheck('Element "#save" is disabled')).toBe("deterministic");
+    expect(classifyCheck("Text matches /Order #\\d+/")).toBe("deterministic");
+  });
+
+  it("should keep prose that starts like a DSL form semantic", () => {
+    expect(classifyCheck("Text matches the expected format")).toBe("semantic");
+    expect(classifyCheck("Element for the header is visible")).toBe("semantic");
   });
 
   it('should classify "Error message is displayed" as semantic', () => {
@@ -54,6 +54,14 @@ describe('CredentialTracker', () => {
     expect(email1).not.toBe(email2);
   });
 
+  it('tags emails with the worker id so parallel workers never collide', () => {
+    const worker1 = new CredentialTracker(1);
+    const worker2 = new CredentialTracker(2);
+
+    expect(worker1.uniquifyEmail('user@test.com')).toMatch(/^user_\d+_w1@test\.com$/);
+    expect(worker2.uniquifyEmail('user@test.com')).toMatch(/^user_\d+_w2@test\.com$/);
+  });
+
   it('captures and injects credentials correctly', () => {
     const tracker = new CredentialTracker();
 
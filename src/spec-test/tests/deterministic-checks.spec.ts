@@ -0,0 +1,271 @@
+import { describe, it, expect, vi } from "vitest";
+import { executeDeterministicCheck, hasDeterministicHandler } from "../index";
+
+interface MockElement {
+  visible?: boolean;
+  enabled?: boolean;
+  value?: string | null;
+  text?: string;
+  attributes?: Record<string, string>;
+}
+
+interface MockPageOptions {
+  url?: string;
+  title?: string;
+  bodyText?: string;
+  elements?: Record<string, MockElement[]>;
+  checkboxes?: Array<{ label: string; checked: boolean }>;
+}
+
+/** Mock page whose evaluate() answers the element, checkbox and body-text reads by argument shape. */
+function createMockPage(options: MockPageOptions = {}) {
+  return {
+    url: vi.fn(() => options.url ?? "http://localhost:3000/"),
+    title: vi.fn(async () => options.title ?? ""),
+    evaluate: vi.fn(async (_fn: unknown, arg?: unknown) => {
+      if (arg === undefined) return options.bodyText ?? "";
+      if (typeof arg === "string") {
+        return (options.checkboxes ?? []).filter(b => b.label.toLowerCase().includes(arg.toLowerCase()));
+      }
+
+      const { selector, attribute } = arg as { selector: string; attribute: string | null };
+      if (selector.startsWith("[[")) return { invalid: true, elements: [] };
+      const elements = (options.elements?.[selector] ?? []).map(el => ({
+        visible: el.visible ?? true,
+        enabled: el.enabled ?? true,
+        value: el.value ?? null,
+        text: el.text ?? "",
+        attribute: attribute ? el.attributes?.[attribute] ?? null : null,
+      }));
+      return { invalid: false, elements };
+    }),
+  } as any;
+}
+
+describe("executeDeterministicCheck", () => {
+  describe("URL", () => {
+    it("should match URL against a regex literal", async () => {
+      const page = createMockPage({ url: "http://localhost:3000/tickets/42" });
+
+      const result = await executeDeterministicCheck("URL matches /\\/tickets\\/\\d+$/", page);
+
+      expect(result.passed).toBe(true);
+      expect(result.expected).toBe("/\\/tickets\\/\\d+$/");
+      expect(result.actual).toBe("/tickets/42");
+    });
+
+    it("should compare query param values", async () => {
+      const page = createMockPage({ url: "http://localhost:3000/search?q=shoes&page=2" });
+
+      const pass = await executeDeterministicCheck('URL query param "q" is "shoes"', page);
+      const fail = await executeDeterministicCheck('URL query param "page" is "1"', page);
+
+      expect(pass.passed).toBe(true);
+      expect(fail.passed).toBe(false);
+      expect(fail.expected).toBe("page=1");
+      expect(fail.actual).toBe("page=2");
+    });
+
+    it("should check query param presence and absence", async () => {
+      const page = createMockPage({ url: "http://localhost:3000/search?q=shoes" });
+
+      expect((await executeDeterministicCheck('URL has query param "q"', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('URL has no query param "q"', page)).passed).toBe(false);
+    });
+
+    it("should strip surrounding quotes from the expected value", async () => {
+      const page = createMockPage({ title: "Dashboard" });
+
+      const result = await executeDeterministicCheck("Page title is 'Dashboard'", page);
+
+      expect(result.passed).toBe(true);
+      expect(result.expected).toBe("Dashboard");
+    });
+  });
+
+  describe("Element count", () => {
+    const page = createMockPage({ elements: { ".ticket-row": [{}, {}, {}] } });
+
+    it("should compare exact counts with precise expected/actual", async () => {
+      const result = await executeDeterministicCheck('Element count of ".ticket-row" is 2', page);
+
+      expect(result.passed).toBe(false);
+      expect(result.expected).toBe('".ticket-row" count = 2');
+      expect(result.actual).toBe('".ticket-row" count = 3');
+    });
+
+    it("should support comparators and the trailing selector form", async () => {
+      expect((await executeDeterministicCheck('Element count of ".ticket-row" is at least 3', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Element count of ".ticket-row" is fewer than 3', page)).passed).toBe(false);
+      expect((await executeDeterministicCheck('Element count is 3 for ".ticket-row"', page)).passed).toBe(true);
+    });
+  });
+
+  describe("Input value", () => {
+    const page = createMockPage({
+      elements: {
+        "#email": [{ value: "test@example.com" }],
+        "input, textarea, select": [{ value: "test@example.com" }, { value: "" }],
+      },
+    });
+
+    it("should read the value of a specific input", async () => {
+      const result = await executeDeterministicCheck('Input value of "#email" is "other@example.com"', page);
+
+      expect(result.passed).toBe(false);
+      expect(result.expected).toBe("other@example.com");
+      expect(result.actual).toBe("test@example.com");
+    });
+
+    it("should find a matching value in any input when no selector is given", async () => {
+      const result = await executeDeterministicCheck("Input value is 'test@example.com'", page);
+
+      expect(result.passed).toBe(true);
+    });
+  });
+
+  describe("Checkbox", () => {
+    const page = createMockPage({
+      checkboxes: [{ label: "Remember me", checked: true }, { label: "Subscribe", checked: false }],
+    });
+
+    it("should check a checkbox by label", async () => {
+      expect((await executeDeterministicCheck('Checkbox "Remember me" is checked', page)).passed).toBe(true);
+
+      const result = await executeDeterministicCheck('Checkbox "Subscribe" is checked', page);
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe("Subscribe: unchecked");
+    });
+
+    it("should support unchecked and not checked", async () => {
+      expect((await executeDeterministicCheck('Checkbox "Subscribe" is unchecked', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Checkbox "Remember me" is not checked', page)).passed).toBe(false);
+    });
+
+    it("should fail when no checkbox matches the target", async () => {
+      const result = await executeDeterministicCheck('Checkbox "Terms" is checked', page);
+
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe('no checkbox "Terms" found');
+    });
+
+    it("should not pass an untargeted check because some other checkbox is checked", async () => {
+      const result = await executeDeterministicCheck("Checkbox is checked", page);
+
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe("Unrecognized check pattern");
+    });
+  });
+
+  describe("Attributes and element state", () => {
+    const page = createMockPage({
+      elements: {
+        "#save": [{ enabled: false, text: "Save changes", attributes: { "aria-label": "Save" } }],
+        ".toast": [{ visible: false }],
+      },
+    });
+
+    it("should compare attribute values", async () => {
+      expect((await executeDeterministicCheck('Attribute "aria-label" of "#save" is "Save"', page)).passed).toBe(true);
+
+      const missing = await executeDeterministicCheck('Attribute "href" of "#save" is "/x"', page);
+      expect(missing.passed).toBe(false);
+      expect(missing.actual).toBe('attribute "href" not present');
+    });
+
+    it("should check attribute presence", async () => {
+      expect((await executeDeterministicCheck('Element "#save" has attribute "aria-label"', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Element "#save" has no attribute "title"', page)).passed).toBe(true);
+    });
+
+    it("should check enabled and disabled state", async () => {
+      expect((await executeDeterministicCheck('Element "#save" is disabled', page)).passed).toBe(true);
+
+      const result = await executeDeterministicCheck('Element "#save" is enabled', page);
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe('"#save" disabled');
+    });
+
+    it("should check visibility", async () => {
+      expect((await executeDeterministicCheck('Element ".toast" is hidden', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Element ".toast" is not visible', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Element ".missing" is hidden', page)).passed).toBe(true);
+
+      const result = await executeDeterministicCheck('Element ".toast" is visible', page);
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe("0 of 1 matching element(s) visible");
+    });
+
+    it("should check existence", async () => {
+      expect((await executeDeterministicCheck('Element "#save" exists', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Element ".missing" does not exist', page)).passed).toBe(true);
+    });
+
+    it("should report a missing element for first-match reads", async () => {
+      const result = await executeDeterministicCheck('Element ".missing" is enabled', page);
+
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe('no element matches ".missing"');
+    });
+  });
+
+  describe("Text", () => {
+    it("should match page text against a regex", async () => {
+      const page = createMockPage({ bodyText: "Order #12345 confirmed" });
+
+      const result = await executeDeterministicCheck("Text matches /Order #\\d{5}/", page);
+
+      expect(result.passed).toBe(true);
+      expect(result.actual).toBe("Order #12345");
+    });
+
+    it("should compare element text", async () => {
+      const page = createMockPage({ elements: { "h1": [{ text: "Tickets" }] } });
+
+      expect((await executeDeterministicCheck('Element "h1" text is "Tickets"', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Element "h1" text matches /^tick/i', page)).passed).toBe(true);
+      expect((await executeDeterministicCheck('Element "h1" text contains "Projects"', page)).passed).toBe(false);
+    });
+  });
+
+  describe("errors", () => {
+    it("should report an invalid selector as a failed check instead of throwing", async () => {
+      const page = createMockPage();
+
+      const result = await executeDeterministicCheck('Element count of "[[" is 1', page);
+
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe("Deterministic check error: Invalid CSS selector: [[");
+    });
+
+    it("should report an invalid regex as a failed check", async () => {
+      const page = createMockPage();
+
+      const result = await executeDeterministicCheck("URL matches /(unclosed/", page);
+
+      expect(result.passed).toBe(false);
+      expect(result.actual).toContain("Deterministic check error");
+    });
+
+    it("should return unrecognized for prefixes without a complete form", async () => {
+      const result = await executeDeterministicCheck("Element count is 5", createMockPage());
+
+      expect(result.passed).toBe(false);
+      expect(result.actual).toBe("Unrecognized check pattern");
+    });
+  });
+});
+
+describe("hasDeterministicHandler", () => {
+  it("should recognise complete DSL forms", () => {
+    expect(hasDeterministicHandler("URL contains /dashboard")).toBe(true);
+    expect(hasDeterministicHandler('Element ".toast" is visible')).toBe(true);
+    expect(hasDeterministicHandler('Checkbox "Remember me" is checked')).toBe(true);
+  });
+
+  it("should reject semantic phrasing", () => {
+    expect(hasDeterministicHandler("Success notification is displayed")).toBe(false);
+    expect(hasDeterministicHandler("Element count is 5")).toBe(false);
+    expect(hasDeterministicHandler("Checkbox is checked")).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+import { DeterministicRunner, locateTarget, parseActInstruction } from "../deterministic-runner";
+import type { SpecExample } from "../types";
+
+describe("parseActInstruction", () => {
+  it("should resolve fill instructions into a textbox target", () => {
+    expect(parseActInstruction('Type "user@example.com" into the email input field')).toEqual({
+      kind: "fill",
+      target: { name: "email", role: "textbox" },
+      value: "user@example.com",
+    });
+    expect(parseActInstruction("Fill the \"Title\" field with 'Broken printer'")).toEqual({
+      kind: "fill",
+      target: { name: "Title", role: "textbox" },
+      value: "Broken printer",
+    });
+  });
+
+  it("should resolve clicks with a quoted name and an optional role noun", () => {
+    expect(parseActInstruction('Click the "Sign Up" button')).toEqual({ kind: "click", target: { name: "Sign Up", role: "button" } });
+    expect(parseActInstruction("Click on the Settings link.")).toEqual({ kind: "click", target: { name: "Settings", role: "link" } });
+    expect(parseActInstruction('Click "Save"')).toEqual({ kind: "click", target: { name: "Save", role: undefined } });
+  });
+
+  it("should resolve select, check and key presses", () => {
+    expect(parseActInstruction('Select "High" from the priority dropdown')).toEqual({
+      kind: "select",
+      target: { name: "priority", role: "combobox" },
+      option: "High",
+    });
+    expect(parseActInstruction('Uncheck the "Remember me" checkbox')).toEqual({
+      kind: "check",
+      target: { name: "Remember me", role: "checkbox" },
+      checked: false,
+    });
+    expect(parseActInstruction("Press Enter")).toEqual({ kind: "press", key: "Enter" });
+  });
+
+  it("should return null for instructions too loose to act on without a model", () => {
+    expect(parseActInstruction("Click the first ticket in the list")).toBeNull();
+    expect(parseActInstruction("Create a new ticket with a short description")).toBeNull();
+    expect(parseActInstruction("Click Save")).toBeNull();
+  });
+});
+
+describe("DeterministicRunner", () => {
+  function createMockPage(matches: Record<string, number>) {
+    const click = vi.fn();
+    const locator = (key: string) => ({
+      count: vi.fn(async () => matches[key] ?? 0),
+      nth: vi.fn(() => ({ isVisible: vi.fn(async () => true), click, fill: vi.fn() })),
+    });
+    return {
+      click,
+      page: {
+        url: vi.fn(() => "http://localhost:3000/tickets"),
+        getByRole: vi.fn((role: string, { name }: { name: string }) => locator(`${role}:${name}`)),
+        getByText: vi.fn((name: string) => locator(`text:${name}`)),
+        waitForLoadState: vi.fn(),
+      } as any,
+    };
+  }
+
+  const example: SpecExample = {
+    name: "Open settings",
+    steps: [
+      { type: "Act", instruction: 'Click the "Settings" link' },
+      { type: "Act", instruction: "Open the ticket created last" },
+    ],
+  };
+
+  it("should act deterministically and fail unresolvable steps without escalation", async () => {
+    const { page, click } = createMockPage({ "link:Settings": 1 });
+    const runner = new DeterministicRunner({ baseUrl: "http://localhost:3000", verbosity: "silent" });
+    (runner as any).page = page;
+
+    const result = await runner.runExample(example, { clearSession: false });
+
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+    expect(result.steps.map(s => s.resolution)).toEqual(["deterministic", "unresolved"]);
+    expect(result.steps[1].actResult?.error).toContain("Unresolved Act step");
+    expect(result.usage).toBeUndefined();
+  });
+
+  it("should escalate unresolvable steps to the SpecTestRunner in hybrid mode", async () => {
+    const { page } = createMockPage({ "link:Settings": 1 });
+    const runner = new DeterministicRunner({ baseUrl: "http://localhost:3000", verbosity: "silent", hybrid: true });
+    const escalateStep = vi.fn(async (step: any) => ({ step, success: true, duration: 5 }));
+    Object.assign((runner as any).escalation, { escalateStep, markBaseline: vi.fn() });
+    (runner as any).page = page;
+
+    const result = await runner.runExample(example, { clearSession: false });
+
+    expect(result.success).toBe(true);
+    expect(escalateStep).toHaveBeenCalledTimes(1);
+    expect(escalateStep.mock.calls[0][0].instruction).toBe("Open the ticket created last");
+    expect(result.steps.map(s => s.resolution)).toEqual(["deterministic", "escalated"]);
+  });
+});
+
+describe("locateTarget", () => {
+  /** Page whose role/label/text lookups follow Playwright's exact vs. substring matching. */
+  function createPage(buttons: string[]) {
+    const locator = (names: string[]) => ({
+      count: vi.fn(async () => names.length),
+      nth: vi.fn((i: number) => ({ name: names[i], isVisible: vi.fn(async () => true) })),
+    });
+    const matching = (name: string, options: { exact?: boolean } = {}) =>
+      buttons.filter(b => options.exact ? b === name : b.toLowerCase().includes(name.toLowerCase()));
+    return {
+      getByRole: vi.fn((role: string, options: { name: string; exact?: boolean }) =>
+        locator(role === "button" ? matching(options.name, options) : [])),
+      getByText: vi.fn((name: string, options?: { exact?: boolean }) => locator(matching(name, options))),
+      getByLabel: vi.fn(() => locator([])),
+    } as any;
+  }
+
+  it("should match role names exactly before a shared prefix", async () => {
+    const page = createPage(["Save draft", "Save"]);
+
+    expect(await locateTarget(page, { name: "Save", role: "button" })).toMatchObject({ name: "Save" });
+    expect(await locateTarget(page, { name: "Save" })).toMatchObject({ name: "Save" });
+  });
+
+  it("should fall back to a loose match only when it is unique", async () => {
+    expect(await locateTarget(createPage(["Save draft"]), { name: "save" })).toMatchObject({ name: "Save draft" });
+    expect(await locateTarget(createPage(["Save draft", "Save as template"]), { name: "Save" })).toBeNull();
+  });
+});
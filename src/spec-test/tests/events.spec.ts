@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { RunEventEmitter, attachConsoleSubscriber, attachNdjsonSubscriber, formatEvent } from "../index";
+import type { RunEvent } from "../types";
+
+const step = { type: "Check" as const, instruction: "The ticket appears", checkType: "semantic" as const };
+
+function emitSample(emitter: RunEventEmitter): void {
+  emitter.emit("behaviorStart", { behaviorId: "create-ticket", behaviorName: "Create Ticket", phase: "non-auth" });
+  emitter.emit("stepStart", { exampleName: "Valid ticket", step, stepIndex: 0, totalSteps: 1 });
+  emitter.emit("oracleDecision", { instruction: step.instruction, oracle: "b-test", passed: true });
+  emitter.log("runStep", "Detail", "debug");
+  emitter.log("runStep", "Progress");
+}
+
+describe("RunEventEmitter", () => {
+  it("should deliver typed events with a timestamp to type and catch-all listeners", () => {
+    const emitter = new RunEventEmitter();
+    const byType = vi.fn();
+    const all: RunEvent[] = [];
+    emitter.on("chainStep", byType);
+    emitter.onAny(e => all.push(e));
+
+    emitter.emit("chainStep", {
+      targetId: "create-ticket", behaviorId: "sign-up", scenarioName: "Valid sign up", index: 0, length: 2, steps: 4, email: "a@b.c",
+    });
+    emitter.log("test", "hello");
+
+    expect(byType).toHaveBeenCalledTimes(1);
+    expect(byType.mock.calls[0][0]).toMatchObject({ type: "chainStep", behaviorId: "sign-up", timestamp: expect.any(Number) });
+    expect(all.map(e => e.type)).toEqual(["chainStep", "log"]);
+  });
+
+  it("should keep running when a listener throws and stop delivering after unsubscribe", () => {
+    const emitter = new RunEventEmitter();
+    const listener = vi.fn();
+    emitter.onAny(() => { throw new Error("boom"); });
+    const off = emitter.onAny(listener);
+
+    expect(() => emitter.log("test", "one")).not.toThrow();
+    off();
+    emitter.log("test", "two");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("attachConsoleSubscriber", () => {
+  const linesAt = (verbosity: "silent" | "normal" | "verbose") => {
+    const emitter = new RunEventEmitter();
+    const lines: string[] = [];
+    attachConsoleSubscriber(emitter, { verbosity, write: line => lines.push(line) });
+    emitSample(emitter);
+    return lines;
+  };
+
+  it("should print behavior progress and info logs at normal verbosity", () => {
+    expect(linesAt("normal")).toEqual(["▶ Create Ticket (non-auth)", "[runStep] Progress"]);
+  });
+
+  it("should add steps, oracle decisions and debug logs at verbose", () => {
+    const lines = linesAt("verbose");
+
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toContain("[1/1] Check: The ticket appears");
+    expect(lines[2]).toContain('b-test → pass: "The ticket appears"');
+  });
+
+  it("should print nothing when silent", () => {
+    expect(linesAt("silent")).toEqual([]);
+  });
+});
+
+describe("attachNdjsonSubscriber", () => {
+  let dir: string;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append one JSON object per event and shorten page snapshots", () => {
+    dir = mkdtempSync(path.join(tmpdir(), "events-"));
+    const file = path.join(dir, "logs", "run.ndjson");
+    const emitter = new RunEventEmitter();
+    attachNdjsonSubscriber(emitter, file);
+
+    emitSample(emitter);
+    emitter.emit("stepEnd", {
+      exampleName: "Valid ticket", stepIndex: 0, result: { step, success: true, duration: 12, pageSnapshot: "<html></html>" },
+    });
+
+    const events = readFileSync(file, "utf-8").trim().split("\n").map(line => JSON.parse(line));
+    expect(events.map(e => e.type)).toEqual(["behaviorStart", "stepStart", "oracleDecision", "log", "log", "stepEnd"]);
+    expect(events[5].result.pageSnapshot).toBe("<13 chars>");
+  });
+});
+
+describe("formatEvent", () => {
+  it("should keep the chain log format", () => {
+    const line = formatEvent({
+      type: "chainStep", timestamp: 0,
+      targetId: "close-ticket", behaviorId: "create-ticket", scenarioName: "Valid", index: 1, length: 3, steps: 5,
+      email: "user@test.com", navigateToPath: "/tickets",
+    });
+
+    expect(line).toBe("Chain: create-ticket — 5 steps, email=user@test.com, navigateTo=/tickets");
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { parseFeatureFile, formatFeatureFile, writeFeatureFiles } from "../gherkin";
+import { parseBehaviorFile } from "../parsing";
+import { loadBehaviorDirectory } from "../behavior-loader";
+
+const FEATURE = `@depends-on:sign-up:Valid_sign_up @depends-on:create-project @priority:2 @page:/tickets
+Feature: Create Ticket
+  Users open support tickets.
+
+  Background:
+    Given I navigate to /tickets
+
+  Scenario: Create a ticket
+    When I click the "New Ticket" button
+    And I type "Printer jam" into the title field
+    When Capture: text of ".ticket-id" as {ticketId}
+    Then the ticket "Printer jam" appears in the list
+    But the form is closed
+
+  @smoke
+  Scenario Outline: Create <priority> ticket
+    When I select "<priority>" as the priority
+    Then the ticket shows "<priority>"
+
+    Examples:
+      | priority |
+      | Low      |
+      | High     |
+`;
+
+describe("parseFeatureFile", () => {
+  it("should map the feature, background and Given/When/Then steps", () => {
+    const behavior = parseFeatureFile(FEATURE);
+
+    expect(behavior).toMatchObject({ id: "create-ticket", title: "Create Ticket", description: "Users open support tickets." });
+    const [create] = behavior.examples;
+    expect(create.name).toBe("Create a ticket");
+    expect(create.steps.map(s => [s.type, s.instruction])).toEqual([
+      ["Act", "I navigate to /tickets"],
+      ["Act", 'I click the "New Ticket" button'],
+      ["Act", 'I type "Printer jam" into the title field'],
+      ["Capture", 'text of ".ticket-id" as {ticketId}'],
+      ["Check", 'the ticket "Printer jam" appears in the list'],
+      ["Check", "the form is closed"],
+    ]);
+    expect(create.steps[1].lineNumber).toBe(9);
+  });
+
+  it("should expand Scenario Outlines per Examples row", () => {
+    const outlines = parseFeatureFile(FEATURE).examples.slice(1);
+
+    expect(outlines.map(e => e.name)).toEqual(["Create Low ticket (row 1)", "Create High ticket (row 2)"]);
+    expect(outlines[1].steps[1].instruction).toBe('I select "High" as the priority');
+    expect(outlines[1].outline).toMatchObject({ name: "Create <priority> ticket", row: 2, values: { priority: "High" } });
+    expect(outlines.map(e => e.tags)).toEqual([["smoke"], ["smoke"]]);
+  });
+
+  it("should read dependencies, priority and page path from feature tags", () => {
+    const behavior = parseFeatureFile(FEATURE);
+
+    expect(behavior.dependencies).toEqual([
+      { behaviorId: "sign-up", scenarioName: "Valid sign up" },
+      { behaviorId: "create-project", scenarioName: undefined },
+    ]);
+    expect(behavior.priority).toBe(2);
+    expect(behavior.pagePath).toBe("/tickets");
+  });
+});
+
+describe("formatFeatureFile", () => {
+  it("should round-trip a behavior, folding expanded rows back into the outline", () => {
+    const behavior = parseFeatureFile(FEATURE);
+    const feature = formatFeatureFile(behavior);
+
+    expect(feature).toContain("@depends-on:sign-up:Valid_sign_up @depends-on:create-project @priority:2 @page:/tickets");
+    expect(feature).toContain("  @smoke\n  Scenario Outline: Create <priority> ticket");
+    expect(feature).toContain('    And Capture: text of ".ticket-id" as {ticketId}');
+    expect(feature).toContain("      | High     |");
+
+    const reparsed = parseFeatureFile(feature);
+    expect(reparsed.dependencies).toEqual(behavior.dependencies);
+    expect(reparsed.examples.map(e => [e.name, e.tags])).toEqual(behavior.examples.map(e => [e.name, e.tags]));
+    expect(reparsed.examples.map(e => e.steps.map(s => [s.type, s.instruction])))
+      .toEqual(behavior.examples.map(e => e.steps.map(s => [s.type, s.instruction])));
+  });
+
+  it("should export Epic behaviors with rules and escape scenario names in tags", () => {
+    const behavior = parseBehaviorFile([
+      "# Sign In",
+      "## Dependencies",
+      "1. Sign Up: new_user signs up",
+      "## Rules",
+      "### Invalid Credentials",
+      "- When: User enters a wrong password",
+      "- Then: An error is shown",
+      "## Examples",
+      "### Valid login",
+      "#### Steps",
+      "* Act: Click the \"Sign In\" button",
+      "* Await: Dashboard is loaded",
+      "* Check: Dashboard is shown",
+    ].join("\n"));
+
+    const feature = formatFeatureFile(behavior);
+
+    expect(feature).toContain("@depends-on:sign-up:new%5Fuser_signs_up");
+    expect(feature).toContain("  #   When: User enters a wrong password");
+    expect(feature).toContain("    And Await: Dashboard is loaded");
+
+    const reparsed = parseFeatureFile(feature);
+    expect(reparsed.dependencies).toEqual([{ behaviorId: "sign-up", scenarioName: "new_user signs up" }]);
+    expect(reparsed.rules).toMatchObject([{ name: "Invalid Credentials", when: ["User enters a wrong password"], then: ["An error is shown"] }]);
+    expect(reparsed.examples[0].steps.map(s => s.type)).toEqual(["Act", "Await", "Check"]);
+  });
+});
+
+describe("loadBehaviorDirectory with .feature files", () => {
+  it("should load exported feature files keyed by file name", async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "epic-gherkin-"));
+    try {
+      writeFeatureFiles([parseFeatureFile(FEATURE)], dir);
+
+      const behaviors = await loadBehaviorDirectory(dir);
+
+      expect([...behaviors.keys()]).toEqual(["create-ticket"]);
+      expect(behaviors.get("create-ticket")!.examples).toHaveLength(3);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -12,6 +12,7 @@ import {
   classifyCheck,
   processStepsWithCredentials,
   CredentialTracker,
+  findUncoveredRules,
 } from "../index";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -369,3 +370,31 @@ describe("help-desk-app — credential tracking", () => {
     expect(emailStep!.instruction).toContain("wrong@email.com");
   });
 });
+
+// 8. RULES — #### Rules parsed into When/Then and covered by scenarios
+
+describe("help-desk-app — rules", () => {
+  it("should parse Sign In rules with When/Then clauses", async () => {
+    const behaviors = await loadBehaviors();
+    const rules = behaviors.get("sign-in")!.rules!;
+
+    expect(rules.map(r => r.name)).toEqual(["Invalid Credentials", "Valid Credentials"]);
+    expect(rules[0].when).toEqual(["User enters incorrect credentials"]);
+    expect(rules[0].then).toEqual(["Error message is displayed"]);
+    expect(rules[1].then).toHaveLength(2);
+    expect(rules[0].lineNumber).toBeGreaterThan(0);
+  });
+
+  it("should keep parsing scenarios after the Rules section", async () => {
+    const behaviors = await loadBehaviors();
+
+    expect(behaviors.get("sign-in")!.examples).toHaveLength(2);
+    expect(behaviors.get("search-tickets")!.rules).toHaveLength(1);
+  });
+
+  it("should find every rule exercised by a scenario", async () => {
+    const behaviors = await loadBehaviors();
+
+    expect(findUncoveredRules(behaviors)).toEqual([]);
+  });
+});
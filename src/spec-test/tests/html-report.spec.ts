@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { htmlReporter, specResultToReport, summaryToReport, toScenarioRecord } from "../index";
+import type { ExampleResult, SpecStep, SpecTestResult, VerificationSummary } from "../types";
+
+const act: SpecStep = { type: "Act", instruction: "Click \"Create\"", lineNumber: 12 };
+const check: SpecStep = { type: "Check", instruction: "The ticket appears", checkType: "semantic", lineNumber: 13 };
+
+const failedRun: ExampleResult = {
+  example: { name: "Valid ticket", steps: [act, check] },
+  success: false,
+  duration: 2400,
+  steps: [
+    { step: act, success: true, duration: 900, actResult: { success: true, duration: 900, pageUrl: "http://localhost:3000/tickets" }, pageSnapshot: "<p>after act</p>" },
+    {
+      step: check,
+      success: false,
+      duration: 1500,
+      checkResult: { passed: false, checkType: "semantic", expected: "The ticket appears", actual: "Empty list", reasoning: "No rows in the table" },
+    },
+  ],
+  failedAt: {
+    stepIndex: 1,
+    step: check,
+    context: {
+      pageSnapshot: `<script>alert("x")</script><table></table>`,
+      pageUrl: "http://localhost:3000/tickets",
+      failedStep: check,
+      error: "Empty list",
+      availableElements: [],
+      suggestions: ["Wait for the list to load before checking"],
+    },
+  },
+};
+
+const summary: VerificationSummary = {
+  passed: 0,
+  failed: 1,
+  dependency_failed: 1,
+  total: 2,
+  reward: 0,
+  summary: "",
+  duration: 2400,
+  behaviors: [
+    {
+      behaviorId: "create-ticket",
+      behaviorName: "Create Ticket",
+      status: "fail",
+      duration: 2400,
+      scenarios: [{ scenarioName: "Valid ticket", status: "fail", error: "Empty list", failedStep: check, result: toScenarioRecord(failedRun), duration: 2400 }],
+    },
+    { behaviorId: "close-ticket", behaviorName: "Close Ticket", status: "dependency_failed", failedDependency: "Create Ticket", duration: 0 },
+  ],
+};
+
+describe("htmlReporter", () => {
+  const html = htmlReporter.render(summaryToReport(summary, { file: "spec/create-ticket.md" }));
+
+  it("should render a behavior tree linking to each scenario", () => {
+    expect(html).toContain('<a href="#create-ticket" class="failed">✘ Create Ticket</a>');
+    expect(html).toContain('<a href="#create-ticket--1" class="failed">✘ Valid ticket</a>');
+    expect(html).toContain('<a href="#close-ticket" class="skipped">⊘ Close Ticket</a>');
+  });
+
+  it("should render a step timeline with check reasoning and spec locations", () => {
+    expect(html).toContain("<strong>Act:</strong> Click &quot;Create&quot;");
+    expect(html).toContain("spec/create-ticket.md:13");
+    expect(html).toContain("Reasoning: No rows in the table");
+    expect(html).toContain('<li class="step-failed">');
+  });
+
+  it("should include suggestions but leave snapshots out of summaries", () => {
+    expect(html).toContain("<li>Wait for the list to load before checking</li>");
+    expect(html).not.toContain("<iframe");
+    expect(JSON.stringify(summary)).not.toContain("after act");
+  });
+
+  it("should render a spec run's snapshots in sandboxed iframes with escaped HTML", () => {
+    const specResult: SpecTestResult = {
+      spec: { name: "Tickets", examples: [failedRun.example] },
+      success: false,
+      exampleResults: [failedRun],
+      duration: 2400,
+      steps: failedRun.steps,
+    };
+    const specHtml = htmlReporter.render(specResultToReport(specResult));
+
+    expect(specHtml).toContain('<iframe sandbox="" loading="lazy" srcdoc="&lt;p&gt;after act&lt;/p&gt;"></iframe>');
+    expect(specHtml).toContain('srcdoc="&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;&lt;table&gt;&lt;/table&gt;"');
+    expect(specHtml).not.toContain('<script>');
+  });
+
+  it("should not reference external assets", () => {
+    expect(html).not.toMatch(/<(link|script)\b/);
+    expect(html).not.toMatch(/src="https?:/);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { selectAffectedBehaviors } from "../../shared/impact";
+import { behaviorsChangedSince } from "../changed-behaviors";
+import type { HarborBehavior } from "../types";
+
+function behavior(id: string, dependencies: string[] = []): HarborBehavior {
+  return { id, title: id, dependencies: dependencies.map(behaviorId => ({ behaviorId })), examples: [] };
+}
+
+const behaviors = new Map([
+  behavior("sign-up"),
+  behavior("create-project", ["sign-up"]),
+  behavior("create-ticket", ["create-project"]),
+  behavior("assign-ticket", ["create-ticket"]),
+  behavior("edit-profile", ["sign-up"]),
+].map(b => [b.id, b] as const));
+
+describe("selectAffectedBehaviors", () => {
+  it("should select changed behaviors, their dependents and what those need", () => {
+    const { behaviors: affected, unaffected } = selectAffectedBehaviors(behaviors, ["create-ticket"]);
+
+    expect([...affected.keys()]).toEqual(["sign-up", "create-project", "create-ticket", "assign-ticket"]);
+    expect(unaffected).toEqual(["edit-profile"]);
+  });
+
+  it("should keep everything without changes and nothing when no known behavior changed", () => {
+    expect(selectAffectedBehaviors(behaviors, undefined)).toEqual({ behaviors, unaffected: [] });
+    expect(selectAffectedBehaviors(behaviors, ["deleted-behavior"]).unaffected).toEqual([...behaviors.keys()]);
+  });
+});
+
+describe("behaviorsChangedSince", () => {
+  let dir: string;
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: dir, stdio: "pipe" });
+
+  const instruction = [
+    "# Help Desk",
+    "",
+    "## Behaviors",
+    "### Sign Up",
+    "#### Steps",
+    "* Act: Click Sign Up",
+    "### Create Ticket",
+    "#### Dependencies",
+    "1. Sign Up",
+    "#### Steps",
+    "* Act: Click New Ticket",
+    "",
+    "## Pages",
+  ];
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "epic-impact-"));
+    writeFileSync(path.join(dir, "instruction.md"), instruction.join("\n"));
+    mkdirSync(path.join(dir, "specs/behaviors"), { recursive: true });
+    writeFileSync(path.join(dir, "specs/behaviors/sign-up.md"), "# Sign Up\n## Examples\n### Valid\n#### Steps\n* Act: Click Sign Up\n");
+    git("init", "-q");
+    git("add", "-A");
+    git("commit", "-q", "-m", "specs");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should map changed lines of an instruction.md to behavior sections", async () => {
+    const instructionPath = path.join(dir, "instruction.md");
+    expect(await behaviorsChangedSince(instructionPath)).toEqual([]);
+
+    writeFileSync(instructionPath, instruction.join("\n").replace("Click New Ticket", "Click Create"));
+    expect(await behaviorsChangedSince(instructionPath)).toEqual(["create-ticket"]);
+
+    writeFileSync(instructionPath, ["# Help Desk App", ...instruction.slice(1)].join("\n"));
+    expect(await behaviorsChangedSince(instructionPath)).toEqual(["sign-up", "create-ticket"]);
+  });
+
+  it("should map changed and untracked files of a spec directory to behaviors", async () => {
+    writeFileSync(path.join(dir, "specs/behaviors/create-ticket.md"), "# Create Ticket\n## Examples\n### Valid\n#### Steps\n* Act: Click New\n");
+
+    expect(await behaviorsChangedSince(path.join(dir, "specs"))).toEqual(["create-ticket"]);
+    await expect(behaviorsChangedSince(path.join(dir, "specs"), "no-such-ref")).rejects.toThrow("git diff failed");
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { lintSpec, formatDiagnostics } from "../lint";
+
+const INSTRUCTION = `# Help Desk
+
+## Pages
+
+### Tickets Page
+**Path:** \`/tickets\`
+
+#### Behaviors
+- Create Ticket
+- Archive Ticket
+
+## Behaviors
+
+### Sign Up
+
+#### Dependencies
+1. Sign In: User signs in
+
+#### Scenarios
+
+##### User signs up
+
+###### Steps
+* Act: Click the "Sign Up" button
+* Check: URL contains /tickets
+
+### Sign In
+
+#### Dependencies
+1. Sign Up: User signs up
+
+#### Scenarios
+
+##### User signs in
+
+###### Steps
+* Act: Click the "Sign In" button
+
+### Create Ticket
+
+#### Scenarios
+
+##### Draft
+
+###### Steps
+* Check: The ticket appears
+
+### Create Ticket
+
+#### Dependencies
+1. Sign Up: New user registers
+2. Login: User signs in
+
+#### Scenarios
+
+##### User creates a ticket
+
+###### Steps
+* Act: Click the "New Ticket" button
+* Check: Element count is positive
+`;
+
+async function lintContent(files: Record<string, string>, target: string) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "epic-lint-"));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+      writeFileSync(path.join(dir, name), content);
+    }
+    const diagnostics = await lintSpec(path.join(dir, target));
+    return diagnostics.map(d => ({ ...d, file: path.relative(dir, d.file) }));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("lintSpec", () => {
+  it("should report each problem in an instruction.md at its line", async () => {
+    const diagnostics = await lintContent({ "instruction.md": INSTRUCTION }, "instruction.md");
+
+    expect(diagnostics.map(d => [d.line, d.severity, d.rule])).toEqual([
+      [10, "error", "page-behavior-undefined"],
+      [14, "warning", "behavior-not-on-page"],
+      [27, "warning", "behavior-not-on-page"],
+      [30, "error", "dependency-cycle"],
+      [34, "warning", "scenario-without-check"],
+      [48, "error", "duplicate-slug"],
+      [51, "error", "unknown-scenario"],
+      [52, "error", "unknown-dependency"],
+      [60, "error", "deterministic-check-without-handler"],
+    ]);
+    expect(diagnostics.find(d => d.rule === "dependency-cycle")!.message).toBe("Dependency cycle: sign-up -> sign-in -> sign-up");
+    expect(diagnostics.find(d => d.rule === "unknown-scenario")!.message).toContain('has no scenario "New user registers"');
+  });
+
+  it("should lint spec directories, pointing at prd.json for missing files", async () => {
+    const diagnostics = await lintContent({
+      "prd.json": JSON.stringify({ behaviors: [
+        { id: "create-ticket", specFile: "behaviors/create-ticket.md" },
+        { id: "close-ticket", specFile: "behaviors/close-ticket.md" },
+      ] }, null, 2),
+      "behaviors/create-ticket.md": "# Create Ticket\n\n## Dependencies\n\n1. **sign-up**: User signs up\n\n## Examples\n\n### Create\n\n#### Steps\n\n* Act: Click New\n* Check: The ticket appears\n",
+    }, ".");
+
+    expect(diagnostics.map(d => [d.file, d.line, d.rule])).toEqual([
+      ["behaviors/create-ticket.md", 5, "unknown-dependency"],
+      ["prd.json", 9, "missing-spec-file"],
+    ]);
+  });
+
+  it("should accept the help-desk fixture without errors", async () => {
+    const diagnostics = await lintSpec(path.resolve(__dirname, "../../../test-fixtures/help-desk-app/instruction.md"));
+    expect(diagnostics.filter(d => d.severity === "error")).toEqual([]);
+  });
+});
+
+describe("formatDiagnostics", () => {
+  it("should print one file:line diagnostic per line", () => {
+    expect(formatDiagnostics([
+      { file: "instruction.md", line: 12, severity: "error", rule: "unknown-dependency", message: 'depends on unknown behavior "login"' },
+    ])).toBe('instruction.md:12: error [unknown-dependency] depends on unknown behavior "login"');
+  });
+});
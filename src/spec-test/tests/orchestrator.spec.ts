@@ -237,4 +237,136 @@ describe('verifyAllBehaviors', () => {
 
     expect(mockRunAuth.mock.calls[0][4]).toBe(30000);
   });
+
+  it('should append rule Then clauses as checks when ruleChecks is enabled', async () => {
+    const addTask: HarborBehavior = {
+      ...makeBehavior('add-task', 'Add Task'),
+      rules: [{ name: 'Task Added', when: ['User clicks button'], then: ['Task appears in the list'] }],
+    };
+
+    mockReadFile.mockResolvedValue('content');
+    mockParse.mockReturnValue(new Map([['add-task', addTask]]));
+    mockRunAuth.mockResolvedValue([]);
+    mockVerifyBehavior.mockResolvedValue(
+      { behaviorId: 'add-task', behaviorName: 'Add Task', status: 'pass', duration: 100 }
+    );
+
+    await verifyAllBehaviors('/path/to/instruction.md', mockRunner, 30000, { ruleChecks: true });
+
+    const verifiedSteps = mockVerifyBehavior.mock.calls[0][0].examples[0].steps;
+    expect(verifiedSteps.map(s => s.instruction)).toEqual(['Click button', 'Task appears in the list']);
+    expect(addTask.examples[0].steps).toHaveLength(1);
+  });
+
+  it('should spread non-auth chains over parallel workers and keep result order', async () => {
+    const listTickets = makeBehavior('list-tickets', 'List Tickets');
+    const createTicket = makeBehavior('create-ticket', 'Create Ticket');
+    const addReply = { ...makeBehavior('add-reply', 'Add Reply'), dependencies: [{ behaviorId: 'create-ticket' }] };
+    mockReadFile.mockResolvedValue('content');
+    mockParse.mockReturnValue(new Map([
+      ['list-tickets', listTickets], ['create-ticket', createTicket], ['add-reply', addReply],
+    ]));
+    mockRunAuth.mockResolvedValue([]);
+
+    // List Tickets is the slowest chain; Add Reply must still wait for Create Ticket
+    const finished: string[] = [];
+    const delays: Record<string, number> = { 'list-tickets': 30, 'create-ticket': 10, 'add-reply': 0 };
+    mockVerifyBehavior.mockImplementation(async (behavior) => {
+      await new Promise(resolve => setTimeout(resolve, delays[behavior.id]));
+      finished.push(behavior.id);
+      return { behaviorId: behavior.id, behaviorName: behavior.title, status: 'pass', duration: 1 };
+    });
+
+    const workerRunner = { runExample: vi.fn(), close: vi.fn(async () => {}) };
+    const createRunner = vi.fn(() => workerRunner);
+
+    const summary = await verifyAllBehaviors('/path/to/instruction.md', mockRunner, undefined, { concurrency: 2, createRunner });
+
+    expect(createRunner).toHaveBeenCalledTimes(1);
+    expect(createRunner).toHaveBeenCalledWith(1);
+    expect(workerRunner.close).toHaveBeenCalledTimes(1);
+    expect(finished).toEqual(['create-ticket', 'add-reply', 'list-tickets']);
+    expect(summary.behaviors.map(b => b.behaviorId)).toEqual(['list-tickets', 'create-ticket', 'add-reply']);
+
+    const runners = mockVerifyBehavior.mock.calls.map(call => call[4]);
+    expect(runners[0]).toBe(mockRunner);
+    expect(runners[1]).toBe(workerRunner);
+    const trackers = mockVerifyBehavior.mock.calls.map(call => call[3]);
+    expect(trackers[0]).not.toBe(trackers[1]);
+  });
+
+  it('should run sequentially when concurrency is set without createRunner', async () => {
+    mockReadFile.mockResolvedValue('content');
+    mockParse.mockReturnValue(new Map([['add-task', makeBehavior('add-task', 'Add Task')]]));
+    mockRunAuth.mockResolvedValue([]);
+    mockVerifyBehavior.mockResolvedValue({ behaviorId: 'add-task', behaviorName: 'Add Task', status: 'pass', duration: 1 });
+
+    const summary = await verifyAllBehaviors('/path/to/instruction.md', mockRunner, undefined, { concurrency: 4 });
+
+    expect(summary.passed).toBe(1);
+    expect(mockVerifyBehavior.mock.calls[0][4]).toBe(mockRunner);
+  });
+
+  it('should mark behaviors after a budget cut-off as not run', async () => {
+    mockReadFile.mockResolvedValue('content');
+    mockParse.mockReturnValue(new Map([
+      ['add-task', makeBehavior('add-task', 'Add Task')],
+      ['list-tasks', makeBehavior('list-tasks', 'List Tasks')],
+    ]));
+    mockRunAuth.mockResolvedValue([]);
+    mockVerifyBehavior.mockResolvedValue({
+      behaviorId: 'add-task', behaviorName: 'Add Task', status: 'budget_exceeded', error: 'LLM budget exhausted: 5/5 calls', duration: 1,
+    });
+
+    const summary = await verifyAllBehaviors('/path/to/instruction.md', mockRunner);
+
+    expect(mockVerifyBehavior).toHaveBeenCalledTimes(1);
+    expect(summary.behaviors.map(b => b.status)).toEqual(['budget_exceeded', 'not_run']);
+    expect(summary.budgetExceeded).toEqual({ reason: 'LLM budget exhausted: 5/5 calls', cutOff: ['add-task'], notRun: ['list-tasks'] });
+    expect(summary.reward).toBe(0);
+  });
+
+  it('should retry a failing behavior up to its retries override', async () => {
+    mockReadFile.mockResolvedValue('content');
+    mockParse.mockReturnValue(new Map([['add-task', makeBehavior('add-task', 'Add Task')]]));
+    mockRunAuth.mockResolvedValue([]);
+    mockVerifyBehavior
+      .mockRejectedValueOnce(new Error('Browser crashed'))
+      .mockResolvedValueOnce({ behaviorId: 'add-task', behaviorName: 'Add Task', status: 'pass', duration: 1 });
+
+    const summary = await verifyAllBehaviors('/path/to/instruction.md', mockRunner, undefined, {
+      behaviorOverrides: { 'add-task': { retries: 2 } },
+    });
+
+    expect(mockVerifyBehavior).toHaveBeenCalledTimes(2);
+    expect(summary.behaviors[0]).toMatchObject({ status: 'pass', attempts: 2 });
+    expect(mockRunAuth.mock.calls[0][6]).toEqual({ 'add-task': { retries: 2 } });
+  });
+
+  it('should verify only behaviors affected by the change and report the rest as unaffected', async () => {
+    const createTicket = { ...makeBehavior('create-ticket', 'Create Ticket'), dependencies: [{ behaviorId: 'add-task' }] };
+    mockReadFile.mockResolvedValue('content');
+    mockParse.mockReturnValue(new Map([
+      ['add-task', makeBehavior('add-task', 'Add Task')],
+      ['create-ticket', createTicket],
+      ['export-report', makeBehavior('export-report', 'Export Report')],
+    ]));
+    mockRunAuth.mockResolvedValue([]);
+    mockVerifyBehavior.mockImplementation(async behavior => ({
+      behaviorId: behavior.id, behaviorName: behavior.title, status: 'pass' as const, duration: 1,
+    }));
+
+    const summary = await verifyAllBehaviors('/path/to/instruction.md', mockRunner, undefined, { changedBehaviorIds: ['create-ticket'] });
+
+    expect(summary.behaviors.map(b => b.behaviorId)).toEqual(['add-task', 'create-ticket']);
+    expect(summary.unaffected).toEqual(['export-report']);
+    expect(summary.reward).toBe(1);
+  });
+
+  it('should reject unknown reporters before verifying anything', async () => {
+    await expect(verifyAllBehaviors('/path/to/instruction.md', mockRunner, undefined, { reporters: ['xunit' as any] }))
+      .rejects.toThrow('Unknown reporter "xunit"');
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(mockRunAuth).not.toHaveBeenCalled();
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseSteps, parseSpecFile } from "../index";
+import { parseSteps, parseSpecFile, parseExamples, parseHarborBehaviorsWithDependencies } from "../index";
 import path from "path";
 import { fileURLToPath } from "url";
 
@@ -28,6 +28,16 @@ describe("parseSteps", () => {
     });
   });
 
+  it("should parse Capture steps", () => {
+    const steps = parseSteps("* Capture: the ticket number shown in the header as {ticketId}");
+
+    expect(steps).toEqual([{
+      type: "Capture",
+      instruction: "the ticket number shown in the header as {ticketId}",
+      lineNumber: 1,
+    }]);
+  });
+
   it("should parse Check steps with deterministic classification", () => {
     const content = `
 #### Steps
@@ -130,3 +140,157 @@ describe("parseSpecFile", () => {
     });
   });
 });
+
+describe("step line numbers", () => {
+  it("should point at the step's own line in a ## Scenarios section", () => {
+    const content = [
+      "# Login",
+      "",
+      "## Scenarios",
+      "",
+      "### Valid credentials",
+      "#### Steps",
+      "* Act: User navigates to /login",
+      "* Check: URL contains /dashboard",
+    ].join("\n");
+
+    expect(parseExamples(content)[0].steps.map(s => s.lineNumber)).toEqual([7, 8]);
+  });
+
+  it("should point at the step's own line in a ## Behaviors section", () => {
+    const content = [
+      "# App",
+      "",
+      "## Behaviors",
+      "",
+      "### Sign In",
+      "",
+      "#### Steps",
+      "* Act: User clicks Sign In",
+    ].join("\n");
+
+    expect(parseHarborBehaviorsWithDependencies(content).get("sign-in")!.examples[0].steps[0].lineNumber).toBe(8);
+  });
+});
+
+describe("Scenario Outlines", () => {
+  const epicOutline = [
+    "# Tickets",
+    "",
+    "## Examples",
+    "",
+    "### Scenario Outline: Create <priority> ticket",
+    "",
+    "#### Steps",
+    "* Act: User selects \"<priority>\" as the priority",
+    "* Check: URL contains /tickets/<slug>",
+    "",
+    "#### Examples",
+    "| priority | slug |",
+    "|----------|------|",
+    "| Low      | low  |",
+    "| High     | high |",
+  ].join("\n");
+
+  it("should expand one example per Examples row with row-suffixed names", () => {
+    const examples = parseExamples(epicOutline);
+
+    expect(examples.map(e => e.name)).toEqual(["Create Low ticket (row 1)", "Create High ticket (row 2)"]);
+    expect(examples[1].steps.map(s => s.instruction)).toEqual([
+      'User selects "High" as the priority',
+      "URL contains /tickets/high",
+    ]);
+    expect(examples[1].steps[1].checkType).toBe("deterministic");
+  });
+
+  it("should map steps to template lines and record the row line", () => {
+    const [first, second] = parseExamples(epicOutline);
+
+    expect(first.steps.map(s => s.lineNumber)).toEqual([8, 9]);
+    expect(second.steps.map(s => s.lineNumber)).toEqual([8, 9]);
+    expect(first.outline).toEqual({
+      name: "Create <priority> ticket",
+      row: 1,
+      lineNumber: 5,
+      rowLineNumber: 14,
+      values: { priority: "Low", slug: "low" },
+    });
+    expect(second.outline?.rowLineNumber).toBe(15);
+  });
+
+  it("should leave regular scenarios next to outlines untouched", () => {
+    const content = epicOutline + "\n\n### Plain scenario\n#### Steps\n* Act: User clicks <nothing>\n";
+    const examples = parseExamples(content);
+
+    expect(examples).toHaveLength(3);
+    expect(examples[2]).toEqual({
+      name: "Plain scenario",
+      steps: [{ type: "Act", instruction: "User clicks <nothing>", lineNumber: 19 }],
+    });
+  });
+
+  it("should expand outlines in the Harbor format", () => {
+    const content = [
+      "## Behaviors",
+      "### Create Ticket",
+      "#### Scenarios",
+      "##### Scenario Outline: Create ticket as <role>",
+      "###### Steps",
+      "* Act: User signs in as <role>",
+      "* Check: Ticket list is shown",
+      "###### Examples",
+      "| role  |",
+      "| ---   |",
+      "| agent |",
+      "| admin |",
+    ].join("\n");
+
+    const behavior = parseHarborBehaviorsWithDependencies(content).get("create-ticket")!;
+
+    expect(behavior.examples.map(e => e.name)).toEqual(["Create ticket as agent (row 1)", "Create ticket as admin (row 2)"]);
+    expect(behavior.examples[1].steps[0]).toEqual({ type: "Act", instruction: "User signs in as admin", lineNumber: 6 });
+    expect(behavior.examples[1].outline).toMatchObject({ lineNumber: 4, rowLineNumber: 12, values: { role: "admin" } });
+  });
+});
+
+describe("Behavior tags", () => {
+  it("should strip trailing @tags from behavior headings", () => {
+    const content = [
+      "## Behaviors",
+      "### Create Ticket @smoke @tickets",
+      "#### Scenarios",
+      "##### User creates a ticket",
+      "###### Steps",
+      "* Act: Click New Ticket",
+    ].join("\n");
+
+    const behaviors = parseHarborBehaviorsWithDependencies(content);
+
+    expect([...behaviors.keys()]).toEqual(["create-ticket"]);
+    expect(behaviors.get("create-ticket")).toMatchObject({ title: "Create Ticket", tags: ["smoke", "tickets"] });
+  });
+
+  it("should strip trailing @tags from scenario headings, including outlines", () => {
+    const content = [
+      "## Behaviors",
+      "### Create Ticket",
+      "#### Scenarios",
+      "##### User creates a ticket @smoke",
+      "###### Steps",
+      "* Act: Click New Ticket",
+      "##### Scenario Outline: Create <priority> ticket @slow",
+      "###### Steps",
+      "* Act: Choose <priority>",
+      "###### Examples",
+      "| priority |",
+      "| High     |",
+    ].join("\n");
+
+    const examples = parseHarborBehaviorsWithDependencies(content).get("create-ticket")!.examples;
+
+    expect(examples.map(e => [e.name, e.tags])).toEqual([
+      ["User creates a ticket", ["smoke"]],
+      ["Create High ticket (row 1)", ["slow"]],
+    ]);
+  });
+});
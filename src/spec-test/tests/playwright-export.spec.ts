@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { compilePlaywrightTest } from "../playwright-export";
+import type { ExampleResult, SpecStep, StepResult } from "../types";
+
+function stepResult(step: SpecStep, extra: Partial<StepResult> = {}): StepResult {
+  return { step, success: true, duration: 10, ...extra };
+}
+
+function exampleResult(steps: StepResult[], extra: Partial<ExampleResult> = {}): ExampleResult {
+  return {
+    example: { name: "Create Ticket", steps: steps.map(s => s.step) },
+    success: true,
+    steps,
+    duration: 100,
+    startUrl: "http://localhost:3000/tickets",
+    ...extra,
+  };
+}
+
+describe("compilePlaywrightTest", () => {
+  it("should replay recorded actions and compile deterministic checks to plain assertions", () => {
+    const source = compilePlaywrightTest([exampleResult([
+      stepResult({ type: "Act", instruction: "Navigate to /tickets/new" }),
+      stepResult({ type: "Act", instruction: "Enter 'Printer jam' in the title field" }, {
+        actResult: {
+          success: true,
+          duration: 10,
+          actions: [{ selector: "xpath=/html/body/form/input[1]", description: "title input", method: "fill", arguments: ["Printer jam"] }],
+        },
+      }),
+      stepResult({ type: "Check", instruction: 'The text "Ticket created" appears' }, {
+        checkResult: { passed: true, checkType: "deterministic", expected: "", actual: 'Found "Ticket created" on page' },
+      }),
+    ])]);
+
+    expect(source).toContain('import { test, expect } from "@playwright/test";');
+    expect(source).toContain('test.use({ baseURL: "http://localhost:3000" });');
+    expect(source).toContain('await page.goto("/tickets");');
+    expect(source).toContain('await page.goto("/tickets/new");');
+    expect(source).toContain('await page.locator("xpath=/html/body/form/input[1]").fill("Printer jam");');
+    expect(source).toContain('await expect(page.locator("body")).toContainText("Ticket created");');
+    expect(source).not.toContain("Tester");
+  });
+
+  it("should fall back to Tester.assert for checks that needed a model", () => {
+    const usage = { calls: 1, inputTokens: 900, outputTokens: 10, latencyMs: 300, cost: 0, byOperation: {} };
+    const source = compilePlaywrightTest([exampleResult([
+      stepResult({ type: "Act", instruction: "Click the Save button" }, {
+        actResult: { success: true, duration: 10, actions: [{ selector: "xpath=/html/body/button", description: "Save", method: "click" }] },
+      }),
+      stepResult({ type: "Check", instruction: "The ticket appears in the list" }, {
+        checkResult: { passed: true, checkType: "semantic", expected: "", actual: "" },
+        usage,
+      }),
+    ])], { title: "Help Desk" });
+
+    expect(source).toContain('import { Tester } from "epic-test/b-test";');
+    expect(source).toContain('test.describe("Help Desk", () => {');
+    expect(source).toContain("const tester = new Tester(page);");
+    expect(source).toContain('expect(await tester.assert("The ticket appears in the list")).toBe(true);');
+  });
+
+  it("should re-read deterministic captures and reference them in later steps", () => {
+    const source = compilePlaywrightTest([exampleResult([
+      stepResult({ type: "Capture", instruction: 'text of ".ticket-id" as {ticketId}' }, {
+        captureResult: { variable: "ticketId", source: 'text of ".ticket-id"', strategy: "deterministic", value: "TCK-1042" },
+      }),
+      stepResult({ type: "Check", instruction: '"TCK-1042" is visible' }, {
+        checkResult: { passed: true, checkType: "deterministic", expected: "", actual: "" },
+      }),
+    ])]);
+
+    expect(source).toContain('import { executeCaptureStep } from "epic-test/spec-test";');
+    expect(source).toContain("vars.ticketId = (await executeCaptureStep(");
+    expect(source).toContain('await expect(page.locator("body")).toContainText(`${vars.ticketId}`);');
+  });
+
+  it("should refuse failed runs", () => {
+    const failed = exampleResult([], { success: false });
+    expect(() => compilePlaywrightTest([failed])).toThrow('Cannot compile "Create Ticket"');
+  });
+});
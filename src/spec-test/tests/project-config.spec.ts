@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import {
+  applyProfile,
+  findConfigFile,
+  loadConfig,
+  resolveSpecPaths,
+  toRunnerConfig,
+  toVerifyOptions,
+  type EpicTestConfig,
+} from "../../shared/project-config";
+
+describe("project config", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "epic-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const config: EpicTestConfig = {
+    baseUrl: "http://localhost:3000",
+    behaviors: { "sign-up": { timeoutMs: 60_000 } },
+    artifacts: { screenshots: "on-failure" },
+    profiles: {
+      ci: { headless: true, behaviors: { "sign-up": { retries: 2 } }, artifacts: { trace: "on-failure" } },
+      staging: { baseUrl: "https://staging.example.com" },
+    },
+  };
+
+  it("should merge the requested profile over the base config", () => {
+    const { config: merged, profile } = applyProfile(config, "ci", {});
+
+    expect(profile).toBe("ci");
+    expect(merged.baseUrl).toBe("http://localhost:3000");
+    expect(merged.behaviors).toEqual({ "sign-up": { timeoutMs: 60_000, retries: 2 } });
+    expect(merged.artifacts).toEqual({ screenshots: "on-failure", trace: "on-failure" });
+    expect(merged).not.toHaveProperty("profiles");
+  });
+
+  it("should pick the profile from EPIC_TEST_PROFILE, then CI, then local", () => {
+    expect(applyProfile(config, undefined, { EPIC_TEST_PROFILE: "staging", CI: "1" }).config.baseUrl)
+      .toBe("https://staging.example.com");
+    expect(applyProfile(config, undefined, { CI: "1" }).profile).toBe("ci");
+    expect(applyProfile(config, undefined, {})).toEqual({ config: expect.objectContaining({ baseUrl: "http://localhost:3000" }) });
+    expect(() => applyProfile(config, "prod", {})).toThrow('Unknown profile "prod". Defined: ci, staging');
+  });
+
+  it("should discover the config in the working directory and resolve its paths", async () => {
+    mkdirSync(path.join(dir, "specs/tickets"), { recursive: true });
+    writeFileSync(path.join(dir, "specs/tickets/create-ticket.md"), "");
+    writeFileSync(path.join(dir, "specs/sign-up.md"), "");
+    writeFileSync(path.join(dir, "specs/notes.txt"), "");
+    writeFileSync(path.join(dir, "epic-test.config.json"), JSON.stringify({ specs: "specs/**/*.md", reportDir: "out" }));
+
+    expect(findConfigFile(dir)).toBe(path.join(dir, "epic-test.config.json"));
+
+    const loaded = await loadConfig({ cwd: dir, profile: undefined });
+    expect(loaded.configPath).toBe(path.join(dir, "epic-test.config.json"));
+    expect(loaded.config.specs).toEqual([
+      path.join(dir, "specs/sign-up.md"),
+      path.join(dir, "specs/tickets/create-ticket.md"),
+    ]);
+    expect(loaded.config.reportDir).toBe(path.join(dir, "out"));
+  });
+
+  it("should load a module config's default export", async () => {
+    const configPath = path.join(dir, "epic-test.config.mjs");
+    writeFileSync(configPath, 'export default { tester: "agent", minReward: 0.8 };');
+
+    expect((await loadConfig({ cwd: dir })).config).toEqual({ tester: "agent", minReward: 0.8 });
+    expect(await loadConfig({ cwd: path.join(dir, "missing") })).toEqual({ config: {} });
+  });
+
+  it("should expand globs and keep plain paths that exist", () => {
+    mkdirSync(path.join(dir, "apps/crm/specs"), { recursive: true });
+    mkdirSync(path.join(dir, "apps/shop/specs"), { recursive: true });
+    writeFileSync(path.join(dir, "instruction.md"), "");
+
+    expect(resolveSpecPaths(["apps/*/specs", "instruction.md", "missing.md"], dir)).toEqual([
+      path.join(dir, "apps/crm/specs"),
+      path.join(dir, "apps/shop/specs"),
+      path.join(dir, "instruction.md"),
+    ]);
+    expect(resolveSpecPaths("apps/{shop,none}/specs", dir)).toEqual([path.join(dir, "apps/shop/specs")]);
+  });
+
+  it("should map models, cache and overrides onto runner and verify options", () => {
+    const mapped: EpicTestConfig = {
+      headless: false,
+      models: { act: "openai/gpt-4o", agent: "anthropic/claude-sonnet-4" },
+      cache: { dir: ".cache", perSpec: true },
+      behaviors: { "sign-up": { retries: 1 } },
+      reporters: ["junit"],
+    };
+
+    expect(toRunnerConfig(mapped)).toMatchObject({
+      baseUrl: "http://localhost:3000",
+      headless: false,
+      cacheDir: ".cache",
+      cachePerSpec: true,
+      stagehandOptions: { model: "openai/gpt-4o" },
+      agentModel: "anthropic/claude-sonnet-4",
+    });
+    expect(toVerifyOptions(mapped)).toEqual({ reporters: ["junit"], behaviorOverrides: { "sign-up": { retries: 1 } } });
+  });
+});
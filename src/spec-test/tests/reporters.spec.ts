@@ -0,0 +1,179 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  summaryToReport,
+  specResultToReport,
+  junitReporter,
+  tapReporter,
+  ctrfReporter,
+  writeReports,
+  resolveReporters,
+} from "../index";
+import type { VerificationSummary, SpecTestResult, Reporter } from "../types";
+
+const checkStep = { type: "Check" as const, instruction: "The ticket <Subject> appears", checkType: "semantic" as const, lineNumber: 18 };
+
+const summary: VerificationSummary = {
+  passed: 1,
+  failed: 1,
+  dependency_failed: 1,
+  total: 3,
+  reward: 1 / 3,
+  summary: "",
+  duration: 4500,
+  behaviors: [
+    { behaviorId: "sign-up", behaviorName: "Sign Up", status: "pass", duration: 1000 },
+    {
+      behaviorId: "create-ticket",
+      behaviorName: "Create Ticket",
+      status: "fail",
+      error: "Ticket not listed",
+      duration: 3500,
+      scenarios: [
+        { scenarioName: "Valid ticket", status: "pass", duration: 1500 },
+        { scenarioName: "Missing subject", status: "fail", error: "Ticket not listed", failedStep: checkStep, duration: 2000 },
+      ],
+    },
+    { behaviorId: "close-ticket", behaviorName: "Close Ticket", status: "dependency_failed", failedDependency: "Create Ticket", duration: 0 },
+  ],
+};
+
+describe("summaryToReport", () => {
+  it("should map behaviors to suites and scenarios to test cases", () => {
+    const report = summaryToReport(summary, { file: "spec/instruction.md" });
+
+    expect(report.suites.map(s => s.id)).toEqual(["sign-up", "create-ticket", "close-ticket"]);
+    expect(report.suites[0].tests).toEqual([expect.objectContaining({ name: "Sign Up", status: "passed" })]);
+    expect(report.suites[1].tests.map(t => t.status)).toEqual(["passed", "failed"]);
+    expect(report.suites[1].tests[1]).toMatchObject({ failedStep: checkStep, file: "spec/instruction.md" });
+    expect(report.suites[2].tests[0]).toMatchObject({ status: "skipped", message: 'Dependency "Create Ticket" failed' });
+  });
+
+  it("should point test cases at each behavior's own file in a spec directory", () => {
+    const report = summaryToReport(summary, { file: "specs", behaviorFiles: { "create-ticket": "specs/behaviors/create-ticket.md" } });
+
+    expect(report.suites[1].tests.map(t => t.file)).toEqual(["specs/behaviors/create-ticket.md", "specs/behaviors/create-ticket.md"]);
+    expect(report.suites[0].tests[0].file).toBe("specs");
+    expect(junitReporter.render(report)).toContain("specs/behaviors/create-ticket.md:18");
+  });
+});
+
+describe("specResultToReport", () => {
+  it("should make one suite with a case per executed example", () => {
+    const result = {
+      success: false,
+      spec: { name: "Create Ticket", examples: [] },
+      duration: 900,
+      steps: [],
+      exampleResults: [
+        { example: { name: "Valid ticket", steps: [] }, success: true, steps: [], duration: 400 },
+        {
+          example: { name: "Missing subject", steps: [checkStep] },
+          success: false,
+          steps: [],
+          duration: 500,
+          failedAt: { stepIndex: 0, step: checkStep, context: { error: "Not found" } },
+        },
+      ],
+    } as unknown as SpecTestResult;
+
+    const report = specResultToReport(result, "create-ticket.md");
+
+    expect(report.suites).toHaveLength(1);
+    expect(report.suites[0]).toMatchObject({ id: "create-ticket", name: "Create Ticket" });
+    expect(report.suites[0].tests[1]).toMatchObject({ status: "failed", message: "Not found", failedStep: checkStep });
+  });
+});
+
+describe("built-in reporters", () => {
+  const report = summaryToReport(summary, { file: "spec/instruction.md" });
+
+  it("junit should render suites, escaped failures and line references", () => {
+    const xml = junitReporter.render(report);
+
+    expect(xml).toContain('<testsuites name="epic-test" tests="4" failures="1" skipped="1" time="4.500"');
+    expect(xml).toContain('<testsuite name="Create Ticket" tests="2" failures="1" skipped="0" time="3.500">');
+    expect(xml).toContain('<testcase name="Missing subject" classname="create-ticket" time="2.000" file="spec/instruction.md" line="18">');
+    expect(xml).toContain('<failure message="Ticket not listed">Check: The ticket &lt;Subject&gt; appears (spec/instruction.md:18)\nTicket not listed</failure>');
+    expect(xml).toContain('<skipped message="Dependency &quot;Create Ticket&quot; failed"/>');
+  });
+
+  it("tap should number test points and add a YAML block for failures", () => {
+    const lines = tapReporter.render(report).trimEnd().split("\n");
+
+    expect(lines.slice(0, 4)).toEqual(["TAP version 13", "1..4", "ok 1 - Sign Up > Sign Up", "ok 2 - Create Ticket > Valid ticket"]);
+    expect(lines).toContain("not ok 3 - Create Ticket > Missing subject");
+    expect(lines).toContain("  line: 18");
+    expect(lines[lines.length - 1]).toBe('ok 4 - Close Ticket > Close Ticket # SKIP Dependency "Create Ticket" failed');
+  });
+
+  it("ctrf should produce summary counts and per-test locations", () => {
+    const { results } = JSON.parse(ctrfReporter.render(report));
+
+    expect(results.summary).toMatchObject({ tests: 4, passed: 2, failed: 1, skipped: 1 });
+    expect(results.tests[2]).toMatchObject({
+      name: "Missing subject",
+      status: "failed",
+      suite: "Create Ticket",
+      filePath: "spec/instruction.md",
+      line: 18,
+    });
+  });
+});
+
+describe("artifact attachments", () => {
+  it("should link step screenshots and traces from JUnit and CTRF", () => {
+    const withArtifacts: VerificationSummary = {
+      ...summary,
+      behaviors: [{
+        behaviorId: "create-ticket",
+        behaviorName: "Create Ticket",
+        status: "fail",
+        duration: 100,
+        scenarios: [{
+          scenarioName: "Missing subject",
+          status: "fail",
+          duration: 100,
+          result: {
+            steps: [{ ...checkStep, success: false, duration: 100, details: [], screenshotPath: "/art/step-01-check-failed.png" }],
+            artifacts: { dir: "/art", tracePath: "/art/trace.zip" },
+          },
+        }],
+      }],
+    };
+    const report = summaryToReport(withArtifacts);
+
+    const xml = junitReporter.render(report);
+    expect(xml).toContain("<system-out>[[ATTACHMENT|/art/step-01-check-failed.png]]\n[[ATTACHMENT|/art/trace.zip]]</system-out>");
+
+    const { results } = JSON.parse(ctrfReporter.render(report));
+    expect(results.tests[0].attachments).toEqual([
+      { name: "Check: The ticket <Subject> appears", contentType: "image/png", path: "/art/step-01-check-failed.png" },
+      { name: "trace", contentType: "application/zip", path: "/art/trace.zip" },
+    ]);
+  });
+});
+
+describe("writeReports", () => {
+  let dir: string;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write one file per reporter, including custom reporters", () => {
+    dir = mkdtempSync(path.join(tmpdir(), "reports-"));
+    const custom: Reporter = { name: "count", extension: ".count.txt", render: r => String(r.suites.length) };
+
+    const paths = writeReports(summaryToReport(summary), ["junit", custom], dir, "run");
+
+    expect(paths).toEqual([path.join(dir, "run.junit.xml"), path.join(dir, "run.count.txt")]);
+    expect(readFileSync(paths[1], "utf-8")).toBe("3");
+  });
+
+  it("should reject unknown reporter names", () => {
+    expect(() => resolveReporters(["xunit" as any])).toThrow('Unknown reporter "xunit". Available: junit, tap, ctrf, html');
+  });
+});
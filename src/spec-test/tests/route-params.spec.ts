@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { resolvePagePath, recordRouteHistory, emptyRouteHistory, RunEventEmitter } from "../index";
+import type { ExampleResult, RouteHistory } from "../types";
+
+function history(variables: Record<string, string>, urls: string[] = []): RouteHistory {
+  return { variables, urls };
+}
+
+describe("resolvePagePath", () => {
+  it("should leave static paths untouched", () => {
+    expect(resolvePagePath("/tickets", emptyRouteHistory())).toEqual({ path: "/tickets", strategy: "static" });
+  });
+
+  it("should fill params from captured variables by exact or resource-qualified name", () => {
+    expect(resolvePagePath("/tickets/:id", history({ id: "7" }))).toEqual({ path: "/tickets/7", strategy: "captured" });
+    expect(resolvePagePath("/tickets/:id", history({ ticketId: "1042" }))).toEqual({ path: "/tickets/1042", strategy: "captured" });
+    expect(resolvePagePath("/categories/:id/edit", history({ category_id: "3" })).path).toBe("/categories/3/edit");
+  });
+
+  it("should use the most recent matching URL when no variable is captured", () => {
+    const urls = [
+      "http://localhost:3000/tickets/1",
+      "http://localhost:3000/tickets/new",
+      "http://localhost:3000/tickets/2/replies",
+      "http://localhost:3000/dashboard",
+    ];
+    expect(resolvePagePath("/tickets/:id", history({}, urls))).toEqual({ path: "/tickets/2", strategy: "url-history" });
+  });
+
+  it("should skip non-id segments like /new in URL history", () => {
+    const urls = ["http://localhost:3000/tickets/new"];
+    expect(resolvePagePath("/tickets/:id", history({}, urls)).strategy).toBe("parent-route");
+  });
+
+  it("should fall back to the parent route when nothing is known", () => {
+    expect(resolvePagePath("/tickets/:id", history({ userId: "5" }))).toEqual({ path: "/tickets/:id", strategy: "parent-route" });
+  });
+
+  it("should log the chosen strategy on the given emitter", () => {
+    const events = new RunEventEmitter();
+    const logs: string[] = [];
+    events.on("log", e => logs.push(`${e.scope}: ${e.message}`));
+    const stdout = vi.spyOn(console, "log");
+
+    resolvePagePath("/tickets/:id", history({ id: "7" }), events);
+
+    expect(logs).toEqual(['resolvePagePath: "/tickets/:id" → "/tickets/7" (captured variables)']);
+    expect(stdout).not.toHaveBeenCalled();
+    stdout.mockRestore();
+  });
+});
+
+describe("recordRouteHistory", () => {
+  it("should merge captured variables and collect visited URLs", () => {
+    const result = {
+      example: { name: "Create ticket", steps: [] },
+      success: true,
+      duration: 1,
+      variables: { ticketId: "9" },
+      steps: [
+        { step: { type: "Act", instruction: "Open" }, success: true, duration: 1, actResult: { success: true, duration: 1, pageUrl: "http://x/tickets/9" } },
+        { step: { type: "Check", instruction: "Shown" }, success: true, duration: 1 },
+      ],
+    } as ExampleResult;
+
+    expect(recordRouteHistory(history({ queue: "billing" }, ["http://x/"]), result)).toEqual({
+      variables: { queue: "billing", ticketId: "9" },
+      urls: ["http://x/", "http://x/tickets/9"],
+    });
+  });
+});
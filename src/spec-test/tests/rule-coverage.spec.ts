@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { checkRuleCoverage, findUncoveredRules, withRuleChecks } from "../index";
+import type { HarborBehavior } from "../types";
+
+function makeSignIn(): HarborBehavior {
+  return {
+    id: "sign-in",
+    title: "Sign In",
+    dependencies: [],
+    rules: [
+      { name: "Invalid Credentials", when: ["User enters incorrect credentials"], then: ["Error message is displayed"] },
+      { name: "Valid Credentials", when: ["User enters admin@example.com and demo123"], then: ["User is signed in", "User sees dashboard"] },
+      { name: "Account Locked", when: ["User fails five times in a row"], then: ["Lockout banner is shown"] },
+    ],
+    examples: [
+      {
+        name: "User enters wrong credentials",
+        steps: [
+          { type: "Act", instruction: 'Type "wrong@example.com" into the email field' },
+          { type: "Check", instruction: "Error message is displayed", checkType: "semantic" },
+        ],
+      },
+      {
+        name: "User signs in successfully",
+        steps: [
+          { type: "Act", instruction: 'Type "admin@example.com" into the email field' },
+          { type: "Act", instruction: 'Type "demo123" into the password field' },
+          { type: "Check", instruction: "The dashboard is displayed", checkType: "semantic" },
+        ],
+      },
+    ],
+  };
+}
+
+describe("checkRuleCoverage", () => {
+  it("should map each rule to the scenarios that exercise it", () => {
+    const coverage = checkRuleCoverage(makeSignIn());
+
+    expect(coverage.map(c => c.coveredBy[0])).toEqual([
+      "User enters wrong credentials",
+      "User signs in successfully",
+      undefined,
+    ]);
+  });
+
+  it("should return nothing for behaviors without rules", () => {
+    expect(checkRuleCoverage({ ...makeSignIn(), rules: undefined })).toEqual([]);
+  });
+});
+
+describe("findUncoveredRules", () => {
+  it("should flag rules no scenario exercises", () => {
+    const uncovered = findUncoveredRules(new Map([["sign-in", makeSignIn()]]));
+
+    expect(uncovered).toHaveLength(1);
+    expect(uncovered[0].behaviorId).toBe("sign-in");
+    expect(uncovered[0].rule.name).toBe("Account Locked");
+  });
+});
+
+describe("withRuleChecks", () => {
+  it("should append Then clauses as semantic checks to the best-matching scenario only", () => {
+    const behaviors = withRuleChecks(new Map([["sign-in", makeSignIn()]]));
+    const [wrong, success] = behaviors.get("sign-in")!.examples;
+
+    // "Error message is displayed" already present — not duplicated
+    expect(wrong.steps).toHaveLength(2);
+    expect(success.steps.slice(3)).toEqual([
+      { type: "Check", instruction: "User is signed in", checkType: "semantic" },
+      { type: "Check", instruction: "User sees dashboard", checkType: "semantic" },
+    ]);
+  });
+
+  it("should not mutate the parsed behaviors", () => {
+    const original = makeSignIn();
+    withRuleChecks(new Map([["sign-in", original]]));
+
+    expect(original.examples[1].steps).toHaveLength(3);
+  });
+});
@@ -308,6 +308,26 @@ describe('SpecTestRunner', () => {
       expect(stagehand.extract).not.toHaveBeenCalled();
     });
 
+    it('deterministic DSL checks bypass the quoted-text fast path and extract() after a page transition', async () => {
+      const tester = createMockTester(true);
+      const stagehand = createMockStagehand({ passed: true });
+      const page = createMockPage();
+      page.evaluate = vi.fn(async () => ({ invalid: false, elements: [{ visible: true, enabled: false, value: null, text: 'Save', attribute: null }] }));
+
+      (runner as any).preActUrl = 'http://localhost:3000/signup';
+      const step = makeDeterministicCheckStep('Element "#save" is enabled');
+      const context = makeContext({ page, stagehand, tester });
+
+      const result = await runner.runStep(step, context);
+
+      expect(result.success).toBe(false);
+      expect(result.checkResult?.expected).toBe('"#save" enabled');
+      expect(result.checkResult?.actual).toBe('"#save" disabled');
+      expect(page.evaluate).toHaveBeenCalledTimes(1);
+      expect(stagehand.extract).not.toHaveBeenCalled();
+      expect(tester.assert).not.toHaveBeenCalled();
+    });
+
     // Page transition tests
 
     it('page transition: extract() pass → returns pass (extract primary)', async () => {
@@ -425,6 +445,131 @@ describe('SpecTestRunner', () => {
     });
   });
 
+  // --- runStep: await ---
+
+  describe('runStep — await', () => {
+    it('should wait via Tester.waitFor instead of a one-shot assertion', async () => {
+      const runner = new SpecTestRunner({ baseUrl: 'http://localhost:3000', awaitTimeoutMs: 2000 });
+      const tester = { ...createMockTester(false), waitFor: vi.fn(async () => true) };
+      const stagehand = createMockStagehand();
+      const context = makeContext({ tester, stagehand });
+
+      const result = await runner.runStep({ type: 'Await', instruction: 'The export finishes' }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.awaitResult?.strategy).toBe('semantic');
+      expect(result.awaitResult?.timeout).toBe(2000);
+      expect(tester.waitFor).toHaveBeenCalled();
+      expect(tester.assert).not.toHaveBeenCalled();
+      expect(stagehand.extract).not.toHaveBeenCalled();
+    });
+
+    it('should report the await error when the wait times out', async () => {
+      const runner = new SpecTestRunner({ baseUrl: 'http://localhost:3000' });
+      const page = createMockPage();
+      const tester = createMockTester(false);
+      const stagehand = createMockStagehand();
+      (runner as any).stagehand = stagehand;
+      (runner as any).tester = tester;
+      (runner as any).initialize = vi.fn(async () => ({ stagehand, tester }));
+      (runner as any).manageSession = vi.fn();
+      stagehand.context.activePage = vi.fn(() => page);
+
+      const result = await runner.runExample({
+        name: 'Export',
+        steps: [{ type: 'Await', instruction: 'The text "Export ready" appears (timeout: 10ms)' }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.failedAt?.context.error).toContain('Timed out after 10ms');
+    });
+  });
+
+  // --- runExample: captured variables ---
+
+  describe('runExample — captured variables', () => {
+    it('should interpolate captured values into later steps and return the scope', async () => {
+      const runner = new SpecTestRunner({ baseUrl: 'http://localhost:3000' });
+      const page = createMockPage();
+      page.url = vi.fn(() => 'http://localhost:3000/tickets/1042');
+      page.goto = vi.fn().mockResolvedValue(undefined);
+      const tester = createMockTester(true);
+      const stagehand = createMockStagehand();
+      (runner as any).initialize = vi.fn(async () => ({ stagehand, tester }));
+      (runner as any).manageSession = vi.fn();
+      stagehand.context.activePage = vi.fn(() => page);
+
+      const result = await runner.runExample({
+        name: 'Open ticket',
+        steps: [
+          { type: 'Capture', instruction: 'URL path segment 2 as {ticketId}' },
+          { type: 'Check', instruction: 'URL contains /tickets/{ticketId}', checkType: 'deterministic' },
+          { type: 'Act', instruction: 'Navigate to /tickets/{ticketId}/edit' },
+        ],
+      }, { variables: { queue: 'billing' } });
+
+      expect(result.success).toBe(true);
+      expect(result.steps[1].step.instruction).toBe('URL contains /tickets/1042');
+      expect(page.goto).toHaveBeenCalledWith('/tickets/1042/edit');
+      expect(result.variables).toEqual({ queue: 'billing', ticketId: '1042' });
+    });
+  });
+
+  // --- runExample: step snapshots ---
+
+  describe('runExample — step snapshots', () => {
+    it('should store the page HTML on every step when stepSnapshots is enabled', async () => {
+      const runner = new SpecTestRunner({ baseUrl: 'http://localhost:3000', stepSnapshots: true });
+      const page = createMockPage();
+      page.url = vi.fn(() => 'http://localhost:3000/tickets');
+      page.goto = vi.fn().mockResolvedValue(undefined);
+      page.content = vi.fn().mockResolvedValue('<main>Tickets</main>');
+      const stagehand = createMockStagehand();
+      (runner as any).initialize = vi.fn(async () => ({ stagehand, tester: createMockTester(true) }));
+      (runner as any).manageSession = vi.fn();
+      stagehand.context.activePage = vi.fn(() => page);
+
+      const result = await runner.runExample({
+        name: 'Open tickets',
+        steps: [
+          { type: 'Act', instruction: 'Navigate to /tickets' },
+          { type: 'Check', instruction: 'URL contains /tickets', checkType: 'deterministic' },
+        ],
+      });
+
+      expect(result.steps.map(s => s.pageSnapshot)).toEqual(['<main>Tickets</main>', '<main>Tickets</main>']);
+    });
+  });
+
+  // --- runExample: LLM usage ---
+
+  describe('runExample — LLM usage', () => {
+    it('should attribute recorded LLM calls to the step that made them and sum them on the example', async () => {
+      const runner = new SpecTestRunner({ baseUrl: 'http://localhost:3000' });
+      const page = createMockPage();
+      page.url = vi.fn(() => 'http://localhost:3000/tickets');
+      page.goto = vi.fn(async () => {
+        runner.usage.record({ operation: 'act', model: 'openai/gpt-4.1-mini', inputTokens: 1000, outputTokens: 100, latencyMs: 800 });
+      });
+      const stagehand = createMockStagehand();
+      (runner as any).initialize = vi.fn(async () => ({ stagehand, tester: createMockTester(true) }));
+      (runner as any).manageSession = vi.fn();
+      stagehand.context.activePage = vi.fn(() => page);
+
+      const result = await runner.runExample({
+        name: 'Open tickets',
+        steps: [
+          { type: 'Act', instruction: 'Navigate to /tickets' },
+          { type: 'Check', instruction: 'URL contains /tickets', checkType: 'deterministic' },
+        ],
+      });
+
+      expect(result.steps[0].usage).toMatchObject({ calls: 1, inputTokens: 1000, outputTokens: 100, byOperation: { act: { calls: 1 } } });
+      expect(result.steps[1].usage).toBeUndefined();
+      expect(result.usage?.cost).toBeCloseTo(0.00056);
+    });
+  });
+
   // --- runExample: session management ---
 
   describe('runExample — session management', () => {
@@ -1111,6 +1256,30 @@ describe('SpecTestRunner', () => {
         runner.runFromSpec(spec)
       ).rejects.toThrow('No examples found in specification');
     });
+
+    it('should run only the examples matching the tag filter', async () => {
+      const runner = new SpecTestRunner({ baseUrl: 'http://localhost:8080' });
+      const runExample = vi.spyOn(runner, 'runExample').mockImplementation(async example => ({
+        example, success: true, steps: [], duration: 1,
+      }));
+
+      const spec = {
+        name: 'Tickets',
+        tags: ['tickets'],
+        examples: [
+          { name: 'Create', steps: [], tags: ['smoke'] },
+          { name: 'Bulk import', steps: [], tags: ['smoke', 'slow'] },
+          { name: 'Archive', steps: [] },
+        ],
+      };
+
+      const result = await runner.runFromSpec(spec, undefined, { tags: ['smoke'], excludeTags: ['slow'] });
+
+      expect(runExample.mock.calls.map(([example]) => example.name)).toEqual(['Create']);
+      expect(result.exampleResults).toHaveLength(1);
+      await expect(runner.runFromSpec(spec, undefined, { excludeTags: ['tickets'] }))
+        .rejects.toThrow('No examples match tags not @tickets. Available: Create, Bulk import, Archive');
+    });
   });
 
   // --- Caching Configuration ---
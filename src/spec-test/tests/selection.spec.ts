@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { selectBehaviors } from "../../shared/selection";
+import type { HarborBehavior } from "../types";
+
+function behavior(id: string, dependencies: string[] = [], tags?: string[]): HarborBehavior {
+  return { id, title: id, dependencies: dependencies.map(behaviorId => ({ behaviorId })), examples: [], tags };
+}
+
+const behaviors = new Map([
+  behavior("sign-up"),
+  behavior("create-ticket", ["sign-up"], ["smoke"]),
+  behavior("assign-ticket", ["sign-up", "create-ticket"]),
+  behavior("export-report", [], ["slow"]),
+].map(b => [b.id, b] as const));
+
+describe("selectBehaviors", () => {
+  it("should return all behaviors without a filter", () => {
+    expect(selectBehaviors(behaviors, {})).toBe(behaviors);
+  });
+
+  it("should select by ID and pull in transitive dependencies in spec order", () => {
+    expect([...selectBehaviors(behaviors, { behaviorIds: ["assign-ticket"] }).keys()])
+      .toEqual(["sign-up", "create-ticket", "assign-ticket"]);
+  });
+
+  it("should select by tag, matching either filter", () => {
+    expect([...selectBehaviors(behaviors, { tags: ["smoke"] }).keys()]).toEqual(["sign-up", "create-ticket"]);
+    expect([...selectBehaviors(behaviors, { behaviorIds: ["export-report"], tags: ["smoke"] }).keys()])
+      .toEqual(["sign-up", "create-ticket", "export-report"]);
+  });
+
+  it("should narrow behaviors to tagged scenarios and keep dependencies whole", () => {
+    const scenario = (name: string, tags?: string[]) => ({ name, steps: [], tags });
+    const tagged = new Map([
+      { ...behavior("sign-up"), examples: [scenario("Valid sign up"), scenario("Weak password", ["slow"])] },
+      { ...behavior("create-ticket", ["sign-up"]), examples: [scenario("Quick ticket", ["smoke"]), scenario("Attachments", ["slow"])] },
+      { ...behavior("export-report", [], ["slow"]), examples: [scenario("CSV")] },
+    ].map(b => [b.id, b] as const));
+
+    const smoke = selectBehaviors(tagged, { tags: ["smoke"] });
+    expect([...smoke.keys()]).toEqual(["sign-up", "create-ticket"]);
+    expect(smoke.get("sign-up")!.examples).toHaveLength(2);
+    expect(smoke.get("create-ticket")!.examples.map(e => e.name)).toEqual(["Quick ticket"]);
+
+    const fast = selectBehaviors(tagged, { excludeTags: ["slow"] });
+    expect([...fast.keys()]).toEqual(["sign-up", "create-ticket"]);
+    expect(fast.get("sign-up")!.examples.map(e => e.name)).toEqual(["Valid sign up", "Weak password"]);
+    expect(fast.get("create-ticket")!.examples.map(e => e.name)).toEqual(["Quick ticket"]);
+
+    expect(selectBehaviors(tagged, { behaviorIds: ["export-report"], excludeTags: ["smoke"] }).get("export-report"))
+      .toBe(tagged.get("export-report"));
+  });
+
+  it("should reject unknown behavior IDs", () => {
+    expect(() => selectBehaviors(behaviors, { behaviorIds: ["close-ticket"] })).toThrow('Behavior "close-ticket" not found');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { SessionCache, emptyRouteHistory } from "../index";
+import type { CachedSession, ChainStep, HarborBehavior } from "../types";
+
+function step(id: string, scenarioName?: string): ChainStep {
+  const behavior: HarborBehavior = { id, title: id, dependencies: [], examples: [] };
+  return { behavior, scenarioName };
+}
+
+function session(url: string): CachedSession {
+  return {
+    state: { url, cookies: [], localStorage: {}, sessionStorage: {} },
+    credentials: { email: "user@example.com", password: "secret" },
+    history: emptyRouteHistory(),
+  };
+}
+
+describe("SessionCache", () => {
+  it("should key a chain prefix by behavior ids and pinned scenarios", () => {
+    const chain = [step("sign-up"), step("create-ticket", "Valid ticket"), step("close-ticket")];
+
+    expect(SessionCache.keyFor(chain, 1)).toBe("sign-up");
+    expect(SessionCache.keyFor(chain, 2)).toBe("sign-up → create-ticket:Valid ticket");
+  });
+
+  it("should return the longest cached prefix, never the target step", () => {
+    const cache = new SessionCache();
+    const chain = [step("sign-up"), step("create-ticket"), step("close-ticket")];
+    cache.set("sign-up", session("/dashboard"));
+    cache.set("sign-up → create-ticket", session("/tickets/1"));
+    cache.set("sign-up → create-ticket → close-ticket", session("/tickets"));
+
+    const found = cache.findLongestPrefix(chain);
+
+    expect(found?.key).toBe("sign-up → create-ticket");
+    expect(found?.length).toBe(2);
+    expect(found?.session.state.url).toBe("/tickets/1");
+  });
+
+  it("should fall back to a shorter prefix after invalidation", () => {
+    const cache = new SessionCache();
+    const chain = [step("sign-up"), step("create-ticket"), step("close-ticket")];
+    cache.set("sign-up", session("/dashboard"));
+    cache.set("sign-up → create-ticket", session("/tickets/1"));
+
+    cache.invalidate("sign-up → create-ticket");
+
+    expect(cache.findLongestPrefix(chain)?.key).toBe("sign-up");
+    expect(cache.size).toBe(1);
+    expect(cache.findLongestPrefix([step("sign-up")])).toBeNull();
+  });
+});
@@ -12,6 +12,8 @@ import {
   resetSession,
   navigateToPagePath,
   clearFormFields,
+  saveStorageState,
+  restoreStorageState,
 } from "../session-management";
 
 
@@ -243,3 +245,57 @@ describe("clearFormFields", () => {
     expect(page.evaluate).toHaveBeenCalled();
   });
 });
+
+describe("storage state snapshots", () => {
+  const state = {
+    url: "http://localhost:3000/tickets",
+    cookies: [{ name: "sid", value: "abc", domain: "localhost", path: "/", expires: -1, httpOnly: true, secure: false, sameSite: "Lax" as const }],
+    localStorage: { token: "t1" },
+    sessionStorage: {},
+  };
+
+  function makeStagehand() {
+    return {
+      context: {
+        cookies: vi.fn(async () => state.cookies),
+        addCookies: vi.fn(async () => {}),
+        clearCookies: vi.fn(async () => {}),
+      },
+    };
+  }
+
+  it("saveStorageState collects URL, cookies and storage", async () => {
+    const page = {
+      url: vi.fn(() => state.url),
+      evaluate: vi.fn(async () => ({ localStorage: state.localStorage, sessionStorage: {} })),
+    };
+
+    await expect(saveStorageState(page as any, makeStagehand() as any)).resolves.toEqual(state);
+  });
+
+  it("restoreStorageState applies cookies and storage, then opens the saved URL", async () => {
+    const stagehand = makeStagehand();
+    const page = {
+      goto: vi.fn(async () => {}),
+      evaluate: vi.fn(async () => {}),
+      url: vi.fn(() => state.url),
+      waitForLoadState: vi.fn(async () => {}),
+    };
+
+    await expect(restoreStorageState(page as any, stagehand as any, state)).resolves.toBe(true);
+    expect(stagehand.context.clearCookies).toHaveBeenCalled();
+    expect(stagehand.context.addCookies).toHaveBeenCalledWith(state.cookies);
+    expect(page.goto.mock.calls.map(c => c[0])).toEqual(["about:blank", "http://localhost:3000", state.url]);
+  });
+
+  it("restoreStorageState reports a stale session when redirected to sign-in", async () => {
+    const page = {
+      goto: vi.fn(async () => {}),
+      evaluate: vi.fn(async () => {}),
+      url: vi.fn(() => "http://localhost:3000/sign-in"),
+      waitForLoadState: vi.fn(async () => {}),
+    };
+
+    await expect(restoreStorageState(page as any, makeStagehand() as any, state)).resolves.toBe(false);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { calculateReward, generateSummary, aggregateResults } from '../index';
-import type { BehaviorContext } from '../types';
+import { calculateReward, generateSummary, aggregateResults, aggregateScenarioResults, createVerificationSummary } from '../index';
+import type { BehaviorContext, ScenarioContext } from '../types';
 
 describe('calculateReward', () => {
   it('calculates reward as passed/total', () => {
@@ -120,3 +120,63 @@ describe('generateSummary', () => {
     expect(summary).toContain('1 failed due to dependencies');
   });
 });
+
+describe('aggregateScenarioResults', () => {
+  it('passes only when every scenario passes', () => {
+    const scenarios: ScenarioContext[] = [
+      { scenarioName: 'Valid ticket', status: 'pass', duration: 1000 },
+      { scenarioName: 'Urgent ticket', status: 'pass', duration: 2000 },
+    ];
+
+    const result = aggregateScenarioResults('create-ticket', 'Create Ticket', scenarios);
+
+    expect(result.status).toBe('pass');
+    expect(result.duration).toBe(3000);
+    expect(result.scenarios).toBe(scenarios);
+  });
+
+  it('fails with the first failing scenario error', () => {
+    const result = aggregateScenarioResults('create-ticket', 'Create Ticket', [
+      { scenarioName: 'Valid ticket', status: 'pass', duration: 1000 },
+      { scenarioName: 'Missing subject', status: 'fail', error: 'No validation message', duration: 1000 },
+      { scenarioName: 'Urgent ticket', status: 'dependency_failed', failedDependency: 'Sign Up', duration: 0 },
+    ]);
+
+    expect(result.status).toBe('fail');
+    expect(result.error).toBe('No validation message');
+    expect(result.failedDependency).toBeUndefined();
+  });
+
+  it('reports dependency_failed when no scenario failed on its own', () => {
+    const result = aggregateScenarioResults('create-ticket', 'Create Ticket', [
+      { scenarioName: 'Valid ticket', status: 'dependency_failed', failedDependency: 'Sign Up', error: 'Dependency "Sign Up" failed', duration: 0 },
+    ]);
+
+    expect(result.status).toBe('dependency_failed');
+    expect(result.failedDependency).toBe('Sign Up');
+    expect(result.error).toBe('Dependency "Sign Up" failed');
+  });
+});
+
+describe('createVerificationSummary', () => {
+  it('lists unaffected behaviors without counting them in the reward', () => {
+    const summary = createVerificationSummary([
+      { behaviorId: 'create-ticket', behaviorName: 'Create Ticket', status: 'pass', duration: 1000 },
+    ], 1000, ['edit-profile', 'export-report']);
+
+    expect(summary.total).toBe(1);
+    expect(summary.reward).toBe(1);
+    expect(summary.unaffected).toEqual(['edit-profile', 'export-report']);
+    expect(summary.summary).toBe('1 behavior passed, 2 skipped as unaffected');
+    expect(createVerificationSummary([], 0)).not.toHaveProperty('unaffected');
+  });
+
+  it('passes vacuously when a change affects no behavior', () => {
+    const summary = createVerificationSummary([], 5, ['sign-up', 'create-ticket']);
+
+    expect(summary.total).toBe(0);
+    expect(summary.reward).toBe(1);
+    expect(summary.summary).toBe('Nothing to verify: 2 skipped as unaffected');
+    expect(createVerificationSummary([], 5).reward).toBe(0);
+  });
+});
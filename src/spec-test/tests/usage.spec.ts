@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import { UsageTracker, sumUsage, findModelPrice, formatUsage, instrumentStagehand, instrumentTester } from "../index";
+import type { LlmCall } from "../types";
+
+const actCall: LlmCall = { operation: "act", model: "openai/gpt-4.1-mini", inputTokens: 2000, outputTokens: 500, latencyMs: 900 };
+const assertCall: LlmCall = { operation: "assert", model: "gpt-4o-mini", inputTokens: 1000, outputTokens: 20, latencyMs: 300 };
+
+describe("UsageTracker", () => {
+  it("should sum the calls recorded after a mark with a per-operation breakdown", () => {
+    const tracker = new UsageTracker();
+    tracker.record(actCall);
+    const mark = tracker.mark();
+    tracker.record(actCall);
+    tracker.record(assertCall);
+
+    const usage = tracker.usageSince(mark)!;
+
+    expect(usage).toMatchObject({ calls: 2, inputTokens: 3000, outputTokens: 520, latencyMs: 1200 });
+    expect(usage.byOperation.act).toMatchObject({ calls: 1, inputTokens: 2000 });
+    expect(usage.byOperation.assert).toMatchObject({ calls: 1, outputTokens: 20 });
+    expect(tracker.total()!.calls).toBe(3);
+  });
+
+  it("should return undefined when no calls were made", () => {
+    const tracker = new UsageTracker();
+    expect(tracker.usageSince(tracker.mark())).toBeUndefined();
+  });
+
+  it("should price calls from the default table, custom prices and unknown models", () => {
+    const tracker = new UsageTracker({ "claude-sonnet-4": { input: 3, output: 15 } });
+    tracker.record(actCall);
+    expect(tracker.total()!.cost).toBeCloseTo((2000 * 0.4 + 500 * 1.6) / 1_000_000);
+
+    const mark = tracker.mark();
+    tracker.record({ ...actCall, model: "anthropic/claude-sonnet-4" });
+    tracker.record({ ...actCall, model: "local-llama" });
+    expect(tracker.usageSince(mark)!.cost).toBeCloseTo((2000 * 3 + 500 * 15) / 1_000_000);
+  });
+});
+
+describe("sumUsage", () => {
+  it("should add usages per operation and skip undefined entries", () => {
+    const tracker = new UsageTracker();
+    tracker.record(actCall);
+    const a = tracker.total();
+    tracker.record(assertCall);
+    const b = tracker.usageSince(1);
+
+    const total = sumUsage([a, undefined, b])!;
+
+    expect(total.calls).toBe(2);
+    expect(Object.keys(total.byOperation).sort()).toEqual(["act", "assert"]);
+    expect(sumUsage([undefined])).toBeUndefined();
+  });
+});
+
+describe("findModelPrice / formatUsage", () => {
+  it("should match provider-prefixed names and format a one-line summary", () => {
+    expect(findModelPrice("openai/gpt-4o")).toEqual({ input: 2.5, output: 10 });
+    expect(findModelPrice(undefined)).toBeUndefined();
+
+    const tracker = new UsageTracker();
+    tracker.record(actCall);
+    expect(formatUsage(tracker.total()!)).toBe("1 LLM call, 2,500 tokens, ~$0.0016");
+  });
+});
+
+describe("instrumentation", () => {
+  it("should record Stagehand inference reported through updateMetrics and keep the original metrics", () => {
+    const updateMetrics = vi.fn();
+    const stagehand = { updateMetrics, llmClient: { modelName: "openai/gpt-4.1-mini" } } as any;
+    const tracker = new UsageTracker();
+
+    instrumentStagehand(stagehand, tracker);
+    stagehand.updateMetrics("EXTRACT", 1200, 80, 0, 0, 450);
+
+    expect(updateMetrics).toHaveBeenCalledWith("EXTRACT", 1200, 80, 0, 0, 450);
+    expect(tracker.total()).toMatchObject({ calls: 1, inputTokens: 1200, outputTokens: 80, latencyMs: 450, byOperation: { extract: { calls: 1 } } });
+    expect(tracker.total()!.cost).toBeCloseTo((1200 * 0.4 + 80 * 1.6) / 1_000_000);
+  });
+
+  it("should record Tester.assert usage", () => {
+    let listener: ((usage: any) => void) | undefined;
+    const tester = { onUsage: vi.fn(l => { listener = l; }) } as any;
+    const tracker = new UsageTracker();
+
+    instrumentTester(tester, tracker);
+    listener!({ model: "gpt-4o-mini", inputTokens: 900, outputTokens: 10, latencyMs: 250 });
+
+    expect(tracker.total()).toMatchObject({ calls: 1, byOperation: { assert: { inputTokens: 900 } } });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { verifyBehaviorWithDependencies } from '../index';
-import { VerificationContext, CredentialTracker } from '../index';
+import { VerificationContext, CredentialTracker, SessionCache } from '../index';
 import type { HarborBehavior, ExampleResult } from '../types';
 
 describe('verifyBehaviorWithDependencies', () => {
@@ -372,4 +372,160 @@ describe('verifyBehaviorWithDependencies', () => {
     // Sign Up's status in context must still be 'pass'
     expect(context.getResult('sign-up')?.status).toBe('pass');
   });
+
+  it('runs every scenario of the target, each with its own chain, and aggregates the result', async () => {
+    const signUp: HarborBehavior = {
+      id: 'sign-up', title: 'Sign Up', dependencies: [],
+      examples: [{ name: 'Create account', steps: [] }],
+    };
+    const createTicket: HarborBehavior = {
+      id: 'create-ticket', title: 'Create Ticket', dependencies: [{ behaviorId: 'sign-up' }],
+      examples: [{ name: 'Valid ticket', steps: [] }, { name: 'Missing subject', steps: [] }],
+    };
+    const behaviors = new Map([['sign-up', signUp], ['create-ticket', createTicket]]);
+
+    // Chain 1: sign-up ok, valid ticket ok. Chain 2: sign-up ok, missing subject fails.
+    const outcomes = [true, true, true, false];
+    const runner = createMockRunner(true);
+    runner.runExample.mockImplementation(async (example: { name: string }) => ({
+      example, success: outcomes.shift(), steps: [], duration: 10,
+      failedAt: undefined,
+    }));
+
+    const result = await verifyBehaviorWithDependencies(
+      createTicket, behaviors, new VerificationContext(), new CredentialTracker(), runner
+    );
+
+    expect(runner.runExample).toHaveBeenCalledTimes(4);
+    expect(runner.runExample.mock.calls.map((c: any[]) => c[0].name)).toEqual([
+      'Create account', 'Valid ticket', 'Create account', 'Missing subject',
+    ]);
+    expect(runner.runExample.mock.calls[2][1]).toMatchObject({ clearSession: true });
+    expect(result.status).toBe('fail');
+    expect(result.scenarios?.map(s => [s.scenarioName, s.status])).toEqual([
+      ['Valid ticket', 'pass'],
+      ['Missing subject', 'fail'],
+    ]);
+  });
+
+  it('marks remaining scenarios dependency_failed without re-running a failed chain', async () => {
+    const signUp: HarborBehavior = {
+      id: 'sign-up', title: 'Sign Up', dependencies: [],
+      examples: [{ name: 'Create account', steps: [] }],
+    };
+    const createTicket: HarborBehavior = {
+      id: 'create-ticket', title: 'Create Ticket', dependencies: [{ behaviorId: 'sign-up' }],
+      examples: [{ name: 'Valid ticket', steps: [] }, { name: 'Missing subject', steps: [] }],
+    };
+    const behaviors = new Map([['sign-up', signUp], ['create-ticket', createTicket]]);
+    const runner = createMockRunner(false);
+
+    const result = await verifyBehaviorWithDependencies(
+      createTicket, behaviors, new VerificationContext(), new CredentialTracker(), runner
+    );
+
+    expect(runner.runExample).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe('dependency_failed');
+    expect(result.failedDependency).toBe('Sign Up');
+    expect(result.scenarios?.map(s => s.status)).toEqual(['dependency_failed', 'dependency_failed']);
+  });
+
+  it('passes captured variables along the chain, fresh for each scenario', async () => {
+    const createTicket: HarborBehavior = {
+      id: 'create-ticket', title: 'Create Ticket', dependencies: [],
+      examples: [{ name: 'Valid ticket', steps: [] }],
+    };
+    const addReply: HarborBehavior = {
+      id: 'add-reply', title: 'Add Reply', dependencies: [{ behaviorId: 'create-ticket' }],
+      examples: [{ name: 'Reply', steps: [] }, { name: 'Empty reply', steps: [] }],
+    };
+    const behaviors = new Map([['create-ticket', createTicket], ['add-reply', addReply]]);
+
+    const runner = createMockRunner(true);
+    runner.runExample.mockImplementation(async (example: { name: string }, options: { variables: Record<string, string> }) => ({
+      example, success: true, steps: [], duration: 10,
+      variables: example.name === 'Valid ticket' ? { ...options.variables, ticketId: '1042' } : options.variables,
+    }));
+
+    await verifyBehaviorWithDependencies(addReply, behaviors, new VerificationContext(), new CredentialTracker(), runner);
+
+    expect(runner.runExample.mock.calls.map((c: any[]) => c[1].variables)).toEqual([
+      {}, { ticketId: '1042' }, {}, { ticketId: '1042' },
+    ]);
+  });
+
+  it('fills parameterized page paths from values captured earlier in the chain', async () => {
+    const createTicket: HarborBehavior = {
+      id: 'create-ticket', title: 'Create Ticket', dependencies: [],
+      examples: [{ name: 'Valid ticket', steps: [] }],
+    };
+    const addReply: HarborBehavior = {
+      id: 'add-reply', title: 'Add Reply', dependencies: [{ behaviorId: 'create-ticket' }],
+      pagePath: '/tickets/:id', examples: [{ name: 'Reply', steps: [] }],
+    };
+    const behaviors = new Map([['create-ticket', createTicket], ['add-reply', addReply]]);
+
+    const runner = createMockRunner(true);
+    runner.runExample.mockImplementation(async (example: { name: string }) => ({
+      example, success: true, steps: [], duration: 10, variables: { ticketId: '1042' },
+    }));
+
+    await verifyBehaviorWithDependencies(addReply, behaviors, new VerificationContext(), new CredentialTracker(), runner);
+
+    expect(runner.runExample.mock.calls[1][1]).toMatchObject({ navigateToPath: '/tickets/1042' });
+  });
+
+  describe('with a session cache', () => {
+    const signUp: HarborBehavior = {
+      id: 'sign-up', title: 'Sign Up', dependencies: [],
+      examples: [{ name: 'Create account', steps: [] }],
+    };
+    const createTicket: HarborBehavior = {
+      id: 'create-ticket', title: 'Create Ticket', dependencies: [{ behaviorId: 'sign-up' }], pagePath: '/tickets',
+      examples: [{ name: 'Valid ticket', steps: [] }, { name: 'Missing subject', steps: [] }],
+    };
+    const behaviors = new Map([['sign-up', signUp], ['create-ticket', createTicket]]);
+    const savedState = { url: 'http://localhost:3000/dashboard', cookies: [], localStorage: { token: 't' }, sessionStorage: {} };
+
+    function createCachingRunner(restoreResult: boolean) {
+      const runner = createMockRunner(true);
+      runner.saveSessionState = vi.fn(async () => savedState);
+      runner.restoreSessionState = vi.fn(async () => restoreResult);
+      return runner;
+    }
+
+    it('saves the passing prefix and restores it instead of replaying Sign Up', async () => {
+      const runner = createCachingRunner(true);
+      const cache = new SessionCache();
+
+      const result = await verifyBehaviorWithDependencies(
+        createTicket, behaviors, new VerificationContext(), new CredentialTracker(), runner, cache
+      );
+
+      expect(result.status).toBe('pass');
+      expect(runner.saveSessionState).toHaveBeenCalledTimes(1);
+      expect(cache.get('sign-up')?.state).toBe(savedState);
+      expect(runner.restoreSessionState).toHaveBeenCalledWith(savedState);
+      expect(runner.runExample.mock.calls.map((c: any[]) => c[0].name)).toEqual([
+        'Create account', 'Valid ticket', 'Missing subject',
+      ]);
+      expect(runner.runExample.mock.calls[2][1]).toMatchObject({ clearSession: false, navigateToPath: '/tickets' });
+    });
+
+    it('drops a stale session and replays the full chain', async () => {
+      const runner = createCachingRunner(false);
+      const cache = new SessionCache();
+
+      await verifyBehaviorWithDependencies(
+        createTicket, behaviors, new VerificationContext(), new CredentialTracker(), runner, cache
+      );
+
+      expect(runner.restoreSessionState).toHaveBeenCalledTimes(1);
+      expect(runner.runExample.mock.calls.map((c: any[]) => c[0].name)).toEqual([
+        'Create account', 'Valid ticket', 'Create account', 'Missing subject',
+      ]);
+      expect(runner.runExample.mock.calls[2][1]).toMatchObject({ clearSession: true });
+      expect(runner.saveSessionState).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -1,29 +1,67 @@
 import type { Page } from "playwright";
 import type { Stagehand } from "@browserbasehq/stagehand";
-import type { Tester } from "../b-test";
+import type { Tester } from "../b-test/index.js";
 import type { LanguageModelV2 } from "@ai-sdk/provider";
 
 // Re-export all shared types for backwards compatibility
 export type {
   SpecStep,
   SpecExample,
+  OutlineSource,
   BehaviorDependency,
   ChainStep,
   HarborBehavior,
+  Rule,
+  RuleCoverage,
   BehaviorContext,
+  ScenarioContext,
   VerificationSummary,
   ActResult,
+  RecordedAction,
   CheckResult,
+  AwaitResult,
+  CaptureResult,
   FailureContext,
   StepResult,
   ExampleResult,
+  ExampleArtifacts,
+  ScenarioRecord,
+  StepRecord,
+  LlmOperation,
+  LlmCall,
+  LlmUsageTotals,
+  LlmUsage,
+  LlmBudget,
+  ModelPrice,
+  PriceTable,
+  CassetteOptions,
   ActContext,
   ActEvalResult,
   BehaviorRunner,
-} from "../shared/types";
+  RouteHistory,
+  StorageCookie,
+  StorageState,
+  CachedSession,
+  RouteStrategy,
+  VerifyOptions,
+  BehaviorOverride,
+  TagFilter,
+  ReportTestCase,
+  ReportSuite,
+  TestReport,
+  Reporter,
+  ReporterName,
+  ReporterOption,
+  Verbosity,
+  RunEventMap,
+  RunEventName,
+  RunEvent,
+} from "../shared/types.js";
 
 // Import shared types needed by spec-test-specific types
-import type { SpecStep, StepResult, SpecExample, FailureContext } from "../shared/types";
+import type { SpecStep, StepResult, SpecExample, FailureContext, ReporterOption, Verbosity, PriceTable, LlmBudget, CassetteOptions } from "../shared/types.js";
+import type { RunEventEmitter } from "../shared/events.js";
+import type { BudgetGuard } from "../shared/budget.js";
 
 /**
  * Configuration options for SpecTestRunner
@@ -50,6 +88,151 @@ export interface SpecTestConfig {
    * When true, cache path becomes: {cacheDir}/{spec-name}/
    */
   cachePerSpec?: boolean;
+  /**
+   * Default timeout for Await steps in ms (default: 30000).
+   * A step can override it inline: `* Await: Export is ready (timeout: 60s)`
+   */
+  awaitTimeoutMs?: number;
+  /**
+   * Store the page HTML on every StepResult (not just failures) so the HTML
+   * report can show each step's DOM. Default: false.
+   */
+  stepSnapshots?: boolean;
+  /** Screenshot, trace and video capture (default: all off) */
+  artifacts?: ArtifactConfig;
+  /** Reporters written after each runFromFile/runFromSpec (e.g. `["junit", "tap"]`) */
+  reporters?: ReporterOption[];
+  /** Directory for reporter output (default: `test-results`) */
+  reportDir?: string;
+  /** Receives step, oracle and session events (default: shared emitter printing to the console) */
+  events?: RunEventEmitter;
+  /** Console verbosity when no `events` emitter is given (default: "normal") */
+  verbosity?: Verbosity;
+  /** Model prices (USD per 1M tokens) for usage cost estimates, merged over DEFAULT_PRICES */
+  prices?: PriceTable;
+  /**
+   * Hard LLM limits (calls, tokens, estimated USD). Once reached, LLM calls are
+   * refused and the running behavior ends as budget_exceeded. Pass one
+   * BudgetGuard to several runners to share the budget.
+   */
+  budget?: LlmBudget | BudgetGuard;
+  /**
+   * Record every LLM response (Tester.assert and Stagehand act/observe/extract)
+   * to `dir`, or replay them for offline, repeatable runs. Replay fails with
+   * CassetteMissError on a prompt that was never recorded.
+   */
+  cassette?: CassetteOptions;
+  /**
+   * Compile passing examples of each runFromFile/runFromSpec into
+   * `<dir>/<spec>.spec.ts`, a standalone @playwright/test file (see compilePlaywrightTest)
+   */
+  playwrightDir?: string;
+}
+
+/**
+ * Options for compiling passing runs into a @playwright/test file
+ */
+export interface PlaywrightExportOptions {
+  /** Wrap the tests in `test.describe(title)` */
+  title?: string;
+  /** `baseURL` for `test.use` (default: origin of the first example's start URL) */
+  baseUrl?: string;
+  /** Package the generated file imports helpers from (default: "epic-test") */
+  packageName?: string;
+}
+
+/**
+ * Configuration options for DeterministicRunner
+ */
+export interface DeterministicRunnerConfig {
+  /** Base URL of the application under test */
+  baseUrl: string;
+  /** Use headless browser (default: true) */
+  headless?: boolean;
+  /** Time to find and act on an element, in ms (default: 5000) */
+  actionTimeoutMs?: number;
+  /** Default timeout for Await steps in ms (default: 30000) */
+  awaitTimeoutMs?: number;
+  /**
+   * Hybrid mode: escalate steps that cannot be resolved deterministically to a
+   * SpecTestRunner (adaptive act loop, semantic oracles) sharing the browser.
+   * `true` uses `baseUrl` and `headless`; an object overrides SpecTestRunner
+   * options. Off by default: such steps fail as unresolved and no model is called.
+   */
+  hybrid?: boolean | Partial<SpecTestConfig>;
+  /** Receives step, oracle and session events (default: shared emitter printing to the console) */
+  events?: RunEventEmitter;
+  /** Console verbosity when no `events` emitter is given (default: "normal") */
+  verbosity?: Verbosity;
+}
+
+/**
+ * Problems lintSpec reports:
+ * - unknown-dependency / dependency-cycle: would throw while building the chain
+ * - unknown-scenario: a dependency's scenario name that would fall back to the first scenario
+ * - page-behavior-undefined / behavior-not-on-page: `## Pages` and `## Behaviors` disagree
+ * - scenario-without-check: a scenario that verifies nothing
+ * - deterministic-check-without-handler: a Check that would fail as an unrecognized pattern
+ * - duplicate-slug: two behaviors load under the same id
+ * - missing-spec-file: prd.json points at a file that does not exist
+ * - no-behaviors: nothing to run
+ */
+export type LintRule =
+  | "unknown-dependency"
+  | "dependency-cycle"
+  | "unknown-scenario"
+  | "page-behavior-undefined"
+  | "behavior-not-on-page"
+  | "scenario-without-check"
+  | "deterministic-check-without-handler"
+  | "duplicate-slug"
+  | "missing-spec-file"
+  | "no-behaviors";
+
+/** Errors break a run; warnings flag specs that run but verify less than intended. */
+export type LintSeverity = "error" | "warning";
+
+/**
+ * A lintSpec finding, located at a spec file line
+ */
+export interface LintDiagnostic {
+  /** Spec file the problem is in */
+  file: string;
+  /** 1-based line */
+  line: number;
+  severity: LintSeverity;
+  rule: LintRule;
+  message: string;
+  /** Behavior the problem belongs to, when there is one */
+  behaviorId?: string;
+}
+
+/**
+ * When an artifact is kept:
+ * - off: never recorded
+ * - on-failure: kept only for failed examples
+ * - always: kept for every example
+ */
+export type ArtifactMode = "off" | "on-failure" | "always";
+
+/**
+ * Artifact capture settings for SpecTestRunner.
+ */
+export interface ArtifactConfig {
+  /**
+   * Screenshots after each Act step and at the failing step (default: "on-failure").
+   * With "on-failure" only the failing step is captured.
+   */
+  screenshots?: ArtifactMode;
+  /** Playwright trace zip per example (default: "off"). Needs a page with a Playwright context. */
+  trace?: ArtifactMode;
+  /**
+   * Video per example (default: "off"). Needs a Playwright context created with
+   * `recordVideo`; the file stays in that context's video directory.
+   */
+  video?: ArtifactMode;
+  /** Base directory; each run gets its own subdirectory (default: `test-results/artifacts`) */
+  dir?: string;
 }
 
 /**
@@ -67,6 +250,8 @@ export interface TestableSpec {
   directory?: string;
   /** Named examples from the Examples section */
   examples: SpecExample[];
+  /** Tags from the H1 (`# Create Ticket @smoke`) or feature tags, without the `@` */
+  tags?: string[];
 }
 
 /**
@@ -78,9 +263,11 @@ export interface SpecTestResult {
   /** Spec that was executed */
   spec: TestableSpec;
   /** Results for each example that was run */
-  exampleResults: import("../shared/types").ExampleResult[];
+  exampleResults: import("../shared/types.js").ExampleResult[];
   /** Total execution duration in ms */
   duration: number;
+  /** LLM usage of all executed examples, when any LLM calls were made */
+  usage?: import("../shared/types.js").LlmUsage;
   /**
    * @deprecated Use exampleResults[n].steps instead
    * Kept for backwards compatibility with single-example specs
@@ -118,5 +305,7 @@ export interface StepContext {
   /** Current behavior ID (for credential tracking) */
   currentBehaviorId?: string;
   /** Credential tracker (for Sign Up/Sign In) */
-  credentialTracker?: import('../shared/credential-tracker').CredentialTracker;
+  credentialTracker?: import('../shared/credential-tracker.js').CredentialTracker;
+  /** Variables captured so far in this example, keyed by name (mutated by Capture steps) */
+  variables?: Record<string, string>;
 }
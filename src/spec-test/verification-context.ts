@@ -1,2 +1,2 @@
 // Re-export from shared for backwards compatibility
-export { VerificationContext } from "../shared/verification-context";
+export { VerificationContext } from "../shared/verification-context.js";
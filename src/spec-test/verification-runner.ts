@@ -1,42 +1,160 @@
-import type { HarborBehavior, BehaviorContext, SpecExample, ExampleResult, BehaviorRunner } from "./types";
-import { VerificationContext } from "./verification-context";
-import { CredentialTracker, processStepsWithCredentials } from "./credential-tracker";
-import { buildDependencyChain } from "./dependency-chain";
+import type {
+  HarborBehavior, BehaviorContext, ScenarioContext, SpecExample, ExampleResult, BehaviorRunner, ChainStep, RouteHistory, LlmUsage,
+} from "./types.js";
+import { VerificationContext } from "./verification-context.js";
+import { CredentialTracker, processStepsWithCredentials } from "./credential-tracker.js";
+import { buildDependencyChain } from "./dependency-chain.js";
+import { aggregateScenarioResults, toScenarioRecord } from "./summary.js";
+import { emptyRouteHistory, recordRouteHistory, resolvePagePath } from "../shared/route-params.js";
+import { SessionCache } from "../shared/session-cache.js";
+import { defaultRunEvents, type RunEventEmitter } from "../shared/events.js";
+import { sumUsage } from "../shared/usage.js";
 
 /**
- * Verify a behavior along with its full dependency chain.
+ * Verify every scenario of a behavior, each along its full dependency chain.
  *
- * Chain: Sign Up (creates account + logs in) → ... → target behavior.
+ * Chain: Sign Up (creates account + logs in) → ... → target scenario.
  * Only the first chain step clears browser state; subsequent steps preserve
- * localStorage/cookies via soft navigation.
+ * localStorage/cookies via soft navigation. Each scenario gets a fresh chain;
+ * the behavior's status aggregates the per-scenario results. Variables captured
+ * by one chain step are passed on to the next, so a scenario can reference
+ * `{ticketId}` captured by a dependency; captured values and visited URLs also
+ * fill parameterized page paths (`/tickets/:id`) before navigating.
+ *
+ * With a SessionCache, each passing dependency prefix is snapshotted and later
+ * chains restore the longest saved prefix instead of replaying it.
+ *
+ * Every chain link is announced as a `chainStep` event on `events`.
  */
 export async function verifyBehaviorWithDependencies(
   targetBehavior: HarborBehavior,
   allBehaviors: Map<string, HarborBehavior>,
   context: VerificationContext,
   credentialTracker: CredentialTracker,
-  runner: BehaviorRunner
+  runner: BehaviorRunner,
+  sessionCache?: SessionCache,
+  events: RunEventEmitter = runner.events ?? defaultRunEvents(),
 ): Promise<BehaviorContext> {
   const skipCheck = context.shouldSkip(targetBehavior.dependencies.map(d => d.behaviorId));
   if (skipCheck.skip) return skipResult(targetBehavior, skipCheck.reason!);
 
+  if (targetBehavior.examples.length === 0) {
+    return failResult(targetBehavior, `No examples found for behavior: ${targetBehavior.title}`);
+  }
+
   const chain = buildDependencyChain(targetBehavior.id, allBehaviors);
-  const startTime = Date.now();
+  const scenarios: ScenarioContext[] = [];
+
+  for (const [index, targetExample] of targetBehavior.examples.entries()) {
+    // The chain before the target is identical for every scenario — once a dependency fails, it fails for all.
+    // Likewise, once the LLM budget has cut a scenario off, the remaining ones cannot run either.
+    const previous = scenarios[scenarios.length - 1];
+    if (previous?.status === 'dependency_failed' || previous?.status === 'budget_exceeded') {
+      scenarios.push({ ...previous, scenarioName: targetExample.name, duration: 0 });
+      continue;
+    }
+
+    if (index > 0) credentialTracker.reset();
+    scenarios.push(await verifyScenarioChain(targetBehavior, targetExample, chain, credentialTracker, runner, sessionCache, events));
+  }
 
-  let isFirstInChain = true;
-  for (const { behavior, scenarioName } of chain) {
-    const example = resolveExample(behavior, scenarioName);
-    if (!example) return failResult(targetBehavior, `No examples found for behavior: ${behavior.title}`, startTime);
+  return aggregateScenarioResults(targetBehavior.id, targetBehavior.title, scenarios);
+}
 
-    const result = await runChainStep(behavior, example, isFirstInChain, credentialTracker, runner);
+/** Run the dependency chain ending in one scenario of the target behavior. Usage sums every chain step. */
+async function verifyScenarioChain(
+  targetBehavior: HarborBehavior,
+  targetExample: SpecExample,
+  chain: ChainStep[],
+  credentialTracker: CredentialTracker,
+  runner: BehaviorRunner,
+  sessionCache: SessionCache | undefined,
+  events: RunEventEmitter,
+): Promise<ScenarioContext> {
+  const startTime = Date.now();
+
+  const resumed = await resumeFromCache(chain, sessionCache, runner, credentialTracker, events);
+  const start = resumed?.length ?? 0;
+  let isFirstInChain = !resumed;
+  let history = resumed?.history ?? emptyRouteHistory();
+  let targetResult: ExampleResult | undefined;
+  let usage: LlmUsage | undefined;
+  for (let i = start; i < chain.length; i++) {
+    const { behavior, scenarioName } = chain[i];
+    const example = behavior.id === targetBehavior.id ? targetExample : resolveExample(behavior, scenarioName);
+    if (!example) return { ...scenarioFail(targetExample, `No examples found for behavior: ${behavior.title}`, startTime), usage };
+
+    const position = { targetId: targetBehavior.id, index: i, length: chain.length };
+    const result = await runChainStep(behavior, example, isFirstInChain, credentialTracker, runner, history, position, events);
     isFirstInChain = false;
 
-    if (result instanceof Error) return crashResult(targetBehavior, behavior, result.message, startTime);
+    if (result instanceof Error) return { ...crashResult(targetBehavior, targetExample, behavior, result.message, startTime), usage };
+    usage = sumUsage([usage, result.usage]);
+    history = recordRouteHistory(history, result);
     captureSignUpCredentials(behavior, example, credentialTracker);
-    if (!result.success) return stepFailureResult(targetBehavior, behavior, result, startTime);
+    if (!result.success) return { ...stepFailureResult(targetBehavior, targetExample, behavior, result, startTime), usage };
+    if (i < chain.length - 1) {
+      await saveToCache(chain, i + 1, sessionCache, runner, credentialTracker, history, events);
+    } else {
+      targetResult = result;
+    }
+  }
+
+  return { scenarioName: targetExample.name, status: 'pass', result: targetResult && toScenarioRecord(targetResult), usage, duration: Date.now() - startTime };
+}
+
+/** Restore the longest cached chain prefix, or return null to replay the chain from the start. */
+async function resumeFromCache(
+  chain: ChainStep[],
+  sessionCache: SessionCache | undefined,
+  runner: BehaviorRunner,
+  credentialTracker: CredentialTracker,
+  events: RunEventEmitter,
+): Promise<{ length: number; history: RouteHistory } | null> {
+  if (!sessionCache || !runner.restoreSessionState) return null;
+  const cached = sessionCache.findLongestPrefix(chain);
+  if (!cached) return null;
+
+  let restored = false;
+  try {
+    restored = await runner.restoreSessionState(cached.session.state);
+  } catch (error) {
+    events.log("verifyScenarioChain", `Restoring "${cached.key}" failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!restored) {
+    events.emit("fallbackUsed", {
+      scope: "verifyScenarioChain", from: "session cache", to: "chain replay", reason: `Cached session "${cached.key}" is stale`,
+    });
+    sessionCache.invalidate(cached.key);
+    return null;
   }
 
-  return passResult(targetBehavior, startTime);
+  events.log("verifyScenarioChain", `Restored session "${cached.key}" — skipping ${cached.length} chain step(s)`);
+  credentialTracker.setCredentials(cached.session.credentials);
+  return { length: cached.length, history: cached.session.history };
+}
+
+/** Snapshot the session after a passing dependency, unless that prefix is already cached. */
+async function saveToCache(
+  chain: ChainStep[],
+  length: number,
+  sessionCache: SessionCache | undefined,
+  runner: BehaviorRunner,
+  credentialTracker: CredentialTracker,
+  history: RouteHistory,
+  events: RunEventEmitter,
+): Promise<void> {
+  if (!sessionCache || !runner.saveSessionState) return;
+  const key = SessionCache.keyFor(chain, length);
+  if (sessionCache.get(key)) return;
+
+  try {
+    const state = await runner.saveSessionState();
+    sessionCache.set(key, { state, credentials: credentialTracker.getCredentials(), history });
+    events.log("verifyScenarioChain", `Saved session "${key}"`, "debug");
+  } catch (error) {
+    events.log("verifyScenarioChain", `Saving session "${key}" failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
 
 function resolveExample(behavior: HarborBehavior, scenarioName?: string): SpecExample | undefined {
@@ -50,18 +168,29 @@ async function runChainStep(
   isFirstInChain: boolean,
   credentialTracker: CredentialTracker,
   runner: BehaviorRunner,
+  history: RouteHistory,
+  position: { targetId: string; index: number; length: number },
+  events: RunEventEmitter,
 ): Promise<ExampleResult | Error> {
   const processedSteps = processStepsWithCredentials(behavior, example.steps, credentialTracker, example.name);
-  const navigateToPath = (isFirstInChain || !behavior.pagePath) ? undefined : behavior.pagePath;
+  const navigateToPath = (isFirstInChain || !behavior.pagePath) ? undefined : resolvePagePath(behavior.pagePath, history, events).path;
   const creds = credentialTracker.getCredentials();
 
-  console.log(`Chain: ${behavior.id} — ${processedSteps.length} steps, email=${creds.email ?? '(none)'}${navigateToPath ? `, navigateTo=${navigateToPath}` : ''}`);
+  events.emit("chainStep", {
+    ...position,
+    behaviorId: behavior.id,
+    scenarioName: example.name,
+    steps: processedSteps.length,
+    email: creds.email,
+    navigateToPath,
+  });
 
   try {
     return await runner.runExample({ ...example, steps: processedSteps }, {
       clearSession: isFirstInChain,
       navigateToPath,
       credentials: creds,
+      variables: history.variables,
     });
   } catch (error) {
     return error instanceof Error ? error : new Error(String(error));
@@ -81,26 +210,43 @@ function skipResult(target: HarborBehavior, reason: string): BehaviorContext {
   return { behaviorId: target.id, behaviorName: target.title, status: 'dependency_failed', failedDependency: reason, duration: 0 };
 }
 
-function passResult(target: HarborBehavior, startTime: number): BehaviorContext {
-  return { behaviorId: target.id, behaviorName: target.title, status: 'pass', duration: Date.now() - startTime };
+function failResult(target: HarborBehavior, error: string): BehaviorContext {
+  return { behaviorId: target.id, behaviorName: target.title, status: 'fail', error, duration: 0 };
 }
 
-function failResult(target: HarborBehavior, error: string | undefined, startTime: number): BehaviorContext {
-  return { behaviorId: target.id, behaviorName: target.title, status: 'fail', error, duration: Date.now() - startTime };
+function scenarioFail(example: SpecExample, error: string | undefined, startTime: number): ScenarioContext {
+  return { scenarioName: example.name, status: 'fail', error, duration: Date.now() - startTime };
 }
 
-function crashResult(target: HarborBehavior, dep: HarborBehavior, message: string, startTime: number): BehaviorContext {
-  if (dep.id === target.id) return failResult(target, `Runner crash: ${message}`, startTime);
-  return depFailResult(target, dep.title, `Dependency "${dep.title}" crashed: ${message}`, startTime);
+function crashResult(
+  target: HarborBehavior, example: SpecExample, dep: HarborBehavior, message: string, startTime: number,
+): ScenarioContext {
+  if (dep.id === target.id) return scenarioFail(example, `Runner crash: ${message}`, startTime);
+  return depFailResult(example, dep.title, `Dependency "${dep.title}" crashed: ${message}`, startTime);
 }
 
-function stepFailureResult(target: HarborBehavior, dep: HarborBehavior, result: ExampleResult, startTime: number): BehaviorContext {
-  if (dep.id === target.id) return failResult(target, result.failedAt?.context.error, startTime);
+function stepFailureResult(
+  target: HarborBehavior, example: SpecExample, dep: HarborBehavior, result: ExampleResult, startTime: number,
+): ScenarioContext {
+  if (result.budgetExceeded) {
+    const ownStep = dep.id === target.id;
+    return {
+      scenarioName: example.name,
+      status: 'budget_exceeded',
+      error: result.failedAt?.context.error,
+      failedStep: ownStep ? result.failedAt?.step : undefined,
+      result: ownStep ? toScenarioRecord(result) : undefined,
+      duration: Date.now() - startTime,
+    };
+  }
+  if (dep.id === target.id) {
+    return { ...scenarioFail(example, result.failedAt?.context.error, startTime), failedStep: result.failedAt?.step, result: toScenarioRecord(result) };
+  }
   const depError = result.failedAt?.context.error;
   const message = depError ? `Dependency "${dep.title}" failed: ${depError}` : `Dependency "${dep.title}" failed`;
-  return depFailResult(target, dep.title, message, startTime);
+  return depFailResult(example, dep.title, message, startTime);
 }
 
-function depFailResult(target: HarborBehavior, depTitle: string, error: string, startTime: number): BehaviorContext {
-  return { behaviorId: target.id, behaviorName: target.title, status: 'dependency_failed', failedDependency: depTitle, error, duration: Date.now() - startTime };
+function depFailResult(example: SpecExample, depTitle: string, error: string, startTime: number): ScenarioContext {
+  return { scenarioName: example.name, status: 'dependency_failed', failedDependency: depTitle, error, duration: Date.now() - startTime };
 }